@@ -26,10 +26,10 @@ main:
     ; Test [REG-offset] - negative offset (already tested above)
     
     ; Test [REG+REG] - register + register
-    MOV ECX, 0x1000    ; Base address
-    MOV EDX, 4         ; Offset
-    MOV [ECX+EDX], 99  ; Store 99 at address 0x1004
-    MOV ESI, [ECX+EDX] ; Load back (ESI = 99)
+    MOV ECX, 0x1000         ; Base address
+    MOV EDX, 4              ; Offset
+    MOV DWORD [ECX+EDX], 99 ; Store 99 at address 0x1004
+    MOV ESI, [ECX+EDX]      ; Load back (ESI = 99)
     
     POP EBX            ; Clean stack
     POP EBX
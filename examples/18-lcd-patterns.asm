@@ -9,7 +9,7 @@ main:
 top_loop:
     MOV EAX, 0xF000
     ADD EAX, ECX
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     INC ECX
     CMP ECX, 16
     JNE top_loop
@@ -24,7 +24,7 @@ bottom_loop:
     MUL EBX
     ADD EAX, ECX
     ADD EAX, 0xF000
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     INC ECX
     CMP ECX, 16
     JNE bottom_loop
@@ -39,7 +39,7 @@ left_loop:
     MOV EBX, 16
     MUL EBX
     ADD EAX, 0xF000
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     INC ECX
     CMP ECX, 16
     JNE left_loop
@@ -55,7 +55,7 @@ right_loop:
     MUL EBX
     ADD EAX, 15
     ADD EAX, 0xF000
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     INC ECX
     CMP ECX, 16
     JNE right_loop
@@ -71,7 +71,7 @@ h_cross_loop:
     MUL EBX
     ADD EAX, ECX
     ADD EAX, 0xF000
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     INC ECX
     CMP ECX, 16
     JNE h_cross_loop
@@ -87,7 +87,7 @@ v_cross_loop:
     MUL EBX
     ADD EAX, 8
     ADD EAX, 0xF000
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     INC ECX
     CMP ECX, 16
     JNE v_cross_loop
@@ -16,7 +16,7 @@ main:
     ; Test PUSH with memory
     MOV ECX, ESP
     ADD ECX, 8         ; Point to saved EBX
-    PUSH [ECX]         ; Push memory value (100)
+    PUSH DWORD [ECX]   ; Push memory value (100)
     
     ; Now stack has: [initial_ESP, 100, 200, 100]
     
@@ -18,6 +18,9 @@
 ;   State vars: 0x2000+
 ;   LCD memory: 0xF000-0xFFFF (mapped to 64x64 grid, 4096 pixels)
 ;
+; Frames are paced by the interval timer (0x10400): one frame every
+; FRAME_CYCLES simulated cycles, however long drawing takes.
+;
 ; Constants
 GRID_SIZE:      EQU 64
 LCD_BASE:       EQU 0xF000
@@ -33,6 +36,11 @@ STATE_FOOD_Y:   EQU 0x2014
 KB_STATUS:      EQU 0x10100
 KB_KEYCODE:     EQU 0x10101
 
+TIMER_CTRL:     EQU 0x10400
+TIMER_RELOAD:   EQU 0x10401
+TIMER_STATUS:   EQU 0x10403
+FRAME_CYCLES:   EQU 50000
+
 KEY_SPACE:      EQU 32
 KEY_UP:         EQU 128
 KEY_DOWN:       EQU 129
@@ -51,6 +59,10 @@ start:
     CALL wait_for_space
     CALL init_game
 
+    ; Start the frame timer
+    MOV DWORD [TIMER_RELOAD], FRAME_CYCLES
+    MOV DWORD [TIMER_CTRL], 1
+
 main_loop:
     CALL read_input
     CALL move_snake
@@ -93,7 +105,7 @@ draw_start_screen:
     IMUL EAX, EBX
     ADD EAX, 30
     ADD EAX, LCD_BASE
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
 
     ; Row 1: (30,29) (31,29)
     MOV EAX, 29
@@ -101,9 +113,9 @@ draw_start_screen:
     IMUL EAX, EBX
     ADD EAX, 30
     ADD EAX, LCD_BASE
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     ADD EAX, 1
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
 
     ; Row 2: (30,30) (31,30) (32,30)
     MOV EAX, 30
@@ -111,11 +123,11 @@ draw_start_screen:
     IMUL EAX, EBX
     ADD EAX, 30
     ADD EAX, LCD_BASE
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     ADD EAX, 1
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     ADD EAX, 1
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
 
     ; Row 3: (30,31) (31,31) (32,31) (33,31)
     MOV EAX, 31
@@ -123,13 +135,13 @@ draw_start_screen:
     IMUL EAX, EBX
     ADD EAX, 30
     ADD EAX, LCD_BASE
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     ADD EAX, 1
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     ADD EAX, 1
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     ADD EAX, 1
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
 
     ; Row 4: (30,32) (31,32) (32,32) (33,32) (34,32) - widest point
     MOV EAX, 32
@@ -137,15 +149,15 @@ draw_start_screen:
     IMUL EAX, EBX
     ADD EAX, 30
     ADD EAX, LCD_BASE
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     ADD EAX, 1
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     ADD EAX, 1
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     ADD EAX, 1
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     ADD EAX, 1
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
 
     ; Row 5: (30,33) (31,33) (32,33) (33,33)
     MOV EAX, 33
@@ -153,13 +165,13 @@ draw_start_screen:
     IMUL EAX, EBX
     ADD EAX, 30
     ADD EAX, LCD_BASE
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     ADD EAX, 1
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     ADD EAX, 1
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     ADD EAX, 1
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
 
     ; Row 6: (30,34) (31,34) (32,34)
     MOV EAX, 34
@@ -167,11 +179,11 @@ draw_start_screen:
     IMUL EAX, EBX
     ADD EAX, 30
     ADD EAX, LCD_BASE
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     ADD EAX, 1
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     ADD EAX, 1
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
 
     ; Row 7: (30,35) (31,35)
     MOV EAX, 35
@@ -179,9 +191,9 @@ draw_start_screen:
     IMUL EAX, EBX
     ADD EAX, 30
     ADD EAX, LCD_BASE
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     ADD EAX, 1
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
 
     ; Row 8: (30,36)
     MOV EAX, 36
@@ -189,7 +201,7 @@ draw_start_screen:
     IMUL EAX, EBX
     ADD EAX, 30
     ADD EAX, LCD_BASE
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
 
     POP EBX
     POP EAX
@@ -247,17 +259,17 @@ init_game:
 
     ; Build initial snake (3 segments)
     MOV EAX, SNAKE_BODY
-    MOV [EAX], 32
+    MOV DWORD [EAX], 32
     ADD EAX, 4
-    MOV [EAX], 32
+    MOV DWORD [EAX], 32
     ADD EAX, 4
-    MOV [EAX], 31
+    MOV DWORD [EAX], 31
     ADD EAX, 4
-    MOV [EAX], 32
+    MOV DWORD [EAX], 32
     ADD EAX, 4
-    MOV [EAX], 30
+    MOV DWORD [EAX], 30
     ADD EAX, 4
-    MOV [EAX], 32
+    MOV DWORD [EAX], 32
 
     CALL spawn_food
     CALL draw_game
@@ -624,7 +636,7 @@ clear_lcd:
     MOV EAX, LCD_BASE
     MOV EBX, 4096
 clear_loop:
-    MOV [EAX], 0
+    MOV DWORD [EAX], 0
     ADD EAX, 1
     SUB EBX, 1
     CMP EBX, 0
@@ -650,7 +662,7 @@ draw_pixel:
     MUL EDX
     ADD EAX, ECX
     ADD EAX, LCD_BASE
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
 
     POP EDX
     POP EAX
@@ -659,18 +671,17 @@ draw_pixel:
     RET
 
 ; ============================================
-; Small delay for game speed
+; Wait for the next frame tick of the timer
 ; ============================================
 game_delay:
     PUSH EBP
     MOV EBP, ESP
     PUSH EAX
 
-    MOV EAX, 10000
-spin_delay:
-    SUB EAX, 1
+wait_tick:
+    MOV EAX, [TIMER_STATUS]
     CMP EAX, 0
-    JNE spin_delay
+    JE wait_tick
 
     POP EAX
     MOV ESP, EBP
@@ -698,7 +709,7 @@ flash_wait_on:
     MOV EAX, LCD_BASE
     MOV ECX, 4096
 flash_fill:
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     ADD EAX, 1
     SUB ECX, 1
     CMP ECX, 0
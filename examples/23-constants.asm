@@ -8,7 +8,7 @@ main:
     
     ; Using constant in calculation
     MOV EAX, LCD_BASE
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     
     ; Calculate pixel (0, 1)
     MOV EAX, 0       ; Y = 0
@@ -17,6 +17,6 @@ main:
     MUL EBX          ; EAX = Y * GRID_SIZE
     ADD EAX, ECX     ; EAX = Y * GRID_SIZE + X
     ADD EAX, LCD_BASE
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     
     HLT
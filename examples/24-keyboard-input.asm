@@ -49,7 +49,7 @@ queue_empty:
     MOV EAX, 0xF000
     MOV ECX, 0
 fill_loop:
-    MOV [EAX], 1
+    MOV DWORD [EAX], 1
     ADD EAX, 1
     ADD ECX, 1
     CMP ECX, 64
@@ -1,13 +1,13 @@
 ; Test 35: INT3 Breakpoint Instruction
 ; Tests: INT3 - software breakpoint for debugging
-; Expected: Execution halts at INT3
+; Expected: Execution stops at INT3 (#BP exception)
 
 main:
     MOV EAX, 1         ; Step 1
     MOV EBX, 2         ; Step 2
     ADD EAX, EBX       ; EAX = 3
 
-    INT3                ; Breakpoint! Execution halts here
+    INT3                ; Breakpoint! Execution stops here
                         ; Use this to inspect: EAX=3, EBX=2
 
     ; Code below only runs if debugger continues past INT3
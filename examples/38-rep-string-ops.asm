@@ -0,0 +1,52 @@
+; Test 38: REP-prefixed String Operations
+; Tests: CLD, STD, REP STOSB, REP MOVSD, REPNE SCASB, REPE CMPSB
+; Expected: Buffer filled and copied, string length 6, strings differ at 'X'
+
+.data
+ORG 0x1000
+    text:    DB 'T', 'o', 'n', 'X', '8', '6', 0
+    other:   DB 'T', 'o', 'n', 'Y', '8', '6', 0
+
+.text
+main:
+    CLD                 ; ESI/EDI count upwards
+
+    ; === memset: fill 16 bytes at 0x2000 with 0xAA ===
+    MOV EDI, 0x2000
+    MOV EAX, 0xAA
+    MOV ECX, 16
+    REP STOSB           ; ECX = 0, EDI = 0x2010
+
+    ; === memcpy: copy those 16 bytes to 0x3000 as 4 dwords ===
+    MOV ESI, 0x2000
+    MOV EDI, 0x3000
+    MOV ECX, 4
+    REP MOVSD           ; ESI = 0x2010, EDI = 0x3010
+
+    ; === strlen: scan for the zero terminator ===
+    MOV EDI, text
+    MOV EAX, 0
+    MOV ECX, 0xFFFFFFFF
+    REPNE SCASB         ; Stops after the terminator
+    NOT ECX
+    DEC ECX             ; ECX = 6
+
+    ; === strcmp: compare until the first difference ===
+    MOV ESI, text
+    MOV EDI, other
+    MOV ECX, 7
+    REPE CMPSB          ; Stops after 'X' vs 'Y', ZF = 0
+    JE strings_equal
+    DEC ESI             ; ESI points at the 'X'
+    LODSB               ; AL = 'X'
+
+    ; === STD: fill backwards from 0x20FF ===
+    STD
+    MOV EDI, 0x20FF
+    MOV EAX, 0x55
+    MOV ECX, 4
+    REP STOSB           ; 0x20FC-0x20FF = 0x55, EDI = 0x20FB
+    CLD
+
+strings_equal:
+    HLT
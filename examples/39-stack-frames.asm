@@ -0,0 +1,37 @@
+; Test 39: Stack Frames and Flag Saving
+; Tests: ENTER, LEAVE, PUSHA, POPA, PUSHF, POPF, CLC, STC, CMC
+; Expected: EAX=42, EBX/ECX preserved across the call, CF=1 at the end
+
+main:
+    ; Keep the stack below the memory-mapped LCD (0xF000-0xFFFF) so that
+    ; [EBP-n] locals are read and written as ordinary memory
+    MOV ESP, 0xE000
+    MOV EBX, 0x1111
+    MOV ECX, 0x2222
+    MOV EAX, 40
+    CALL add_two       ; EAX = 42
+    ; EBX and ECX still hold 0x1111 and 0x2222
+
+    ; --- Carry flag ---
+    CLC                 ; CF = 0
+    CMC                 ; CF = 1
+    STC                 ; CF = 1 (already set)
+
+    ; --- PUSHF/POPF keep the flags across a comparison ---
+    PUSHF               ; Save CF = 1
+    CMP EAX, EAX       ; ZF = 1, CF = 0
+    POPF                ; CF = 1 again
+    HLT
+
+; add_two: EAX = EAX + 2, using a local variable
+add_two:
+    ENTER 4, 0         ; PUSH EBP; MOV EBP, ESP; SUB ESP, 4
+    PUSHA               ; Save every register
+    MOV EBX, 2
+    MOV ECX, EAX
+    ADD ECX, EBX
+    MOV [EBP-4], ECX   ; Local = EAX + 2
+    POPA                ; Restore EAX, EBX, ECX, ...
+    MOV EAX, [EBP-4]   ; Result from the local
+    LEAVE               ; MOV ESP, EBP; POP EBP
+    RET
@@ -0,0 +1,43 @@
+; Test 40: Jump Tables and Function Pointers
+; Tests: DD with labels, JMP [table + reg*4], CALL reg, CALL [mem], MOV reg, label
+; Expected: EAX=30 (switch picked case 2), EBX=7 (called through pointers)
+
+.data
+ORG 0x1000
+    ; switch (EBX) { case 0: ... case 1: ... case 2: ... }
+    jump_table: DD case0, case1, case2
+    ; Function pointer slots, like a tiny vtable
+    handlers:   DD add_three, add_four
+
+.text
+main:
+    MOV ESP, 0xE000     ; Keep the stack below the memory-mapped LCD
+
+    ; === switch statement through a jump table ===
+    MOV EBX, 2
+    JMP [jump_table + EBX*4]
+
+case0:
+    MOV EAX, 10
+    JMP end_switch
+case1:
+    MOV EAX, 20
+    JMP end_switch
+case2:
+    MOV EAX, 30
+
+end_switch:
+    ; === calls through function pointers ===
+    MOV EBX, 0
+    MOV ECX, add_three  ; ECX = address of add_three
+    CALL ECX            ; EBX = 3
+    CALL [handlers + 4] ; EBX = 7
+    HLT
+
+add_three:
+    ADD EBX, 3
+    RET
+
+add_four:
+    ADD EBX, 4
+    RET
@@ -0,0 +1,36 @@
+; Test 41: Stack Smashing
+; Tests: RET returns to the address stored on the stack, buffer overflow
+; Expected: EAX=0x1337 (vulnerable returned into win, not to main)
+
+.data
+ORG 0x1000
+    ; 12 bytes copied into a 4-byte buffer: fills the buffer, then
+    ; overwrites the saved EBP and finally the return address
+    payload: DD 0x41414141, 0x42424242, win
+
+.text
+main:
+    MOV ESP, 0xE000     ; Keep the stack below the memory-mapped LCD
+    MOV EAX, 0
+    CALL vulnerable     ; Pushes the address of the next instruction
+    MOV EAX, 1          ; Never reached: the return address was overwritten
+    HLT
+
+; vulnerable: copies 3 dwords into a 1-dword local buffer
+vulnerable:
+    ENTER 4, 0          ; [EBP-4] = buffer, [EBP] = saved EBP, [EBP+4] = return address
+    PUSH ESI
+    PUSH EDI
+    MOV ESI, payload
+    LEA EDI, [EBP-4]
+    MOV ECX, 3          ; Should have been 1
+    CLD
+    REP MOVSD           ; Overflows into the saved EBP and return address
+    POP EDI
+    POP ESI
+    LEAVE
+    RET                 ; Pops the address of win
+
+win:
+    MOV EAX, 0x1337
+    HLT
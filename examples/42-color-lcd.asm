@@ -0,0 +1,72 @@
+; Test 42: Colour LCD
+; Tests: LCD_FORMAT, LCD_PAL_INDEX/LCD_PAL_DATA, palette sprites, RGB332 pixels
+; Expected: 8x8 palette sprite (a red mushroom), then an RGB332 colour gradient; ECX=0
+
+GRID_SIZE:     EQU 8
+LCD_BASE:      EQU 0xF000
+LCD_FORMAT:    EQU 0x10000   ; 0 = mono, 1 = palette, 2 = RGB332, 3 = RGB565
+LCD_PAL_INDEX: EQU 0x10001
+LCD_PAL_DATA:  EQU 0x10002   ; 0xRRGGBB; each write moves to the next entry
+
+.data
+ORG 0x2000
+    ; Palette entries 1-3 (entry 0 stays black)
+    palette: DD 0xE02020, 0xFFFFFF, 0xF0C090
+    ; One palette index per pixel, row by row
+    sprite:  DB 0, 0, 1, 1, 1, 1, 0, 0
+             DB 0, 1, 2, 1, 1, 2, 1, 0
+             DB 1, 1, 1, 1, 1, 1, 1, 1
+             DB 1, 2, 1, 1, 1, 1, 2, 1
+             DB 0, 0, 3, 3, 3, 3, 0, 0
+             DB 0, 0, 3, 0, 0, 3, 0, 0
+             DB 0, 0, 3, 3, 3, 3, 0, 0
+             DB 0, 0, 0, 0, 0, 0, 0, 0
+
+.text
+main:
+    ; === Palette mode: load 3 colours starting at entry 1 ===
+    MOV LCD_FORMAT, 1
+    MOV LCD_PAL_INDEX, 1
+    MOV ESI, palette
+    MOV ECX, 3
+load_palette:
+    MOV EAX, [ESI]
+    MOV LCD_PAL_DATA, EAX
+    ADD ESI, 4
+    LOOP load_palette
+
+    ; === Copy the sprite, one palette index per pixel ===
+    MOV ESI, sprite
+    MOV EDI, LCD_BASE
+    MOV ECX, 64
+draw_sprite:
+    MOVZX EAX, BYTE [ESI]
+    MOV [EDI], EAX
+    INC ESI
+    INC EDI
+    LOOP draw_sprite
+
+    ; === RGB332 mode: red grows to the right, green grows downwards ===
+    MOV LCD_FORMAT, 2
+    MOV EDI, LCD_BASE
+    MOV EBX, 0              ; y
+row:
+    MOV EDX, 0              ; x
+column:
+    MOV EAX, EDX
+    SHL EAX, 5              ; RRR.....
+    MOV ECX, EBX
+    SHL ECX, 2              ; ...GGG..
+    OR EAX, ECX
+    OR EAX, 2               ; ......BB
+    MOV [EDI], EAX
+    INC EDI
+    INC EDX
+    CMP EDX, GRID_SIZE
+    JL column
+    INC EBX
+    CMP EBX, GRID_SIZE
+    JL row
+
+    MOV ECX, 0
+    HLT
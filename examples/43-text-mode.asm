@@ -0,0 +1,85 @@
+; Test 43: Text Mode
+; Tests: TEXT_CLEAR, character and attribute cells, TEXT_COLS, cursor registers
+; Expected: "TonX86 Menu" title on a blue screen, a highlighted menu entry and a
+;           full progress bar; cursor on the bar; ECX=0
+
+TEXT_BASE:     EQU 0x11000   ; character of cell (x, y) at TEXT_BASE + y * columns + x
+TEXT_ATTR:     EQU 0x800     ; attribute of a cell = character address + TEXT_ATTR
+TEXT_CURSOR_X: EQU 0x11FF0
+TEXT_CURSOR_Y: EQU 0x11FF1
+TEXT_COLS:     EQU 0x11FF3
+TEXT_CLEAR:    EQU 0x11FF5
+BAR_WIDTH:     EQU 20
+
+.data
+ORG 0x2000
+    title:  DB "TonX86 Menu", 0
+    item1:  DB "1. Run", 0
+    item2:  DB "2. Step", 0
+    item3:  DB "3. Quit", 0
+
+.text
+main:
+    MOV TEXT_CLEAR, 0x17    ; White on blue
+    MOV EBP, [TEXT_COLS]    ; Row stride
+
+    ; === Title on row 0 in yellow ===
+    MOV ESI, title
+    MOV EDI, TEXT_BASE
+    MOV EDX, 0x1E
+    CALL print
+
+    ; === Menu entries on rows 2-4, the second one highlighted ===
+    MOV EDI, TEXT_BASE
+    ADD EDI, EBP
+    ADD EDI, EBP
+    MOV ESI, item1
+    MOV EDX, 0x17
+    CALL print
+    ADD EDI, EBP
+    MOV ESI, item2
+    MOV EDX, 0x71           ; Blue on light grey
+    CALL print
+    ADD EDI, EBP
+    MOV ESI, item3
+    MOV EDX, 0x17
+    CALL print
+
+    ; === Progress bar on row 6: one green block per step ===
+    MOV EDI, EBP
+    SHL EDI, 1
+    ADD EDI, EBP
+    SHL EDI, 1
+    ADD EDI, TEXT_BASE
+    MOV TEXT_CURSOR_Y, 6
+    MOV EBX, 0
+bar:
+    MOV DWORD [EDI], 0xDB   ; Full block
+    MOV DWORD [EDI + TEXT_ATTR], 0x1A
+    INC EDI
+    INC EBX
+    MOV TEXT_CURSOR_X, EBX
+    CMP EBX, BAR_WIDTH
+    JL bar
+
+    MOV ECX, 0
+    HLT
+
+; Print the zero-terminated string at ESI to the cells from EDI in attribute EDX.
+; ESI and EDI are preserved.
+print:
+    PUSH ESI
+    PUSH EDI
+print_loop:
+    MOVZX EAX, BYTE [ESI]
+    CMP EAX, 0
+    JE print_done
+    MOV [EDI], EAX
+    MOV [EDI + TEXT_ATTR], EDX
+    INC ESI
+    INC EDI
+    JMP print_loop
+print_done:
+    POP EDI
+    POP ESI
+    RET
@@ -0,0 +1,107 @@
+; Test 44: Serial Calculator
+; Tests: UART_DATA / UART_RX_COUNT polling, line-oriented input, decimal output
+; Input: lines such as "12+30" (+, -, * or /), typed in the Debug Console or
+;        given with the serialInput / serialInputFile launch options; "q" quits
+; Expected: one result line per input line (12+30 -> 42); ECX=0 after "q"
+
+UART_DATA:     EQU 0x10500   ; read: next received byte; write: send a byte
+UART_RX_COUNT: EQU 0x10503   ; bytes waiting to be read
+NEWLINE:       EQU 10
+
+main:
+    CALL read_char
+    CMP EAX, 'q'
+    JE quit
+    CALL read_number        ; First operand (EAX already holds its first digit)
+    MOV EBX, EDX
+    MOV ESI, EAX            ; Operator
+    CALL read_char
+    CALL read_number        ; Second operand; EAX = the newline after it
+    MOV ECX, EDX
+    MOV EAX, EBX
+
+    CMP ESI, '+'
+    JE add
+    CMP ESI, '-'
+    JE subtract
+    CMP ESI, '*'
+    JE multiply
+    CMP ECX, 0              ; '/': print "?" instead of dividing by zero
+    JE bad_input
+    DIV ECX
+    JMP show
+add:
+    ADD EAX, ECX
+    JMP show
+subtract:
+    SUB EAX, ECX
+    JMP show
+multiply:
+    MUL ECX
+show:
+    CALL print_number
+    JMP main
+
+bad_input:
+    MOV EAX, '?'
+    MOV UART_DATA, EAX
+    MOV EAX, NEWLINE
+    MOV UART_DATA, EAX
+    JMP main
+
+quit:
+    MOV ECX, 0
+    HLT
+
+; Wait for the next received byte and return it in EAX
+read_char:
+    MOV EAX, [UART_RX_COUNT]
+    CMP EAX, 0
+    JE read_char
+    MOV EAX, [UART_DATA]
+    RET
+
+; Read decimal digits starting with the one in EAX. Returns the value in EDX
+; and the first non-digit in EAX.
+read_number:
+    MOV EDX, 0
+read_digit:
+    CMP EAX, '0'
+    JB read_number_done
+    CMP EAX, '9'
+    JA read_number_done
+    SUB EAX, '0'
+    IMUL EDX, EDX, 10
+    ADD EDX, EAX
+    CALL read_char
+    JMP read_digit
+read_number_done:
+    RET
+
+; Send EAX as a signed decimal number and a newline
+print_number:
+    PUSH EBX
+    CMP EAX, 0
+    JGE print_digits
+    MOV EBX, '-'
+    MOV UART_DATA, EBX
+    NEG EAX
+print_digits:
+    MOV ECX, 0              ; Digits on the stack
+split_digit:
+    MOV EDX, 0
+    MOV EBX, 10
+    DIV EBX                 ; EAX = EAX / 10, EDX = last digit
+    ADD EDX, '0'
+    PUSH EDX
+    INC ECX
+    CMP EAX, 0
+    JNE split_digit
+send_digit:
+    POP EDX
+    MOV UART_DATA, EDX
+    LOOP send_digit
+    MOV EBX, NEWLINE
+    MOV UART_DATA, EBX
+    POP EBX
+    RET
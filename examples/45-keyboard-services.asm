@@ -0,0 +1,81 @@
+; Test 45: Keyboard Services
+; Tests: INT 0x21 AH=0x0A line input, INT 0x16 AH=0x00 key read and AH=0x01
+;        check, INT 0x21 AH=0x09 string output
+; Input: a name and Enter, then keys pressed in the Keyboard view; "q" quits
+; Expected: "Name? " prompt, "Hello <name>!", each key echoed in upper case
+;           until "q"; ECX = number of keys echoed
+
+NAME_BUF:  EQU 0x3000   ; Byte 0: capacity including the CR
+NAME_LEN:  EQU 0x3001   ; Byte 1: characters read
+NAME_TEXT: EQU 0x3002   ; The characters, ended by CR
+NAME_MAX:  EQU 17       ; 16 characters and the CR
+NEWLINE:   EQU 10
+
+.data
+ORG 0x2000
+    prompt: DB "Name? $"
+    hello:  DB "Hello $"
+    bang:   DB "!$"
+    ahead:  DB " (typed ahead)$"
+
+.text
+main:
+    MOV AH, 0x09
+    MOV EDX, prompt
+    INT 0x21
+
+    ; === Read the name; the program waits here until Enter is pressed ===
+    MOV BYTE [NAME_BUF], NAME_MAX
+    MOV AH, 0x0A
+    MOV EDX, NAME_BUF
+    INT 0x21
+
+    ; Put '$' over the CR so AH=0x09 can print the name
+    MOVZX EBX, BYTE [NAME_LEN]
+    MOV BYTE [EBX + NAME_TEXT], '$'
+    CALL new_line
+    MOV AH, 0x09
+    MOV EDX, hello
+    INT 0x21
+    MOV EDX, NAME_TEXT
+    INT 0x21
+    MOV EDX, bang
+    INT 0x21
+    CALL new_line
+
+    ; === Echo keys in upper case until "q" ===
+    MOV ECX, 0
+next_key:
+    MOV AH, 0x00
+    INT 0x16                ; Wait for a key press: AL = key code
+    CMP AL, 'q'
+    JE quit
+    CMP AL, 'a'
+    JB echo
+    CMP AL, 'z'
+    JA echo
+    SUB AL, 32              ; Lower case to upper case
+echo:
+    MOV DL, AL
+    MOV AH, 0x02
+    INT 0x21
+    INC ECX
+    JMP next_key
+
+quit:
+    ; Report keys pressed after "q" without taking them
+    MOV AH, 0x01
+    INT 0x16
+    JZ finish
+    MOV AH, 0x09
+    MOV EDX, ahead
+    INT 0x21
+finish:
+    CALL new_line
+    HLT
+
+new_line:
+    MOV AH, 0x02
+    MOV DL, NEWLINE
+    INT 0x21
+    RET
@@ -0,0 +1,23 @@
+; Test 46: Exit Code
+; Tests: INT 0x21 AH=0x4C return code, as used by graded exercises
+; Expected: sum of 1..10 in EBX = 55, exit code 0 (a wrong sum exits with 1,
+;           which the debugger reports as a failure)
+
+EXPECTED: EQU 55
+
+main:
+    ; === Exercise: add the numbers 1 to 10 into EBX ===
+    MOV EBX, 0
+    MOV ECX, 10
+sum:
+    ADD EBX, ECX
+    LOOP sum
+
+    ; === Check the answer and report it as the exit code ===
+    MOV AH, 0x4C
+    MOV AL, 0               ; Pass
+    CMP EBX, EXPECTED
+    JE done
+    MOV AL, 1               ; Fail
+done:
+    INT 0x21
@@ -0,0 +1,100 @@
+; Test 47: Music
+; Tests: several audio channels, the AUDIO_QUEUE note queue, triangle/sawtooth/
+;        noise/sine waveforms and the volume envelope
+; Expected: the whole tune is queued without waiting: 8 melody notes (channel 0),
+;           4 bass notes (channel 1), 8 drum hits (channel 2) and a sine pad
+;           (channel 3); ECX = 21 notes queued. Set the audioOutputFile launch
+;           option to also save the tune as a WAV file
+
+CH_MELODY: EQU 0x10200   ; Channel 0 registers
+CH_BASS:   EQU 0x10210   ; Channel 1
+CH_DRUMS:  EQU 0x10220   ; Channel 2
+CH_PAD:    EQU 0x10230   ; Channel 3
+
+; Register offsets within a channel
+WAVE:      EQU 1         ; 0=square, 1=sine, 2=triangle, 3=sawtooth, 4=noise
+FREQ_LO:   EQU 2
+FREQ_HI:   EQU 3
+DUR_LO:    EQU 4
+DUR_HI:    EQU 5
+VOLUME:    EQU 6
+ATTACK:    EQU 7
+DECAY:     EQU 8
+SUSTAIN:   EQU 9
+RELEASE:   EQU 10
+QUEUE:     EQU 11        ; write: queue a note; read: notes queued
+
+.data
+ORG 0x2000
+    melody: DD 523, 587, 659, 698, 784, 698, 659, 523   ; C5 D5 E5 F5 G5 F5 E5 C5
+    bass:   DD 131, 175, 196, 131                       ; C3 F3 G3 C3
+
+.text
+main:
+    ; === Melody: sawtooth, 200 ms notes that fade to 60% ===
+    MOV DWORD [CH_MELODY + WAVE], 3
+    MOV DWORD [CH_MELODY + DUR_LO], 200
+    MOV DWORD [CH_MELODY + DUR_HI], 0
+    MOV DWORD [CH_MELODY + VOLUME], 120
+    MOV DWORD [CH_MELODY + ATTACK], 10
+    MOV DWORD [CH_MELODY + DECAY], 60
+    MOV DWORD [CH_MELODY + SUSTAIN], 150
+    MOV DWORD [CH_MELODY + RELEASE], 30
+    MOV ESI, melody
+    MOV ECX, 8
+queue_melody:
+    MOV EAX, [ESI]
+    MOV [CH_MELODY + FREQ_LO], EAX   ; Only the low byte is kept
+    SHR EAX, 8
+    MOV [CH_MELODY + FREQ_HI], EAX
+    MOV DWORD [CH_MELODY + QUEUE], 1
+    ADD ESI, 4
+    LOOP queue_melody
+
+    ; === Bass: triangle, 400 ms notes ===
+    MOV DWORD [CH_BASS + WAVE], 2
+    MOV DWORD [CH_BASS + DUR_LO], 0x90   ; 400 ms
+    MOV DWORD [CH_BASS + DUR_HI], 0x01
+    MOV DWORD [CH_BASS + VOLUME], 200
+    MOV ESI, bass
+    MOV ECX, 4
+queue_bass:
+    MOV EAX, [ESI]
+    MOV [CH_BASS + FREQ_LO], EAX
+    SHR EAX, 8
+    MOV [CH_BASS + FREQ_HI], EAX
+    MOV DWORD [CH_BASS + QUEUE], 1
+    ADD ESI, 4
+    LOOP queue_bass
+
+    ; === Drums: noise hits that decay to silence within each beat ===
+    MOV DWORD [CH_DRUMS + WAVE], 4
+    MOV DWORD [CH_DRUMS + FREQ_LO], 0xB8 ; 3000 Hz noise clock
+    MOV DWORD [CH_DRUMS + FREQ_HI], 0x0B
+    MOV DWORD [CH_DRUMS + DUR_LO], 200
+    MOV DWORD [CH_DRUMS + DUR_HI], 0
+    MOV DWORD [CH_DRUMS + VOLUME], 90
+    MOV DWORD [CH_DRUMS + DECAY], 80
+    MOV DWORD [CH_DRUMS + SUSTAIN], 0
+    MOV ECX, 8
+queue_drums:
+    MOV DWORD [CH_DRUMS + QUEUE], 1
+    LOOP queue_drums
+
+    ; === Pad: one long sine note that swells in and fades out ===
+    MOV DWORD [CH_PAD + WAVE], 1
+    MOV DWORD [CH_PAD + FREQ_LO], 0x06   ; 262 Hz (C4)
+    MOV DWORD [CH_PAD + FREQ_HI], 0x01
+    MOV DWORD [CH_PAD + DUR_LO], 0x40    ; 1600 ms
+    MOV DWORD [CH_PAD + DUR_HI], 0x06
+    MOV DWORD [CH_PAD + VOLUME], 60
+    MOV DWORD [CH_PAD + ATTACK], 250
+    MOV DWORD [CH_PAD + RELEASE], 250
+    MOV DWORD [CH_PAD + QUEUE], 1
+
+    ; === Count the notes queued on all channels ===
+    MOV ECX, [CH_MELODY + QUEUE]
+    ADD ECX, [CH_BASS + QUEUE]
+    ADD ECX, [CH_DRUMS + QUEUE]
+    ADD ECX, [CH_PAD + QUEUE]
+    HLT                             ; Queued notes keep playing after HLT
@@ -1,6 +1,8 @@
 import {
   DebugSession,
   StoppedEvent,
+  ContinuedEvent,
+  ExitedEvent,
   TerminatedEvent,
   InitializedEvent,
   OutputEvent,
@@ -12,12 +14,42 @@ interface TonX86LaunchRequestArguments extends DebugProtocol.LaunchRequestArgume
   cpuSpeed?: number;
   stopOnEntry?: boolean;
   enableLogging?: boolean;
+  executionMode?: ExecutionMode;
+  snapshot?: string; // Path of a snapshot file to restore after loading the program
+  historyDepth?: number; // Steps kept for stepBack/reverseContinue (0 disables)
+  randomSeed?: number; // Seed for RAND so that runs can be replayed (random if omitted)
+  textColumns?: number; // Text display size (default 80x25)
+  textRows?: number;
+  serialInput?: string; // Text sent to the UART at start (after serialInputFile)
+  serialInputFile?: string; // File sent to the UART at start (relative to the program)
+  serialOutputFile?: string; // File that captures everything the program writes to the UART
+  audioOutputFile?: string; // WAV file rendered from the program's notes (relative to the program)
 }
 import * as fs from "fs";
 import * as path from "path";
-import { Simulator, type AudioEvent } from "@tonx86/simcore";
+import {
+  Simulator,
+  SimulatorException,
+  parseSnapshot,
+  serializeSnapshot,
+  TEXT_CURSOR_VISIBLE,
+  renderAudio,
+  encodeWav,
+  getAudioEndTime,
+  MAX_AUDIO_RENDER_MS,
+  type AudioEvent,
+  type ExecutionMode,
+  type RunResult,
+} from "@tonx86/simcore";
 import { parseAssembly } from "./parser";
-import { detectLCDDimensions, validateCPUSpeed } from "./debugLogic";
+import {
+  detectLCDDimensions,
+  validateCPUSpeed,
+  isLegacyCPUSpeed,
+  validateHistoryDepth,
+  computeThrottleDelay,
+  DEFAULT_CPU_SPEED_HZ,
+} from "./debugLogic";
 
 // File-based logger for debugging - will be set after launch
 let LOG_FILE = "";
@@ -43,7 +75,14 @@ export class TonX86DebugSession extends DebugSession {
   private stopOnEntry: boolean = true; // Whether to stop at first instruction
   private simulator: Simulator; // CPU simulator instance
   private constants: Map<string, number> = new Map(); // EQU constants
-  private cpuSpeed: number = 100; // CPU speed percentage (1-200)
+  private cpuSpeed: number = DEFAULT_CPU_SPEED_HZ; // CPU clock rate in Hz
+  private lastException: SimulatorException | undefined; // Exception of the last "exception" stop
+  private serialInput: Buffer[] = []; // Chunks waiting for room in the UART receive FIFO
+  private serialInputOffset = 0; // Bytes of the first chunk already sent
+  private serialOutputPath = ""; // Capture file for UART output ("" = Debug Console only)
+  private waitingForInput = false; // Paused in a keyboard input service until a key is pressed
+  private audioOutputPath = ""; // WAV file written when the session ends ("" = no export)
+  private audioEvents: AudioEvent[] = []; // Notes played so far, for the WAV export
 
   public constructor() {
     super();
@@ -58,7 +97,8 @@ export class TonX86DebugSession extends DebugSession {
       supportsSetVariable: true,
       supportsConditionalBreakpoints: false,
       supportsFunctionBreakpoints: false,
-      supportsStepBack: false,
+      supportsStepBack: true,
+      supportsExceptionInfoRequest: true,
     };
     this.sendResponse(response);
   }
@@ -73,10 +113,20 @@ export class TonX86DebugSession extends DebugSession {
     const launchArgs = args as TonX86LaunchRequestArguments;
     this.programPath = launchArgs.program || "";
     this.cpuSpeed = validateCPUSpeed(launchArgs.cpuSpeed);
+    if (isLegacyCPUSpeed(launchArgs.cpuSpeed)) {
+      const warning =
+        `cpuSpeed ${launchArgs.cpuSpeed} is read as a percentage of 1 MHz (${this.cpuSpeed} Hz). ` +
+        `Percentages are deprecated: cpuSpeed is now the clock rate in Hz.\n`;
+      console.error(`[TonX86] ${warning.trim()}`);
+      this.sendEvent(new OutputEvent(warning, "stderr"));
+    }
     this.stopOnEntry = launchArgs.stopOnEntry !== undefined ? launchArgs.stopOnEntry : true;
     const enableLogging = launchArgs.enableLogging || false;
+    const executionMode: ExecutionMode =
+      launchArgs.executionMode === "memory" ? "memory" : "instruction-list";
+    const historyDepth = validateHistoryDepth(launchArgs.historyDepth);
     console.error("[TonX86] stopOnEntry value:", this.stopOnEntry);
-    console.error(`[TonX86] CPU speed set to ${this.cpuSpeed}%`);
+    console.error(`[TonX86] CPU clock set to ${this.cpuSpeed} Hz`);
     console.error(`[TonX86] Logging enabled: ${enableLogging}`);
 
     console.error("[TonX86] Program path:", this.programPath);
@@ -120,34 +170,65 @@ export class TonX86DebugSession extends DebugSession {
 
         // Detect required LCD dimensions from code and EQU constants
         const [lcdWidth, lcdHeight] = detectLCDDimensions(instructions, this.constants);
-        this.simulator = new Simulator(lcdWidth, lcdHeight);
+        this.simulator = new Simulator(lcdWidth, lcdHeight, "educational", {
+          textColumns: launchArgs.textColumns,
+          textRows: launchArgs.textRows,
+          clockHz: this.cpuSpeed,
+        });
+        this.simulator.setExecutionMode(executionMode);
+        this.simulator.setHistoryDepth(historyDepth);
+        if (typeof launchArgs.randomSeed === "number") {
+          this.simulator.setRandomSeed(launchArgs.randomSeed);
+        }
+        console.error(`[TonX86] RAND seed: ${this.simulator.getRandomSeed()}`);
         console.error(`[TonX86] Detected LCD size: ${lcdWidth}x${lcdHeight}`);
 
-        // Load data into memory before loading instructions
+        // Load instructions and labels into simulator (assembled at the ORG address)
+        this.simulator.loadInstructions(instructions, labels, parseResult.codeStartAddress);
+        const program = this.simulator.getAssembledProgram();
+        program.instructions.forEach((placed) => {
+          const bytes = this.simulator
+            .getMemoryA(placed.address, placed.length)
+            .reduce((text, byte) => text + byte.toString(16).padStart(2, "0") + " ", "");
+          console.error(
+            `  0x${placed.address.toString(16).padStart(4, "0")} (line ${placed.line}): ${bytes.trim()}`,
+          );
+        });
+
+        // Load data after the code so labels in DD tables resolve to code addresses
         if (dataSegment.items.length > 0) {
           this.simulator.loadData(dataSegment.items);
           console.error(`[TonX86] Loaded ${dataSegment.items.length} data items into memory`);
         }
 
-        // Load instructions and labels into simulator
-        this.simulator.loadInstructions(instructions, labels);
-
         // Set up audio event callback
+        this.audioEvents = [];
+        this.audioOutputPath = launchArgs.audioOutputFile
+          ? path.resolve(path.dirname(this.programPath), launchArgs.audioOutputFile)
+          : "";
         this.simulator.setAudioEventCallback((event: AudioEvent) => {
+          if (this.audioOutputPath) {
+            this.audioEvents.push(event);
+          }
           this.sendEvent(
             new OutputEvent(
               JSON.stringify({
                 type: "audioEvent",
+                channel: event.channel,
+                time: event.time,
                 frequency: event.frequency,
                 duration: event.duration,
                 waveform: event.waveform,
                 volume: event.volume,
+                envelope: event.envelope,
               }),
               "tonx86-audio",
             ),
           );
         });
 
+        this.setUpSerialPort(launchArgs);
+
         // Show labels in Debug Console to help with CALL/JMP debugging
         const labelList = Array.from(labels.entries())
           .map(([name, index]) => `${name} -> ${index}`)
@@ -166,6 +247,14 @@ export class TonX86DebugSession extends DebugSession {
             instructions[0].raw,
           );
         }
+
+        if (launchArgs.snapshot) {
+          try {
+            this.loadSnapshotFile(launchArgs.snapshot);
+          } catch (err) {
+            this.sendEvent(new OutputEvent(`Failed to restore snapshot: ${err}\n`, "stderr"));
+          }
+        }
       } catch (err) {
         console.error("[TonX86] Error loading source file:", err);
       }
@@ -182,7 +271,7 @@ export class TonX86DebugSession extends DebugSession {
     // Send session started message
     this.sendEvent(
       new OutputEvent(
-        `\n=== TonX86 Debug Session Started ===\nProgram: ${path.basename(this.programPath)}\nInstructions: ${this.simulator.getInstructions().length}\n`,
+        `\n=== TonX86 Debug Session Started ===\nProgram: ${path.basename(this.programPath)}\nInstructions: ${this.simulator.getInstructions().length}\nCode: ${this.simulator.getAssembledProgram().bytes.length} bytes at 0x${this.simulator.getAssembledProgram().origin.toString(16).toUpperCase()}\n`,
         "console",
       ),
     );
@@ -219,111 +308,170 @@ export class TonX86DebugSession extends DebugSession {
   }
 
   /**
-   * Execute the program until a breakpoint or program end
+   * Execute the program until a breakpoint or program end. `resumedByKey` is
+   * set when a key press ends a wait for input, which is not announced.
    */
-  private async continueExecution(): Promise<void> {
+  private async continueExecution(resumedByKey = false): Promise<void> {
     const eip = this.simulator.getEIP();
     logToFile(`continueExecution called, EIP=${eip}, breakpoints=${Array.from(this.breakpoints)}`);
-
-    let firstIteration = true; // Skip breakpoint check on first instruction
+    this.waitingForInput = false;
 
     // Output to Debug Console
-    this.sendEvent(new OutputEvent(`\n=== Continuing execution ===\n`, "console"));
-
-    // Yield interval: yield to event loop every N instructions
-    // This allows incoming DAP messages (keyboard events, pause requests, etc.)
-    // to be processed.
-    //
-    // Speed control strategy:
-    // - Vary both yield interval AND sleep time based on speed
-    // - Lower speeds: yield often with longer sleeps
-    // - Higher speeds: yield much less often with minimal sleep
-
-    let yieldInterval: number;
-    let sleepMs: number;
-
-    if (this.cpuSpeed <= 50) {
-      yieldInterval = 100;
-      sleepMs = 5; // Very slow
-    } else if (this.cpuSpeed < 100) {
-      yieldInterval = 100;
-      sleepMs = 2; // Slow
-    } else if (this.cpuSpeed === 100) {
-      yieldInterval = 100;
-      sleepMs = 1; // Normal baseline
-    } else {
-      // For speeds > 100%, scale up the yield interval significantly
-      // At 200%, yield every 2000 instructions (20x less often) with minimal sleep
-      yieldInterval = Math.floor(1000 * (this.cpuSpeed / 100));
-      sleepMs = 0.1; // Minimal sleep to allow event loop processing
+    if (!resumedByKey) {
+      this.sendEvent(new OutputEvent(`\n=== Continuing execution ===\n`, "console"));
     }
 
+    // Pacing: the simulated clock runs at cpuSpeed Hz. Execution proceeds in
+    // slices of ~10 ms of simulated time; after each slice we sleep for as long
+    // as simulated time is ahead of wall time. Yielding between slices also lets
+    // incoming DAP messages (keyboard events, pause requests, etc.) be processed.
+    const cyclesPerSlice = Math.max(1, Math.floor(this.cpuSpeed / 100));
+    const startCycles = this.simulator.getCycleCount();
+    const startTime = Date.now();
+
     console.error(
-      `[TonX86] Execution starting with cpuSpeed=${this.cpuSpeed}%, yieldInterval=${yieldInterval}, sleepMs=${sleepMs}`,
+      `[TonX86] Execution starting at ${this.cpuSpeed} Hz, cyclesPerSlice=${cyclesPerSlice}`,
     );
 
-    let sinceLastYield = 0;
-    const instructions = this.simulator.getInstructions();
+    // Only the first slice resumes from the line we are stopped on
+    let skipInitialBreakpoint = true;
 
-    while (this.simulator.getEIP() < instructions.length) {
-      // Periodically yield to the event loop so incoming DAP messages
-      // (keyboard events, pause, etc.) can be processed
-      sinceLastYield++;
-      if (sinceLastYield >= yieldInterval) {
-        sinceLastYield = 0;
-        await this.sleep(sleepMs);
-      }
-
-      const currentInstr = this.simulator.getCurrentInstruction();
-      if (!currentInstr) break;
-
-      // Check for breakpoint BEFORE executing the instruction
-      // But skip the check on first iteration (we're continuing from that line)
-      if (!firstIteration && this.breakpoints.has(currentInstr.line)) {
-        this.currentLine = currentInstr.line;
-        logToFile(`Hit breakpoint at line ${this.currentLine}`);
-        this.sendEvent(
-          new OutputEvent(`\n*** Breakpoint hit at line ${this.currentLine} ***\n`, "console"),
-        );
-        // Send stopped event at breakpoint
-        this.sendEvent(new StoppedEvent("breakpoint", 1));
+    for (;;) {
+      let result: RunResult;
+      try {
+        result = this.simulator.run({
+          maxCycles: cyclesPerSlice,
+          breakpoints: this.breakpoints,
+          skipInitialBreakpoint,
+        });
+      } catch (err) {
+        console.error(`[TonX86] ERROR:`, err);
+        this.sendEvent(new OutputEvent(`ERROR: ${err}\n`, "stderr"));
+        this.sendEvent(new TerminatedEvent());
         return;
       }
-      firstIteration = false;
+      skipInitialBreakpoint = false;
 
-      try {
-        // Use simulator.step() to execute instruction and handle control flow
-        const executedLine = this.simulator.step();
-        this.currentLine = executedLine;
-
-        // Emit any console output from interrupt handlers
-        this.emitConsoleOutput();
+      // Emit any console output from interrupt handlers
+      this.emitConsoleOutput();
+      this.exchangeSerialData();
 
-        // Check if program halted
-        const state = this.simulator.getState();
-        if (state.halted) {
-          console.error("[TonX86] Program halted at HLT instruction at line", executedLine);
+      switch (result.reason) {
+        case "cycle-limit": {
+          const cycles = this.simulator.getCycleCount();
+          await this.sleep(
+            computeThrottleDelay(cycles - startCycles, this.cpuSpeed, Date.now() - startTime),
+          );
+          continue;
+        }
+        case "breakpoint":
+          this.currentLine = result.line;
+          logToFile(`Hit breakpoint at line ${this.currentLine}`);
           this.sendEvent(
-            new OutputEvent(`\n=== Program halted at line ${executedLine} ===\n`, "console"),
+            new OutputEvent(`\n*** Breakpoint hit at line ${this.currentLine} ***\n`, "console"),
           );
-
-          // Terminate the debug session
-          this.sendEvent(new TerminatedEvent());
+          // Send stopped event at breakpoint
+          this.sendEvent(new StoppedEvent("breakpoint", 1));
           return;
-        }
-      } catch (err) {
-        console.error(`[TonX86] ERROR:`, err);
-        this.sendEvent(new OutputEvent(`ERROR: ${err}\n`, "stderr"));
-        this.sendEvent(new TerminatedEvent());
-        return;
+        case "exception":
+          this.stopOnException(result.exception);
+          return;
+        case "halted":
+          this.stopOnHalt(result.line);
+          return;
+        case "waiting-for-input":
+          this.stopOnInputWait(result.line, resumedByKey);
+          return;
+        default:
+          continue;
       }
     }
+  }
 
-    // If we reach here, no HLT was found - program ended
-    console.error("[TonX86] Reached end of program");
+  /**
+   * Pause while an input service waits for a key. The keyboardEvent request
+   * resumes execution once a key is pressed.
+   */
+  private stopOnInputWait(line: number, resumedByKey: boolean): void {
+    this.currentLine = line;
+    this.waitingForInput = true;
+    logToFile(`Waiting for keyboard input at line ${line}`);
+    if (!resumedByKey) {
+      this.sendEvent(
+        new OutputEvent(`\n*** Waiting for keyboard input at line ${line} ***\n`, "console"),
+      );
+    }
+    this.sendEvent(new StoppedEvent("pause", 1, "Waiting for keyboard input"));
+  }
+
+  /**
+   * Report the end of the program and its exit code, then terminate the debug
+   * session. Programs that end without INT 21h AH=4Ch exit with code 0.
+   */
+  private stopOnHalt(line: number): void {
+    const exitCode = this.simulator.getState().exitCode;
+    if (line < 0) {
+      // No HLT was found - program ended
+      console.error("[TonX86] Reached end of program");
+    } else if (exitCode !== null) {
+      this.currentLine = line;
+      console.error("[TonX86] Program exited with code", exitCode, "at line", line);
+      this.sendEvent(
+        new OutputEvent(
+          `\n=== Program exited with code ${exitCode} at line ${line} ===\n`,
+          exitCode === 0 ? "console" : "stderr",
+        ),
+      );
+    } else {
+      this.currentLine = line;
+      console.error("[TonX86] Program halted at HLT instruction at line", line);
+      this.sendEvent(new OutputEvent(`\n=== Program halted at line ${line} ===\n`, "console"));
+    }
+    this.simulator.flushAudio(); // Queued notes still play after the program ends
+    this.exportAudio();
+    this.sendEvent(new ExitedEvent(exitCode ?? 0));
     this.sendEvent(new TerminatedEvent());
   }
 
+  /**
+   * Write the WAV file of the audioOutputFile launch option, if it was given
+   * and has not been written yet
+   */
+  private exportAudio(): void {
+    if (!this.audioOutputPath) {
+      return;
+    }
+    const outputPath = this.audioOutputPath;
+    this.audioOutputPath = "";
+    try {
+      fs.writeFileSync(outputPath, encodeWav(renderAudio(this.audioEvents)));
+      this.sendEvent(
+        new OutputEvent(
+          `Audio saved to ${outputPath} (${this.audioEvents.length} notes)\n`,
+          "console",
+        ),
+      );
+      if (getAudioEndTime(this.audioEvents) > MAX_AUDIO_RENDER_MS) {
+        this.sendEvent(
+          new OutputEvent(
+            `Audio truncated to the first ${MAX_AUDIO_RENDER_MS / 1000} seconds\n`,
+            "stderr",
+          ),
+        );
+      }
+    } catch (err) {
+      this.sendEvent(new OutputEvent(`Audio export failed: ${err}\n`, "stderr"));
+    }
+  }
+
+  protected disconnectRequest(
+    response: DebugProtocol.DisconnectResponse,
+    args: DebugProtocol.DisconnectArguments,
+  ): void {
+    this.exportAudio(); // Sessions stopped before the program ended
+    super.disconnectRequest(response, args);
+  }
+
   protected sourceRequest(
     response: DebugProtocol.SourceResponse,
     args: DebugProtocol.SourceArguments,
@@ -494,6 +642,11 @@ export class TonX86DebugSession extends DebugSession {
           value: `0x${registers.EDI.toString(16).padStart(8, "0")}`,
           variablesReference: 0,
         },
+        {
+          name: "Cycles",
+          value: `${this.simulator.getCycleCount()}`,
+          variablesReference: 0,
+        },
       ],
     };
     this.sendResponse(response);
@@ -560,6 +713,7 @@ export class TonX86DebugSession extends DebugSession {
 
       // Emit any console output from interrupt handlers
       this.emitConsoleOutput();
+      this.exchangeSerialData();
 
       // Log LCD state after instruction
       try {
@@ -586,9 +740,8 @@ export class TonX86DebugSession extends DebugSession {
       // Check if we hit HLT
       const state = this.simulator.getState();
       if (state.halted) {
-        console.error("[TonX86] Program halted at HLT instruction at line", executedLine);
         setTimeout(() => {
-          this.sendEvent(new TerminatedEvent());
+          this.stopOnHalt(executedLine);
         }, 50);
         return;
       }
@@ -598,6 +751,7 @@ export class TonX86DebugSession extends DebugSession {
         this.sendEvent(new StoppedEvent("step", 1));
       }, 50);
     } catch (err) {
+      if (this.stopOnException(err)) return;
       logToFile(
         JSON.stringify({
           action: "ERROR",
@@ -646,13 +800,13 @@ export class TonX86DebugSession extends DebugSession {
 
       // Emit any console output from interrupt handlers
       this.emitConsoleOutput();
+      this.exchangeSerialData();
 
       // Check if program halted
       const state = this.simulator.getState();
       if (state.halted) {
-        console.error("[TonX86] Program halted at HLT instruction at line", executedLine);
         setTimeout(() => {
-          this.sendEvent(new TerminatedEvent());
+          this.stopOnHalt(executedLine);
         }, 50);
         return;
       }
@@ -662,6 +816,7 @@ export class TonX86DebugSession extends DebugSession {
         this.sendEvent(new StoppedEvent("step", 1));
       }, 50);
     } catch (err) {
+      if (this.stopOnException(err)) return;
       console.error("[TonX86] ERROR:", err);
       this.sendEvent(new OutputEvent(`ERROR: ${err}\n`, "stderr"));
       setTimeout(() => {
@@ -679,6 +834,7 @@ export class TonX86DebugSession extends DebugSession {
     // Step out: execute until we return from current function
     // For now, just step once like stepIn
     const currentInstr = this.simulator.getCurrentInstruction();
+    let error: unknown;
     if (currentInstr) {
       try {
         const executedLine = this.simulator.step();
@@ -686,10 +842,12 @@ export class TonX86DebugSession extends DebugSession {
         console.error("[TonX86] Stepped to line", this.currentLine);
       } catch (err) {
         console.error("[TonX86] ERROR:", err);
+        error = err;
       }
     }
 
     this.sendResponse(response);
+    if (this.stopOnException(error)) return;
 
     // Send stopped event to notify debugger
     setTimeout(() => {
@@ -697,6 +855,117 @@ export class TonX86DebugSession extends DebugSession {
     }, 50);
   }
 
+  /**
+   * Stop on a CPU exception the program did not handle instead of ending the
+   * session. Returns false if `err` is not a SimulatorException.
+   */
+  private stopOnException(err: unknown): boolean {
+    if (!(err instanceof SimulatorException)) return false;
+    this.lastException = err;
+    this.currentLine = err.line;
+    logToFile(`Exception ${err.mnemonic} at line ${err.line}: ${err.detail}`);
+    this.sendEvent(new OutputEvent(`\n*** ${err.message} at line ${err.line} ***\n`, "stderr"));
+    this.sendEvent(new StoppedEvent("exception", 1, err.message));
+    return true;
+  }
+
+  protected exceptionInfoRequest(
+    response: DebugProtocol.ExceptionInfoResponse,
+    _args: DebugProtocol.ExceptionInfoArguments,
+  ): void {
+    const exception = this.lastException;
+    response.body = {
+      exceptionId: exception?.mnemonic ?? "",
+      description: exception?.message,
+      breakMode: "always",
+      details: exception && {
+        message: exception.detail,
+        typeName: "SimulatorException",
+        stackTrace: `${exception.mnemonic} (vector ${exception.vector}) at line ${exception.line}`,
+      },
+    };
+    this.sendResponse(response);
+  }
+
+  /**
+   * Lines typed in the Debug Console are sent to the UART, each followed by a newline
+   */
+  protected evaluateRequest(
+    response: DebugProtocol.EvaluateResponse,
+    args: DebugProtocol.EvaluateArguments,
+  ): void {
+    if (args.context !== "repl") {
+      super.evaluateRequest(response, args);
+      return;
+    }
+    this.queueSerialInput(`${args.expression}\n`);
+    this.exchangeSerialData();
+    response.body = { result: "", variablesReference: 0 };
+    this.sendResponse(response);
+  }
+
+  protected stepBackRequest(
+    response: DebugProtocol.StepBackResponse,
+    args: DebugProtocol.StepBackArguments,
+  ): void {
+    console.error("[TonX86] Step back request for thread:", args.threadId);
+    this.sendResponse(response);
+    this.reverseExecution(false);
+  }
+
+  protected reverseContinueRequest(
+    response: DebugProtocol.ReverseContinueResponse,
+    args: DebugProtocol.ReverseContinueArguments,
+  ): void {
+    console.error("[TonX86] Reverse continue request for thread:", args.threadId);
+    this.sendResponse(response);
+    this.reverseExecution(true);
+  }
+
+  /**
+   * Undo one step, or keep undoing until a breakpoint line or the start of the
+   * recorded history, then stop at the instruction EIP now points to
+   */
+  private reverseExecution(untilBreakpoint: boolean): void {
+    let steps = 0;
+    let reason = "step";
+    while (this.simulator.stepBack()) {
+      steps++;
+      const line = this.simulator.getCurrentInstruction()?.line;
+      if (line !== undefined) {
+        this.currentLine = line;
+      }
+      if (!untilBreakpoint) break;
+      if (line !== undefined && this.breakpoints.has(line)) {
+        reason = "breakpoint";
+        break;
+      }
+    }
+
+    if (steps > 0) {
+      this.discardUndoneAudio();
+    }
+    if (steps === 0) {
+      this.sendEvent(new OutputEvent("No execution history to step back through\n", "console"));
+    } else if (untilBreakpoint && reason !== "breakpoint") {
+      reason = "entry";
+    }
+    logToFile(`Reverse execution undid ${steps} step(s), now at line ${this.currentLine}`);
+
+    setTimeout(() => {
+      this.sendEvent(new StoppedEvent(reason, 1));
+    }, 50);
+  }
+
+  /**
+   * Forget the notes started by undone steps, so the WAV export does not play
+   * them twice when execution runs through those steps again
+   */
+  private discardUndoneAudio(): void {
+    const now = (this.simulator.getCycleCount() * 1000) / this.cpuSpeed;
+    this.audioEvents = this.audioEvents.filter((event) => event.time < now);
+  }
+
   protected pauseRequest(
     response: DebugProtocol.PauseResponse,
     args: DebugProtocol.PauseArguments,
@@ -730,6 +999,101 @@ export class TonX86DebugSession extends DebugSession {
     }
   }
 
+  /**
+   * Queue the launch configuration's serial input and truncate the output capture file
+   */
+  private setUpSerialPort(launchArgs: TonX86LaunchRequestArguments): void {
+    this.serialInput = [];
+    this.serialInputOffset = 0;
+    this.serialOutputPath = "";
+    try {
+      if (launchArgs.serialInputFile) {
+        const inputPath = path.resolve(path.dirname(this.programPath), launchArgs.serialInputFile);
+        this.serialInput.push(fs.readFileSync(inputPath));
+      }
+      if (launchArgs.serialOutputFile) {
+        this.serialOutputPath = path.resolve(
+          path.dirname(this.programPath),
+          launchArgs.serialOutputFile,
+        );
+        fs.writeFileSync(this.serialOutputPath, "");
+      }
+    } catch (err) {
+      this.sendEvent(new OutputEvent(`Serial port setup failed: ${err}\n`, "stderr"));
+    }
+    if (launchArgs.serialInput) {
+      this.queueSerialInput(launchArgs.serialInput);
+    }
+    this.exchangeSerialData();
+  }
+
+  /**
+   * Add text to the bytes waiting to be sent to the UART
+   */
+  private queueSerialInput(text: string): void {
+    this.serialInput.push(Buffer.from(text, "latin1"));
+  }
+
+  /**
+   * Move waiting input into the UART receive FIFO as far as it has room, and
+   * show (and capture) what the program has transmitted
+   */
+  private exchangeSerialData(): void {
+    let space = this.simulator.getSerialInputSpace();
+    while (space > 0 && this.serialInput.length > 0) {
+      const chunk = this.serialInput[0];
+      const accepted = this.simulator.pushSerialInput(
+        chunk.subarray(this.serialInputOffset, this.serialInputOffset + space),
+      );
+      space -= accepted;
+      this.serialInputOffset += accepted;
+      if (this.serialInputOffset < chunk.length) {
+        break; // The FIFO is full
+      }
+      this.serialInput.shift();
+      this.serialInputOffset = 0;
+    }
+    const output = this.simulator.takeSerialOutput();
+    if (output.length === 0) {
+      return;
+    }
+    const bytes = Buffer.from(output);
+    this.sendEvent(new OutputEvent(bytes.toString("latin1"), "stdout"));
+    if (this.serialOutputPath) {
+      try {
+        fs.appendFileSync(this.serialOutputPath, bytes);
+      } catch (err) {
+        console.error(`[TonX86] Failed to capture serial output: ${err}`);
+      }
+    }
+  }
+
+  /**
+   * Write the current machine state to a snapshot file
+   */
+  private saveSnapshotFile(snapshotPath: string): void {
+    fs.writeFileSync(snapshotPath, serializeSnapshot(this.simulator.snapshot()));
+    this.sendEvent(new OutputEvent(`Snapshot saved to ${snapshotPath}\n`, "console"));
+  }
+
+  /**
+   * Restore the machine state from a snapshot file and move to its current line
+   */
+  private loadSnapshotFile(snapshotPath: string): void {
+    const snapshot = parseSnapshot(fs.readFileSync(snapshotPath, "utf-8"));
+    this.simulator.restore(snapshot);
+    const currentInstr = this.simulator.getCurrentInstruction();
+    if (currentInstr) {
+      this.currentLine = currentInstr.line;
+    }
+    this.sendEvent(
+      new OutputEvent(
+        `Snapshot restored from ${snapshotPath} (EIP=${this.simulator.getEIP()}, line ${this.currentLine})\n`,
+        "console",
+      ),
+    );
+  }
+
   /**
    * Custom request handlers
    */
@@ -740,8 +1104,24 @@ export class TonX86DebugSession extends DebugSession {
   ): void {
     if (command === "getLCDState") {
       const lcdData = this.simulator.getLCDDisplay();
+      const format = this.simulator.getLCDFormat();
       response.body = {
         pixels: Array.from(lcdData),
+        format,
+        // 0xRRGGBB per pixel; mono displays are drawn with the LCD theme colours instead
+        colors: format === "mono" ? undefined : Array.from(this.simulator.getLCDColors()),
+      };
+      this.sendResponse(response);
+    } else if (command === "getTextState") {
+      const text = this.simulator.getTextDisplay();
+      response.body = {
+        columns: text.columns,
+        rows: text.rows,
+        lines: this.simulator.getTextLines(),
+        attributes: Array.from(text.attributes),
+        cursorX: text.cursorX,
+        cursorY: text.cursorY,
+        cursorVisible: (text.ctrl & TEXT_CURSOR_VISIBLE) !== 0,
       };
       this.sendResponse(response);
     } else if (command === "getMemoryState") {
@@ -773,6 +1153,12 @@ export class TonX86DebugSession extends DebugSession {
       this.simulator.pushKeyboardEvent(keyCode, pressed);
       console.error(`[TonX86] Keyboard event: keyCode=${keyCode}, pressed=${pressed}`);
       this.sendResponse(response);
+      if (pressed && this.waitingForInput && this.simulator.isWaitingForInput()) {
+        this.sendEvent(new ContinuedEvent(1));
+        this.continueExecution(true).catch((err) => {
+          console.error("[TonX86] Error resuming after keyboard input:", err);
+        });
+      }
     } else if (command === "getAudioState") {
       // Get current audio device state
       const audioState = this.simulator.getAudioState();
@@ -780,6 +1166,23 @@ export class TonX86DebugSession extends DebugSession {
         ctrl: audioState.ctrl,
       };
       this.sendResponse(response);
+    } else if (command === "saveSnapshot" || command === "loadSnapshot") {
+      const snapshotPath = typeof args?.path === "string" ? args.path : "";
+      try {
+        if (!snapshotPath) {
+          throw new Error("No snapshot path given");
+        }
+        if (command === "saveSnapshot") {
+          this.saveSnapshotFile(snapshotPath);
+        } else {
+          this.loadSnapshotFile(snapshotPath);
+          this.sendEvent(new StoppedEvent("goto", 1));
+        }
+      } catch (err) {
+        response.success = false;
+        response.message = err instanceof Error ? err.message : String(err);
+      }
+      this.sendResponse(response);
     } else {
       super.customRequest(command, response, args);
     }
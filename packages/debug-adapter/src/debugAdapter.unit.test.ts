@@ -101,6 +101,16 @@ start:
       stopOnEntry?: boolean;
       cpuSpeed?: number;
       enableLogging?: boolean;
+      executionMode?: string;
+      snapshot?: string;
+      historyDepth?: number;
+      randomSeed?: number;
+      textColumns?: number;
+      textRows?: number;
+      serialInput?: string;
+      serialInputFile?: string;
+      serialOutputFile?: string;
+      audioOutputFile?: string;
     } = {},
   ) {
     const response = makeResponse("launch");
@@ -109,6 +119,16 @@ start:
       stopOnEntry: options.stopOnEntry !== undefined ? options.stopOnEntry : true,
       cpuSpeed: options.cpuSpeed,
       enableLogging: options.enableLogging,
+      executionMode: options.executionMode,
+      snapshot: options.snapshot,
+      historyDepth: options.historyDepth,
+      randomSeed: options.randomSeed,
+      textColumns: options.textColumns,
+      textRows: options.textRows,
+      serialInput: options.serialInput,
+      serialInputFile: options.serialInputFile,
+      serialOutputFile: options.serialOutputFile,
+      audioOutputFile: options.audioOutputFile,
       __restart: undefined,
       noDebug: false,
     };
@@ -139,7 +159,8 @@ start:
       expect(sentResponses[0].body.supportsSetVariable).toBe(true);
       expect(sentResponses[0].body.supportsConditionalBreakpoints).toBe(false);
       expect(sentResponses[0].body.supportsFunctionBreakpoints).toBe(false);
-      expect(sentResponses[0].body.supportsStepBack).toBe(false);
+      expect(sentResponses[0].body.supportsStepBack).toBe(true);
+      expect(sentResponses[0].body.supportsExceptionInfoRequest).toBe(true);
     });
   });
 
@@ -152,8 +173,20 @@ start:
     });
 
     it("should handle cpuSpeed parameter", () => {
-      launchProgram(testProgramPath, { cpuSpeed: 150 });
-      expect((session as any).cpuSpeed).toBe(150);
+      launchProgram(testProgramPath, { cpuSpeed: 4_770_000 });
+      expect((session as any).cpuSpeed).toBe(4_770_000);
+    });
+
+    it("should read a legacy percentage cpuSpeed and warn", () => {
+      const response = makeResponse("launch");
+      const args: any = { program: testProgramPath, cpuSpeed: 50, noDebug: false };
+      (session as any).launchRequest(response, args);
+      expect((session as any).cpuSpeed).toBe(500_000);
+      const warnings = sentEvents.filter(
+        (e: any) => e.event === "output" && /deprecated/i.test(e.body.output),
+      );
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].body.category).toBe("stderr");
     });
 
     it("should handle enableLogging=true", () => {
@@ -179,6 +212,37 @@ start:
       expect((session as any).programPath).toBe(dataPath);
     });
 
+    it("should assemble code into memory at the ORG address", () => {
+      const orgProgram = `ORG 0x100
+start:
+  NOP
+  HLT
+`;
+      const orgPath = path.join(tempDir, "org.asm");
+      fs.writeFileSync(orgPath, orgProgram);
+      launchProgram(orgPath);
+      const simulator = (session as any).simulator;
+      expect(simulator.getAssembledProgram().origin).toBe(0x100);
+      expect(Array.from(simulator.getMemoryA(0x100, 4))).toEqual([0x90, 0, 0xf4, 0]);
+    });
+
+    it("should fetch instructions from memory when executionMode is memory", () => {
+      const orgProgram = `ORG 0x100
+start:
+  MOV EAX, 1
+  JMP start
+`;
+      const orgPath = path.join(tempDir, "org-memory.asm");
+      fs.writeFileSync(orgPath, orgProgram);
+      launchProgram(orgPath, { executionMode: "memory" });
+      const simulator = (session as any).simulator;
+      expect(simulator.getExecutionMode()).toBe("memory");
+      expect(simulator.getEIP()).toBe(0x100);
+      expect(simulator.step()).toBe(3);
+      expect(simulator.step()).toBe(4);
+      expect(simulator.getEIP()).toBe(0x100);
+    });
+
     it("should handle non-existent file gracefully", () => {
       const fakePath = path.join(tempDir, "nonexistent.asm");
       launchProgram(fakePath);
@@ -413,14 +477,14 @@ start:
   // ==================== Variables ====================
 
   describe("Variables Request", () => {
-    it("should return all 8 register variables", () => {
+    it("should return all 8 register variables and the cycle count", () => {
       const response = makeResponse("variables");
       response.body = { variables: [] };
       const args: DebugProtocol.VariablesArguments = { variablesReference: 1 };
       (session as any).variablesRequest(response, args);
 
       const vars = sentResponses[0].body.variables;
-      expect(vars.length).toBe(8);
+      expect(vars.length).toBe(9);
       const names = vars.map((v: any) => v.name);
       expect(names).toContain("EAX");
       expect(names).toContain("ECX");
@@ -430,6 +494,7 @@ start:
       expect(names).toContain("EBP");
       expect(names).toContain("ESI");
       expect(names).toContain("EDI");
+      expect(vars[8]).toMatchObject({ name: "Cycles", value: "0" });
     });
   });
 
@@ -521,28 +586,22 @@ start:
       expect(stopped.length).toBe(1);
     });
 
-    it("should handle cpuSpeed <= 50", async () => {
-      launchProgram(testProgramPath, { cpuSpeed: 30 });
-      sentEvents = [];
-
-      await (session as any).continueExecution();
-
-      const terminated = sentEvents.filter((e: any) => e.event === "terminated");
-      expect(terminated.length).toBeGreaterThan(0);
-    });
-
-    it("should handle cpuSpeed between 51 and 99", async () => {
-      launchProgram(testProgramPath, { cpuSpeed: 75 });
+    it("should throttle execution at a low clock rate", async () => {
+      launchProgram(testProgramPath, { cpuSpeed: 1000 });
       sentEvents = [];
 
+      const start = Date.now();
       await (session as any).continueExecution();
 
+      const cycles = (session as any).simulator.getCycleCount();
+      // Allow for timer granularity when checking simulated vs. wall time
+      expect(Date.now() - start).toBeGreaterThanOrEqual(cycles - 10);
       const terminated = sentEvents.filter((e: any) => e.event === "terminated");
       expect(terminated.length).toBeGreaterThan(0);
     });
 
-    it("should handle cpuSpeed > 100", async () => {
-      launchProgram(testProgramPath, { cpuSpeed: 200 });
+    it("should run at the maximum clock rate", async () => {
+      launchProgram(testProgramPath, { cpuSpeed: 10_000_000 });
       sentEvents = [];
 
       await (session as any).continueExecution();
@@ -584,6 +643,31 @@ start:
       expect(outputEvents.length).toBeGreaterThan(0);
     });
 
+    it("should stop on an unhandled CPU exception instead of terminating", async () => {
+      const divProgram = `start:
+  MOV EAX, 10
+  DIV EBX
+  HLT
+`;
+      const divPath = path.join(tempDir, "div.asm");
+      fs.writeFileSync(divPath, divProgram);
+      launchProgram(divPath);
+
+      await (session as any).continueExecution();
+
+      const stopped = sentEvents.filter((e: any) => e.event === "stopped");
+      expect(stopped).toHaveLength(1);
+      expect(stopped[0].body.reason).toBe("exception");
+      expect(stopped[0].body.text).toContain("#DE");
+      expect(sentEvents.filter((e: any) => e.event === "terminated")).toHaveLength(0);
+      expect((session as any).currentLine).toBe(3);
+
+      const response = makeResponse("exceptionInfo");
+      (session as any).exceptionInfoRequest(response, { threadId: 1 });
+      expect(sentResponses[0].body.exceptionId).toBe("#DE");
+      expect(sentResponses[0].body.details.message).toBe("Division by zero");
+    });
+
     it("should log execution when enableLogging is true", async () => {
       launchProgram(testProgramPath, { enableLogging: true });
       sentEvents = [];
@@ -613,6 +697,96 @@ start:
       const terminated = sentEvents.filter((e: any) => e.event === "terminated");
       expect(terminated.length).toBeGreaterThan(0);
     });
+
+    it("should not stop at a breakpoint between REP iterations", async () => {
+      const repProgram = `start:
+  MOV EDI, 0x2000
+  MOV ECX, 3
+  REP STOSB
+  HLT
+`;
+      const repPath = path.join(tempDir, "rep.asm");
+      fs.writeFileSync(repPath, repProgram);
+      launchProgram(repPath);
+      (session as any).breakpoints.add(4);
+
+      await (session as any).continueExecution();
+      expect(sentEvents.filter((e: any) => e.event === "stopped")).toHaveLength(1);
+      expect((session as any).simulator.getRegisters().ECX).toBe(3);
+
+      sentEvents = [];
+      await (session as any).continueExecution();
+      expect(sentEvents.filter((e: any) => e.event === "stopped")).toHaveLength(0);
+      expect(sentEvents.filter((e: any) => e.event === "terminated")).toHaveLength(1);
+      expect((session as any).simulator.getRegisters().ECX).toBe(0);
+    });
+
+    it("should send the INT 21h AH=4Ch return code in an exited event", async () => {
+      const exitProgram = `start:
+  MOV AH, 0x4C
+  MOV AL, 3
+  INT 0x21
+`;
+      const exitPath = path.join(tempDir, "exit.asm");
+      fs.writeFileSync(exitPath, exitProgram);
+      launchProgram(exitPath);
+
+      await (session as any).continueExecution();
+
+      const events = sentEvents.map((e: any) => e.event);
+      expect(events.slice(-2)).toEqual(["exited", "terminated"]);
+      expect(sentEvents[sentEvents.length - 2].body.exitCode).toBe(3);
+      const failure = sentEvents.find(
+        (e: any) => e.event === "output" && e.body.category === "stderr",
+      );
+      expect(failure.body.output).toContain("Program exited with code 3 at line 4");
+    });
+
+    it("should exit with code 0 after HLT", async () => {
+      launchProgram(testProgramPath);
+
+      await (session as any).continueExecution();
+
+      const exited = sentEvents.filter((e: any) => e.event === "exited");
+      expect(exited).toHaveLength(1);
+      expect(exited[0].body.exitCode).toBe(0);
+    });
+
+    it("should pause while waiting for input and resume on a key press", async () => {
+      const inputProgram = `start:
+  MOV EAX, 0
+  INT 0x16
+  MOV EBX, EAX
+  HLT
+`;
+      const inputPath = path.join(tempDir, "input.asm");
+      fs.writeFileSync(inputPath, inputProgram);
+      launchProgram(inputPath);
+
+      await (session as any).continueExecution();
+
+      const stopped = sentEvents.filter((e: any) => e.event === "stopped");
+      expect(stopped).toHaveLength(1);
+      expect(stopped[0].body.reason).toBe("pause");
+      expect(stopped[0].body.text).toBe("Waiting for keyboard input");
+      expect((session as any).currentLine).toBe(3);
+
+      sentEvents = [];
+      (session as any).customRequest("keyboardEvent", makeResponse("keyboardEvent"), {
+        keyCode: 65,
+        pressed: false,
+      });
+      expect(sentEvents).toHaveLength(0); // A release does not resume
+
+      (session as any).customRequest("keyboardEvent", makeResponse("keyboardEvent"), {
+        keyCode: 65,
+        pressed: true,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(sentEvents[0].event).toBe("continued");
+      expect(sentEvents.filter((e: any) => e.event === "terminated")).toHaveLength(1);
+      expect((session as any).simulator.getRegisters().EBX).toBe(65);
+    });
   });
 
   // ==================== Next Request (Step Over) ====================
@@ -686,6 +860,20 @@ start:
       expect(errorOutput.length).toBeGreaterThan(0);
     });
 
+    it("should stop with reason exception when INT3 raises #BP", () => {
+      const int3Path = path.join(tempDir, "int3.asm");
+      fs.writeFileSync(int3Path, "start:\n  INT3\n  MOV EAX, 1\n  HLT\n");
+      launchProgram(int3Path);
+
+      (session as any).nextRequest(makeResponse("next"), { threadId: 1 });
+
+      const stopped = sentEvents.filter((e: any) => e.event === "stopped");
+      expect(stopped).toHaveLength(1);
+      expect(stopped[0].body.reason).toBe("exception");
+      expect(sentEvents.filter((e: any) => e.event === "terminated")).toHaveLength(0);
+      expect((session as any).simulator.getCurrentInstruction().mnemonic).toBe("MOV");
+    });
+
     it("should handle logging during next with enableLogging", () => {
       jest.useFakeTimers();
       launchProgram(testProgramPath, { enableLogging: true });
@@ -870,6 +1058,104 @@ start:
     });
   });
 
+  // ==================== Reverse Execution ====================
+
+  describe("Reverse Execution", () => {
+    function stepIn(): void {
+      (session as any).stepInRequest(makeResponse("stepIn"), { threadId: 1 });
+    }
+
+    it("should step back to the previous instruction", () => {
+      jest.useFakeTimers();
+      launchProgram(testProgramPath);
+      stepIn();
+      stepIn();
+      jest.advanceTimersByTime(100);
+      sentEvents = [];
+
+      const args: DebugProtocol.StepBackArguments = { threadId: 1 };
+      (session as any).stepBackRequest(makeResponse("stepBack"), args);
+      jest.advanceTimersByTime(100);
+
+      const sim = (session as any).simulator;
+      expect(sim.getRegisters().EAX).toBe(10);
+      expect(sim.getRegisters().EBX).toBe(0);
+      expect((session as any).currentLine).toBe(4);
+      const stopped = sentEvents.filter((e: any) => e.event === "stopped");
+      expect(stopped[0].body.reason).toBe("step");
+      jest.useRealTimers();
+    });
+
+    it("should report when there is no history", () => {
+      jest.useFakeTimers();
+      launchProgram(testProgramPath);
+
+      (session as any).stepBackRequest(makeResponse("stepBack"), { threadId: 1 });
+      jest.advanceTimersByTime(100);
+
+      const output = sentEvents.filter((e: any) => e.event === "output");
+      expect(output.some((e: any) => e.body.output.includes("No execution history"))).toBe(true);
+      expect(sentEvents.some((e: any) => e.event === "stopped")).toBe(true);
+      jest.useRealTimers();
+    });
+
+    it("should reverse continue to a breakpoint", () => {
+      jest.useFakeTimers();
+      launchProgram(testProgramPath);
+      stepIn();
+      stepIn();
+      stepIn();
+      jest.advanceTimersByTime(100);
+      (session as any).breakpoints.add(4);
+      sentEvents = [];
+
+      const args: DebugProtocol.ReverseContinueArguments = { threadId: 1 };
+      (session as any).reverseContinueRequest(makeResponse("reverseContinue"), args);
+      jest.advanceTimersByTime(100);
+
+      expect((session as any).currentLine).toBe(4);
+      expect((session as any).simulator.getRegisters().EBX).toBe(0);
+      const stopped = sentEvents.filter((e: any) => e.event === "stopped");
+      expect(stopped[0].body.reason).toBe("breakpoint");
+      jest.useRealTimers();
+    });
+
+    it("should reverse continue to the start of the history", () => {
+      jest.useFakeTimers();
+      launchProgram(testProgramPath);
+      stepIn();
+      stepIn();
+      jest.advanceTimersByTime(100);
+      sentEvents = [];
+
+      (session as any).reverseContinueRequest(makeResponse("reverseContinue"), { threadId: 1 });
+      jest.advanceTimersByTime(100);
+
+      expect((session as any).currentLine).toBe(3);
+      expect((session as any).simulator.getRegisters().EAX).toBe(0);
+      const stopped = sentEvents.filter((e: any) => e.event === "stopped");
+      expect(stopped[0].body.reason).toBe("entry");
+      jest.useRealTimers();
+    });
+
+    it("should apply the historyDepth launch argument", () => {
+      launchProgram(testProgramPath, { historyDepth: 1 });
+      expect((session as any).simulator.getHistoryDepth()).toBe(1);
+    });
+
+    it("should apply the randomSeed launch argument", () => {
+      launchProgram(testProgramPath, { randomSeed: 1234 });
+      expect((session as any).simulator.getRandomSeed()).toBe(1234);
+    });
+
+    it("should apply the textColumns and textRows launch arguments", () => {
+      launchProgram(testProgramPath, { textColumns: 40, textRows: 12 });
+      const text = (session as any).simulator.getTextDisplay();
+      expect(text.columns).toBe(40);
+      expect(text.rows).toBe(12);
+    });
+  });
+
   // ==================== Pause Request ====================
 
   describe("Pause Request", () => {
@@ -902,6 +1188,38 @@ start:
       expect(sentResponses[0].body).toBeDefined();
       expect(sentResponses[0].body.pixels).toBeDefined();
       expect(Array.isArray(sentResponses[0].body.pixels)).toBe(true);
+      expect(sentResponses[0].body.format).toBe("mono");
+      expect(sentResponses[0].body.colors).toBeUndefined();
+    });
+
+    it("should include pixel colours in getLCDState for colour formats", () => {
+      const simulator = (session as any).simulator;
+      simulator.executeInstruction("MOV", ["0x10000", "2"]); // RGB332
+      simulator.executeInstruction("MOV", ["0xF001", "0xE0"]);
+      const response = makeResponse("getLCDState");
+      (session as any).customRequest("getLCDState", response, {});
+
+      expect(sentResponses[0].body.format).toBe("rgb332");
+      expect(sentResponses[0].body.colors[0]).toBe(0);
+      expect(sentResponses[0].body.colors[1]).toBe(0xff0000);
+    });
+
+    it("should handle getTextState", () => {
+      const simulator = (session as any).simulator;
+      simulator.executeInstruction("MOV", ["0x11000", "0x48"]);
+      simulator.executeInstruction("MOV", ["0x11800", "0x1E"]);
+      simulator.executeInstruction("MOV", ["0x11FF1", "2"]);
+      const response = makeResponse("getTextState");
+      (session as any).customRequest("getTextState", response, {});
+
+      const body = sentResponses[0].body;
+      expect(body.columns).toBe(80);
+      expect(body.rows).toBe(25);
+      expect(body.lines).toHaveLength(25);
+      expect(body.lines[0][0]).toBe("H");
+      expect(body.attributes[0]).toBe(0x1e);
+      expect(body.cursorY).toBe(2);
+      expect(body.cursorVisible).toBe(true);
     });
 
     it("should handle getMemoryState with default params", () => {
@@ -982,6 +1300,53 @@ start:
       expect(sentResponses[0].body.ctrl).toBeDefined();
       expect(typeof sentResponses[0].body.ctrl).toBe("number");
     });
+
+    it("should save and load snapshots", () => {
+      launchProgram(testProgramPath);
+      const simulator = (session as any).simulator;
+      simulator.step();
+      simulator.step();
+      const snapshotPath = path.join(tempDir, "state.json");
+
+      (session as any).customRequest("saveSnapshot", makeResponse("saveSnapshot"), {
+        path: snapshotPath,
+      });
+      expect(sentResponses[sentResponses.length - 1].success).toBe(true);
+      expect(JSON.parse(fs.readFileSync(snapshotPath, "utf-8")).format).toBe("tonx86-snapshot");
+
+      simulator.step();
+      sentEvents = [];
+      (session as any).customRequest("loadSnapshot", makeResponse("loadSnapshot"), {
+        path: snapshotPath,
+      });
+      expect(sentResponses[sentResponses.length - 1].success).toBe(true);
+      expect(simulator.getRegisters().EAX).toBe(10);
+      expect(simulator.getEIP()).toBe(2);
+      expect((session as any).currentLine).toBe(5);
+      expect(sentEvents.some((e: any) => e.event === "stopped")).toBe(true);
+    });
+
+    it("should fail loadSnapshot for an invalid file", () => {
+      const badPath = path.join(tempDir, "bad.json");
+      fs.writeFileSync(badPath, "{}");
+      const response = makeResponse("loadSnapshot");
+      (session as any).customRequest("loadSnapshot", response, { path: badPath });
+      expect(sentResponses[0].success).toBe(false);
+      expect(sentResponses[0].message).toContain("not a TonX86 snapshot");
+    });
+
+    it("should restore a snapshot given at launch", () => {
+      launchProgram(testProgramPath);
+      const simulator = (session as any).simulator;
+      simulator.step();
+      const snapshotPath = path.join(tempDir, "launch.json");
+      fs.writeFileSync(snapshotPath, JSON.stringify(simulator.snapshot()));
+
+      launchProgram(testProgramPath, { snapshot: snapshotPath });
+      expect((session as any).simulator.getEIP()).toBe(1);
+      expect((session as any).simulator.getRegisters().EAX).toBe(10);
+      expect((session as any).currentLine).toBe(4);
+    });
   });
 
   // ==================== Audio Events ====================
@@ -1030,11 +1395,200 @@ start:
       expect(audioEvent.duration).toBe(200);
       expect(audioEvent.waveform).toBe("square");
       expect(typeof audioEvent.volume).toBe("number");
+      expect(audioEvent.channel).toBe(0);
+      expect(audioEvent.time).toBeGreaterThan(0);
+      expect(audioEvent.envelope).toEqual({ attack: 0, decay: 0, sustain: 1, release: 0 });
+    });
+
+    describe("audioOutputFile", () => {
+      // Queue two 50 ms notes on channel 0 and one on channel 1
+      const musicProgram = `  MOV [0x10204], 50
+  MOV [0x10205], 0
+  MOV [0x1020B], 1
+  MOV [0x1020B], 1
+  MOV [0x10214], 50
+  MOV [0x10215], 0
+  MOV [0x1021B], 1
+  HLT
+`;
+      let musicPath: string;
+
+      beforeEach(() => {
+        musicPath = path.join(tempDir, "music.asm");
+        fs.writeFileSync(musicPath, musicProgram);
+      });
+
+      function outputs(category: string): string {
+        return sentEvents
+          .filter((e: any) => e.event === "output" && e.body.category === category)
+          .map((e: any) => e.body.output)
+          .join("");
+      }
+
+      it("should write the notes of the run to a WAV file when the program ends", async () => {
+        launchProgram(musicPath, { audioOutputFile: "music.wav" });
+        await (session as any).continueExecution();
+
+        const wav = fs.readFileSync(path.join(tempDir, "music.wav"));
+        expect(wav.toString("latin1", 0, 4)).toBe("RIFF");
+        expect(wav.length).toBeGreaterThan(44);
+        expect(outputs("console")).toContain("(3 notes)");
+      });
+
+      it("should not record notes twice after stepping back over them", async () => {
+        jest.useFakeTimers();
+        launchProgram(musicPath, { audioOutputFile: "replay.wav" });
+        for (let i = 0; i < 3; i++) {
+          (session as any).stepInRequest(makeResponse("stepIn"), { threadId: 1 });
+        }
+        jest.advanceTimersByTime(100);
+        expect((session as any).audioEvents).toHaveLength(1);
+
+        (session as any).stepBackRequest(makeResponse("stepBack"), { threadId: 1 });
+        jest.advanceTimersByTime(100);
+        expect((session as any).audioEvents).toHaveLength(0);
+        jest.useRealTimers();
+
+        await (session as any).continueExecution();
+        expect(outputs("console")).toContain("(3 notes)");
+      });
+
+      it("should write the WAV file when the session is stopped early", () => {
+        launchProgram(musicPath, { audioOutputFile: "early.wav" });
+        (session as any).disconnectRequest(makeResponse("disconnect"), {});
+
+        expect(fs.existsSync(path.join(tempDir, "early.wav"))).toBe(true);
+      });
+
+      it("should report a WAV file that cannot be written", async () => {
+        launchProgram(musicPath, { audioOutputFile: "missing/music.wav" });
+        await (session as any).continueExecution();
+
+        expect(outputs("stderr")).toContain("Audio export failed");
+      });
     });
   });
 
   // ==================== emitConsoleOutput ====================
 
+  // ==================== Serial Port ====================
+
+  describe("Serial Port", () => {
+    // Echo every received byte in upper case until a newline arrives
+    const echoProgram = `loop:
+  MOV EAX, [0x10503]
+  CMP EAX, 0
+  JE loop
+  MOV EAX, [0x10500]
+  CMP EAX, 10
+  JE done
+  SUB EAX, 32
+  MOV [0x10500], EAX
+  JMP loop
+done:
+  HLT
+`;
+    let echoPath: string;
+
+    beforeEach(() => {
+      echoPath = path.join(tempDir, "echo.asm");
+      fs.writeFileSync(echoPath, echoProgram);
+    });
+
+    function stdout(): string {
+      return sentEvents
+        .filter((e: any) => e.event === "output" && e.body.category === "stdout")
+        .map((e: any) => e.body.output)
+        .join("");
+    }
+
+    /** Bytes still waiting for room in the receive FIFO */
+    function pendingInput(): number {
+      const chunks: Buffer[] = (session as any).serialInput;
+      return (
+        chunks.reduce((sum, chunk) => sum + chunk.length, 0) - (session as any).serialInputOffset
+      );
+    }
+
+    it("should feed serialInput and capture the output to a file", async () => {
+      launchProgram(echoPath, { serialInput: "abc\n", serialOutputFile: "out.txt" });
+      await (session as any).continueExecution();
+
+      expect(stdout()).toContain("ABC");
+      expect(fs.readFileSync(path.join(tempDir, "out.txt"), "latin1")).toBe("ABC");
+    });
+
+    it("should feed serialInputFile before serialInput", async () => {
+      fs.writeFileSync(path.join(tempDir, "in.txt"), "xy");
+      launchProgram(echoPath, { serialInputFile: "in.txt", serialInput: "z\n" });
+      await (session as any).continueExecution();
+
+      expect(stdout()).toContain("XYZ");
+    });
+
+    it("should report a missing serialInputFile", () => {
+      launchProgram(echoPath);
+      (session as any).setUpSerialPort({ serialInputFile: "missing.txt", serialInput: "q" });
+
+      const errors = sentEvents.filter(
+        (e: any) => e.event === "output" && e.body.category === "stderr",
+      );
+      expect(errors[0].body.output).toContain("Serial port setup failed");
+      expect((session as any).simulator.getUartState().rx).toEqual([0x71]);
+    });
+
+    it("should send Debug Console lines to the UART", async () => {
+      launchProgram(echoPath);
+      const response = makeResponse("evaluate");
+      (session as any).evaluateRequest(response, { expression: "hi", context: "repl" });
+      expect(sentResponses[0].body.result).toBe("");
+
+      await (session as any).continueExecution();
+      expect(stdout()).toContain("HI");
+    });
+
+    it("should keep input that does not fit in the receive FIFO for later", () => {
+      launchProgram(echoPath, { serialInput: "a".repeat(5000) });
+      const simulator = (session as any).simulator;
+      expect(simulator.getSerialInputSpace()).toBe(0);
+      expect(pendingInput()).toBe(5000 - 4096);
+
+      simulator.takeSerialOutput();
+      simulator.reset();
+      (session as any).exchangeSerialData();
+      expect(pendingInput()).toBe(0);
+    });
+
+    it("should queue large inputs and send them in order", () => {
+      const size = 500 * 1024;
+      const fileInput = Buffer.alloc(size, "f");
+      fileInput[0] = 0x31; // Marks the first byte of the file
+      fs.writeFileSync(path.join(tempDir, "big.txt"), fileInput);
+      launchProgram(echoPath, { serialInputFile: "big.txt", serialInput: "t".repeat(size) });
+      const simulator = (session as any).simulator;
+      expect(pendingInput()).toBe(2 * size - 4096);
+      expect(simulator.getUartState().rx[0]).toBe(0x31);
+
+      const received: number[] = [];
+      while (pendingInput() > 0) {
+        received.push(...simulator.getUartState().rx);
+        simulator.reset();
+        (session as any).exchangeSerialData();
+      }
+      received.push(...simulator.getUartState().rx);
+      expect(received).toHaveLength(2 * size);
+      expect(received[size - 1]).toBe(0x66);
+      expect(received[size]).toBe(0x74);
+    });
+
+    it("should leave other evaluate contexts to the base class", () => {
+      launchProgram(echoPath);
+      const response = makeResponse("evaluate");
+      (session as any).evaluateRequest(response, { expression: "EAX", context: "hover" });
+      expect((session as any).simulator.getUartState().rx).toEqual([]);
+    });
+  });
+
   describe("emitConsoleOutput", () => {
     it("should emit output when simulator has console output", () => {
       launchProgram(testProgramPath);
@@ -5,11 +5,18 @@ import {
   formatRegisterValue,
   formatFlagValue,
   validateCPUSpeed,
+  computeThrottleDelay,
+  DEFAULT_CPU_SPEED_HZ,
+  MAX_CPU_SPEED_HZ,
+  LEGACY_CPU_SPEED_MAX_PERCENT,
+  isLegacyCPUSpeed,
+  validateHistoryDepth,
+  MAX_HISTORY_DEPTH,
   isExecutableLine,
   findInstructionByLine,
   parseInterruptNumber,
 } from "./debugLogic";
-import { Instruction } from "@tonx86/simcore";
+import { Instruction, DEFAULT_HISTORY_DEPTH } from "@tonx86/simcore";
 
 describe("Debug Logic Business Functions", () => {
   describe("detectLCDDimensions", () => {
@@ -389,26 +396,70 @@ describe("Debug Logic Business Functions", () => {
   });
 
   describe("validateCPUSpeed", () => {
-    it("should return 100 for undefined", () => {
-      expect(validateCPUSpeed(undefined)).toBe(100);
+    it("should return the default clock rate for undefined", () => {
+      expect(validateCPUSpeed(undefined)).toBe(DEFAULT_CPU_SPEED_HZ);
+      expect(validateCPUSpeed(NaN)).toBe(DEFAULT_CPU_SPEED_HZ);
     });
 
-    it("should clamp values below 1", () => {
+    it("should clamp values below 1 Hz", () => {
       expect(validateCPUSpeed(0)).toBe(1);
       expect(validateCPUSpeed(-10)).toBe(1);
     });
 
-    it("should clamp values above 200", () => {
-      expect(validateCPUSpeed(250)).toBe(200);
-      expect(validateCPUSpeed(1000)).toBe(200);
+    it("should clamp values above the maximum clock rate", () => {
+      expect(validateCPUSpeed(MAX_CPU_SPEED_HZ + 1)).toBe(MAX_CPU_SPEED_HZ);
+      expect(validateCPUSpeed(1e12)).toBe(MAX_CPU_SPEED_HZ);
     });
 
-    it("should pass through valid values", () => {
-      expect(validateCPUSpeed(1)).toBe(1);
-      expect(validateCPUSpeed(50)).toBe(50);
-      expect(validateCPUSpeed(100)).toBe(100);
-      expect(validateCPUSpeed(150)).toBe(150);
-      expect(validateCPUSpeed(200)).toBe(200);
+    it("should pass through valid values as whole Hz", () => {
+      expect(validateCPUSpeed(LEGACY_CPU_SPEED_MAX_PERCENT + 1)).toBe(201);
+      expect(validateCPUSpeed(4_770_000)).toBe(4_770_000);
+      expect(validateCPUSpeed(1000.7)).toBe(1000);
+    });
+
+    it("should read legacy percentages as a share of the default clock rate", () => {
+      expect(validateCPUSpeed(1)).toBe(DEFAULT_CPU_SPEED_HZ / 100);
+      expect(validateCPUSpeed(100)).toBe(DEFAULT_CPU_SPEED_HZ);
+      expect(validateCPUSpeed(LEGACY_CPU_SPEED_MAX_PERCENT)).toBe(2 * DEFAULT_CPU_SPEED_HZ);
+    });
+  });
+
+  describe("isLegacyCPUSpeed", () => {
+    it("should flag values in the old 1-200 percentage range", () => {
+      expect(isLegacyCPUSpeed(1)).toBe(true);
+      expect(isLegacyCPUSpeed(100)).toBe(true);
+      expect(isLegacyCPUSpeed(LEGACY_CPU_SPEED_MAX_PERCENT)).toBe(true);
+    });
+
+    it("should not flag clock rates or missing values", () => {
+      expect(isLegacyCPUSpeed(undefined)).toBe(false);
+      expect(isLegacyCPUSpeed(0)).toBe(false);
+      expect(isLegacyCPUSpeed(LEGACY_CPU_SPEED_MAX_PERCENT + 1)).toBe(false);
+      expect(isLegacyCPUSpeed(DEFAULT_CPU_SPEED_HZ)).toBe(false);
+    });
+  });
+
+  describe("validateHistoryDepth", () => {
+    it("should return the default depth for undefined", () => {
+      expect(validateHistoryDepth(undefined)).toBe(DEFAULT_HISTORY_DEPTH);
+      expect(validateHistoryDepth(NaN)).toBe(DEFAULT_HISTORY_DEPTH);
+    });
+
+    it("should clamp to 0..MAX_HISTORY_DEPTH", () => {
+      expect(validateHistoryDepth(-5)).toBe(0);
+      expect(validateHistoryDepth(MAX_HISTORY_DEPTH + 1)).toBe(MAX_HISTORY_DEPTH);
+      expect(validateHistoryDepth(250.9)).toBe(250);
+    });
+  });
+
+  describe("computeThrottleDelay", () => {
+    it("should return the time the simulation is ahead of real time", () => {
+      // 1000 cycles at 1 kHz = 1000 ms of simulated time
+      expect(computeThrottleDelay(1000, 1000, 400)).toBe(600);
+    });
+
+    it("should return 0 when the simulation is behind", () => {
+      expect(computeThrottleDelay(1000, 1_000_000, 50)).toBe(0);
     });
   });
 
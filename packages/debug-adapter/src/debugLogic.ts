@@ -3,7 +3,7 @@
  * This module contains pure functions that can be easily unit tested
  */
 
-import { Instruction } from "@tonx86/simcore";
+import { Instruction, DEFAULT_HISTORY_DEPTH } from "@tonx86/simcore";
 
 /**
  * Result of scanning a single operand for LCD-related addresses.
@@ -161,18 +161,72 @@ export function formatFlagValue(value: boolean | number): string {
   return value ? "1" : "0";
 }
 
+/** Default CPU clock rate in Hz */
+export const DEFAULT_CPU_SPEED_HZ = 1_000_000;
+
+/** Highest supported CPU clock rate in Hz */
+export const MAX_CPU_SPEED_HZ = 10_000_000;
+
+/** Largest CPU speed read as a percentage of DEFAULT_CPU_SPEED_HZ, as it was before it became a clock rate */
+export const LEGACY_CPU_SPEED_MAX_PERCENT = 200;
+
 /**
- * Validate CPU speed parameter
+ * Check whether a CPU speed is in the deprecated percentage range (1-200)
  *
  * @param speed - The requested CPU speed
- * @returns Clamped speed between 1 and 200
+ * @returns true if the value is read as a percentage rather than Hz
+ */
+export function isLegacyCPUSpeed(speed: number | undefined): boolean {
+  return speed !== undefined && speed >= 1 && speed <= LEGACY_CPU_SPEED_MAX_PERCENT;
+}
+
+/**
+ * Validate CPU speed parameter
+ *
+ * @param speed - The requested CPU clock rate in Hz, or a deprecated percentage (1-200)
+ * @returns Clock rate clamped between 1 Hz and MAX_CPU_SPEED_HZ
  */
 export function validateCPUSpeed(speed: number | undefined): number {
-  if (speed === undefined) {
-    return 100; // Default speed
+  if (speed === undefined || Number.isNaN(speed)) {
+    return DEFAULT_CPU_SPEED_HZ;
+  }
+  if (isLegacyCPUSpeed(speed)) {
+    return Math.floor((speed * DEFAULT_CPU_SPEED_HZ) / 100);
   }
-  // Clamp between 1 and 200
-  return Math.max(1, Math.min(200, speed));
+  return Math.max(1, Math.min(MAX_CPU_SPEED_HZ, Math.floor(speed)));
+}
+
+/** Largest number of steps the debugger keeps for reverse execution */
+export const MAX_HISTORY_DEPTH = 1_000_000;
+
+/**
+ * Validate the reverse-execution history depth
+ *
+ * @param depth - The requested number of steps to keep (0 disables stepping back)
+ * @returns Depth clamped between 0 and MAX_HISTORY_DEPTH
+ */
+export function validateHistoryDepth(depth: number | undefined): number {
+  if (depth === undefined || Number.isNaN(depth)) {
+    return DEFAULT_HISTORY_DEPTH;
+  }
+  return Math.max(0, Math.min(MAX_HISTORY_DEPTH, Math.floor(depth)));
+}
+
+/**
+ * Compute how long to sleep so that simulated time keeps pace with wall time
+ *
+ * @param elapsedCycles - Cycles executed since execution started
+ * @param clockHz - CPU clock rate in Hz
+ * @param elapsedMs - Wall-clock milliseconds since execution started
+ * @returns Milliseconds the simulation is ahead of real time (0 if behind)
+ */
+export function computeThrottleDelay(
+  elapsedCycles: number,
+  clockHz: number,
+  elapsedMs: number,
+): number {
+  const simulatedMs = (elapsedCycles / clockHz) * 1000;
+  return Math.max(0, simulatedMs - elapsedMs);
 }
 
 /**
@@ -273,12 +273,43 @@ describe("Parser - Assembler Directives", () => {
     });
   });
 
+  describe("Labels in data", () => {
+    it("should keep label names in DD values", () => {
+      const lines = [
+        ".data",
+        "table: DD case0, case1, 0",
+        ".text",
+        "case0:",
+        "  MOV EAX, 1",
+        "case1:",
+        "  MOV EAX, 2",
+      ];
+      const result = parseAssembly(lines);
+
+      expect(result.dataSegment.items[0].values).toEqual(["case0", "case1", 0]);
+      expect(result.labels.get("case1")).toBe(1);
+    });
+
+    it("should still substitute EQU constants", () => {
+      const lines = ["SIZE EQU 4", ".data", "DD SIZE, buffer", "buffer: DB 0"];
+      const result = parseAssembly(lines);
+
+      expect(result.dataSegment.items[0].values).toEqual([4, "buffer"]);
+    });
+  });
+
   describe("Error handling", () => {
     it("should throw error for invalid directive in data section", () => {
       const lines = [".data", "MOV EAX, 1"]; // MOV is not allowed in .data
 
       expect(() => parseAssembly(lines)).toThrow(/Expected data directive.*in \.data section/);
     });
+
+    it("should throw error for an undefined label in data", () => {
+      const lines = [".data", "DD missing"];
+
+      expect(() => parseAssembly(lines)).toThrow("Line 2: Undefined label 'missing' in data");
+    });
   });
 
   describe("Edge cases", () => {
@@ -11,7 +11,7 @@ import { Instruction } from "@tonx86/simcore";
 interface DataItem {
   address: number; // Memory address where data starts
   size: 1 | 2 | 4; // 1=byte, 2=word, 4=dword
-  values: number[]; // Values to write
+  values: Array<number | string>; // Values to write (label names are resolved on load)
   label?: string; // Optional label for this data
   line: number; // Source line number
 }
@@ -59,9 +59,13 @@ function parseValue(valueStr: string): number {
 
 /**
  * Parse comma-separated data values (DB/DW/DD), handling string literals and constant substitution.
+ * Label names (DD handler) are kept as strings and become the label's address when loaded.
  */
-function parseDataValues(valuesStr: string, constants: Map<string, number>): number[] {
-  const values: number[] = [];
+function parseDataValues(
+  valuesStr: string,
+  constants: Map<string, number>,
+): Array<number | string> {
+  const values: Array<number | string> = [];
   const valueTokens = valuesStr.split(",");
 
   for (const token of valueTokens) {
@@ -77,7 +81,7 @@ function parseDataValues(valuesStr: string, constants: Map<string, number>): num
         const regex = new RegExp(`\\b${name}\\b`, "g");
         processed = processed.replace(regex, value.toString());
       });
-      values.push(parseValue(processed));
+      values.push(/^[A-Za-z_]\w*$/.test(processed) ? processed : parseValue(processed));
     }
   }
   return values;
@@ -102,6 +106,19 @@ function substituteAndSplitOperands(
     .filter((op) => op.length > 0);
 }
 
+/**
+ * Check that every label named in data (DD handler) is defined.
+ */
+function checkDataLabels(dataItems: DataItem[], labels: Map<string, number>): void {
+  for (const item of dataItems) {
+    for (const value of item.values) {
+      if (typeof value === "string" && !labels.has(value)) {
+        throw new Error(`Line ${item.line}: Undefined label '${value}' in data`);
+      }
+    }
+  }
+}
+
 /**
  * Parse assembly file into instructions and labels
  */
@@ -258,6 +275,9 @@ export function parseAssembly(lines: string[]): ParseResult {
     });
   }
 
+  // Labels in data may be defined after the data that refers to them
+  checkDataLabels(dataItems, labels);
+
   return {
     instructions,
     labels,
@@ -60,6 +60,9 @@ export const window = {
   registerTreeDataProvider: jest.fn(() => ({ dispose: jest.fn() })),
   registerWebviewViewProvider: jest.fn(() => ({ dispose: jest.fn() })),
   showInformationMessage: jest.fn(),
+  showErrorMessage: jest.fn(),
+  showSaveDialog: jest.fn(),
+  showOpenDialog: jest.fn(),
   createWebviewPanel: jest.fn((_viewType, _title, _showOptions, _options) => ({
     webview: {
       html: "",
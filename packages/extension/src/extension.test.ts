@@ -76,7 +76,7 @@ describe("TonX86 Extension", () => {
         expect.any(Object),
       );
       expect(vscode.window.registerTreeDataProvider).toHaveBeenCalledTimes(3);
-      expect(vscode.window.registerWebviewViewProvider).toHaveBeenCalledTimes(2);
+      expect(vscode.window.registerWebviewViewProvider).toHaveBeenCalledTimes(3);
     });
 
     it("should register all commands", () => {
@@ -92,6 +92,8 @@ describe("TonX86 Extension", () => {
         "tonx86.reset",
         "tonx86.lcdPopOut",
         "tonx86.lcdPopIn",
+        "tonx86.saveSnapshot",
+        "tonx86.loadSnapshot",
       ];
 
       expectedCommands.forEach((cmd) => {
@@ -168,7 +170,7 @@ describe("TonX86 Extension", () => {
       const result = provider.resolveDebugConfiguration(mockWorkspaceFolder, mockConfig, undefined);
 
       expect(result).toBeDefined();
-      expect(result.cpuSpeed).toBe(100);
+      expect(result.cpuSpeed).toBe(1000000);
       expect(result.enableLogging).toBe(false);
       expect(result.stopOnEntry).toBe(true);
     });
@@ -179,7 +181,7 @@ describe("TonX86 Extension", () => {
         const configs: Record<string, any> = {
           "tonx86.cpu": {
             get: jest.fn((key: string, defaultValue?: any) =>
-              key === "speed" ? 150 : defaultValue,
+              key === "speed" ? 4770000 : defaultValue,
             ),
           },
           "tonx86.debug": {
@@ -207,7 +209,7 @@ describe("TonX86 Extension", () => {
 
       const result = provider.resolveDebugConfiguration(undefined, mockConfig, undefined);
 
-      expect(result.cpuSpeed).toBe(150);
+      expect(result.cpuSpeed).toBe(4770000);
       expect(result.enableLogging).toBe(true);
       expect(result.stopOnEntry).toBe(false);
     });
@@ -379,6 +381,35 @@ describe("TonX86 Extension", () => {
       });
     });
 
+    it("should pass pixel colours to the webview for colour formats", () => {
+      activate(mockContext);
+
+      const providerCall = (vscode.window.registerWebviewViewProvider as jest.Mock).mock.calls[0];
+      const provider = providerCall[1];
+
+      const mockWebviewView = {
+        webview: {
+          options: {},
+          html: "",
+          postMessage: jest.fn(),
+          onDidReceiveMessage: jest.fn(() => ({ dispose: jest.fn() })),
+        },
+      };
+
+      provider.resolveWebviewView(mockWebviewView);
+
+      const pixels = [0xe0, 0, 0, 0];
+      const colors = [0xff0000, 0, 0, 0];
+      provider.updatePixels(pixels, colors);
+
+      expect(mockWebviewView.webview.postMessage).toHaveBeenCalledWith({
+        type: "updatePixels",
+        pixels,
+        colors,
+      });
+      expect(mockWebviewView.webview.html).toContain("colors[i].toString(16)");
+    });
+
     it("should pop out LCD display", () => {
       activate(mockContext);
 
@@ -751,7 +782,116 @@ describe("TonX86 Extension", () => {
     });
   });
 
+  describe("TextViewProvider", () => {
+    const textState = {
+      columns: 2,
+      rows: 1,
+      lines: ["Hi"],
+      attributes: [0x07, 0x1e],
+      cursorX: 1,
+      cursorY: 0,
+      cursorVisible: true,
+    };
+
+    function getTextProvider(): any {
+      activate(mockContext);
+      const providerCall = (vscode.window.registerWebviewViewProvider as jest.Mock).mock.calls[2];
+      expect(providerCall[0]).toBe("tonx86.text");
+      return providerCall[1];
+    }
+
+    it("should resolve webview view with the text screen", () => {
+      const provider = getTextProvider();
+      const mockWebviewView: any = {
+        webview: {
+          options: {},
+          html: "",
+        },
+      };
+
+      provider.resolveWebviewView(mockWebviewView);
+
+      expect(mockWebviewView.webview.html).toContain("TonX86 Text Display");
+      expect(mockWebviewView.webview.html).toContain("updateText");
+      expect(mockWebviewView.webview.options.enableScripts).toBe(true);
+    });
+
+    it("should post text updates to the webview", () => {
+      const provider = getTextProvider();
+      const mockWebviewView: any = {
+        webview: {
+          options: {},
+          html: "",
+          postMessage: jest.fn(),
+        },
+      };
+
+      provider.updateText(textState); // Not resolved yet - nothing to post to
+      provider.resolveWebviewView(mockWebviewView);
+      provider.updateText(textState);
+
+      expect(mockWebviewView.webview.postMessage).toHaveBeenCalledTimes(1);
+      expect(mockWebviewView.webview.postMessage).toHaveBeenCalledWith({
+        type: "updateText",
+        ...textState,
+      });
+    });
+
+    it("should poll getTextState during a debug session", async () => {
+      const provider = getTextProvider();
+      const mockWebviewView: any = {
+        webview: {
+          options: {},
+          html: "",
+          postMessage: jest.fn(),
+        },
+      };
+      provider.resolveWebviewView(mockWebviewView);
+
+      const startHandler = (vscode.debug.onDidStartDebugSession as jest.Mock).mock.calls[0][0];
+      const mockSession = {
+        type: "tonx86",
+        customRequest: jest.fn((command: string) =>
+          Promise.resolve(command === "getTextState" ? textState : {}),
+        ),
+      };
+      startHandler(mockSession);
+
+      for (let i = 0; i < 3; i++) {
+        jest.advanceTimersByTime(10);
+        await Promise.resolve();
+        await Promise.resolve();
+      }
+
+      expect(mockSession.customRequest).toHaveBeenCalledWith("getTextState");
+      expect(mockWebviewView.webview.postMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "updateText", lines: ["Hi"] }),
+      );
+
+      const terminateHandler = (vscode.debug.onDidTerminateDebugSession as jest.Mock).mock
+        .calls[0][0];
+      terminateHandler(mockSession);
+    });
+  });
+
   describe("Commands", () => {
+    it("should require a debug session for snapshot commands", async () => {
+      activate(mockContext);
+
+      for (const command of ["tonx86.saveSnapshot", "tonx86.loadSnapshot"]) {
+        const call = (vscode.commands.registerCommand as jest.Mock).mock.calls.find(
+          (c) => c[0] === command,
+        );
+        await call[1]();
+      }
+
+      expect(vscode.window.showSaveDialog).not.toHaveBeenCalled();
+      expect(vscode.window.showOpenDialog).not.toHaveBeenCalled();
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith(
+        "TonX86: Start debugging (F5) to save a snapshot.",
+      );
+    });
+
     it("should execute assemble command", () => {
       activate(mockContext);
 
@@ -1159,6 +1299,22 @@ describe("TonX86 Extension", () => {
       // Should not throw error
     });
 
+    it("should report a non-zero exit code as a failure", () => {
+      activate(mockContext);
+
+      const trackerFactory = (vscode.debug.registerDebugAdapterTrackerFactory as jest.Mock).mock
+        .calls[0][1];
+      const tracker = trackerFactory.createDebugAdapterTracker({ type: "tonx86" });
+
+      tracker.onDidSendMessage({ type: "event", event: "exited", body: { exitCode: 0 } });
+      expect(vscode.window.showErrorMessage).not.toHaveBeenCalled();
+
+      tracker.onDidSendMessage({ type: "event", event: "exited", body: { exitCode: 2 } });
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+        "TonX86: Program failed with exit code 2",
+      );
+    });
+
     it("should return undefined tracker for non-tonx86 sessions", () => {
       activate(mockContext);
 
@@ -1541,6 +1697,55 @@ describe("TonX86 Extension", () => {
       });
       expect(console.log).toHaveBeenCalledWith("[TonX86] Audio message sent to popped panel");
     });
+
+    it("should forward the channel, start time and envelope of a note", () => {
+      activate(mockContext);
+
+      const trackerFactory = (vscode.debug.registerDebugAdapterTrackerFactory as jest.Mock).mock
+        .calls[0][1];
+      const tracker = trackerFactory.createDebugAdapterTracker({ type: "tonx86" });
+      const lcdProvider = (vscode.window.registerWebviewViewProvider as jest.Mock).mock
+        .calls[0][1] as any;
+      const mockWebviewView = {
+        webview: {
+          options: {},
+          html: "",
+          postMessage: jest.fn(),
+          onDidReceiveMessage: jest.fn(() => ({ dispose: jest.fn() })),
+        },
+      };
+      lcdProvider.resolveWebviewView(mockWebviewView);
+
+      const envelope = { attack: 10, decay: 20, sustain: 0.5, release: 40 };
+      tracker.onDidSendMessage({
+        type: "event",
+        event: "output",
+        body: {
+          output: JSON.stringify({
+            type: "audioEvent",
+            channel: 2,
+            time: 250,
+            frequency: 330,
+            duration: 100,
+            waveform: "noise",
+            volume: 1,
+            envelope,
+          }),
+          category: "tonx86-audio",
+        },
+      });
+
+      expect(mockWebviewView.webview.postMessage).toHaveBeenCalledWith({
+        type: "playAudio",
+        channel: 2,
+        time: 250,
+        frequency: 330,
+        duration: 100,
+        waveform: "noise",
+        volume: 0.5, // 50% master volume
+        envelope,
+      });
+    });
   });
 
   describe("Configuration change handling", () => {
@@ -32,6 +32,25 @@ interface AudioConfig {
   volume: number; // 0-100 percentage
 }
 
+/**
+ * Volume envelope of a note (times in ms, sustain level 0.0-1.0)
+ */
+interface AudioEnvelope {
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+}
+
+/**
+ * Where and how a note is played, as reported by the debug adapter
+ */
+interface AudioNoteOptions {
+  channel?: number; // Notes on different channels overlap (default 0)
+  time?: number; // Start in ms of simulated time
+  envelope?: AudioEnvelope;
+}
+
 /**
  * Debug Configuration Provider
  * Injects extension settings into debug configuration
@@ -49,7 +68,7 @@ class TonX86DebugConfigurationProvider implements vscode.DebugConfigurationProvi
     // Get extension settings (always read fresh)
     const cpuSpeedSetting = vscode.workspace
       .getConfiguration("tonx86.cpu")
-      .get<number>("speed", 100);
+      .get<number>("speed", 1000000);
     const enableLoggingSetting = vscode.workspace
       .getConfiguration("tonx86.debug")
       .get<boolean>("enableLogging", false);
@@ -59,7 +78,7 @@ class TonX86DebugConfigurationProvider implements vscode.DebugConfigurationProvi
 
     // Log to Output channel for visibility
     console.log(`[TonX86 Config] Reading settings:`);
-    console.log(`[TonX86 Config] - CPU Speed: ${cpuSpeedSetting}%`);
+    console.log(`[TonX86 Config] - CPU Speed: ${cpuSpeedSetting} Hz`);
     console.log(`[TonX86 Config] - Enable Logging: ${enableLoggingSetting}`);
     console.log(`[TonX86 Config] - Stop On Entry: ${stopOnEntrySetting}`);
 
@@ -292,10 +311,13 @@ class LCDViewProvider implements vscode.WebviewViewProvider {
   }
 
   /**
-   * Update LCD pixels in the webview
+   * Update LCD pixels in the webview. Colour formats also pass the colour
+   * (0xRRGGBB) of each pixel; mono pixels are drawn as on/off.
    */
-  updatePixels(pixels: number[]): void {
-    const message = { type: "updatePixels", pixels };
+  updatePixels(pixels: number[], colors?: number[]): void {
+    const message = colors
+      ? { type: "updatePixels", pixels, colors }
+      : { type: "updatePixels", pixels };
 
     // Update main view
     if (this.webviewView) {
@@ -314,8 +336,9 @@ class LCDViewProvider implements vscode.WebviewViewProvider {
   playAudio(
     frequency: number,
     duration: number,
-    waveform: "square" | "sine",
+    waveform: "square" | "sine" | "triangle" | "sawtooth" | "noise",
     volume: number,
+    options: AudioNoteOptions = {},
   ): void {
     if (!this.audioConfig.enabled) {
       console.log("[TonX86] Audio disabled in settings, skipping playback");
@@ -330,7 +353,14 @@ class LCDViewProvider implements vscode.WebviewViewProvider {
       `[TonX86] Sending audio to webview: ${frequency}Hz, ${duration}ms, ${waveform}, vol:${volume} -> ${adjustedVolume} (master: ${masterVolume})`,
     );
 
-    const message = { type: "playAudio", frequency, duration, waveform, volume: adjustedVolume };
+    const message = {
+      type: "playAudio",
+      frequency,
+      duration,
+      waveform,
+      volume: adjustedVolume,
+      ...options,
+    };
 
     // Send to main view
     if (this.webviewView) {
@@ -486,7 +516,39 @@ class LCDViewProvider implements vscode.WebviewViewProvider {
 					// Audio context for sound playback (Web Audio API)
 					let audioContext = null;
 					let audioUnlocked = false;
-					let nextSoundTime = 0; // Track when last sound finishes for sequential playback
+					// Per channel: when the last sound finishes (for sequential playback)
+					// and the simulated time in ms at which its note ended
+					const nextSoundTime = {};
+					const lastNoteEnd = {};
+					let noiseBuffer = null;
+					
+					// Level of an envelope ms milliseconds into a note (0.0-1.0)
+					const envelopeLevel = (env, ms) => {
+						if (ms < env.attack) return ms / env.attack;
+						if (ms < env.attack + env.decay) return 1 - (1 - env.sustain) * (ms - env.attack) / env.decay;
+						return env.sustain;
+					};
+					
+					// Oscillator for the waveform; noise loops a buffer of random samples
+					const createSource = (waveform, frequency) => {
+						if (waveform !== 'noise') {
+							const oscillator = audioContext.createOscillator();
+							oscillator.type = waveform;
+							oscillator.frequency.value = frequency;
+							return oscillator;
+						}
+						if (!noiseBuffer) {
+							noiseBuffer = audioContext.createBuffer(1, audioContext.sampleRate, audioContext.sampleRate);
+							const data = noiseBuffer.getChannelData(0);
+							for (let i = 0; i < data.length; i++) {
+								data[i] = Math.random() * 2 - 1;
+							}
+						}
+						const source = audioContext.createBufferSource();
+						source.buffer = noiseBuffer;
+						source.loop = true;
+						return source;
+					};
 					
 					// Function to unlock audio (requires user interaction)
 					const unlockAudio = async () => {
@@ -527,10 +589,16 @@ class LCDViewProvider implements vscode.WebviewViewProvider {
 						const message = event.data;
 						if (message.type === 'updatePixels') {
 							const pixelData = message.pixels;
+							const colors = message.colors;
 							for (let i = 0; i < pixelData.length && i < pixels.length; i++) {
-								if (pixelData[i]) {
+								if (colors) {
+									pixels[i].classList.remove('on');
+									pixels[i].style.background = '#' + colors[i].toString(16).padStart(6, '0');
+								} else if (pixelData[i]) {
+									pixels[i].style.background = '';
 									pixels[i].classList.add('on');
 								} else {
+									pixels[i].style.background = '';
 									pixels[i].classList.remove('on');
 								}
 							}
@@ -566,33 +634,48 @@ class LCDViewProvider implements vscode.WebviewViewProvider {
 									});
 								}
 								
-								const oscillator = audioContext.createOscillator();
+								const channel = message.channel || 0;
+								const envelope = message.envelope || { attack: 0, decay: 0, sustain: 1, release: 0 };
+								const source = createSource(message.waveform, message.frequency);
 								const gainNode = audioContext.createGain();
 								
-								// Set waveform
-								oscillator.type = message.waveform;
-								oscillator.frequency.value = message.frequency;
-								
-								// Set volume (0.0 to 1.0)
-								gainNode.gain.value = Math.max(0, Math.min(1, message.volume));
-								
 								// Connect nodes
-								oscillator.connect(gainNode);
+								source.connect(gainNode);
 								gainNode.connect(audioContext.destination);
 								
-								// Schedule playback sequentially (queue sounds with small gaps)
+								// Schedule playback sequentially per channel (queue sounds with small
+								// gaps, except for notes the program queued to follow each other)
 								const now = audioContext.currentTime;
-								const startTime = Math.max(now, nextSoundTime);
+								const follows = message.time !== undefined && message.time === lastNoteEnd[channel];
+								const gap = follows ? 0 : 0.05; // 50ms gap between sounds
+								const startTime = Math.max(now, (nextSoundTime[channel] || 0) + gap);
 								const duration = message.duration / 1000.0;
-								const gap = 0.05; // 50ms gap between sounds
+								const release = envelope.release / 1000.0;
+								
+								// Volume (0.0 to 1.0) shaped by the envelope: ramps between its corners
+								const volume = Math.max(0, Math.min(1, message.volume));
+								const gain = gainNode.gain;
+								gain.setValueAtTime(volume * envelopeLevel(envelope, 0), startTime);
+								const corners = [
+									[envelope.attack, 1],
+									[envelope.attack + envelope.decay, envelope.sustain],
+									[message.duration, envelopeLevel(envelope, message.duration)],
+								];
+								corners.forEach(([ms, level]) => {
+									if (ms > 0 && ms <= message.duration) {
+										gain.linearRampToValueAtTime(volume * level, startTime + ms / 1000.0);
+									}
+								});
+								gain.linearRampToValueAtTime(0, startTime + duration + release);
 								
-								oscillator.start(startTime);
-								oscillator.stop(startTime + duration);
+								source.start(startTime);
+								source.stop(startTime + duration + release);
 								
 								// Update next available time slot
-								nextSoundTime = startTime + duration + gap;
+								nextSoundTime[channel] = startTime + duration;
+								lastNoteEnd[channel] = message.time + message.duration;
 								
-								console.log('[TonX86 Webview] Scheduled tone:', message.frequency + 'Hz', message.duration + 'ms at', startTime.toFixed(3) + 's', 'vol:' + message.volume);
+								console.log('[TonX86 Webview] Scheduled tone:', 'ch' + channel, message.waveform, message.frequency + 'Hz', message.duration + 'ms at', startTime.toFixed(3) + 's', 'vol:' + message.volume);
 							} catch (error) {
 								console.error('[TonX86 Webview] Audio playback error:', error);
 							}
@@ -663,6 +746,128 @@ class LCDViewProvider implements vscode.WebviewViewProvider {
   }
 }
 
+/**
+ * State of the text display as returned by the getTextState request
+ */
+interface TextDisplayState {
+  columns: number;
+  rows: number;
+  lines: string[];
+  attributes: number[];
+  cursorX: number;
+  cursorY: number;
+  cursorVisible: boolean;
+}
+
+/**
+ * Webview Provider for the Text Display (character cells with CGA colours)
+ */
+class TextViewProvider implements vscode.WebviewViewProvider {
+  public static readonly viewType = "tonx86.text";
+  private webviewView: vscode.WebviewView | undefined;
+
+  resolveWebviewView(webviewView: vscode.WebviewView): void {
+    this.webviewView = webviewView;
+    webviewView.webview.options = {
+      enableScripts: true,
+      localResourceRoots: [],
+    };
+
+    webviewView.webview.html = this.getHtmlForWebview();
+  }
+
+  /**
+   * Send the characters, attributes and cursor to the webview
+   */
+  updateText(state: TextDisplayState): void {
+    if (this.webviewView) {
+      this.webviewView.webview.postMessage({ type: "updateText", ...state });
+    }
+  }
+
+  private getHtmlForWebview(): string {
+    return `
+			<!DOCTYPE html>
+			<html lang="en">
+			<head>
+				<meta charset="UTF-8">
+				<meta name="viewport" content="width=device-width, initial-scale=1.0">
+				<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline'">
+				<title>TonX86 Text Display</title>
+				<style>
+					body { font-family: monospace; padding: 10px; }
+					#screen {
+						display: inline-block;
+						border: 2px solid #333;
+						padding: 4px;
+						background: #000;
+						line-height: 1.15;
+						white-space: pre;
+					}
+					.cursor { text-decoration: underline; }
+					.info { font-size: 0.9em; color: #666; margin-top: 10px; }
+				</style>
+			</head>
+			<body>
+				<h3 id="title">Text Display</h3>
+				<div id="screen"></div>
+				<div class="info" id="cursor">Cursor: 0, 0</div>
+				<script>
+					const screen = document.getElementById('screen');
+					const cgaColors = [
+						'#000000', '#0000aa', '#00aa00', '#00aaaa', '#aa0000', '#aa00aa', '#aa5500', '#aaaaaa',
+						'#555555', '#5555ff', '#55ff55', '#55ffff', '#ff5555', '#ff55ff', '#ffff55', '#ffffff'
+					];
+					let cells = [];
+					let columns = 0, rows = 0;
+
+					// Build one span per cell when the dimensions change
+					const buildScreen = (newColumns, newRows) => {
+						columns = newColumns;
+						rows = newRows;
+						screen.textContent = '';
+						cells = [];
+						for (let y = 0; y < rows; y++) {
+							const row = document.createElement('div');
+							for (let x = 0; x < columns; x++) {
+								const cell = document.createElement('span');
+								cell.textContent = ' ';
+								row.appendChild(cell);
+								cells.push(cell);
+							}
+							screen.appendChild(row);
+						}
+						document.getElementById('title').textContent = \`Text Display (\${columns}x\${rows})\`;
+					};
+
+					window.addEventListener('message', event => {
+						const message = event.data;
+						if (message.type !== 'updateText') {
+							return;
+						}
+						if (message.columns !== columns || message.rows !== rows) {
+							buildScreen(message.columns, message.rows);
+						}
+						const cursorIndex = message.cursorVisible ? message.cursorY * columns + message.cursorX : -1;
+						for (let i = 0; i < cells.length; i++) {
+							const attribute = message.attributes[i] || 0;
+							const char = message.lines[Math.floor(i / columns)][i % columns];
+							if (cells[i].textContent !== char) {
+								cells[i].textContent = char;
+							}
+							cells[i].style.color = cgaColors[attribute & 0x0f];
+							cells[i].style.background = cgaColors[(attribute >> 4) & 0x0f];
+							cells[i].classList.toggle('cursor', i === cursorIndex);
+						}
+						document.getElementById('cursor').textContent = \`Cursor: \${message.cursorX}, \${message.cursorY}\`;
+					});
+				</script>
+			</body>
+			</html>
+		`;
+  }
+}
+
 /**
  * Webview Provider for ISA Documentation
  */
@@ -853,6 +1058,10 @@ class DocsViewProvider implements vscode.WebviewViewProvider {
 						<span class="mnemonic">IRET</span>
 						<div class="description">Return from interrupt (2 cycles)</div>
 					</div>
+					<div class="instruction">
+						<span class="mnemonic">STI / CLI</span>
+						<div class="description">Enable / disable hardware interrupts (1 cycle)</div>
+					</div>
 				</div>
 			</body>
 			</html>
@@ -867,6 +1076,7 @@ const MEMORY_VIEW_SIZE = 16;
 const memoryProviderA = new MemoryProvider(0x0000, MEMORY_VIEW_SIZE);
 const memoryProviderB = new MemoryProvider(0x0000, MEMORY_VIEW_SIZE);
 let lcdProvider: LCDViewProvider;
+let textProvider: TextViewProvider;
 let currentDebugSession: vscode.DebugSession | undefined;
 let client: LanguageClient;
 let outputChannel: vscode.OutputChannel;
@@ -952,6 +1162,11 @@ export function activate(context: vscode.ExtensionContext): void {
     vscode.window.registerWebviewViewProvider(DocsViewProvider.viewType, new DocsViewProvider()),
   );
 
+  textProvider = new TextViewProvider();
+  context.subscriptions.push(
+    vscode.window.registerWebviewViewProvider(TextViewProvider.viewType, textProvider),
+  );
+
   // Listen for debug events to update LCD display and memory views
   let viewUpdateInterval: NodeJS.Timeout | undefined;
 
@@ -962,9 +1177,10 @@ export function activate(context: vscode.ExtensionContext): void {
         currentDebugSession = session; // Store current session for keyboard events
         outputChannel.appendLine("=== Program Output ===");
         outputChannel.show(true);
-        // Poll LCD and memory state every 10ms while debugging (100 FPS) to capture fast programs
+        // Poll LCD, text display and memory state every 10ms while debugging (100 FPS) to capture fast programs
         viewUpdateInterval = setInterval(async () => {
           await updateLCDDisplay(session);
+          await updateTextDisplay(session);
           await updateMemoryViews(session);
         }, 10);
       }
@@ -990,7 +1206,19 @@ export function activate(context: vscode.ExtensionContext): void {
     try {
       const response = await session.customRequest("getLCDState");
       if (response && response.pixels) {
-        lcdProvider.updatePixels(response.pixels);
+        lcdProvider.updatePixels(response.pixels, response.colors);
+      }
+    } catch (_error) {
+      // Silently fail - session might not be ready yet
+    }
+  }
+
+  // Helper function to fetch and update the text display
+  async function updateTextDisplay(session: vscode.DebugSession) {
+    try {
+      const response = await session.customRequest("getTextState");
+      if (response && response.lines) {
+        textProvider.updateText(response);
       }
     } catch (_error) {
       // Silently fail - session might not be ready yet
@@ -1043,11 +1271,22 @@ export function activate(context: vscode.ExtensionContext): void {
                     audioEvent.duration,
                     audioEvent.waveform,
                     audioEvent.volume,
+                    {
+                      channel: audioEvent.channel,
+                      time: audioEvent.time,
+                      envelope: audioEvent.envelope,
+                    },
                   );
                 }
               } catch (error) {
                 console.error("[TonX86] Failed to parse audio event:", error);
               }
+            } else if (message.type === "event" && message.event === "exited") {
+              // A non-zero INT 21h AH=4Ch return code marks the run as failed
+              const exitCode = message.body?.exitCode;
+              if (typeof exitCode === "number" && exitCode !== 0) {
+                vscode.window.showErrorMessage(`TonX86: Program failed with exit code ${exitCode}`);
+              }
             }
           },
         };
@@ -1138,6 +1377,45 @@ export function activate(context: vscode.ExtensionContext): void {
       lcdProvider.popIn();
     }),
   );
+
+  // Snapshot commands: save/restore the machine state of the active debug session
+  context.subscriptions.push(
+    vscode.commands.registerCommand("tonx86.saveSnapshot", async () => {
+      if (!currentDebugSession) {
+        vscode.window.showInformationMessage("TonX86: Start debugging (F5) to save a snapshot.");
+        return;
+      }
+      const uri = await vscode.window.showSaveDialog({
+        filters: { "TonX86 Snapshot": ["json"] },
+      });
+      if (!uri) return;
+      try {
+        await currentDebugSession.customRequest("saveSnapshot", { path: uri.fsPath });
+        vscode.window.showInformationMessage(`TonX86: Snapshot saved to ${uri.fsPath}`);
+      } catch (err) {
+        vscode.window.showErrorMessage(`TonX86: Failed to save snapshot: ${err}`);
+      }
+    }),
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("tonx86.loadSnapshot", async () => {
+      if (!currentDebugSession) {
+        vscode.window.showInformationMessage("TonX86: Start debugging (F5) to load a snapshot.");
+        return;
+      }
+      const uris = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { "TonX86 Snapshot": ["json"] },
+      });
+      if (!uris || uris.length === 0) return;
+      try {
+        await currentDebugSession.customRequest("loadSnapshot", { path: uris[0].fsPath });
+      } catch (err) {
+        vscode.window.showErrorMessage(`TonX86: Failed to load snapshot: ${err}`);
+      }
+    }),
+  );
 }
 
 export function deactivate(): Thenable<void> | undefined {
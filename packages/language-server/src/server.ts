@@ -73,7 +73,7 @@ const INSTRUCTIONS = [
     description: "Add two values and store result in destination",
     syntax: "ADD destination, source",
     cycles: 1,
-    flags: ["Z", "C", "O", "S"],
+    flags: ["Z", "C", "O", "S", "P", "A"],
     example: "ADD EAX, EBX  ; EAX = EAX + EBX",
   },
   {
@@ -81,7 +81,7 @@ const INSTRUCTIONS = [
     description: "Subtract source from destination",
     syntax: "SUB destination, source",
     cycles: 1,
-    flags: ["Z", "C", "O", "S"],
+    flags: ["Z", "C", "O", "S", "P", "A"],
     example: "SUB EAX, EBX  ; EAX = EAX - EBX",
   },
   {
@@ -89,7 +89,7 @@ const INSTRUCTIONS = [
     description: "Bitwise AND two registers",
     syntax: "AND destination, source",
     cycles: 1,
-    flags: ["Z", "S"],
+    flags: ["Z", "S", "P"],
     example: "AND EAX, EBX  ; EAX = EAX & EBX",
   },
   {
@@ -97,7 +97,7 @@ const INSTRUCTIONS = [
     description: "Bitwise OR two registers",
     syntax: "OR destination, source",
     cycles: 1,
-    flags: ["Z", "S"],
+    flags: ["Z", "S", "P"],
     example: "OR EAX, EBX  ; EAX = EAX | EBX",
   },
   {
@@ -105,7 +105,7 @@ const INSTRUCTIONS = [
     description: "Bitwise XOR two registers",
     syntax: "XOR destination, source",
     cycles: 1,
-    flags: ["Z", "S"],
+    flags: ["Z", "S", "P"],
     example: "XOR EAX, EBX  ; EAX = EAX ^ EBX",
   },
   {
@@ -121,7 +121,7 @@ const INSTRUCTIONS = [
     description: "Logical shift left",
     syntax: "SHL destination, count",
     cycles: 1,
-    flags: ["Z", "C", "O", "S"],
+    flags: ["Z", "C", "O", "S", "P"],
     example: "SHL EAX, 1  ; EAX <<= 1",
   },
   {
@@ -129,7 +129,7 @@ const INSTRUCTIONS = [
     description: "Logical shift right",
     syntax: "SHR destination, count",
     cycles: 1,
-    flags: ["Z", "C", "O", "S"],
+    flags: ["Z", "C", "O", "S", "P"],
     example: "SHR EAX, 1  ; EAX >>= 1",
   },
   {
@@ -137,7 +137,7 @@ const INSTRUCTIONS = [
     description: "Arithmetic shift right",
     syntax: "SAR destination, count",
     cycles: 1,
-    flags: ["Z", "C", "O", "S"],
+    flags: ["Z", "C", "O", "S", "P"],
     example: "SAR EAX, 1  ; EAX >>= 1 (arith)",
   },
   {
@@ -177,7 +177,7 @@ const INSTRUCTIONS = [
     description: "Unsigned divide (EAX /= source)",
     syntax: "DIV source",
     cycles: 2,
-    flags: ["Z", "C", "O", "S"],
+    flags: ["Z", "C", "O", "S", "P"],
     example: "DIV EBX  ; EAX = EAX / EBX",
   },
   {
@@ -185,7 +185,7 @@ const INSTRUCTIONS = [
     description: "Signed divide (EAX /= source)",
     syntax: "IDIV source",
     cycles: 2,
-    flags: ["Z", "C", "O", "S"],
+    flags: ["Z", "C", "O", "S", "P"],
     example: "IDIV EBX  ; EAX = EAX / EBX (signed)",
   },
   {
@@ -193,7 +193,7 @@ const INSTRUCTIONS = [
     description: "Modulo operation (dest = dest % src)",
     syntax: "MOD destination, source",
     cycles: 1,
-    flags: ["Z", "S"],
+    flags: ["Z", "S", "P"],
     example: "MOD EAX, 64  ; EAX = EAX % 64",
   },
   {
@@ -201,7 +201,7 @@ const INSTRUCTIONS = [
     description: "Compare two values (SUB without storing result)",
     syntax: "CMP destination, source",
     cycles: 1,
-    flags: ["Z", "C", "O", "S"],
+    flags: ["Z", "C", "O", "S", "P", "A"],
     example: "CMP EAX, 0  ; Compare EAX with 0",
   },
   {
@@ -209,7 +209,7 @@ const INSTRUCTIONS = [
     description: "Logical AND without storing result (sets flags only)",
     syntax: "TEST destination, source",
     cycles: 1,
-    flags: ["Z", "S"],
+    flags: ["Z", "S", "P"],
     example: "TEST EAX, EAX  ; Check if EAX is zero",
   },
   {
@@ -217,7 +217,7 @@ const INSTRUCTIONS = [
     description: "Increment register by 1",
     syntax: "INC register",
     cycles: 1,
-    flags: ["Z", "O", "S"],
+    flags: ["Z", "O", "S", "P", "A"],
     example: "INC EAX  ; EAX = EAX + 1",
   },
   {
@@ -225,7 +225,7 @@ const INSTRUCTIONS = [
     description: "Decrement register by 1",
     syntax: "DEC register",
     cycles: 1,
-    flags: ["Z", "O", "S"],
+    flags: ["Z", "O", "S", "P", "A"],
     example: "DEC ECX  ; ECX = ECX - 1",
   },
   {
@@ -233,13 +233,13 @@ const INSTRUCTIONS = [
     description: "Two's complement negation",
     syntax: "NEG register",
     cycles: 1,
-    flags: ["Z", "C", "O", "S"],
+    flags: ["Z", "C", "O", "S", "P", "A"],
     example: "NEG EAX  ; EAX = -EAX",
   },
   {
     name: "JMP",
-    description: "Unconditional jump to label or address",
-    syntax: "JMP label",
+    description: "Unconditional jump to label, or to the address in a register or memory",
+    syntax: "JMP label | register | [memory]",
     cycles: 1,
     flags: [],
     example: "JMP main_loop",
@@ -377,7 +377,7 @@ const INSTRUCTIONS = [
     description: "Generate random number from 0 to max-1",
     syntax: "RAND destination, max",
     cycles: 1,
-    flags: ["Z", "S"],
+    flags: ["Z", "S", "P"],
     example: "RAND EAX, 64  ; EAX = random(0..63)",
   },
   {
@@ -396,10 +396,61 @@ const INSTRUCTIONS = [
     flags: [],
     example: "POP EAX  ; Restore EAX from stack",
   },
+  {
+    name: "PUSHF",
+    description: "Push the flags register onto the stack",
+    syntax: "PUSHF",
+    cycles: 1,
+    flags: [],
+    example: "PUSHF  ; Save flags",
+  },
+  {
+    name: "POPF",
+    description: "Pop the flags register from the stack",
+    syntax: "POPF",
+    cycles: 1,
+    flags: ["All restored from stack"],
+    example: "POPF  ; Restore flags",
+  },
+  {
+    name: "PUSHA",
+    description:
+      "Push all general-purpose registers (EAX, ECX, EDX, EBX, original ESP, EBP, ESI, EDI)",
+    syntax: "PUSHA",
+    cycles: 2,
+    flags: [],
+    example: "PUSHA  ; Save all registers",
+  },
+  {
+    name: "POPA",
+    description: "Pop all general-purpose registers in reverse order (the saved ESP is discarded)",
+    syntax: "POPA",
+    cycles: 2,
+    flags: [],
+    example: "POPA  ; Restore all registers",
+  },
+  {
+    name: "ENTER",
+    description:
+      "Create a stack frame: PUSH EBP; MOV EBP, ESP; SUB ESP, size (level > 0 copies enclosing frame pointers)",
+    syntax: "ENTER size, level",
+    cycles: 2,
+    flags: [],
+    example: "ENTER 16, 0  ; Prologue with 16 bytes of locals",
+  },
+  {
+    name: "LEAVE",
+    description: "Release a stack frame: MOV ESP, EBP; POP EBP",
+    syntax: "LEAVE",
+    cycles: 1,
+    flags: [],
+    example: "LEAVE  ; Epilogue before RET",
+  },
   {
     name: "CALL",
-    description: "Call subroutine - push return address and jump to label",
-    syntax: "CALL label",
+    description:
+      "Call subroutine - push return address and jump to label, or to the address in a register or memory",
+    syntax: "CALL label | register | [memory]",
     cycles: 2,
     flags: [],
     example: "CALL my_function  ; Call function",
@@ -414,7 +465,7 @@ const INSTRUCTIONS = [
   },
   {
     name: "INT",
-    description: "Software interrupt - call interrupt handler",
+    description: "Software interrupt - call the IDT handler or a built-in service",
     syntax: "INT interrupt_number",
     cycles: 2,
     flags: [],
@@ -428,6 +479,22 @@ const INSTRUCTIONS = [
     flags: ["All restored from stack"],
     example: "IRET  ; Return from interrupt",
   },
+  {
+    name: "STI",
+    description: "Set interrupt flag - enable hardware interrupts (IRQs)",
+    syntax: "STI",
+    cycles: 1,
+    flags: ["I"],
+    example: "STI  ; Enable interrupts",
+  },
+  {
+    name: "CLI",
+    description: "Clear interrupt flag - disable hardware interrupts (IRQs)",
+    syntax: "CLI",
+    cycles: 1,
+    flags: ["I"],
+    example: "CLI  ; Disable interrupts",
+  },
   {
     name: "LOOP",
     description: "Loop with ECX counter - decrement ECX and jump if ECX != 0",
@@ -486,7 +553,7 @@ const INSTRUCTIONS = [
   },
   {
     name: "LAHF",
-    description: "Load flags (SF, ZF, CF) into AH register",
+    description: "Load flags (SF, ZF, AF, PF, CF) into AH register",
     syntax: "LAHF",
     cycles: 1,
     flags: [],
@@ -494,12 +561,36 @@ const INSTRUCTIONS = [
   },
   {
     name: "SAHF",
-    description: "Store AH register into flags (SF, ZF, CF)",
+    description: "Store AH register into flags (SF, ZF, AF, PF, CF)",
     syntax: "SAHF",
     cycles: 1,
-    flags: ["Z", "C", "S"],
+    flags: ["Z", "C", "S", "P", "A"],
     example: "SAHF  ; flags = AH",
   },
+  {
+    name: "CLC",
+    description: "Clear carry flag",
+    syntax: "CLC",
+    cycles: 1,
+    flags: ["C"],
+    example: "CLC  ; CF = 0",
+  },
+  {
+    name: "STC",
+    description: "Set carry flag",
+    syntax: "STC",
+    cycles: 1,
+    flags: ["C"],
+    example: "STC  ; CF = 1",
+  },
+  {
+    name: "CMC",
+    description: "Complement carry flag",
+    syntax: "CMC",
+    cycles: 1,
+    flags: ["C"],
+    example: "CMC  ; CF = !CF",
+  },
   {
     name: "CMOVE",
     description: "Conditional move if equal (ZF=1)",
@@ -617,7 +708,7 @@ const INSTRUCTIONS = [
     description: "Exchange and add - adds source to dest, loads old dest into source",
     syntax: "XADD destination, source",
     cycles: 1,
-    flags: ["Z", "C", "O", "S"],
+    flags: ["Z", "C", "O", "S", "P", "A"],
     example: "XADD EAX, EBX  ; Temp=EAX; EAX=EAX+EBX; EBX=Temp",
   },
   {
@@ -697,7 +788,7 @@ const INSTRUCTIONS = [
     description: "Scan string byte - compare AL with [EDI], set flags, increment EDI",
     syntax: "SCASB",
     cycles: 1,
-    flags: ["Z", "C", "O", "S"],
+    flags: ["Z", "C", "O", "S", "P", "A"],
     example: "SCASB  ; Compare AL with [EDI]; EDI++",
   },
   {
@@ -705,7 +796,7 @@ const INSTRUCTIONS = [
     description: "Scan string (alias for SCASB)",
     syntax: "SCAS",
     cycles: 1,
-    flags: ["Z", "C", "O", "S"],
+    flags: ["Z", "C", "O", "S", "P", "A"],
     example: "SCAS  ; Compare AL with [EDI]; EDI++",
   },
   {
@@ -713,7 +804,7 @@ const INSTRUCTIONS = [
     description: "Compare string bytes - compare [ESI] with [EDI], set flags, increment both",
     syntax: "CMPSB",
     cycles: 1,
-    flags: ["Z", "C", "O", "S"],
+    flags: ["Z", "C", "O", "S", "P", "A"],
     example: "CMPSB  ; Compare [ESI] with [EDI]; ESI++; EDI++",
   },
   {
@@ -721,9 +812,146 @@ const INSTRUCTIONS = [
     description: "Compare string (alias for CMPSB)",
     syntax: "CMPS",
     cycles: 1,
-    flags: ["Z", "C", "O", "S"],
+    flags: ["Z", "C", "O", "S", "P", "A"],
     example: "CMPS  ; Compare [ESI] with [EDI]; ESI++; EDI++",
   },
+  {
+    name: "LODSW",
+    description: "Load string word - load word from [ESI] into AX, advance ESI by 2",
+    syntax: "LODSW",
+    cycles: 1,
+    flags: [],
+    example: "LODSW  ; AX = [ESI]; ESI += 2",
+  },
+  {
+    name: "STOSW",
+    description: "Store string word - store AX to [EDI], advance EDI by 2",
+    syntax: "STOSW",
+    cycles: 1,
+    flags: [],
+    example: "STOSW  ; [EDI] = AX; EDI += 2",
+  },
+  {
+    name: "MOVSW",
+    description: "Move string word - copy word from [ESI] to [EDI], advance both by 2",
+    syntax: "MOVSW",
+    cycles: 1,
+    flags: [],
+    example: "MOVSW  ; [EDI] = [ESI]; ESI += 2; EDI += 2",
+  },
+  {
+    name: "SCASW",
+    description: "Scan string word - compare AX with [EDI], set flags, advance EDI by 2",
+    syntax: "SCASW",
+    cycles: 1,
+    flags: ["Z", "C", "O", "S", "P", "A"],
+    example: "SCASW  ; Compare AX with [EDI]; EDI += 2",
+  },
+  {
+    name: "CMPSW",
+    description: "Compare string words - compare [ESI] with [EDI], set flags, advance both by 2",
+    syntax: "CMPSW",
+    cycles: 1,
+    flags: ["Z", "C", "O", "S", "P", "A"],
+    example: "CMPSW  ; Compare [ESI] with [EDI]; ESI += 2; EDI += 2",
+  },
+  {
+    name: "LODSD",
+    description: "Load string dword - load dword from [ESI] into EAX, advance ESI by 4",
+    syntax: "LODSD",
+    cycles: 1,
+    flags: [],
+    example: "LODSD  ; EAX = [ESI]; ESI += 4",
+  },
+  {
+    name: "STOSD",
+    description: "Store string dword - store EAX to [EDI], advance EDI by 4",
+    syntax: "STOSD",
+    cycles: 1,
+    flags: [],
+    example: "STOSD  ; [EDI] = EAX; EDI += 4",
+  },
+  {
+    name: "MOVSD",
+    description: "Move string dword - copy dword from [ESI] to [EDI], advance both by 4",
+    syntax: "MOVSD",
+    cycles: 1,
+    flags: [],
+    example: "MOVSD  ; [EDI] = [ESI]; ESI += 4; EDI += 4",
+  },
+  {
+    name: "SCASD",
+    description: "Scan string dword - compare EAX with [EDI], set flags, advance EDI by 4",
+    syntax: "SCASD",
+    cycles: 1,
+    flags: ["Z", "C", "O", "S", "P", "A"],
+    example: "SCASD  ; Compare EAX with [EDI]; EDI += 4",
+  },
+  {
+    name: "CMPSD",
+    description: "Compare string dwords - compare [ESI] with [EDI], set flags, advance both by 4",
+    syntax: "CMPSD",
+    cycles: 1,
+    flags: ["Z", "C", "O", "S", "P", "A"],
+    example: "CMPSD  ; Compare [ESI] with [EDI]; ESI += 4; EDI += 4",
+  },
+  {
+    name: "CLD",
+    description: "Clear direction flag - string instructions advance ESI/EDI upwards",
+    syntax: "CLD",
+    cycles: 1,
+    flags: ["D"],
+    example: "CLD  ; DF = 0",
+  },
+  {
+    name: "STD",
+    description: "Set direction flag - string instructions advance ESI/EDI downwards",
+    syntax: "STD",
+    cycles: 1,
+    flags: ["D"],
+    example: "STD  ; DF = 1",
+  },
+  {
+    name: "REP",
+    description:
+      "Repeat string instruction ECX times, decrementing ECX (with SCAS/CMPS, while ZF=1)",
+    syntax: "REP string-instruction",
+    cycles: 1,
+    flags: [],
+    example: "REP STOSB  ; Fill ECX bytes at [EDI] with AL",
+  },
+  {
+    name: "REPE",
+    description: "Repeat string instruction while ECX != 0 and ZF=1 (alias for REP)",
+    syntax: "REPE string-instruction",
+    cycles: 1,
+    flags: [],
+    example: "REPE CMPSB  ; Compare strings until mismatch",
+  },
+  {
+    name: "REPZ",
+    description: "Repeat string instruction while ECX != 0 and ZF=1 (alias for REP)",
+    syntax: "REPZ string-instruction",
+    cycles: 1,
+    flags: [],
+    example: "REPZ CMPSB  ; Compare strings until mismatch",
+  },
+  {
+    name: "REPNE",
+    description: "Repeat string instruction while ECX != 0 and ZF=0",
+    syntax: "REPNE string-instruction",
+    cycles: 1,
+    flags: [],
+    example: "REPNE SCASB  ; Scan [EDI] for AL",
+  },
+  {
+    name: "REPNZ",
+    description: "Repeat string instruction while ECX != 0 and ZF=0 (alias for REPNE)",
+    syntax: "REPNZ string-instruction",
+    cycles: 1,
+    flags: [],
+    example: "REPNZ SCASB  ; Scan [EDI] for AL",
+  },
   {
     name: "INT3",
     description: "Breakpoint interrupt - triggers a debugger breakpoint",
@@ -747,6 +975,14 @@ const REGISTERS = [
     name: "EDI",
     description: "Destination Index register (string operations)",
   },
+  { name: "AX", description: "Low word of EAX (bits 0-15) - 16-bit register" },
+  { name: "CX", description: "Low word of ECX (bits 0-15) - 16-bit register" },
+  { name: "DX", description: "Low word of EDX (bits 0-15) - 16-bit register" },
+  { name: "BX", description: "Low word of EBX (bits 0-15) - 16-bit register" },
+  { name: "SP", description: "Low word of ESP (bits 0-15) - 16-bit register" },
+  { name: "BP", description: "Low word of EBP (bits 0-15) - 16-bit register" },
+  { name: "SI", description: "Low word of ESI (bits 0-15) - 16-bit register" },
+  { name: "DI", description: "Low word of EDI (bits 0-15) - 16-bit register" },
   { name: "AL", description: "Low byte of EAX (bits 0-7) - 8-bit register" },
   { name: "AH", description: "High byte of EAX (bits 8-15) - 8-bit register" },
   { name: "BL", description: "Low byte of EBX (bits 0-7) - 8-bit register" },
@@ -757,6 +993,14 @@ const REGISTERS = [
   { name: "DH", description: "High byte of EDX (bits 8-15) - 8-bit register" },
 ];
 
+// Operand size specifiers for memory operands
+const SIZE_SPECIFIERS = [
+  { name: "BYTE", description: "8-bit memory operand, e.g. `MOV BYTE PTR [EBX], 5`" },
+  { name: "WORD", description: "16-bit memory operand, e.g. `ADD WORD [EBX], 1`" },
+  { name: "DWORD", description: "32-bit memory operand, e.g. `INC DWORD PTR [counter]`" },
+  { name: "PTR", description: "Optional keyword after BYTE, WORD or DWORD" },
+];
+
 // Flag definitions
 const FLAGS = [
   { name: "Z", description: "Zero flag - Set when result is zero" },
@@ -826,6 +1070,16 @@ connection.onCompletion(() => {
     });
   });
 
+  // Add size specifiers
+  SIZE_SPECIFIERS.forEach((spec) => {
+    completions.push({
+      label: spec.name,
+      kind: CompletionItemKind.Keyword,
+      detail: spec.description,
+      documentation: { kind: MarkupKind.Markdown, value: spec.description },
+    });
+  });
+
   return completions;
 });
 
@@ -876,6 +1130,18 @@ connection.onHover((params) => {
     return hover;
   }
 
+  // Check if it's a size specifier
+  const sizeSpecifier = SIZE_SPECIFIERS.find((s) => s.name === word);
+  if (sizeSpecifier) {
+    const hover: Hover = {
+      contents: {
+        kind: MarkupKind.Markdown,
+        value: `**${sizeSpecifier.name}** - ${sizeSpecifier.description}`,
+      },
+    };
+    return hover;
+  }
+
   // Check if it's a flag
   const flag = FLAGS.find((f) => f.name === word);
   if (flag) {
@@ -924,4 +1190,4 @@ documents.listen(connection);
 connection.listen();
 
 // Export for testing (optional)
-export { INSTRUCTIONS, REGISTERS, FLAGS };
+export { INSTRUCTIONS, REGISTERS, SIZE_SPECIFIERS, FLAGS };
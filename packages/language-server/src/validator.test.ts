@@ -15,6 +15,7 @@ import {
   validateControlFlow,
   validateCallingConventions,
   validateDocumentText,
+  splitOperands,
   VALID_REGISTERS,
   REQUIRES_TWO_OPERANDS,
   REQUIRES_ONE_OPERAND,
@@ -111,7 +112,35 @@ const ALL_INSTRUCTION_NAMES = [
   "SCAS",
   "CMPSB",
   "CMPS",
+  "LODSW",
+  "LODSD",
+  "STOSW",
+  "STOSD",
+  "MOVSW",
+  "MOVSD",
+  "SCASW",
+  "SCASD",
+  "CMPSW",
+  "CMPSD",
+  "CLD",
+  "STD",
+  "PUSHF",
+  "POPF",
+  "PUSHA",
+  "POPA",
+  "ENTER",
+  "LEAVE",
+  "CLC",
+  "STC",
+  "CMC",
+  "REP",
+  "REPE",
+  "REPZ",
+  "REPNE",
+  "REPNZ",
   "INT3",
+  "STI",
+  "CLI",
 ];
 
 // Helper: run full validation on assembly text
@@ -127,6 +156,15 @@ function warnings(diags: ReturnType<typeof validate>) {
   return diags.filter((d) => d.severity === DiagnosticSeverity.Warning);
 }
 
+// ─── splitOperands ─────────────────────────────────────────
+describe("splitOperands", () => {
+  test("splits on commas outside memory operands and quotes", () => {
+    expect(splitOperands(" EAX, [EBX + ESI*4 + 8]")).toEqual(["EAX", "[EBX + ESI*4 + 8]"]);
+    expect(splitOperands("BYTE PTR [EDI], ','")).toEqual(["BYTE PTR [EDI]", "','"]);
+    expect(splitOperands("")).toEqual([]);
+  });
+});
+
 // ─── stripComment ──────────────────────────────────────────
 describe("stripComment", () => {
   test("returns line unchanged if no comment", () => {
@@ -338,6 +376,18 @@ describe("validateInstructions", () => {
       ).toHaveLength(1);
     });
 
+    test("ENTER requires 2 operands and LEAVE none", () => {
+      const labels = new Set(["main"]);
+      const ok = ["main:", "  ENTER 16, 0", "  LEAVE", "  PUSHF", "  POPF", "  CLC"];
+      expect(
+        errors(validateInstructions(ok, ALL_INSTRUCTION_NAMES, labels, new Set())),
+      ).toHaveLength(0);
+      const bad = ["main:", "  ENTER 16", "  LEAVE EBP", "  STC 1"];
+      expect(
+        errors(validateInstructions(bad, ALL_INSTRUCTION_NAMES, labels, new Set())),
+      ).toHaveLength(3);
+    });
+
     test("RAND accepts 1 or 2 operands", () => {
       const lines1 = ["main:", "  RAND EAX"];
       const lines2 = ["main:", "  RAND EAX, 64"];
@@ -355,6 +405,38 @@ describe("validateInstructions", () => {
     });
   });
 
+  describe("repeat prefixes", () => {
+    test("REP accepts a string instruction", () => {
+      const lines = ["main:", "  CLD", "  REP STOSD", "  REPNE SCASB", "  repe cmpsw"];
+      const diags = validateInstructions(
+        lines,
+        ALL_INSTRUCTION_NAMES,
+        new Set(["main"]),
+        new Set(),
+      );
+      expect(errors(diags)).toHaveLength(0);
+    });
+
+    test("REP requires a string instruction", () => {
+      const labels = new Set(["main"]);
+      const missing = validateInstructions(
+        ["main:", "  REP"],
+        ALL_INSTRUCTION_NAMES,
+        labels,
+        new Set(),
+      );
+      expect(errors(missing)[0].message).toContain("requires exactly 1 operand");
+      const wrong = validateInstructions(
+        ["main:", "  REP MOV"],
+        ALL_INSTRUCTION_NAMES,
+        labels,
+        new Set(),
+      );
+      expect(errors(wrong)).toHaveLength(1);
+      expect(errors(wrong)[0].message).toContain("REP must be followed by a string instruction");
+    });
+  });
+
   describe("register validation", () => {
     test("reports invalid register-like names", () => {
       const lines = ["main:", "  MOV EXX, 10"];
@@ -382,6 +464,20 @@ describe("validateInstructions", () => {
       }
     });
 
+    test("accepts 16-bit registers", () => {
+      const regs = ["AX", "BX", "CX", "DX", "SI", "DI", "BP", "SP"];
+      for (const reg of regs) {
+        const lines = ["main:", `  ADD ${reg}, 10`];
+        const diags = validateInstructions(
+          lines,
+          ALL_INSTRUCTION_NAMES,
+          new Set(["main"]),
+          new Set(),
+        );
+        expect(errors(diags)).toHaveLength(0);
+      }
+    });
+
     test("accepts 8-bit registers", () => {
       const regs = ["AL", "AH", "BL", "BH", "CL", "CH", "DL", "DH"];
       for (const reg of regs) {
@@ -412,6 +508,45 @@ describe("validateInstructions", () => {
     });
   });
 
+  describe("operand size validation", () => {
+    function sizeErrors(line: string) {
+      const diags = validateInstructions(
+        ["main:", `  ${line}`],
+        ALL_INSTRUCTION_NAMES,
+        new Set(["main", "table"]),
+        new Set(),
+      );
+      return errors(diags).map((d) => d.message);
+    }
+
+    test("reports memory operands whose size is ambiguous", () => {
+      expect(sizeErrors("MOV [EBX], 5")).toEqual([
+        "Operand size of '[EBX]' is ambiguous; specify BYTE, WORD or DWORD",
+      ]);
+      expect(sizeErrors("INC [table + ESI*4]")).toHaveLength(1);
+      expect(sizeErrors("PUSH [0x2000]")).toHaveLength(1);
+      expect(sizeErrors("MOVZX EAX, [EBX]")).toEqual([
+        "Operand size of '[EBX]' is ambiguous; specify BYTE or WORD",
+      ]);
+    });
+
+    test("accepts size specifiers and register operands", () => {
+      expect(sizeErrors("MOV BYTE PTR [EBX], 5")).toEqual([]);
+      expect(sizeErrors("add word [EBX + 2], 1")).toEqual([]);
+      expect(sizeErrors("CMP DWORD [table + ESI*4], 0")).toEqual([]);
+      expect(sizeErrors("MOV [EBX], AL")).toEqual([]);
+      expect(sizeErrors("MOV EAX, [EBX]")).toEqual([]);
+      expect(sizeErrors("MOVSX EAX, WORD PTR [EBX]")).toEqual([]);
+      expect(sizeErrors("LEA EAX, [EBX + 4]")).toEqual([]);
+    });
+
+    test("reports size specifiers without a memory operand", () => {
+      expect(sizeErrors("MOV BYTE PTR EAX, 5")).toEqual([
+        "Size specifier BYTE must be followed by a memory operand",
+      ]);
+    });
+  });
+
   describe("label validation for jumps", () => {
     test("warns on undefined label in JMP", () => {
       const lines = ["main:", "  JMP undefined_label", "  HLT"];
@@ -741,6 +876,61 @@ describe("validateCallingConventions", () => {
     expect(funcWarns).toHaveLength(0);
   });
 
+  test("accepts ENTER and LEAVE as prologue and epilogue", () => {
+    const lines = [
+      "main:",
+      "  CALL my_func",
+      "  HLT",
+      "my_func:",
+      "  ENTER 8, 0",
+      "  PUSHA",
+      "  MOV EBX, 42",
+      "  POPA",
+      "  LEAVE",
+      "  RET",
+    ];
+    const labels = new Set(["main", "my_func"]);
+    const diags: Diagnostic[] = [];
+    validateCallingConventions(lines, labels, diags);
+    expect(diags.filter((d) => d.message.includes("my_func"))).toHaveLength(0);
+  });
+
+  test("standard prologue may end with LEAVE", () => {
+    const lines = [
+      "main:",
+      "  CALL my_func",
+      "  HLT",
+      "my_func:",
+      "  PUSH EBP",
+      "  MOV EBP, ESP",
+      "  SUB ESP, 8",
+      "  LEAVE",
+      "  RET",
+    ];
+    const labels = new Set(["main", "my_func"]);
+    const diags: Diagnostic[] = [];
+    validateCallingConventions(lines, labels, diags);
+    expect(diags.filter((d) => d.message.includes("my_func"))).toHaveLength(0);
+  });
+
+  test("counts PUSHF and POPF towards stack balance", () => {
+    const lines = [
+      "main:",
+      "  CALL my_func",
+      "  HLT",
+      "my_func:",
+      "  PUSH EBP",
+      "  MOV EBP, ESP",
+      "  PUSHF",
+      "  POP EBP",
+      "  RET",
+    ];
+    const labels = new Set(["main", "my_func"]);
+    const diags: Diagnostic[] = [];
+    validateCallingConventions(lines, labels, diags);
+    expect(diags.some((d) => d.message.includes("2 PUSH but 1 POP"))).toBe(true);
+  });
+
   test("warns about unbalanced PUSH/POP", () => {
     const lines = [
       "main:",
@@ -1065,6 +1255,12 @@ describe("exported constants", () => {
     expect(VALID_REGISTERS).toContain("EDI");
   });
 
+  test("VALID_REGISTERS includes 16-bit registers", () => {
+    expect(VALID_REGISTERS).toContain("AX");
+    expect(VALID_REGISTERS).toContain("SI");
+    expect(VALID_REGISTERS).toContain("SP");
+  });
+
   test("VALID_REGISTERS includes 8-bit registers", () => {
     expect(VALID_REGISTERS).toContain("AL");
     expect(VALID_REGISTERS).toContain("AH");
@@ -1090,6 +1286,8 @@ describe("exported constants", () => {
     expect(REQUIRES_ZERO_OPERANDS).toContain("RET");
     expect(REQUIRES_ZERO_OPERANDS).toContain("NOP");
     expect(REQUIRES_ZERO_OPERANDS).toContain("IRET");
+    expect(REQUIRES_ZERO_OPERANDS).toContain("STI");
+    expect(REQUIRES_ZERO_OPERANDS).toContain("CLI");
   });
 
   test("LABEL_INSTRUCTIONS covers all jump types", () => {
@@ -1270,6 +1468,13 @@ describe("hex addresses and constants in jump targets", () => {
     expect(warns).toHaveLength(0);
   });
 
+  test("jump through memory does not produce undefined label warning", () => {
+    const lines = ["main:", "  JMP [table + EBX*4]", "  CALL DWORD PTR [vtable+4]", "  HLT"];
+    const diags = validateInstructions(lines, ALL_INSTRUCTION_NAMES, new Set(["main"]), new Set());
+    const warns = warnings(diags);
+    expect(warns).toHaveLength(0);
+  });
+
   test("jump to defined constant does not produce warning", () => {
     const lines = ["main:", "  JMP ENTRY", "  HLT"];
     const diags = validateInstructions(
@@ -9,7 +9,7 @@
 import { Diagnostic, DiagnosticSeverity } from "vscode-languageserver/node";
 
 /**
- * All valid 32-bit and 8-bit register names
+ * All valid 32-bit, 16-bit and 8-bit register names
  */
 export const VALID_REGISTERS = [
   "EAX",
@@ -20,6 +20,14 @@ export const VALID_REGISTERS = [
   "EDI",
   "EBP",
   "ESP",
+  "AX",
+  "BX",
+  "CX",
+  "DX",
+  "SI",
+  "DI",
+  "BP",
+  "SP",
   "AL",
   "AH",
   "BL",
@@ -71,6 +79,7 @@ export const REQUIRES_TWO_OPERANDS = [
   "XADD",
   "BSF",
   "BSR",
+  "ENTER",
 ];
 
 /**
@@ -109,6 +118,11 @@ export const REQUIRES_ONE_OPERAND = [
   "LOOPNE",
   "LOOPNZ",
   "BSWAP",
+  "REP",
+  "REPE",
+  "REPZ",
+  "REPNE",
+  "REPNZ",
 ];
 
 /**
@@ -131,7 +145,62 @@ export const REQUIRES_ZERO_OPERANDS = [
   "SCAS",
   "CMPSB",
   "CMPS",
+  "LODSW",
+  "LODSD",
+  "STOSW",
+  "STOSD",
+  "MOVSW",
+  "MOVSD",
+  "SCASW",
+  "SCASD",
+  "CMPSW",
+  "CMPSD",
+  "CLD",
+  "STD",
+  "PUSHF",
+  "POPF",
+  "PUSHA",
+  "POPA",
+  "LEAVE",
+  "CLC",
+  "STC",
+  "CMC",
   "INT3",
+  "STI",
+  "CLI",
+];
+
+/**
+ * Repeat prefixes, written before the string instruction they repeat (REP STOSB)
+ */
+export const REPEAT_PREFIXES = ["REP", "REPE", "REPZ", "REPNE", "REPNZ"];
+
+/** String instructions a repeat prefix can apply to */
+const STRING_INSTRUCTION_PATTERN = /^(LODS|STOS|MOVS|SCAS|CMPS)[BWD]?$/i;
+
+/**
+ * Instructions whose operand size must be known. A memory operand needs a
+ * BYTE, WORD or DWORD specifier unless a register operand gives the size.
+ */
+export const SIZED_INSTRUCTIONS = [
+  "MOV",
+  "ADD",
+  "SUB",
+  "AND",
+  "OR",
+  "XOR",
+  "CMP",
+  "TEST",
+  "XCHG",
+  "PUSH",
+  "POP",
+  "INC",
+  "DEC",
+  "NEG",
+  "NOT",
+  "MUL",
+  "DIV",
+  "IDIV",
 ];
 
 /**
@@ -271,6 +340,67 @@ export function collectLabelsAndConstants(lines: string[]): FirstPassResult {
   return { labels, equConstants, diagnostics };
 }
 
+/**
+ * Split the operand text of an instruction on the commas that separate
+ * operands, keeping [...] memory operands and quoted characters intact.
+ */
+export function splitOperands(text: string): string[] {
+  const operands: string[] = [];
+  let current = "";
+  let depth = 0;
+  let quote = "";
+  for (const ch of text) {
+    if (quote) {
+      if (ch === quote) quote = "";
+    } else if (ch === "'" || ch === '"') {
+      quote = ch;
+    } else if (ch === "[") {
+      depth++;
+    } else if (ch === "]") {
+      depth--;
+    } else if (ch === "," && depth <= 0) {
+      operands.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += ch;
+  }
+  operands.push(current.trim());
+  return operands.filter((op) => op.length > 0);
+}
+
+/** BYTE, WORD or DWORD, optionally followed by PTR, at the start of an operand */
+const SIZE_SPECIFIER_PATTERN = /^(BYTE|WORD|DWORD)(?:\s+PTR)?(?=\s|\[)\s*/i;
+
+/**
+ * Check operand sizes and return an error message if an operand is ambiguous
+ * or a size specifier is misplaced, or null if OK.
+ */
+function checkOperandSize(instruction: string, operands: string[]): string | null {
+  for (const operand of operands) {
+    const specifier = SIZE_SPECIFIER_PATTERN.exec(operand);
+    if (specifier && !operand.slice(specifier[0].length).startsWith("[")) {
+      return `Size specifier ${specifier[1].toUpperCase()} must be followed by a memory operand`;
+    }
+  }
+
+  const unsizedMemory = operands.find((op) => op.startsWith("["));
+  if (!unsizedMemory) return null;
+
+  // MOVZX/MOVSX extend their source, so the destination register does not give its size
+  if (instruction === "MOVZX" || instruction === "MOVSX") {
+    return operands[1] === unsizedMemory
+      ? `Operand size of '${unsizedMemory}' is ambiguous; specify BYTE or WORD`
+      : null;
+  }
+
+  const hasRegister = operands.some((op) => VALID_REGISTERS.includes(op.toUpperCase()));
+  if (SIZED_INSTRUCTIONS.includes(instruction) && !hasRegister) {
+    return `Operand size of '${unsizedMemory}' is ambiguous; specify BYTE, WORD or DWORD`;
+  }
+  return null;
+}
+
 /**
  * Check operand counts and return an error message if wrong, or null if OK.
  */
@@ -319,6 +449,7 @@ function isInvalidRegister(
  */
 function isUndefinedLabel(label: string, labels: Set<string>, equConstants: Set<string>): boolean {
   return (
+    !label.includes("[") && // Indirect target read from memory (JMP [table + EBX*4])
     !label.startsWith("0x") &&
     !label.startsWith("0X") &&
     !VALID_REGISTERS.includes(label.toUpperCase()) &&
@@ -383,9 +514,9 @@ export function validateInstructions(
     // Handle labels with directives on same line (e.g., "message: DB 'Hi'")
     if (/^\w+:\s+(DB|DW|DD|ORG|EQU)\s/i.test(cleanLine)) return;
 
-    // Tokenize
-    const tokens = cleanLine.split(/[\s,]+/).filter((t) => t.length > 0);
-    const instruction = tokens[0].toUpperCase();
+    // Tokenize: mnemonic, then comma-separated operands
+    const [mnemonic] = cleanLine.split(/[\s,]/, 1);
+    const instruction = mnemonic.toUpperCase();
 
     // Check valid instruction (skip if it's a directive)
     if (ASSEMBLER_DIRECTIVES.includes(instruction)) return;
@@ -403,7 +534,7 @@ export function validateInstructions(
       return;
     }
 
-    const operands = tokens.slice(1);
+    const operands = splitOperands(cleanLine.slice(mnemonic.length));
 
     // Validate operand counts
     const operandError = checkOperandCount(instruction, operands.length);
@@ -420,6 +551,22 @@ export function validateInstructions(
       return;
     }
 
+    // A repeat prefix is followed by a string instruction, not an operand
+    if (REPEAT_PREFIXES.includes(instruction)) {
+      if (!STRING_INSTRUCTION_PATTERN.test(operands[0])) {
+        diagnostics.push({
+          severity: DiagnosticSeverity.Error,
+          range: {
+            start: { line: lineIndex, character: 0 },
+            end: { line: lineIndex, character: trimmed.length },
+          },
+          message: `${instruction} must be followed by a string instruction (LODS, STOS, MOVS, SCAS or CMPS)`,
+          source: "tonx86",
+        });
+      }
+      return;
+    }
+
     // Validate register names in operands
     for (const operand of operands) {
       if (isInvalidRegister(operand, labels, equConstants)) {
@@ -435,6 +582,20 @@ export function validateInstructions(
       }
     }
 
+    // Validate operand sizes
+    const sizeError = checkOperandSize(instruction, operands);
+    if (sizeError) {
+      diagnostics.push({
+        severity: DiagnosticSeverity.Error,
+        range: {
+          start: { line: lineIndex, character: 0 },
+          end: { line: lineIndex, character: trimmed.length },
+        },
+        message: sizeError,
+        source: "tonx86",
+      });
+    }
+
     // Check for jump/call with undefined labels
     if (LABEL_INSTRUCTIONS.includes(instruction)) {
       const label = operands[0];
@@ -696,6 +857,46 @@ function newFunctionInfo(name: string, startLine: number): FunctionInfo {
   };
 }
 
+/**
+ * Update function info for instructions that push or pop without naming a
+ * register. Returns false if the instruction is not one of them.
+ */
+function updateFunctionForImplicitStack(
+  func: FunctionInfo,
+  instruction: string,
+  lineIndex: number,
+  firstInstructionAfterLabel: boolean,
+): boolean {
+  switch (instruction) {
+    case "ENTER":
+      // ENTER is PUSH EBP; MOV EBP, ESP; SUB ESP, size
+      func.pushCount++;
+      if (firstInstructionAfterLabel) {
+        func.prologuePushEBPLine = lineIndex;
+        func.prologueMovEBPLine = lineIndex;
+      }
+      return true;
+    case "LEAVE":
+      // LEAVE is MOV ESP, EBP; POP EBP
+      func.popCount++;
+      func.epiloguePopEBPLine = lineIndex;
+      return true;
+    case "PUSHA":
+      func.pushCount++;
+      CALLEE_SAVED_REGS.forEach((reg) => func.savesCalleeSavedRegs.add(reg));
+      return true;
+    case "PUSHF":
+      func.pushCount++;
+      return true;
+    case "POPA":
+    case "POPF":
+      func.popCount++;
+      return true;
+    default:
+      return false;
+  }
+}
+
 /** Update function info based on an instruction line. */
 function updateFunctionForInstruction(
   func: FunctionInfo,
@@ -704,6 +905,10 @@ function updateFunctionForInstruction(
   lineIndex: number,
   firstInstructionAfterLabel: boolean,
 ): void {
+  if (updateFunctionForImplicitStack(func, instruction, lineIndex, firstInstructionAfterLabel)) {
+    return;
+  }
+
   if (instruction === "PUSH") {
     func.pushCount++;
     if (tokens.length > 1) {
@@ -0,0 +1,218 @@
+import { assembleProgram, decodeInstruction, encodeInstruction } from ".";
+import { Simulator } from "../simulator/index";
+import type { Instruction } from "../types";
+
+function instr(mnemonic: string, operands: string[] = [], line = 1): Instruction {
+  return { line, mnemonic, operands, raw: `${mnemonic} ${operands.join(", ")}`.trim() };
+}
+
+function roundTrip(source: Instruction) {
+  const bytes = encodeInstruction(source, (label) => (label === "target" ? 0x40 : undefined));
+  const decoded = decodeInstruction((addr) => bytes[addr] ?? 0, 0);
+  expect(decoded.length).toBe(bytes.length);
+  return decoded;
+}
+
+describe("decodeInstruction", () => {
+  test("round-trips registers, immediates and memory operands", () => {
+    expect(roundTrip(instr("MOV", ["EAX", "0x10"]))).toMatchObject({
+      mnemonic: "MOV",
+      operands: ["EAX", "16"],
+    });
+    expect(roundTrip(instr("ADD", ["BL", "AH"])).operands).toEqual(["BL", "AH"]);
+    expect(roundTrip(instr("SUB", ["DI", "BP"])).operands).toEqual(["DI", "BP"]);
+    expect(roundTrip(instr("MOV", ["[EBP-4]", "ECX"])).operands).toEqual(["[EBP-4]", "ECX"]);
+    expect(roundTrip(instr("MOV", ["EAX", "[EBX+ESI]"])).operands).toEqual(["EAX", "[EBX+ESI]"]);
+    expect(roundTrip(instr("MOV", ["EAX", "[0x2000]"])).operands).toEqual(["EAX", "[8192]"]);
+    expect(roundTrip(instr("MOV", ["EAX", "[EBX + ESI*4 + 8]"])).operands).toEqual([
+      "EAX",
+      "[EBX+ESI*4+8]",
+    ]);
+    expect(roundTrip(instr("MOV", ["EAX", "[table+ESI*4]"])).operands).toEqual([
+      "EAX",
+      "[table+ESI*4]",
+    ]);
+    expect(roundTrip(instr("MOV", ["BYTE PTR [EDI+1]", "AL"])).operands).toEqual([
+      "BYTE PTR [EDI+1]",
+      "AL",
+    ]);
+    expect(roundTrip(instr("ADD", ["word [0x2000]", "5"])).operands).toEqual([
+      "WORD PTR [8192]",
+      "5",
+    ]);
+  });
+
+  test("decodes grouped and two-byte opcodes", () => {
+    expect(roundTrip(instr("SAR", ["EDX", "2"])).mnemonic).toBe("SAR");
+    expect(roundTrip(instr("IDIV", ["ECX"])).mnemonic).toBe("IDIV");
+    expect(roundTrip(instr("MOVZX", ["EAX", "BL"])).mnemonic).toBe("MOVZX");
+  });
+
+  test("decodes aliases to their canonical mnemonic", () => {
+    expect(roundTrip(instr("JZ", ["target"])).mnemonic).toBe("JE");
+    expect(roundTrip(instr("REPZ", ["CMPSB"])).mnemonic).toBe("REP");
+  });
+
+  test("decodes REP prefixes with the instruction they repeat", () => {
+    expect(roundTrip(instr("REP", ["STOSD"]))).toMatchObject({
+      mnemonic: "REP",
+      operands: ["STOSD"],
+    });
+    expect(roundTrip(instr("REPNE", ["SCASW"]))).toMatchObject({
+      mnemonic: "REPNE",
+      operands: ["SCASW"],
+    });
+  });
+
+  test("decodes branch targets as hexadecimal addresses", () => {
+    expect(roundTrip(instr("CALL", ["target"])).operands).toEqual(["0x0040"]);
+  });
+
+  test("restores unknown mnemonics and unresolved symbols", () => {
+    expect(roundTrip(instr("FOO", ["EAX"]))).toMatchObject({ mnemonic: "FOO", operands: ["EAX"] });
+    expect(roundTrip(instr("MOV", ["EAX", "[foo]"])).operands).toEqual(["EAX", "[foo]"]);
+  });
+
+  test("decodes invalid opcodes as a one-byte (BAD) instruction", () => {
+    expect(decodeInstruction(() => 0, 0x10)).toEqual({
+      address: 0x10,
+      length: 1,
+      mnemonic: "(BAD)",
+      operands: ["0x00"],
+    });
+  });
+
+  test("decodes invalid register and operand tags as (BAD)", () => {
+    const bytes = encodeInstruction(instr("MOV", ["EAX", "EBX"]), () => undefined);
+    const register = bytes.length - 2; // Tag of the first operand (EAX)
+    for (const tag of [0x1f, 0x2f, 0x5f, 0xf0]) {
+      const corrupt = [...bytes];
+      corrupt[register] = tag;
+      expect(decodeInstruction((addr) => corrupt[addr] ?? 0, 0)).toMatchObject({
+        length: 1,
+        mnemonic: "(BAD)",
+      });
+    }
+  });
+
+  test("decodes memory operands with an invalid base or index as (BAD)", () => {
+    const bytes = encodeInstruction(instr("MOV", ["EAX", "[EBX+ESI]"]), () => undefined);
+    const memory = bytes.indexOf(0x40); // Memory operand tag, then base and index
+    for (const offset of [1, 2]) {
+      const corrupt = [...bytes];
+      corrupt[memory + offset] = 0x09;
+      expect(decodeInstruction((addr) => corrupt[addr] ?? 0, 0)).toMatchObject({
+        length: 1,
+        mnemonic: "(BAD)",
+      });
+    }
+  });
+});
+
+describe("Simulator memory execution mode", () => {
+  function load(instructions: Instruction[], labels: Map<string, number>, origin = 0) {
+    const sim = new Simulator();
+    sim.setExecutionMode("memory");
+    sim.loadInstructions(instructions, labels, origin);
+    return sim;
+  }
+
+  function runToEnd(sim: Simulator, limit = 1000): void {
+    for (let i = 0; i < limit && sim.step() !== -1 && !sim.getState().halted; i++);
+  }
+
+  test("EIP is a byte address starting at the program origin", () => {
+    const sim = load([instr("MOV", ["EAX", "5"], 3), instr("NOP", [], 4)], new Map(), 0x100);
+    expect(sim.getEIP()).toBe(0x100);
+    expect(sim.step()).toBe(3);
+    expect(sim.getRegisters().EAX).toBe(5);
+    expect(sim.getEIP()).toBe(0x108);
+    expect(sim.step()).toBe(4);
+    expect(sim.step()).toBe(-1);
+    expect(sim.getState().halted).toBe(true);
+  });
+
+  test("reports the source line of the decoded instruction", () => {
+    const sim = load([instr("INC", ["EAX"], 7)], new Map());
+    expect(sim.getCurrentInstruction()).toMatchObject({
+      line: 7,
+      mnemonic: "INC",
+      operands: ["EAX"],
+    });
+    expect(sim.getLineForEIP(0)).toBe(7);
+  });
+
+  test("loops, conditional jumps and CALL/RET use addresses", () => {
+    const sim = load(
+      [
+        instr("MOV", ["ECX", "3"]),
+        instr("CALL", ["add"]), // loop:
+        instr("LOOP", ["loop"]),
+        instr("JMP", ["end"]),
+        instr("ADD", ["EAX", "2"]), // add:
+        instr("RET"),
+      ],
+      new Map([
+        ["loop", 1],
+        ["add", 4],
+        ["end", 6],
+      ]),
+      0x40,
+    );
+    runToEnd(sim);
+    expect(sim.getRegisters().EAX).toBe(6);
+    expect(sim.getRegisters().ESP).toBe(0xffff);
+  });
+
+  test("executes code modified at runtime", () => {
+    // Overwrite the immediate of the second MOV before it executes
+    const layout = assembleProgram(
+      [instr("MOV", ["[0]", "42"]), instr("MOV", ["EAX", "1"])],
+      new Map(),
+    );
+    const immediate = layout.instructions[1].address + 4; // opcode, count, register, tag
+    const sim = load(
+      [instr("MOV", [`[${immediate}]`, "42"]), instr("MOV", ["EAX", "1"])],
+      new Map(),
+    );
+    runToEnd(sim);
+    expect(sim.getRegisters().EAX).toBe(42);
+  });
+
+  test("raw machine code can run without source", () => {
+    const source = assembleProgram([instr("MOV", ["EBX", "9"]), instr("HLT")], new Map(), 0x200);
+    const sim = new Simulator();
+    sim.setExecutionMode("memory");
+    sim.loadProgram(source.bytes, 0x200);
+    expect(sim.getEIP()).toBe(0x200);
+    runToEnd(sim);
+    expect(sim.getRegisters().EBX).toBe(9);
+    expect(sim.getState().halted).toBe(true);
+  });
+
+  test("jumping into data reports an unknown instruction", () => {
+    const sim = load([instr("JMP", ["0x3000"])], new Map());
+    sim.step();
+    expect(sim.getEIP()).toBe(0x3000);
+    expect(() => sim.step()).toThrow("Unknown instruction: (BAD)");
+  });
+
+  test("switching modes converts EIP between index and address", () => {
+    const sim = new Simulator();
+    sim.loadInstructions([instr("NOP"), instr("MOV", ["EAX", "1"])], new Map(), 0x10);
+    sim.step();
+    expect(sim.getEIP()).toBe(1);
+    sim.setExecutionMode("memory");
+    expect(sim.getExecutionMode()).toBe("memory");
+    expect(sim.getEIP()).toBe(0x12);
+    sim.setExecutionMode("instruction-list");
+    expect(sim.getEIP()).toBe(1);
+  });
+
+  test("reset() returns EIP to the program origin", () => {
+    const sim = load([instr("NOP"), instr("NOP")], new Map(), 0x80);
+    sim.step();
+    sim.reset();
+    expect(sim.getEIP()).toBe(0x80);
+  });
+});
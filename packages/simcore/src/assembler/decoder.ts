@@ -0,0 +1,203 @@
+/**
+ * TonX86 Disassembler - decodes machine-code bytes produced by encoder.ts
+ * back into mnemonic + operand strings that the instruction handlers execute.
+ *
+ * Branch targets decode to hexadecimal addresses (e.g. "0x0010"), which the
+ * simulator resolves directly when executing from memory.
+ */
+
+import { REGISTER_MAP, REGISTER16_MAP, REGISTER8_MAP } from "../types";
+import { OPCODE_TABLE, OPERAND_SIZE_PREFIX } from "./opcodes";
+import { OPERAND_TAG, NO_REGISTER, UD2_OPCODE } from "./encoder";
+
+/** Reads one byte of memory */
+export type ByteReader = (address: number) => number;
+
+/**
+ * A single decoded instruction
+ */
+export interface DecodedInstruction {
+  address: number;
+  length: number;
+  mnemonic: string;
+  operands: string[];
+}
+
+const REGISTER_NAMES = Object.keys(REGISTER_MAP).sort((a, b) => REGISTER_MAP[a] - REGISTER_MAP[b]);
+
+const REGISTER16_NAMES = Object.keys(REGISTER16_MAP).sort(
+  (a, b) => REGISTER16_MAP[a] - REGISTER16_MAP[b],
+);
+
+const REGISTER8_NAMES: string[] = [];
+for (const [name, { reg, byteOffset }] of Object.entries(REGISTER8_MAP)) {
+  REGISTER8_NAMES[reg + (byteOffset ? 4 : 0)] = name;
+}
+
+/** Memory operand size nibble (bytes) -> size specifier */
+const SIZE_NAMES: { [key: number]: string } = { 1: "BYTE", 2: "WORD", 4: "DWORD" };
+
+/** Opcode key ("0f,b6" or "f7/3") -> canonical mnemonic; first table entry wins for aliases */
+const MNEMONIC_BY_OPCODE = new Map<string, string>();
+/** Opcode keys followed by a ModRM /digit byte */
+const GROUPED_OPCODES = new Set<string>();
+for (const [mnemonic, info] of Object.entries(OPCODE_TABLE)) {
+  const opcodeKey = info.opcode.join(",");
+  const key = info.ext === undefined ? opcodeKey : `${opcodeKey}/${info.ext}`;
+  if (info.ext !== undefined) GROUPED_OPCODES.add(opcodeKey);
+  if (!MNEMONIC_BY_OPCODE.has(key)) MNEMONIC_BY_OPCODE.set(key, mnemonic);
+}
+
+function hex(value: number, width: number): string {
+  return "0x" + value.toString(16).toUpperCase().padStart(width, "0");
+}
+
+/**
+ * Sequential reader over memory starting at an address
+ */
+class Cursor {
+  constructor(
+    private readByte: ByteReader,
+    public address: number,
+  ) {}
+
+  byte(): number {
+    return this.readByte(this.address++) & 0xff;
+  }
+
+  uint32(): number {
+    const b0 = this.byte();
+    const b1 = this.byte();
+    const b2 = this.byte();
+    const b3 = this.byte();
+    return (b0 | (b1 << 8) | (b2 << 16) | (b3 << 24)) >>> 0;
+  }
+}
+
+/** Whether a memory operand's base or index byte names a register or none */
+function isAddressRegister(reg: number): boolean {
+  return reg === NO_REGISTER || reg < REGISTER_NAMES.length;
+}
+
+/**
+ * Format a memory operand; undefined when the base or index is not a register
+ */
+function formatMemory(
+  base: number,
+  index: number,
+  scale: number,
+  disp: number,
+): string | undefined {
+  if (!isAddressRegister(base) || !isAddressRegister(index)) return undefined;
+  const parts: string[] = [];
+  if (base !== NO_REGISTER) parts.push(REGISTER_NAMES[base]);
+  if (index !== NO_REGISTER)
+    parts.push(scale > 1 ? `${REGISTER_NAMES[index]}*${scale}` : REGISTER_NAMES[index]);
+
+  const signed = disp | 0;
+  if (parts.length === 0) return `[${disp >>> 0}]`;
+  if (signed > 0) return `[${parts.join("+")}+${signed}]`;
+  if (signed < 0) return `[${parts.join("+")}-${-signed}]`;
+  return `[${parts.join("+")}]`;
+}
+
+/**
+ * Decode one operand; undefined when its encoding is invalid
+ */
+function decodeOperand(cursor: Cursor): string | undefined {
+  const tag = cursor.byte();
+  const kind = tag & 0xf0;
+  const reg = tag & 0x0f;
+
+  switch (kind) {
+    case OPERAND_TAG.REGISTER:
+      return REGISTER_NAMES[reg];
+    case OPERAND_TAG.REGISTER16:
+      return REGISTER16_NAMES[reg];
+    case OPERAND_TAG.REGISTER8:
+      return REGISTER8_NAMES[reg];
+    case OPERAND_TAG.IMMEDIATE:
+      return String(cursor.uint32());
+    case OPERAND_TAG.MEMORY: {
+      const base = cursor.byte();
+      const index = cursor.byte();
+      const scale = cursor.byte();
+      const memory = formatMemory(base, index, scale, cursor.uint32());
+      const size = SIZE_NAMES[reg];
+      return size && memory ? `${size} PTR ${memory}` : memory;
+    }
+    case OPERAND_TAG.TARGET:
+      return hex(cursor.uint32(), 4);
+    case OPERAND_TAG.SYMBOL: {
+      const length = cursor.byte();
+      let text = "";
+      for (let i = 0; i < length; i++) {
+        text += String.fromCharCode(cursor.byte());
+      }
+      return text;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Decode the instruction stored at `address`.
+ * Bytes that are not a valid opcode, or an operand with an invalid encoding,
+ * decode to a one-byte "(BAD)" instruction, which the simulator reports as an
+ * unknown instruction when executed.
+ */
+export function decodeInstruction(readByte: ByteReader, address: number): DecodedInstruction {
+  const cursor = new Cursor(readByte, address);
+  const first = cursor.byte();
+  const twoByte = first === 0x0f || first === OPERAND_SIZE_PREFIX;
+  const opcode = twoByte ? [first, cursor.byte()] : [first];
+  const opcodeKey = opcode.join(",");
+
+  let mnemonic: string | undefined;
+  const isUD2 = opcodeKey === UD2_OPCODE.join(",");
+  if (GROUPED_OPCODES.has(opcodeKey)) {
+    const ext = (cursor.byte() >> 3) & 7;
+    mnemonic = MNEMONIC_BY_OPCODE.get(`${opcodeKey}/${ext}`);
+  } else if (!isUD2) {
+    mnemonic = MNEMONIC_BY_OPCODE.get(opcodeKey);
+  }
+
+  const bad: DecodedInstruction = {
+    address,
+    length: 1,
+    mnemonic: "(BAD)",
+    operands: [hex(first, 2)],
+  };
+  if (mnemonic === undefined && !isUD2) {
+    return bad;
+  }
+
+  // A REP prefix takes the instruction that follows it as its operands
+  if (mnemonic !== undefined && OPCODE_TABLE[mnemonic].prefix) {
+    const repeated = decodeInstruction(readByte, cursor.address);
+    return {
+      address,
+      length: cursor.address - address + repeated.length,
+      mnemonic,
+      operands: [repeated.mnemonic, ...repeated.operands],
+    };
+  }
+
+  const count = cursor.byte();
+  const operands: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const operand = decodeOperand(cursor);
+    if (operand === undefined) {
+      return bad;
+    }
+    operands.push(operand);
+  }
+
+  // UD2 carries the original (unknown) mnemonic as its first operand
+  if (isUD2) {
+    mnemonic = operands.shift() ?? "UD2";
+  }
+
+  return { address, length: cursor.address - address, mnemonic: mnemonic!, operands };
+}
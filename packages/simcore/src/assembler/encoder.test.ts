@@ -0,0 +1,253 @@
+import * as fs from "fs";
+import * as path from "path";
+import { assembleProgram, encodeInstruction, OPCODE_TABLE, OPERAND_TAG, NO_REGISTER } from ".";
+import { Simulator } from "../simulator/index";
+import type { Instruction } from "../types";
+
+function instr(mnemonic: string, operands: string[] = [], line = 1): Instruction {
+  return { line, mnemonic, operands, raw: `${mnemonic} ${operands.join(", ")}`.trim() };
+}
+
+const noTargets = () => undefined;
+
+describe("OPCODE_TABLE", () => {
+  test("matches the opcodes documented in isa.json", () => {
+    const isaPath = path.join(__dirname, "../../../docs/isa.json");
+    const isa = JSON.parse(fs.readFileSync(isaPath, "utf-8")) as {
+      instructions: Array<{ mnemonic: string; opcode: string }>;
+    };
+
+    for (const entry of isa.instructions) {
+      const info = OPCODE_TABLE[entry.mnemonic];
+      expect(info).toBeDefined();
+      const hex = info.opcode.map((b) => b.toString(16).padStart(2, "0")).join("");
+      expect(`0x${hex}`).toBe(entry.opcode.toLowerCase());
+    }
+  });
+
+  test("grouped opcodes have distinct extensions", () => {
+    const seen = new Map<string, string>();
+    const aliases = new Set([
+      "JZ",
+      "JNZ",
+      "LOOPZ",
+      "LOOPNZ",
+      "CMOVZ",
+      "CMOVNZ",
+      "REPE",
+      "REPZ",
+      "REPNZ",
+    ]);
+    for (const [mnemonic, info] of Object.entries(OPCODE_TABLE)) {
+      if (aliases.has(mnemonic) || /^(LODS|STOS|MOVS|SCAS|CMPS)$/.test(mnemonic)) continue;
+      const key = `${info.opcode.join(",")}/${info.ext ?? "-"}`;
+      expect(seen.get(key)).toBeUndefined();
+      seen.set(key, mnemonic);
+    }
+  });
+});
+
+describe("encodeInstruction", () => {
+  test("encodes a no-operand instruction", () => {
+    expect(encodeInstruction(instr("NOP"), noTargets)).toEqual([0x90, 0]);
+    expect(encodeInstruction(instr("HLT"), noTargets)).toEqual([0xf4, 0]);
+  });
+
+  test("encodes register and immediate operands", () => {
+    expect(encodeInstruction(instr("MOV", ["EAX", "0x12345678"]), noTargets)).toEqual([
+      0x89,
+      2,
+      OPERAND_TAG.REGISTER | 0,
+      OPERAND_TAG.IMMEDIATE,
+      0x78,
+      0x56,
+      0x34,
+      0x12,
+    ]);
+  });
+
+  test("encodes 8-bit registers with x86 register numbers", () => {
+    const bytes = encodeInstruction(instr("MOV", ["AH", "BL"]), noTargets);
+    expect(bytes).toEqual([0x89, 2, OPERAND_TAG.REGISTER8 | 4, OPERAND_TAG.REGISTER8 | 3]);
+  });
+
+  test("encodes 16-bit registers", () => {
+    const bytes = encodeInstruction(instr("MOV", ["AX", "SI"]), noTargets);
+    expect(bytes).toEqual([0x89, 2, OPERAND_TAG.REGISTER16 | 0, OPERAND_TAG.REGISTER16 | 6]);
+  });
+
+  test("emits a ModRM /digit byte for grouped opcodes", () => {
+    expect(encodeInstruction(instr("NEG", ["ECX"]), noTargets)).toEqual([
+      0xf7,
+      0xc0 | (3 << 3),
+      1,
+      OPERAND_TAG.REGISTER | 1,
+    ]);
+    expect(encodeInstruction(instr("SHR", ["EAX", "1"]), noTargets).slice(0, 2)).toEqual([
+      0xc1,
+      0xc0 | (5 << 3),
+    ]);
+  });
+
+  test("encodes two-byte opcodes", () => {
+    expect(encodeInstruction(instr("MOVZX", ["EAX", "BL"]), noTargets).slice(0, 2)).toEqual([
+      0x0f, 0xb6,
+    ]);
+  });
+
+  test("encodes character literals as immediates", () => {
+    const bytes = encodeInstruction(instr("MOV", ["AL", "'a'"]), noTargets);
+    expect(bytes.slice(3)).toEqual([OPERAND_TAG.IMMEDIATE, 97, 0, 0, 0]);
+  });
+
+  test("encodes negative immediates in two's complement", () => {
+    const bytes = encodeInstruction(instr("ADD", ["EAX", "-1"]), noTargets);
+    expect(bytes.slice(3)).toEqual([OPERAND_TAG.IMMEDIATE, 0xff, 0xff, 0xff, 0xff]);
+  });
+
+  test("encodes memory operands", () => {
+    expect(encodeInstruction(instr("MOV", ["EAX", "[0x2000]"]), noTargets).slice(3)).toEqual([
+      OPERAND_TAG.MEMORY,
+      NO_REGISTER,
+      NO_REGISTER,
+      1,
+      0x00,
+      0x20,
+      0,
+      0,
+    ]);
+    expect(encodeInstruction(instr("MOV", ["EAX", "[EBP-4]"]), noTargets).slice(3)).toEqual([
+      OPERAND_TAG.MEMORY,
+      5,
+      NO_REGISTER,
+      1,
+      0xfc,
+      0xff,
+      0xff,
+      0xff,
+    ]);
+    expect(encodeInstruction(instr("MOV", ["EAX", "[EBX+ESI]"]), noTargets).slice(3, 7)).toEqual([
+      OPERAND_TAG.MEMORY,
+      3,
+      6,
+      1,
+    ]);
+    expect(encodeInstruction(instr("MOV", ["EAX", "[ECX]"]), noTargets).slice(3, 5)).toEqual([
+      OPERAND_TAG.MEMORY,
+      1,
+    ]);
+  });
+
+  test("encodes the operand size of sized memory operands", () => {
+    const tagOf = (operand: string) => encodeInstruction(instr("INC", [operand]), noTargets)[3];
+    expect(tagOf("BYTE PTR [EBX]")).toBe(OPERAND_TAG.MEMORY | 1);
+    expect(tagOf("word [EBX]")).toBe(OPERAND_TAG.MEMORY | 2);
+    expect(tagOf("DWORD [EBX]")).toBe(OPERAND_TAG.MEMORY | 4);
+    expect(tagOf("[EBX]")).toBe(OPERAND_TAG.MEMORY);
+  });
+
+  test("encodes branch targets as absolute addresses", () => {
+    const bytes = encodeInstruction(instr("JMP", ["loop"]), (label) =>
+      label === "loop" ? 0x1234 : undefined,
+    );
+    expect(bytes).toEqual([0xe9, 1, OPERAND_TAG.TARGET, 0x34, 0x12, 0, 0]);
+  });
+
+  test("keeps unresolved operands as symbols", () => {
+    const bytes = encodeInstruction(instr("JMP", ["nowhere"]), noTargets);
+    expect(bytes).toEqual([0xe9, 1, OPERAND_TAG.SYMBOL, 7, ...Buffer.from("nowhere")]);
+    const mem = encodeInstruction(instr("MOV", ["EAX", "[foo]"]), noTargets);
+    expect(mem.slice(3, 5)).toEqual([OPERAND_TAG.SYMBOL, 5]);
+  });
+
+  test("encodes REP prefixes before the repeated instruction", () => {
+    expect(encodeInstruction(instr("REP", ["STOSB"]), noTargets)).toEqual([0xf3, 0xaa, 0]);
+    expect(encodeInstruction(instr("REPNE", ["SCASW"]), noTargets)).toEqual([0xf2, 0x66, 0xaf, 0]);
+    expect(encodeInstruction(instr("MOVSD"), noTargets)).toEqual([0xa5, 0]);
+  });
+
+  test("encodes unknown mnemonics as UD2 with the mnemonic kept", () => {
+    const bytes = encodeInstruction(instr("FOO", ["EAX"]), noTargets);
+    expect(bytes).toEqual([
+      0x0f,
+      0x0b,
+      2,
+      OPERAND_TAG.SYMBOL,
+      3,
+      ...Buffer.from("FOO"),
+      OPERAND_TAG.REGISTER,
+    ]);
+  });
+});
+
+describe("assembleProgram", () => {
+  test("lays out instructions contiguously from the origin", () => {
+    const program = assembleProgram(
+      [instr("NOP", [], 1), instr("MOV", ["EAX", "1"], 2)],
+      new Map(),
+    );
+    expect(program.origin).toBe(0);
+    expect(program.instructions).toEqual([
+      { address: 0, length: 2, line: 1 },
+      { address: 2, length: 8, line: 2 },
+    ]);
+    expect(program.bytes.length).toBe(10);
+  });
+
+  test("resolves code labels to addresses relative to ORG", () => {
+    const program = assembleProgram(
+      [instr("NOP", [], 1), instr("JMP", ["start"], 2), instr("JMP", ["end"], 3)],
+      new Map([
+        ["start", 1],
+        ["end", 3],
+      ]),
+      0x100,
+    );
+    expect(program.instructions.map((i) => i.address)).toEqual([0x100, 0x102, 0x109]);
+    // JMP start -> address of instruction 1
+    expect(Array.from(program.bytes.slice(4, 7))).toEqual([OPERAND_TAG.TARGET, 0x02, 0x01]);
+    // JMP end -> address just past the last instruction
+    expect(Array.from(program.bytes.slice(11, 14))).toEqual([OPERAND_TAG.TARGET, 0x10, 0x01]);
+  });
+
+  test("labels outside the program are kept as symbols", () => {
+    const program = assembleProgram([instr("JMP", ["data"])], new Map([["data", 0x2000]]));
+    expect(program.bytes[2]).toBe(OPERAND_TAG.SYMBOL);
+    expect(program.instructions[0].length).toBe(program.bytes.length);
+  });
+});
+
+describe("Simulator program image", () => {
+  test("loadInstructions places encoded bytes in memory bank A", () => {
+    const sim = new Simulator();
+    sim.loadInstructions([instr("MOV", ["EAX", "5"]), instr("HLT")], new Map(), 0x40);
+    const program = sim.getAssembledProgram();
+    expect(program.origin).toBe(0x40);
+    expect(Array.from(sim.getMemoryA(0x40, program.bytes.length))).toEqual(
+      Array.from(program.bytes),
+    );
+    expect(sim.getMemoryA(0x40 + 8, 2)).toEqual(new Uint8Array([0xf4, 0]));
+  });
+
+  test("execution still follows the instruction list", () => {
+    const sim = new Simulator();
+    sim.loadInstructions([instr("MOV", ["EAX", "5"]), instr("HLT")], new Map());
+    sim.step();
+    expect(sim.getRegisters().EAX).toBe(5);
+  });
+
+  test("reset() restores the program image", () => {
+    const sim = new Simulator();
+    sim.loadInstructions([instr("NOP")], new Map());
+    sim.executeInstruction("MOV", ["[0]", "0"]);
+    sim.reset();
+    expect(sim.getMemoryA(0, 2)).toEqual(new Uint8Array([0x90, 0]));
+  });
+
+  test("loadProgram writes raw bytes at the given address", () => {
+    const sim = new Simulator();
+    sim.loadProgram(new Uint8Array([0x90, 0, 0xf4, 0]), 0x100);
+    expect(sim.getMemoryA(0x100, 4)).toEqual(new Uint8Array([0x90, 0, 0xf4, 0]));
+    expect(sim.getAssembledProgram().origin).toBe(0x100);
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * TonX86 Assembler - encodes parsed instructions into machine-code bytes
+ *
+ * Layout of one encoded instruction:
+ *   opcode (1-2 bytes) | [ModRM /digit] | operand count | operands...
+ *
+ * A REP prefix is a single byte followed by the encoded string instruction.
+ *
+ * Opcodes come from the ISA (see opcodes.ts). Operands use a compact tagged
+ * encoding instead of x86 ModRM/SIB so that TonX86-only forms (memory-to-memory
+ * MOV, I/O addresses written as immediates) remain representable:
+ *   0x1r               32-bit register r (EAX=0 ... EDI=7)
+ *   0x2r               8-bit register r (AL, CL, DL, BL, AH, CH, DH, BH)
+ *   0x30 imm32         immediate value
+ *   0x4z b i s disp32  memory [base + index*scale + disp], 0xFF = no register;
+ *                      z = operand size in bytes (1, 2 or 4; 0 = not specified)
+ *   0x5r               16-bit register r (AX, CX, DX, BX, SP, BP, SI, DI)
+ *   0x60 addr32        branch target (absolute code address)
+ *   0x70 len chars     unresolved symbol, kept verbatim
+ * Unknown mnemonics are emitted as UD2 (0x0F 0x0B) followed by the mnemonic
+ * as a symbol operand, so loading never fails and execution still reports them.
+ * Multi-byte values are little-endian.
+ */
+
+import type { Instruction } from "../types";
+import { REGISTER_MAP, REGISTER16_MAP, REGISTER8_MAP } from "../types";
+import { OPCODE_TABLE } from "./opcodes";
+import {
+  NO_REGISTER_INDEX,
+  parseMemoryExpression,
+  splitSizeSpecifier,
+  type MemoryReference,
+} from "../cpu/addressing";
+import type { OperandWidth } from "../types";
+
+export const OPERAND_TAG = {
+  REGISTER: 0x10,
+  REGISTER8: 0x20,
+  IMMEDIATE: 0x30,
+  MEMORY: 0x40,
+  REGISTER16: 0x50,
+  TARGET: 0x60,
+  SYMBOL: 0x70,
+} as const;
+
+/** Register slot value meaning "no register" in a memory operand */
+export const NO_REGISTER = 0xff;
+
+/** UD2 - the x86 "undefined instruction" opcode */
+export const UD2_OPCODE = [0x0f, 0x0b];
+
+/** Mnemonics whose operand is a code label rather than data */
+const BRANCH_MNEMONICS = new Set([
+  "JMP",
+  "JE",
+  "JZ",
+  "JNE",
+  "JNZ",
+  "JG",
+  "JGE",
+  "JL",
+  "JLE",
+  "JS",
+  "JNS",
+  "JA",
+  "JAE",
+  "JB",
+  "JBE",
+  "CALL",
+  "LOOP",
+  "LOOPE",
+  "LOOPZ",
+  "LOOPNE",
+  "LOOPNZ",
+]);
+
+/**
+ * Location of one instruction inside an assembled program
+ */
+export interface AssembledInstruction {
+  address: number;
+  length: number;
+  line: number;
+}
+
+/**
+ * Result of assembling a program
+ */
+export interface AssembledProgram {
+  origin: number;
+  bytes: Uint8Array;
+  instructions: AssembledInstruction[];
+  /** Code labels resolved to absolute addresses */
+  labels: Map<string, number>;
+}
+
+/** Resolves a branch label to its code address (undefined if unknown) */
+export type TargetResolver = (label: string) => number | undefined;
+
+function pushUint32(bytes: number[], value: number): void {
+  bytes.push(value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff);
+}
+
+function pushSymbol(bytes: number[], text: string): void {
+  const chars = text.slice(0, 0xff);
+  bytes.push(OPERAND_TAG.SYMBOL, chars.length);
+  for (let i = 0; i < chars.length; i++) {
+    bytes.push(chars.charCodeAt(i) & 0xff);
+  }
+}
+
+/**
+ * Parse a numeric literal the way the simulator does (hex, binary, decimal)
+ */
+function parseNumber(text: string): number | undefined {
+  if (/^0X[0-9A-F]+$/.test(text)) return parseInt(text.substring(2), 16);
+  if (/^0B[01]+$/.test(text)) return parseInt(text.substring(2), 2);
+  if (/^-?\d+$/.test(text)) return parseInt(text, 10);
+  return undefined;
+}
+
+function registerIndex(name: string): number | undefined {
+  return Object.prototype.hasOwnProperty.call(REGISTER_MAP, name) ? REGISTER_MAP[name] : undefined;
+}
+
+/**
+ * Encode the inside of a [...] memory expression, or return false if unsupported
+ * (labels are kept as symbols and resolved when the operand executes)
+ */
+function encodeMemory(bytes: number[], expr: string, size?: OperandWidth): boolean {
+  let ref: MemoryReference;
+  try {
+    ref = parseMemoryExpression(expr, () => undefined);
+  } catch {
+    return false;
+  }
+
+  const slot = (reg: number) => (reg === NO_REGISTER_INDEX ? NO_REGISTER : reg);
+  const sizeBytes = size === undefined ? 0 : size / 8;
+  bytes.push(OPERAND_TAG.MEMORY | sizeBytes, slot(ref.base), slot(ref.index), ref.scale);
+  pushUint32(bytes, ref.offset);
+  return true;
+}
+
+/**
+ * Encode a single operand string
+ */
+function encodeOperand(
+  bytes: number[],
+  operand: string,
+  isBranch: boolean,
+  resolveTarget: TargetResolver,
+): void {
+  const raw = operand.trim();
+
+  // Character literal keeps its case
+  if (raw.startsWith("'") && raw.endsWith("'") && raw.length === 3) {
+    bytes.push(OPERAND_TAG.IMMEDIATE);
+    pushUint32(bytes, raw.charCodeAt(1));
+    return;
+  }
+
+  if (isBranch) {
+    const target = resolveTarget(raw);
+    if (target !== undefined) {
+      bytes.push(OPERAND_TAG.TARGET);
+      pushUint32(bytes, target);
+      return;
+    }
+  }
+
+  let sized: ReturnType<typeof splitSizeSpecifier>;
+  try {
+    sized = splitSizeSpecifier(raw);
+  } catch {
+    pushSymbol(bytes, raw);
+    return;
+  }
+
+  const upper = sized.operand.toUpperCase();
+  if (upper.startsWith("[") && upper.endsWith("]")) {
+    if (!encodeMemory(bytes, upper.slice(1, -1).trim(), sized.size)) {
+      pushSymbol(bytes, raw);
+    }
+    return;
+  }
+
+  if (Object.prototype.hasOwnProperty.call(REGISTER16_MAP, upper)) {
+    bytes.push(OPERAND_TAG.REGISTER16 | REGISTER16_MAP[upper]);
+    return;
+  }
+
+  if (Object.prototype.hasOwnProperty.call(REGISTER8_MAP, upper)) {
+    const { reg, byteOffset } = REGISTER8_MAP[upper];
+    bytes.push(OPERAND_TAG.REGISTER8 | (reg + (byteOffset ? 4 : 0)));
+    return;
+  }
+
+  const reg = registerIndex(upper);
+  if (reg !== undefined) {
+    bytes.push(OPERAND_TAG.REGISTER | reg);
+    return;
+  }
+
+  const value = parseNumber(upper);
+  if (value !== undefined) {
+    bytes.push(OPERAND_TAG.IMMEDIATE);
+    pushUint32(bytes, value);
+    return;
+  }
+
+  pushSymbol(bytes, raw);
+}
+
+/**
+ * Encode one instruction into machine-code bytes
+ */
+export function encodeInstruction(instr: Instruction, resolveTarget: TargetResolver): number[] {
+  const bytes: number[] = [];
+  const mnemonic = instr.mnemonic.toUpperCase();
+  const info = OPCODE_TABLE[mnemonic];
+
+  if (info?.prefix && instr.operands.length > 0) {
+    const [inner, ...operands] = instr.operands;
+    const repeated = { ...instr, mnemonic: inner.trim(), operands };
+    return [...info.opcode, ...encodeInstruction(repeated, resolveTarget)];
+  }
+
+  if (info && !info.prefix) {
+    bytes.push(...info.opcode);
+    if (info.ext !== undefined) {
+      bytes.push(0xc0 | (info.ext << 3));
+    }
+    bytes.push(instr.operands.length);
+  } else {
+    bytes.push(...UD2_OPCODE, instr.operands.length + 1);
+    pushSymbol(bytes, instr.mnemonic);
+  }
+
+  const isBranch = BRANCH_MNEMONICS.has(mnemonic);
+  for (const operand of instr.operands) {
+    encodeOperand(bytes, operand, isBranch, resolveTarget);
+  }
+  return bytes;
+}
+
+/**
+ * Assemble a parsed program into a contiguous code image starting at `origin`.
+ * Code labels (instruction indices) become absolute addresses in the image.
+ */
+export function assembleProgram(
+  instructions: Instruction[],
+  labels: Map<string, number>,
+  origin: number = 0,
+): AssembledProgram {
+  const codeIndex = (label: string): number | undefined => {
+    const index = labels.get(label);
+    return index !== undefined && index >= 0 && index <= instructions.length ? index : undefined;
+  };
+
+  // Pass 1: instruction lengths (operand sizes do not depend on label values)
+  const knownLabel: TargetResolver = (label) => (codeIndex(label) === undefined ? undefined : 0);
+  const addresses: number[] = [];
+  let address = origin;
+  for (const instr of instructions) {
+    addresses.push(address);
+    address += encodeInstruction(instr, knownLabel).length;
+  }
+  addresses.push(address); // Labels may point just past the last instruction
+
+  // Pass 2: encode with resolved branch targets
+  const resolveTarget: TargetResolver = (label) => {
+    const index = codeIndex(label);
+    return index === undefined ? undefined : addresses[index];
+  };
+  const bytes: number[] = [];
+  const placed: AssembledInstruction[] = [];
+  for (let i = 0; i < instructions.length; i++) {
+    const encoded = encodeInstruction(instructions[i], resolveTarget);
+    placed.push({ address: addresses[i], length: encoded.length, line: instructions[i].line });
+    bytes.push(...encoded);
+  }
+
+  const codeLabels = new Map<string, number>();
+  for (const label of labels.keys()) {
+    const address = resolveTarget(label);
+    if (address !== undefined) codeLabels.set(label, address);
+  }
+
+  return { origin, bytes: Uint8Array.from(bytes), instructions: placed, labels: codeLabels };
+}
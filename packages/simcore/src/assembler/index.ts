@@ -0,0 +1,12 @@
+export { OPCODE_TABLE, type OpcodeInfo } from "./opcodes";
+export {
+  assembleProgram,
+  encodeInstruction,
+  OPERAND_TAG,
+  NO_REGISTER,
+  UD2_OPCODE,
+  type AssembledInstruction,
+  type AssembledProgram,
+  type TargetResolver,
+} from "./encoder";
+export { decodeInstruction, type ByteReader, type DecodedInstruction } from "./decoder";
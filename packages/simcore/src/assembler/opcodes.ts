@@ -0,0 +1,164 @@
+/**
+ * TonX86 opcode table - mirrors the `opcode` fields of packages/docs/isa.json.
+ *
+ * Several mnemonics share a primary opcode (e.g. NOT/NEG/MUL/DIV all use 0xF7).
+ * As on real x86, those are told apart by the `reg` field of a ModRM byte
+ * (the "/digit" opcode extension), which the encoder emits right after the
+ * opcode. Aliases (JE/JZ, LODSB/LODS, ...) share both opcode and extension.
+ * Word forms of string instructions start with the 0x66 operand-size prefix,
+ * and REP prefixes are followed by the encoding of the instruction they repeat.
+ */
+
+/** Operand-size prefix: selects the 16-bit form of the opcode that follows */
+export const OPERAND_SIZE_PREFIX = 0x66;
+
+export interface OpcodeInfo {
+  /** Opcode bytes (two-byte opcodes start with the 0x0F escape byte) */
+  opcode: number[];
+  /** ModRM reg-field extension (/digit) for grouped opcodes */
+  ext?: number;
+  /** Prefix whose operand is the instruction it applies to (REP STOSB) */
+  prefix?: boolean;
+}
+
+export const OPCODE_TABLE: Record<string, OpcodeInfo> = {
+  // ── Data movement ────────────────────────────────────────
+  MOV: { opcode: [0x89] },
+  XCHG: { opcode: [0x87] },
+  LEA: { opcode: [0x8d] },
+  MOVZX: { opcode: [0x0f, 0xb6] },
+  MOVSX: { opcode: [0x0f, 0xbe] },
+
+  // ── Arithmetic ───────────────────────────────────────────
+  ADD: { opcode: [0x01] },
+  SUB: { opcode: [0x29] },
+  CMP: { opcode: [0x39] },
+  INC: { opcode: [0xff], ext: 0 },
+  DEC: { opcode: [0xff], ext: 1 },
+  NOT: { opcode: [0xf7], ext: 2 },
+  NEG: { opcode: [0xf7], ext: 3 },
+  MUL: { opcode: [0xf7], ext: 4 },
+  IMUL: { opcode: [0xf7], ext: 5 },
+  DIV: { opcode: [0xf7], ext: 6 },
+  IDIV: { opcode: [0xf7], ext: 7 },
+  MOD: { opcode: [0xed] },
+
+  // ── Logical ──────────────────────────────────────────────
+  AND: { opcode: [0x21] },
+  OR: { opcode: [0x09] },
+  XOR: { opcode: [0x31] },
+  TEST: { opcode: [0x85] },
+
+  // ── Shift / Rotate ───────────────────────────────────────
+  ROL: { opcode: [0xc1], ext: 0 },
+  ROR: { opcode: [0xc1], ext: 1 },
+  SHL: { opcode: [0xc1], ext: 4 },
+  SHR: { opcode: [0xc1], ext: 5 },
+  SAR: { opcode: [0xc1], ext: 7 },
+  RCL: { opcode: [0xd1], ext: 2 },
+  RCR: { opcode: [0xd1], ext: 3 },
+
+  // ── Control flow ─────────────────────────────────────────
+  JMP: { opcode: [0xe9] },
+  JE: { opcode: [0x74] },
+  JZ: { opcode: [0x74] },
+  JNE: { opcode: [0x75] },
+  JNZ: { opcode: [0x75] },
+  JG: { opcode: [0x7f] },
+  JGE: { opcode: [0x7d] },
+  JL: { opcode: [0x7c] },
+  JLE: { opcode: [0x7e] },
+  JS: { opcode: [0x78] },
+  JNS: { opcode: [0x79] },
+  JA: { opcode: [0x77] },
+  JAE: { opcode: [0x73] },
+  JB: { opcode: [0x72] },
+  JBE: { opcode: [0x76] },
+  LOOP: { opcode: [0xe2] },
+  LOOPE: { opcode: [0xe1] },
+  LOOPZ: { opcode: [0xe1] },
+  LOOPNE: { opcode: [0xe0] },
+  LOOPNZ: { opcode: [0xe0] },
+  CALL: { opcode: [0xe8] },
+  RET: { opcode: [0xc3] },
+
+  // ── Conditional moves ────────────────────────────────────
+  CMOVE: { opcode: [0x0f, 0x44] },
+  CMOVZ: { opcode: [0x0f, 0x44] },
+  CMOVNE: { opcode: [0x0f, 0x45] },
+  CMOVNZ: { opcode: [0x0f, 0x45] },
+  CMOVL: { opcode: [0x0f, 0x4c] },
+  CMOVLE: { opcode: [0x0f, 0x4e] },
+  CMOVG: { opcode: [0x0f, 0x4f] },
+  CMOVGE: { opcode: [0x0f, 0x4d] },
+  CMOVA: { opcode: [0x0f, 0x47] },
+  CMOVAE: { opcode: [0x0f, 0x43] },
+  CMOVB: { opcode: [0x0f, 0x42] },
+  CMOVBE: { opcode: [0x0f, 0x46] },
+  CMOVS: { opcode: [0x0f, 0x48] },
+  CMOVNS: { opcode: [0x0f, 0x49] },
+
+  // ── Stack ────────────────────────────────────────────────
+  PUSH: { opcode: [0x50] },
+  POP: { opcode: [0x58] },
+  PUSHF: { opcode: [0x9c] },
+  POPF: { opcode: [0x9d] },
+  PUSHA: { opcode: [0x60] },
+  POPA: { opcode: [0x61] },
+  ENTER: { opcode: [0xc8] },
+  LEAVE: { opcode: [0xc9] },
+
+  // ── Bit operations ───────────────────────────────────────
+  LAHF: { opcode: [0x9f] },
+  SAHF: { opcode: [0x9e] },
+  CLC: { opcode: [0xf8] },
+  STC: { opcode: [0xf9] },
+  CMC: { opcode: [0xf5] },
+  XADD: { opcode: [0x0f, 0xc1] },
+  BSF: { opcode: [0x0f, 0xbc] },
+  BSR: { opcode: [0x0f, 0xbd] },
+  BSWAP: { opcode: [0x0f, 0xc8] },
+
+  // ── String operations ────────────────────────────────────
+  LODSB: { opcode: [0xac] },
+  LODS: { opcode: [0xac] },
+  STOSB: { opcode: [0xaa] },
+  STOS: { opcode: [0xaa] },
+  MOVSB: { opcode: [0xa4] },
+  MOVS: { opcode: [0xa4] },
+  SCASB: { opcode: [0xae] },
+  SCAS: { opcode: [0xae] },
+  CMPSB: { opcode: [0xa6] },
+  CMPS: { opcode: [0xa6] },
+  LODSW: { opcode: [0x66, 0xad] },
+  LODSD: { opcode: [0xad] },
+  STOSW: { opcode: [0x66, 0xab] },
+  STOSD: { opcode: [0xab] },
+  MOVSW: { opcode: [0x66, 0xa5] },
+  MOVSD: { opcode: [0xa5] },
+  SCASW: { opcode: [0x66, 0xaf] },
+  SCASD: { opcode: [0xaf] },
+  CMPSW: { opcode: [0x66, 0xa7] },
+  CMPSD: { opcode: [0xa7] },
+  CLD: { opcode: [0xfc] },
+  STD: { opcode: [0xfd] },
+
+  // ── Repeat prefixes ──────────────────────────────────────
+  REP: { opcode: [0xf3], prefix: true },
+  REPE: { opcode: [0xf3], prefix: true },
+  REPZ: { opcode: [0xf3], prefix: true },
+  REPNE: { opcode: [0xf2], prefix: true },
+  REPNZ: { opcode: [0xf2], prefix: true },
+
+  // ── Interrupts ───────────────────────────────────────────
+  INT: { opcode: [0xcd] },
+  INT3: { opcode: [0xcc] },
+  IRET: { opcode: [0xcf] },
+  STI: { opcode: [0xfb] },
+  CLI: { opcode: [0xfa] },
+
+  // ── Misc ─────────────────────────────────────────────────
+  NOP: { opcode: [0x90] },
+  HLT: { opcode: [0xf4] },
+  RAND: { opcode: [0xee] },
+};
@@ -5,9 +5,15 @@
  * for the simulator core.  Run with: npm run bench -w packages/simcore
  *
  * Output is machine-parseable (JSON lines) and human-readable.
+ *
+ * To measure a speed-up, save the results of one build and compare another
+ * build against them:
+ *   npm run bench -w packages/simcore -- --save before.json
+ *   npm run bench -w packages/simcore -- --compare before.json
  */
 
-import { Simulator } from "../index";
+import * as fs from "fs";
+import { Simulator, DEFAULT_HISTORY_DEPTH } from "../index";
 import type { Instruction } from "../types";
 
 // ── Helpers ───────────────────────────────────────────────────
@@ -44,6 +50,25 @@ interface BenchResult {
   iterations: number;
 }
 
+/**
+ * Execute `steps` instructions, reloading the program whenever it halts
+ */
+function runSteps(
+  sim: Simulator,
+  instructions: Instruction[],
+  labels: Map<string, number>,
+  steps: number,
+): void {
+  let remaining = steps;
+  while (remaining > 0) {
+    const result = sim.run({ maxSteps: remaining });
+    remaining -= result.steps;
+    if (result.reason === "halted") {
+      sim.loadInstructions(instructions, labels);
+    }
+  }
+}
+
 function bench(
   name: string,
   setup: () => { sim: Simulator; instructions: Instruction[]; labels: Map<string, number> },
@@ -54,12 +79,7 @@ function bench(
 
   // Warm-up
   const warmup = Math.max(10, Math.floor(stepsPerIteration * 0.1));
-  for (let w = 0; w < warmup; w++) {
-    sim.step();
-    if (sim.getState().halted) {
-      sim.loadInstructions(instructions, labels);
-    }
-  }
+  runSteps(sim, instructions, labels, warmup);
   sim.loadInstructions(instructions, labels);
 
   let iterations = 0;
@@ -67,12 +87,7 @@ function bench(
   let elapsed = 0;
 
   while (elapsed < minTimeMs) {
-    for (let s = 0; s < stepsPerIteration; s++) {
-      sim.step();
-      if (sim.getState().halted) {
-        sim.loadInstructions(instructions, labels);
-      }
-    }
+    runSteps(sim, instructions, labels, stepsPerIteration);
     iterations += stepsPerIteration;
     elapsed = performance.now() - start;
   }
@@ -204,6 +219,32 @@ function callRetBench(): BenchResult {
   );
 }
 
+function steadyLoopBench(): BenchResult {
+  // Runs for billions of steps, so the program is never reloaded and the
+  // step-back history (on, as in the debugger) stays full: this is the cost
+  // of a long-running program being debugged
+  const { instructions, labels } = makeInstructions([
+    ["MOV", "ECX", "0x7FFFFFFF"],
+    ["loop:"],
+    ["ADD", "EAX", "ECX"],
+    ["MOV", "[0x100]", "EAX"],
+    ["XOR", "EBX", "[0x100]"],
+    ["DEC", "ECX"],
+    ["JNZ", "loop"],
+    ["HLT"],
+  ]);
+  return bench(
+    "steady loop (no reloads, full history)",
+    () => {
+      const sim = new Simulator();
+      sim.setHistoryDepth(DEFAULT_HISTORY_DEPTH);
+      sim.loadInstructions(instructions, labels);
+      return { sim, instructions, labels };
+    },
+    1000,
+  );
+}
+
 function lcdWriteBench(): BenchResult {
   const { instructions, labels } = makeInstructions([
     ["MOV", "EAX", "1"],
@@ -237,8 +278,28 @@ const benchmarks = [
   bitwiseBench,
   callRetBench,
   lcdWriteBench,
+  steadyLoopBench,
 ];
 
+function argValue(flag: string): string | undefined {
+  const index = process.argv.indexOf(flag);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const savePath = argValue("--save");
+const comparePath = argValue("--compare");
+const baseline = new Map<string, BenchResult>();
+if (comparePath) {
+  const saved = JSON.parse(fs.readFileSync(comparePath, "utf8")) as BenchResult[];
+  for (const result of saved) {
+    baseline.set(result.name, result);
+  }
+}
+
+function speedup(current: number, before: number | undefined): string {
+  return before === undefined ? "" : `  ${(current / before).toFixed(2)}x`;
+}
+
 console.log("TonX86 Simcore Benchmarks");
 console.log("=".repeat(72));
 console.log("");
@@ -250,7 +311,8 @@ for (const fn of benchmarks) {
   results.push(result);
   const mops = (result.opsPerSec / 1_000_000).toFixed(2);
   console.log(
-    `  ${result.name.padEnd(44)} ${mops.padStart(8)} Mops/s  ${result.avgNs.toFixed(0).padStart(6)} ns/op`,
+    `  ${result.name.padEnd(44)} ${mops.padStart(8)} Mops/s  ${result.avgNs.toFixed(0).padStart(6)} ns/op` +
+      speedup(result.opsPerSec, baseline.get(result.name)?.opsPerSec),
   );
 }
 
@@ -262,8 +324,22 @@ const totalMs = results.reduce((s, r) => s + r.totalMs, 0);
 const overallMops = ((totalOps / totalMs) * 1000) / 1_000_000;
 
 console.log(`  OVERALL: ${overallMops.toFixed(2)} Mops/s across ${results.length} benchmarks`);
+
+// Speed-up over the saved run, for the benchmarks both runs have
+const compared = results.filter((r) => baseline.has(r.name));
+if (compared.length > 0) {
+  const geomean = Math.exp(
+    compared.reduce((s, r) => s + Math.log(r.opsPerSec / baseline.get(r.name)!.opsPerSec), 0) /
+      compared.length,
+  );
+  console.log(`  SPEED-UP: ${geomean.toFixed(2)}x (geometric mean) vs ${comparePath}`);
+}
 console.log("");
 
+if (savePath) {
+  fs.writeFileSync(savePath, JSON.stringify(results, null, 2));
+}
+
 // JSON output for CI/tooling
 console.log("--- JSON ---");
 console.log(JSON.stringify(results, null, 2));
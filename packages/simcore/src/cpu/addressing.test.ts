@@ -0,0 +1,102 @@
+import {
+  NO_REGISTER_INDEX,
+  splitSizeSpecifier,
+  parseMemoryExpression,
+  computeEffectiveAddress,
+  computeMemoryAddress,
+} from "./addressing";
+
+const noSymbols = () => undefined;
+
+describe("parseMemoryExpression", () => {
+  test("parses base, index, scale and displacement", () => {
+    expect(parseMemoryExpression("EBX + ESI*4 + 8", noSymbols)).toEqual({
+      base: 3,
+      index: 6,
+      scale: 4,
+      offset: 8,
+    });
+  });
+
+  test("accepts the scale on either side and terms in any order", () => {
+    expect(parseMemoryExpression("16+4*edi", noSymbols)).toEqual({
+      base: NO_REGISTER_INDEX,
+      index: 7,
+      scale: 4,
+      offset: 16,
+    });
+  });
+
+  test("a second unscaled register is the index", () => {
+    expect(parseMemoryExpression("EBX+ECX", noSymbols)).toMatchObject({
+      base: 3,
+      index: 1,
+      scale: 1,
+    });
+  });
+
+  test("sums numbers and labels into a negative or positive displacement", () => {
+    const symbols = (name: string) => (name === "table" ? 0x2000 : undefined);
+    expect(parseMemoryExpression("table + ESI*4 - 0x10", symbols)).toMatchObject({
+      base: NO_REGISTER_INDEX,
+      index: 6,
+      offset: 0x1ff0,
+    });
+    expect(parseMemoryExpression("EBP-8", noSymbols)).toMatchObject({ base: 5, offset: -8 });
+  });
+
+  test("rejects malformed expressions", () => {
+    expect(() => parseMemoryExpression("ESI*3", noSymbols)).toThrow("scale must be 1, 2, 4 or 8");
+    expect(() => parseMemoryExpression("EBX-ESI", noSymbols)).toThrow("cannot be subtracted");
+    expect(() => parseMemoryExpression("EAX+EBX+ECX", noSymbols)).toThrow("at most a base");
+    expect(() => parseMemoryExpression("EAX*2+EBX*2", noSymbols)).toThrow("one index register");
+    expect(() => parseMemoryExpression("missing+4", noSymbols)).toThrow("unknown symbol 'missing'");
+    expect(() => parseMemoryExpression("EAX++4", noSymbols)).toThrow("Invalid memory operand");
+  });
+});
+
+describe("splitSizeSpecifier", () => {
+  test("splits BYTE, WORD and DWORD with or without PTR", () => {
+    expect(splitSizeSpecifier("BYTE PTR [EBX]")).toEqual({ size: 8, operand: "[EBX]" });
+    expect(splitSizeSpecifier("word [ESI + 2]")).toEqual({ size: 16, operand: "[ESI + 2]" });
+    expect(splitSizeSpecifier("DWORD[0x2000]")).toEqual({ size: 32, operand: "[0x2000]" });
+  });
+
+  test("leaves other operands unchanged", () => {
+    expect(splitSizeSpecifier(" [EBX] ")).toEqual({ operand: "[EBX]" });
+    expect(splitSizeSpecifier("EAX")).toEqual({ operand: "EAX" });
+    expect(splitSizeSpecifier("BYTES")).toEqual({ operand: "BYTES" });
+  });
+
+  test("requires a memory operand after the specifier", () => {
+    expect(() => splitSizeSpecifier("BYTE PTR EAX")).toThrow(
+      "Size specifier BYTE must be followed by a memory operand",
+    );
+  });
+});
+
+describe("computeEffectiveAddress", () => {
+  const registers = Uint32Array.from([0, 0, 0, 0x100, 0, 0xfff0, 3, 0]);
+
+  test("adds base, scaled index and displacement", () => {
+    expect(computeEffectiveAddress(registers, { base: 3, index: 6, scale: 4, offset: 2 })).toBe(
+      0x10e,
+    );
+  });
+
+  test("register-relative memory addresses wrap within 64KB", () => {
+    const ref = { base: 5, index: NO_REGISTER_INDEX, scale: 1, offset: 0x20 };
+    expect(computeEffectiveAddress(registers, ref)).toBe(0x10010);
+    expect(computeMemoryAddress(registers, ref)).toBe(0x0010);
+  });
+
+  test("register-relative addresses reach the text display", () => {
+    const ref = { base: 5, index: NO_REGISTER_INDEX, scale: 1, offset: 0x1050 };
+    expect(computeMemoryAddress(registers, ref)).toBe(0x11040);
+  });
+
+  test("absolute addresses are not wrapped", () => {
+    const ref = { base: NO_REGISTER_INDEX, index: NO_REGISTER_INDEX, scale: 1, offset: 0x10100 };
+    expect(computeMemoryAddress(registers, ref)).toBe(0x10100);
+  });
+});
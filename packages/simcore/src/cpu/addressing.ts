@@ -0,0 +1,175 @@
+/**
+ * TonX86 effective addressing - memory operands of the form
+ * [base + index*scale + displacement], optionally preceded by a size
+ * specifier (BYTE, WORD or DWORD, with or without PTR).
+ *
+ * The expression is split into terms joined by + and -. A term is a 32-bit
+ * register, a register scaled by 1, 2, 4 or 8 (ESI*4 or 4*ESI), a number, or
+ * a label. The first unscaled register is the base, the second the index.
+ * Numbers and labels add up to the displacement; registers are only read when
+ * the address is computed, at execution time.
+ */
+
+import { REGISTER_MAP, type OperandWidth } from "../types";
+import { TEXT_BASE, TEXT_IO_SIZE } from "../devices/text";
+
+/** Register slot meaning "no register" */
+export const NO_REGISTER_INDEX = -1;
+
+/** Scale factors accepted for the index register */
+const VALID_SCALES = [1, 2, 4, 8];
+
+/**
+ * Decoded [base + index*scale + displacement] expression
+ */
+export interface MemoryReference {
+  base: number; // Register index or NO_REGISTER_INDEX
+  index: number; // Register index or NO_REGISTER_INDEX
+  scale: number;
+  offset: number; // Displacement
+}
+
+/** Operand sizes named by BYTE, WORD and DWORD */
+export const SIZE_SPECIFIERS: { [key: string]: OperandWidth } = {
+  BYTE: 8,
+  WORD: 16,
+  DWORD: 32,
+};
+
+/** Resolves a label used inside a memory operand to an address */
+export type SymbolResolver = (name: string) => number | undefined;
+
+function registerIndex(name: string): number | undefined {
+  const upper = name.toUpperCase();
+  return Object.prototype.hasOwnProperty.call(REGISTER_MAP, upper)
+    ? REGISTER_MAP[upper]
+    : undefined;
+}
+
+function parseNumber(text: string): number | undefined {
+  if (/^0x[0-9a-f]+$/i.test(text)) return parseInt(text.substring(2), 16);
+  if (/^0b[01]+$/i.test(text)) return parseInt(text.substring(2), 2);
+  if (/^\d+$/.test(text)) return parseInt(text, 10);
+  return undefined;
+}
+
+function invalidOperand(expr: string, reason: string): Error {
+  return new Error(`Invalid memory operand [${expr}]: ${reason}`);
+}
+
+/**
+ * Split a size specifier off an operand: "BYTE PTR [EBX]" gives size 8 and
+ * "[EBX]". Operands without a specifier are returned unchanged. Throws if a
+ * specifier is not followed by a memory operand.
+ */
+export function splitSizeSpecifier(operand: string): { size?: OperandWidth; operand: string } {
+  const trimmed = operand.trim();
+  const match = /^(BYTE|WORD|DWORD)(?:\s+PTR)?(?=\s|\[)\s*(.*)$/i.exec(trimmed);
+  if (!match) {
+    return { operand: trimmed };
+  }
+
+  const keyword = match[1].toUpperCase();
+  const rest = match[2];
+  if (!rest.startsWith("[") || !rest.endsWith("]")) {
+    throw new Error(`Size specifier ${keyword} must be followed by a memory operand: ${trimmed}`);
+  }
+  return { size: SIZE_SPECIFIERS[keyword], operand: rest };
+}
+
+/**
+ * Parse the inside of a [...] memory operand. Throws if the expression is malformed
+ * or uses a label that `resolveSymbol` does not know.
+ */
+export function parseMemoryExpression(
+  expr: string,
+  resolveSymbol: SymbolResolver,
+): MemoryReference {
+  const ref: MemoryReference = {
+    base: NO_REGISTER_INDEX,
+    index: NO_REGISTER_INDEX,
+    scale: 1,
+    offset: 0,
+  };
+
+  const compact = expr.replace(/\s+/g, "");
+  if (!/^[+-]?[^+-]+([+-][^+-]+)*$/.test(compact)) {
+    throw invalidOperand(expr, "expected base + index*scale + displacement");
+  }
+
+  for (const [, sign, term] of compact.matchAll(/([+-]?)([^+-]+)/g)) {
+    const negative = sign === "-";
+    const factors = term.split("*");
+    const reg =
+      registerIndex(factors[0]) ?? (factors.length === 2 ? registerIndex(factors[1]) : undefined);
+
+    if (reg !== undefined && negative) {
+      throw invalidOperand(expr, "registers cannot be subtracted");
+    }
+
+    if (factors.length > 1) {
+      const scale = parseNumber(registerIndex(factors[0]) === undefined ? factors[0] : factors[1]);
+      if (factors.length !== 2 || reg === undefined || scale === undefined) {
+        throw invalidOperand(expr, `'${term}' must be a register times 1, 2, 4 or 8`);
+      }
+      if (!VALID_SCALES.includes(scale)) {
+        throw invalidOperand(expr, `scale must be 1, 2, 4 or 8, not ${scale}`);
+      }
+      if (ref.index !== NO_REGISTER_INDEX) {
+        throw invalidOperand(expr, "only one index register is allowed");
+      }
+      ref.index = reg;
+      ref.scale = scale;
+    } else if (reg !== undefined) {
+      if (ref.base === NO_REGISTER_INDEX) {
+        ref.base = reg;
+      } else if (ref.index === NO_REGISTER_INDEX) {
+        ref.index = reg;
+      } else {
+        throw invalidOperand(expr, "at most a base and an index register are allowed");
+      }
+    } else {
+      const value = parseNumber(term) ?? resolveSymbol(term);
+      if (value === undefined) {
+        throw invalidOperand(expr, `unknown symbol '${term}'`);
+      }
+      ref.offset += negative ? -value : value;
+    }
+  }
+
+  ref.offset |= 0;
+  return ref;
+}
+
+/**
+ * base + index*scale + displacement as a 32-bit value (the result of LEA)
+ */
+export function computeEffectiveAddress(
+  registers: ArrayLike<number>,
+  ref: Partial<MemoryReference>,
+): number {
+  const base = ref.base ?? NO_REGISTER_INDEX;
+  const index = ref.index ?? NO_REGISTER_INDEX;
+  let address = ref.offset ?? 0;
+  if (base !== NO_REGISTER_INDEX) address += registers[base];
+  if (index !== NO_REGISTER_INDEX) address += registers[index] * (ref.scale ?? 1);
+  return address >>> 0;
+}
+
+/**
+ * Address accessed by a memory operand. Register-relative addresses wrap
+ * within the 64KB memory bank, except inside the text display so that its
+ * cells can be indexed; absolute addresses are used as written so they can
+ * reach the memory-mapped I/O range above 0xFFFF.
+ */
+export function computeMemoryAddress(
+  registers: ArrayLike<number>,
+  ref: Partial<MemoryReference>,
+): number {
+  const address = computeEffectiveAddress(registers, ref);
+  const usesRegister =
+    (ref.base ?? NO_REGISTER_INDEX) !== NO_REGISTER_INDEX ||
+    (ref.index ?? NO_REGISTER_INDEX) !== NO_REGISTER_INDEX;
+  const inTextDisplay = address >= TEXT_BASE && address < TEXT_BASE + TEXT_IO_SIZE;
+  return usesRegister && !inTextDisplay ? address & 0xffff : address;
+}
@@ -0,0 +1,23 @@
+import { SimulatorException, EXCEPTION_VECTORS } from "./exceptions";
+
+describe("SimulatorException", () => {
+  test("carries the vector and mnemonic of its exception type", () => {
+    const exception = new SimulatorException("GP", "Unknown I/O address: 0x10207");
+    expect(exception).toBeInstanceOf(Error);
+    expect(exception.name).toBe("SimulatorException");
+    expect(exception.vector).toBe(13);
+    expect(exception.mnemonic).toBe("#GP");
+    expect(exception.detail).toBe("Unknown I/O address: 0x10207");
+    expect(exception.message).toBe("#GP General protection fault: Unknown I/O address: 0x10207");
+  });
+
+  test("has no location until Simulator.step() raises it", () => {
+    const exception = new SimulatorException("DE", "Division by zero");
+    expect(exception.eip).toBe(-1);
+    expect(exception.line).toBe(0);
+  });
+
+  test("uses the x86 exception vectors", () => {
+    expect(EXCEPTION_VECTORS).toEqual({ DE: 0, BP: 3, UD: 6, DF: 8, SS: 12, GP: 13 });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * TonX86 CPU exceptions.
+ *
+ * Faults detected while an instruction executes are raised as
+ * SimulatorException objects rather than plain Errors. Each exception has an
+ * x86 vector; Simulator.step() transfers control to the IDT handler for that
+ * vector if the program installed one, and otherwise stops and rethrows the
+ * exception with the EIP and source line of the faulting instruction.
+ */
+
+/** Exception mnemonics, without the leading # */
+export type ExceptionType = "DE" | "BP" | "UD" | "DF" | "SS" | "GP";
+
+/** Interrupt vector of each exception */
+export const EXCEPTION_VECTORS: { [type in ExceptionType]: number } = {
+  DE: 0, // Divide error
+  BP: 3, // Breakpoint (INT3)
+  UD: 6, // Invalid opcode or operand
+  DF: 8, // Double fault (never delivered through the IDT)
+  SS: 12, // Stack-segment fault
+  GP: 13, // General protection (unknown I/O address, bad jump target)
+};
+
+/** Human-readable exception names */
+export const EXCEPTION_NAMES: { [type in ExceptionType]: string } = {
+  DE: "Divide error",
+  BP: "Breakpoint",
+  UD: "Invalid opcode",
+  DF: "Double fault",
+  SS: "Stack fault",
+  GP: "General protection fault",
+};
+
+/**
+ * A CPU exception raised by an instruction. `eip` and `line` are filled in by
+ * Simulator.step() and stay -1 and 0 for instructions run through
+ * executeInstruction() directly.
+ */
+export class SimulatorException extends Error {
+  readonly type: ExceptionType;
+  readonly vector: number;
+  readonly detail: string; // What went wrong, without the exception mnemonic
+  eip: number = -1; // Address (memory mode) or index of the faulting instruction
+  line: number = 0; // Source line of the faulting instruction
+  original?: SimulatorException; // For #DF, the exception whose delivery faulted
+
+  constructor(type: ExceptionType, detail: string) {
+    super(`#${type} ${EXCEPTION_NAMES[type]}: ${detail}`);
+    this.name = "SimulatorException";
+    this.type = type;
+    this.vector = EXCEPTION_VECTORS[type];
+    this.detail = detail;
+  }
+
+  /** Exception mnemonic, e.g. "#DE" */
+  get mnemonic(): string {
+    return `#${this.type}`;
+  }
+}
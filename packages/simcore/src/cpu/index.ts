@@ -1,3 +1,28 @@
+export {
+  DEFAULT_CYCLES,
+  MEMORY_OPERAND_CYCLES,
+  TAKEN_BRANCH_CYCLES,
+  CYCLE_TABLE,
+  getBaseCycles,
+  getInstructionCycles,
+} from "./timing";
+export {
+  NO_REGISTER_INDEX,
+  SIZE_SPECIFIERS,
+  splitSizeSpecifier,
+  parseMemoryExpression,
+  computeEffectiveAddress,
+  computeMemoryAddress,
+  type MemoryReference,
+  type SymbolResolver,
+} from "./addressing";
+export {
+  EXCEPTION_VECTORS,
+  EXCEPTION_NAMES,
+  SimulatorException,
+  type ExceptionType,
+} from "./exceptions";
+
 /**
  * TonX86 CPU State - single-threaded execution
  */
@@ -7,6 +32,8 @@ export class CPUState {
   flags: number = 0;
   running: boolean = false;
   halted: boolean = false;
+  exitCode: number | null = null; // Code passed to INT 21h AH=4Ch (null until then)
+  cycles: number = 0; // Clock cycles elapsed since reset
   breakpoints: Set<number> = new Set();
 
   reset(): void {
@@ -16,6 +43,8 @@ export class CPUState {
     this.flags = 0;
     this.running = false;
     this.halted = false;
+    this.exitCode = null;
+    this.cycles = 0;
   }
 
   addBreakpoint(address: number): void {
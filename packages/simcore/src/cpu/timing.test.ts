@@ -0,0 +1,51 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  CYCLE_TABLE,
+  DEFAULT_CYCLES,
+  MEMORY_OPERAND_CYCLES,
+  TAKEN_BRANCH_CYCLES,
+  getBaseCycles,
+  getInstructionCycles,
+} from "./timing";
+
+describe("CYCLE_TABLE", () => {
+  test("matches the cycle counts documented in isa.json", () => {
+    const isaPath = path.join(__dirname, "../../../docs/isa.json");
+    const isa = JSON.parse(fs.readFileSync(isaPath, "utf-8")) as {
+      instructions: Array<{ mnemonic: string; cycles: number }>;
+    };
+
+    for (const entry of isa.instructions) {
+      expect(getBaseCycles(entry.mnemonic)).toBe(entry.cycles);
+    }
+  });
+
+  test("only lists instructions that differ from the default", () => {
+    for (const cycles of Object.values(CYCLE_TABLE)) {
+      expect(cycles).not.toBe(DEFAULT_CYCLES);
+    }
+  });
+});
+
+describe("getInstructionCycles", () => {
+  test("register-only instruction costs its base cycles", () => {
+    expect(getInstructionCycles("ADD", ["EAX", "EBX"], false)).toBe(1);
+    expect(getInstructionCycles("call", ["func"], false)).toBe(2);
+  });
+
+  test("adds a penalty per memory operand", () => {
+    expect(getInstructionCycles("MOV", ["EAX", "[EBX]"], false)).toBe(1 + MEMORY_OPERAND_CYCLES);
+    expect(getInstructionCycles("MOV", ["[0x2000]", " [EBX+4]"], false)).toBe(
+      1 + 2 * MEMORY_OPERAND_CYCLES,
+    );
+    expect(getInstructionCycles("INC", ["BYTE PTR [EBX]"], false)).toBe(
+      getBaseCycles("INC") + MEMORY_OPERAND_CYCLES,
+    );
+  });
+
+  test("adds a penalty for taken branches", () => {
+    expect(getInstructionCycles("JE", ["done"], true)).toBe(1 + TAKEN_BRANCH_CYCLES);
+    expect(getInstructionCycles("JE", ["done"], false)).toBe(1);
+  });
+});
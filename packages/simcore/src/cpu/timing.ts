@@ -0,0 +1,54 @@
+/**
+ * TonX86 timing model - cycle costs per instruction.
+ *
+ * Base costs mirror the `cycles` fields of packages/docs/isa.json; every
+ * instruction not listed in CYCLE_TABLE takes DEFAULT_CYCLES. On top of the
+ * base cost, each memory operand and each taken branch adds a penalty.
+ */
+
+/** Base cost of an instruction not listed in CYCLE_TABLE */
+export const DEFAULT_CYCLES = 1;
+
+/** Extra cycles for every explicit [memory] operand, sized or not */
+export const MEMORY_OPERAND_CYCLES = 2;
+
+/** Extra cycles when control transfers somewhere other than the next instruction */
+export const TAKEN_BRANCH_CYCLES = 2;
+
+/** Instructions whose base cost differs from DEFAULT_CYCLES */
+export const CYCLE_TABLE: Record<string, number> = {
+  CALL: 2,
+  RET: 2,
+  INT: 2,
+  IRET: 2,
+  PUSHA: 2,
+  POPA: 2,
+  ENTER: 2,
+};
+
+/**
+ * Base cycle cost of a mnemonic as documented in the ISA
+ */
+export function getBaseCycles(mnemonic: string): number {
+  return CYCLE_TABLE[mnemonic.toUpperCase()] ?? DEFAULT_CYCLES;
+}
+
+/**
+ * Cycle cost of one executed instruction
+ */
+export function getInstructionCycles(
+  mnemonic: string,
+  operands: string[],
+  branchTaken: boolean,
+): number {
+  let cycles = getBaseCycles(mnemonic);
+  for (const operand of operands) {
+    if (operand.trim().endsWith("]")) {
+      cycles += MEMORY_OPERAND_CYCLES;
+    }
+  }
+  if (branchTaken) {
+    cycles += TAKEN_BRANCH_CYCLES;
+  }
+  return cycles;
+}
@@ -0,0 +1,97 @@
+import { renderAudio, encodeWav, getAudioEndTime, MAX_AUDIO_RENDER_MS } from "./audio-render";
+import type { AudioEvent } from "./audio";
+
+const RATE = 8000;
+
+function note(overrides: Partial<AudioEvent> = {}): AudioEvent {
+  return {
+    channel: 0,
+    time: 0,
+    frequency: 1000,
+    duration: 10,
+    waveform: "square",
+    volume: 1,
+    envelope: { attack: 0, decay: 0, sustain: 1, release: 0 },
+    ...overrides,
+  };
+}
+
+describe("renderAudio", () => {
+  test("renders until the last note ends", () => {
+    expect(renderAudio([], RATE)).toHaveLength(0);
+    expect(renderAudio([note(), note({ time: 5, duration: 20 })], RATE)).toHaveLength(200);
+  });
+
+  test("a square wave alternates between full volume levels", () => {
+    const samples = renderAudio([note({ volume: 0.5 })], RATE);
+    // 8 samples per period at 1 kHz
+    expect(Array.from(samples.slice(0, 8))).toEqual([0.5, 0.5, 0.5, 0.5, -0.5, -0.5, -0.5, -0.5]);
+  });
+
+  test.each([
+    ["sine", [0, Math.SQRT1_2, 1, Math.SQRT1_2]],
+    ["triangle", [-1, -0.5, 0, 0.5]],
+    ["sawtooth", [-1, -0.75, -0.5, -0.25]],
+  ] as const)("renders %s waves", (waveform, expected) => {
+    const samples = renderAudio([note({ waveform })], RATE);
+    expected.forEach((value, i) => expect(samples[i]).toBeCloseTo(value, 5));
+  });
+
+  test("noise is deterministic and uses both levels", () => {
+    const first = renderAudio([note({ waveform: "noise", duration: 50 })], RATE);
+    const second = renderAudio([note({ waveform: "noise", duration: 50 })], RATE);
+    expect(first).toEqual(second);
+    expect(new Set(first)).toEqual(new Set([1, -1]));
+  });
+
+  test("the envelope shapes the volume and the release follows the note", () => {
+    const envelope = { attack: 2, decay: 2, sustain: 0.5, release: 4 };
+    const samples = renderAudio([note({ frequency: 1, duration: 8, envelope })], RATE);
+    expect(samples).toHaveLength(96); // 8 ms note and 4 ms release
+    expect(samples[8]).toBeCloseTo(0.5); // Halfway through the attack
+    expect(samples[16]).toBeCloseTo(1); // Attack done
+    expect(samples[40]).toBeCloseTo(0.5); // Sustain
+    expect(samples[80]).toBeCloseTo(0.25); // Halfway through the release
+  });
+
+  test("channels are mixed and clipped", () => {
+    const quiet = note({ volume: 0.25 });
+    const mixed = renderAudio([quiet, { ...quiet, channel: 1 }], RATE);
+    expect(mixed[0]).toBeCloseTo(0.5);
+    const loud = renderAudio([note(), note({ channel: 1 })], RATE);
+    expect(loud[0]).toBe(1);
+  });
+
+  test("silent notes add nothing", () => {
+    const samples = renderAudio([note({ frequency: 0 })], RATE);
+    expect(samples.every((sample) => sample === 0)).toBe(true);
+  });
+  test("stops at the maximum length, however late the last note is", () => {
+    const events = [note(), note({ time: 1e12, duration: 1e12 })];
+    expect(getAudioEndTime(events)).toBe(2e12);
+    const samples = renderAudio(events, 100);
+    expect(samples).toHaveLength((MAX_AUDIO_RENDER_MS * 100) / 1000);
+    expect(samples[0]).toBe(1);
+    expect(samples[samples.length - 1]).toBe(0);
+  });
+});
+
+describe("encodeWav", () => {
+  test("writes a 16-bit mono PCM file", () => {
+    const bytes = encodeWav([0, 1, -1], RATE);
+    const view = new DataView(bytes.buffer);
+    const tag = (offset: number) => String.fromCharCode(...bytes.slice(offset, offset + 4));
+
+    expect(bytes).toHaveLength(50);
+    expect([tag(0), tag(8), tag(12), tag(36)]).toEqual(["RIFF", "WAVE", "fmt ", "data"]);
+    expect(view.getUint32(4, true)).toBe(42);
+    expect(view.getUint16(20, true)).toBe(1); // PCM
+    expect(view.getUint16(22, true)).toBe(1); // Mono
+    expect(view.getUint32(24, true)).toBe(RATE);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(view.getUint32(40, true)).toBe(6);
+    expect([view.getInt16(44, true), view.getInt16(46, true), view.getInt16(48, true)]).toEqual([
+      0, 32767, -32767,
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * TonX86 audio renderer - turns the audio events of a run into samples
+ *
+ * Each event is synthesized from its waveform, volume and envelope at its
+ * start time; notes on different channels are added together and the mix is
+ * clipped to -1.0..1.0. The result can be encoded as a 16-bit mono WAV file,
+ * so a program's output can be checked or listened to without a sound device.
+ */
+
+import type { AudioEnvelope, AudioEvent, AudioWaveform } from "./audio";
+
+/** Sample rate used when none is given (CD quality) */
+const DEFAULT_AUDIO_SAMPLE_RATE = 44100;
+
+/**
+ * Longest audio renderAudio() produces, in milliseconds (ten minutes); notes
+ * after it are cut off so a long-running program cannot exhaust memory
+ */
+export const MAX_AUDIO_RENDER_MS = 10 * 60 * 1000;
+
+/** Size of the RIFF/WAVE header written by encodeWav() */
+const WAV_HEADER_SIZE = 44;
+
+/**
+ * Level of the envelope `ms` milliseconds after the note started, 0.0-1.0
+ */
+function envelopeLevel(envelope: AudioEnvelope, duration: number, ms: number): number {
+  if (ms >= duration) {
+    const releaseLevel = envelopeLevel(envelope, Infinity, duration);
+    if (ms >= duration + envelope.release) {
+      return 0;
+    }
+    return releaseLevel * (1 - (ms - duration) / envelope.release);
+  }
+  if (ms < envelope.attack) {
+    return ms / envelope.attack;
+  }
+  if (ms < envelope.attack + envelope.decay) {
+    return 1 - ((1 - envelope.sustain) * (ms - envelope.attack)) / envelope.decay;
+  }
+  return envelope.sustain;
+}
+
+/**
+ * Value of a waveform at `phase` (0.0-1.0 through the period). Noise takes
+ * the current output bit of its shift register instead.
+ */
+function waveformSample(waveform: AudioWaveform, phase: number, noiseBit: number): number {
+  switch (waveform) {
+    case "sine":
+      return Math.sin(2 * Math.PI * phase);
+    case "triangle":
+      return 1 - 4 * Math.abs(phase - 0.5);
+    case "sawtooth":
+      return 2 * phase - 1;
+    case "noise":
+      return noiseBit ? 1 : -1;
+    default:
+      return phase < 0.5 ? 1 : -1;
+  }
+}
+
+/**
+ * Add one note to the mix
+ */
+function renderEvent(event: AudioEvent, samples: Float32Array, sampleRate: number): void {
+  if (event.frequency === 0 || event.volume === 0) {
+    return;
+  }
+  const start = Math.round((event.time * sampleRate) / 1000);
+  const length = Math.round(((event.duration + event.envelope.release) * sampleRate) / 1000);
+  const end = Math.min(start + length, samples.length);
+  let phase = 0;
+  let lfsr = 0x4000; // 15-bit shift register, clocked once per period for noise
+  for (let i = start; i < end; i++) {
+    const ms = ((i - start) * 1000) / sampleRate;
+    const level = event.volume * envelopeLevel(event.envelope, event.duration, ms);
+    samples[i] += level * waveformSample(event.waveform, phase, lfsr & 1);
+    phase += event.frequency / sampleRate;
+    while (phase >= 1) {
+      phase -= 1;
+      lfsr = (lfsr >> 1) | (((lfsr ^ (lfsr >> 1)) & 1) << 14);
+    }
+  }
+}
+
+/**
+ * Time in milliseconds at which the last note (including its release) ends
+ */
+export function getAudioEndTime(events: readonly AudioEvent[]): number {
+  return events.reduce(
+    (end, event) => Math.max(end, event.time + event.duration + event.envelope.release),
+    0,
+  );
+}
+
+/**
+ * Synthesize audio events into mono samples in the range -1.0..1.0. The
+ * samples run until the last note (including its release) has ended, but no
+ * longer than MAX_AUDIO_RENDER_MS; compare getAudioEndTime() with it to tell
+ * whether the audio was cut off.
+ */
+export function renderAudio(
+  events: readonly AudioEvent[],
+  sampleRate: number = DEFAULT_AUDIO_SAMPLE_RATE,
+): Float32Array {
+  const endMs = Math.min(getAudioEndTime(events), MAX_AUDIO_RENDER_MS);
+  const samples = new Float32Array(Math.ceil((endMs * sampleRate) / 1000));
+  for (const event of events) {
+    renderEvent(event, samples, sampleRate);
+  }
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.max(-1, Math.min(1, samples[i]));
+  }
+  return samples;
+}
+
+/**
+ * Encode samples in the range -1.0..1.0 as a 16-bit mono PCM WAV file
+ */
+export function encodeWav(
+  samples: ArrayLike<number>,
+  sampleRate: number = DEFAULT_AUDIO_SAMPLE_RATE,
+): Uint8Array {
+  const bytes = new Uint8Array(WAV_HEADER_SIZE + samples.length * 2);
+  const view = new DataView(bytes.buffer);
+  const writeTag = (offset: number, tag: string): void => {
+    for (let i = 0; i < tag.length; i++) {
+      bytes[offset + i] = tag.charCodeAt(i);
+    }
+  };
+
+  writeTag(0, "RIFF");
+  view.setUint32(4, bytes.length - 8, true);
+  writeTag(8, "WAVE");
+  writeTag(12, "fmt ");
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Bytes per second
+  view.setUint16(32, 2, true); // Bytes per sample frame
+  view.setUint16(34, 16, true); // Bits per sample
+  writeTag(36, "data");
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const sample = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(WAV_HEADER_SIZE + i * 2, Math.round(sample * 0x7fff), true);
+  }
+  return bytes;
+}
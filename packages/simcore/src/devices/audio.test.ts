@@ -1,4 +1,10 @@
-import { AudioDevice } from "./audio";
+import { AudioDevice, AUDIO_CHANNEL_STRIDE, AUDIO_QUEUE_SIZE, type AudioEvent } from "./audio";
+
+const ATTACK = 7;
+const DECAY = 8;
+const SUSTAIN = 9;
+const RELEASE = 10;
+const QUEUE = 11;
 
 describe("AudioDevice", () => {
   let audio: AudioDevice;
@@ -78,9 +84,18 @@ describe("AudioDevice", () => {
       expect(event?.waveform).toBe("sine");
     });
 
-    test("only stores bit 0", () => {
+    test("writing 2-4 sets triangle, sawtooth and noise", () => {
+      const waveforms = [2, 3, 4].map((value) => {
+        audio.write(1, value);
+        audio.write(0, 0);
+        return audio.write(0, 1)?.waveform;
+      });
+      expect(waveforms).toEqual(["triangle", "sawtooth", "noise"]);
+    });
+
+    test("unknown waveforms select square", () => {
       audio.write(1, 0xff);
-      expect(audio.read(1)).toBe(1);
+      expect(audio.read(1)).toBe(0);
     });
   });
 
@@ -246,7 +261,7 @@ describe("AudioDevice", () => {
     });
   });
 
-  describe("clear", () => {
+  describe("reset", () => {
     test("resets all registers to defaults", () => {
       // Set non-default values
       audio.write(0, 1);
@@ -257,8 +272,7 @@ describe("AudioDevice", () => {
       audio.write(5, 0xff);
       audio.write(6, 0xff);
 
-      // Clear
-      audio.clear();
+      audio.reset();
 
       // Check defaults restored
       expect(audio.read(0)).toBe(0);
@@ -272,16 +286,141 @@ describe("AudioDevice", () => {
   });
 
   describe("invalid offsets", () => {
-    test("reading invalid offset returns 0", () => {
-      expect(audio.read(7)).toBe(0);
-      expect(audio.read(100)).toBe(0);
-      expect(audio.read(-1)).toBe(0);
+    test("reading invalid offset returns undefined", () => {
+      expect(audio.read(12)).toBeUndefined();
+      expect(audio.read(100)).toBeUndefined();
+      expect(audio.read(-1)).toBeUndefined();
     });
 
     test("writing to invalid offset does not crash", () => {
-      expect(() => audio.write(7, 123)).not.toThrow();
+      expect(() => audio.write(12, 123)).not.toThrow();
       expect(() => audio.write(100, 123)).not.toThrow();
       expect(() => audio.write(-1, 123)).not.toThrow();
     });
   });
+
+  describe("channels", () => {
+    test("each channel has its own registers", () => {
+      const channel2 = 2 * AUDIO_CHANNEL_STRIDE;
+      audio.write(channel2 + 2, 0x20);
+      audio.write(channel2 + 3, 0x03);
+      const event = audio.write(channel2, 1);
+      expect(event?.channel).toBe(2);
+      expect(event?.frequency).toBe(800);
+      expect(audio.read(2)).toBe(440 & 0xff); // Channel 0 unchanged
+      expect(audio.getControl()).toBe(0);
+    });
+
+    test("registers past the last channel are unmapped", () => {
+      expect(audio.read(4 * AUDIO_CHANNEL_STRIDE)).toBeUndefined();
+    });
+  });
+
+  describe("envelope registers (offset 7-10)", () => {
+    test("the envelope is carried by the event", () => {
+      audio.write(ATTACK, 10);
+      audio.write(DECAY, 20);
+      audio.write(SUSTAIN, 51);
+      audio.write(RELEASE, 30);
+      expect(audio.read(SUSTAIN)).toBe(51);
+      const event = audio.write(0, 1);
+      expect(event?.envelope).toEqual({ attack: 10, decay: 20, sustain: 0.2, release: 30 });
+    });
+
+    test("the default envelope holds full volume for the whole note", () => {
+      const event = audio.write(0, 1);
+      expect(event?.envelope).toEqual({ attack: 0, decay: 0, sustain: 1, release: 0 });
+    });
+  });
+
+  describe("note queue (offset 11)", () => {
+    let events: AudioEvent[];
+
+    beforeEach(() => {
+      audio = new AudioDevice(1000); // One cycle per millisecond
+      events = [];
+      audio.setEventListener((event) => events.push(event));
+    });
+
+    test("queued notes play back to back as cycles pass", () => {
+      audio.write(QUEUE, 0); // 100 ms at 440 Hz, starts now
+      audio.write(2, 0x20);
+      audio.write(3, 0x03);
+      audio.write(QUEUE, 0); // 800 Hz, after the first
+      expect(events.map((e) => e.frequency)).toEqual([440]);
+      expect(audio.read(QUEUE)).toBe(2);
+
+      audio.tick(99);
+      expect(events).toHaveLength(1);
+      audio.tick(5);
+      expect(events.map((e) => [e.frequency, e.time])).toEqual([
+        [440, 0],
+        [800, 100],
+      ]);
+      expect(audio.read(QUEUE)).toBe(1);
+      audio.tick(100);
+      expect(audio.read(QUEUE)).toBe(0);
+    });
+
+    test("a note played with CTRL delays the queue", () => {
+      audio.write(0, 1);
+      audio.write(QUEUE, 0);
+      audio.tick(50);
+      expect(events).toHaveLength(1);
+      audio.tick(50);
+      expect(events[1].time).toBe(100);
+    });
+
+    test("notes queued while the queue is full are dropped", () => {
+      for (let i = 0; i < AUDIO_QUEUE_SIZE + 3; i++) {
+        audio.write(QUEUE, 0);
+      }
+      expect(audio.read(QUEUE)).toBe(AUDIO_QUEUE_SIZE + 1);
+    });
+
+    test("drain starts the queued notes at their turn", () => {
+      audio.write(QUEUE, 0);
+      audio.write(QUEUE, 0);
+      audio.write(QUEUE, 0);
+      audio.drain();
+      expect(events.map((e) => e.time)).toEqual([0, 100, 200]);
+      expect(audio.read(QUEUE)).toBe(1); // The clock has not moved
+    });
+
+    test("channels are queued independently", () => {
+      audio.write(QUEUE, 0);
+      audio.write(AUDIO_CHANNEL_STRIDE + QUEUE, 0);
+      expect(events.map((e) => e.channel)).toEqual([0, 1]);
+    });
+  });
+
+  describe("snapshot/restore", () => {
+    test("restores queued notes and the cycle count", () => {
+      audio = new AudioDevice(1000);
+      audio.write(QUEUE, 0);
+      audio.write(QUEUE, 0);
+      const state = audio.snapshot();
+      audio.tick(500);
+      audio.restore(state);
+      expect(audio.read(QUEUE)).toBe(2);
+      const events: AudioEvent[] = [];
+      audio.setEventListener((event) => events.push(event));
+      audio.tick(100);
+      expect(events[0].time).toBe(100);
+    });
+
+    test("restores all registers", () => {
+      audio.write(1, 1);
+      audio.write(2, 0x34);
+      audio.write(3, 0x12);
+      audio.write(6, 200);
+      const state = audio.snapshot();
+      audio.reset();
+      audio.restore(state);
+      expect(audio.read(1)).toBe(1);
+      expect(audio.read(2)).toBe(0x34);
+      expect(audio.read(3)).toBe(0x12);
+      expect(audio.read(6)).toBe(200);
+    });
+  });
 });
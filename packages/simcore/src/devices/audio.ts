@@ -1,62 +1,200 @@
 /**
- * TonX86 Audio Device - PC Speaker style audio support
+ * TonX86 Audio Device - tone generator channels with note queues
  *
- * Memory Map:
- * - 0x10200: AUDIO_CTRL    (bit 0: 0=stop, 1=play)
- * - 0x10201: AUDIO_WAVE    (0=square, 1=sine)
- * - 0x10202: AUDIO_FREQ_LO (frequency Hz, low byte)
- * - 0x10203: AUDIO_FREQ_HI (frequency Hz, high byte)
- * - 0x10204: AUDIO_DUR_LO  (duration ms, low byte)
- * - 0x10205: AUDIO_DUR_HI  (duration ms, high byte)
- * - 0x10206: AUDIO_VOLUME  (0-255)
+ * Memory Map (channel n at 0x10200 + 0x10 * n, AUDIO_CHANNELS channels):
+ * - +0x0: AUDIO_CTRL    (bit 0: 0=stop, 1=play; a 0 to 1 change plays a note now)
+ * - +0x1: AUDIO_WAVE    (0=square, 1=sine, 2=triangle, 3=sawtooth, 4=noise)
+ * - +0x2: AUDIO_FREQ_LO (frequency Hz, low byte)
+ * - +0x3: AUDIO_FREQ_HI (frequency Hz, high byte)
+ * - +0x4: AUDIO_DUR_LO  (duration ms, low byte)
+ * - +0x5: AUDIO_DUR_HI  (duration ms, high byte)
+ * - +0x6: AUDIO_VOLUME  (0-255)
+ * - +0x7: AUDIO_ATTACK  (envelope attack time in ms, 0-255)
+ * - +0x8: AUDIO_DECAY   (envelope decay time in ms, 0-255)
+ * - +0x9: AUDIO_SUSTAIN (envelope sustain level, 0-255)
+ * - +0xA: AUDIO_RELEASE (envelope release time in ms after the note, 0-255)
+ * - +0xB: AUDIO_QUEUE   (write: queue a note with the current registers;
+ *                        read: notes queued, including the one playing)
+ *
+ * Channel 0 keeps the addresses of the original single-channel device.
+ * Queued notes play back to back: each starts when the previous note on its
+ * channel ends, measured in CPU cycles at the simulated clock rate, so a
+ * program can fill the queue and carry on without waiting. A note played
+ * with AUDIO_CTRL also occupies its channel until it ends. Notes queued while
+ * AUDIO_QUEUE_SIZE notes are waiting are dropped.
+ */
+import type { Device } from "./bus";
+
+/** Number of tone generator channels */
+export const AUDIO_CHANNELS = 4;
+
+/** Address distance between the registers of two channels */
+export const AUDIO_CHANNEL_STRIDE = 0x10;
+
+/** Notes that can wait in each channel's queue */
+export const AUDIO_QUEUE_SIZE = 32;
+
+/** Clock rate used to time queued notes when none is given (1 MHz) */
+const DEFAULT_AUDIO_CLOCK_HZ = 1_000_000;
+
+export type AudioWaveform = "square" | "sine" | "triangle" | "sawtooth" | "noise";
+
+/** AUDIO_WAVE values in register order */
+const WAVEFORMS: readonly AudioWaveform[] = ["square", "sine", "triangle", "sawtooth", "noise"];
+
+/**
+ * Volume envelope of a note. Times are in milliseconds; the release follows
+ * the end of the note.
+ */
+export interface AudioEnvelope {
+  attack: number;
+  decay: number;
+  /** Level held after the decay, 0.0-1.0 of the note volume */
+  sustain: number;
+  release: number;
+}
+
+/**
+ * A note as set up in a channel's registers
+ */
+export interface AudioNote {
+  frequency: number;
+  duration: number;
+  waveform: AudioWaveform;
+  /** 0.0-1.0 */
+  volume: number;
+  envelope: AudioEnvelope;
+}
+
+/**
+ * A note that starts playing
+ */
+export interface AudioEvent extends AudioNote {
+  channel: number;
+  /** Start time in ms of simulated time since reset */
+  time: number;
+}
+
+/**
+ * Register values of one channel
  */
-export interface AudioEvent {
+export interface AudioRegisters {
+  ctrl: number;
+  waveform: number;
   frequency: number;
   duration: number;
-  waveform: "square" | "sine";
   volume: number;
 }
 
-export class AudioDevice {
-  private ctrl: number = 0; // 0 = stopped, 1 = playing
-  private waveform: number = 0; // 0 = square, 1 = sine
-  private frequencyHz: number = 440; // Default A4 note
-  private durationMs: number = 100; // Default 100ms
-  private volume: number = 128; // Default mid volume (0-255)
+/**
+ * Registers and note queue of one channel
+ */
+export interface AudioChannelState extends AudioRegisters {
+  attack: number;
+  decay: number;
+  sustain: number;
+  release: number;
+  /** Notes waiting to play, oldest first */
+  queue: readonly AudioNote[];
+  /** Cycle count at which the playing note ends */
+  endCycle: number;
+}
+
+/**
+ * Channel states and the cycles counted since reset
+ */
+export interface AudioState {
+  channels: readonly AudioChannelState[];
+  cycles: number;
+}
+
+function createChannel(): AudioChannelState {
+  return {
+    ctrl: 0, // 0 = stopped, 1 = playing
+    waveform: 0, // Square
+    frequency: 440, // Default A4 note
+    duration: 100, // Default 100ms
+    volume: 128, // Default mid volume (0-255)
+    attack: 0,
+    decay: 0,
+    sustain: 255, // Full volume until the note ends
+    release: 0,
+    queue: [],
+    endCycle: 0,
+  };
+}
+
+export class AudioDevice implements Device<AudioState> {
+  // The channel list and channel states are replaced on every change, never
+  // modified, so the snapshots taken on each step can share them
+  private channels: readonly AudioChannelState[] = [];
+  private cycles: number = 0;
+  private listener?: (event: AudioEvent) => void;
+
+  /**
+   * @param clockHz CPU clock rate used to turn cycles into note times
+   */
+  constructor(private readonly clockHz: number = DEFAULT_AUDIO_CLOCK_HZ) {
+    this.reset();
+  }
+
+  /**
+   * Receive the event of every note that starts playing
+   */
+  setEventListener(listener: ((event: AudioEvent) => void) | undefined): void {
+    this.listener = listener;
+  }
 
   /**
-   * Write to an audio register
+   * Write to an audio register. Returns the event of a note that starts playing.
    */
   write(offset: number, value: number): AudioEvent | null {
-    switch (offset) {
+    const index = Math.floor(offset / AUDIO_CHANNEL_STRIDE);
+    const channel = this.channels[index];
+    if (offset < 0 || !channel) {
+      return null;
+    }
+    const byte = value & 0xff;
+    switch (offset % AUDIO_CHANNEL_STRIDE) {
       case 0: // AUDIO_CTRL
-        {
-          const wasOff = this.ctrl === 0;
-          this.ctrl = value & 1;
-          // Emit event when transitioning from off to on
-          if (wasOff && this.ctrl === 1) {
-            return this.generateEvent();
-          }
+        this.update(index, { ctrl: value & 1 });
+        // Play when transitioning from off to on
+        if (channel.ctrl === 0 && (value & 1) === 1) {
+          return this.play(index, this.createNote(channel), this.cycles);
         }
         break;
       case 1: // AUDIO_WAVE
-        this.waveform = value & 1;
+        this.update(index, { waveform: byte < WAVEFORMS.length ? byte : 0 });
         break;
       case 2: // AUDIO_FREQ_LO
-        this.frequencyHz = (this.frequencyHz & 0xff00) | (value & 0xff);
+        this.update(index, { frequency: (channel.frequency & 0xff00) | byte });
         break;
       case 3: // AUDIO_FREQ_HI
-        this.frequencyHz = (this.frequencyHz & 0x00ff) | ((value & 0xff) << 8);
+        this.update(index, { frequency: (channel.frequency & 0x00ff) | (byte << 8) });
         break;
       case 4: // AUDIO_DUR_LO
-        this.durationMs = (this.durationMs & 0xff00) | (value & 0xff);
+        this.update(index, { duration: (channel.duration & 0xff00) | byte });
         break;
       case 5: // AUDIO_DUR_HI
-        this.durationMs = (this.durationMs & 0x00ff) | ((value & 0xff) << 8);
+        this.update(index, { duration: (channel.duration & 0x00ff) | (byte << 8) });
         break;
       case 6: // AUDIO_VOLUME
-        this.volume = value & 0xff;
+        this.update(index, { volume: byte });
+        break;
+      case 7: // AUDIO_ATTACK
+        this.update(index, { attack: byte });
         break;
+      case 8: // AUDIO_DECAY
+        this.update(index, { decay: byte });
+        break;
+      case 9: // AUDIO_SUSTAIN
+        this.update(index, { sustain: byte });
+        break;
+      case 10: // AUDIO_RELEASE
+        this.update(index, { release: byte });
+        break;
+      case 11: // AUDIO_QUEUE
+        return this.enqueue(index, this.createNote(channel));
     }
     return null;
   }
@@ -64,54 +202,150 @@ export class AudioDevice {
   /**
    * Read from an audio register
    */
-  read(offset: number): number {
-    switch (offset) {
+  read(offset: number): number | undefined {
+    const channel = this.channels[Math.floor(offset / AUDIO_CHANNEL_STRIDE)];
+    if (offset < 0 || !channel) {
+      return undefined;
+    }
+    switch (offset % AUDIO_CHANNEL_STRIDE) {
       case 0: // AUDIO_CTRL
-        return this.ctrl;
+        return channel.ctrl;
       case 1: // AUDIO_WAVE
-        return this.waveform;
+        return channel.waveform;
       case 2: // AUDIO_FREQ_LO
-        return this.frequencyHz & 0xff;
+        return channel.frequency & 0xff;
       case 3: // AUDIO_FREQ_HI
-        return (this.frequencyHz >> 8) & 0xff;
+        return (channel.frequency >> 8) & 0xff;
       case 4: // AUDIO_DUR_LO
-        return this.durationMs & 0xff;
+        return channel.duration & 0xff;
       case 5: // AUDIO_DUR_HI
-        return (this.durationMs >> 8) & 0xff;
+        return (channel.duration >> 8) & 0xff;
       case 6: // AUDIO_VOLUME
-        return this.volume;
+        return channel.volume;
+      case 7: // AUDIO_ATTACK
+        return channel.attack;
+      case 8: // AUDIO_DECAY
+        return channel.decay;
+      case 9: // AUDIO_SUSTAIN
+        return channel.sustain;
+      case 10: // AUDIO_RELEASE
+        return channel.release;
+      case 11: // AUDIO_QUEUE
+        return channel.queue.length + (this.cycles < channel.endCycle ? 1 : 0);
       default:
-        return 0;
+        return undefined;
+    }
+  }
+
+  /**
+   * Advance by the cycles an instruction took and start the queued notes
+   * whose turn has come
+   */
+  tick(cycles: number): void {
+    if (cycles <= 0) {
+      return;
+    }
+    this.cycles += cycles;
+    for (let index = 0; index < this.channels.length; index++) {
+      let channel = this.channels[index];
+      while (channel.queue.length > 0 && channel.endCycle <= this.cycles) {
+        const [note, ...queue] = channel.queue;
+        this.update(index, { queue });
+        this.play(index, note, channel.endCycle);
+        channel = this.channels[index];
+      }
+    }
+  }
+
+  /**
+   * Start every queued note at its turn without advancing the clock, as the
+   * sound hardware would carry on after the CPU stopped
+   */
+  drain(): void {
+    for (let index = 0; index < this.channels.length; index++) {
+      for (const note of this.channels[index].queue) {
+        this.update(index, { queue: this.channels[index].queue.slice(1) });
+        this.play(index, note, this.channels[index].endCycle);
+      }
     }
   }
 
   /**
-   * Get current control state
+   * Get the control state of channel 0
    */
   getControl(): number {
-    return this.ctrl;
+    return this.channels[0].ctrl;
   }
 
   /**
-   * Generate an audio event with current settings
+   * Replace a channel's state with a changed copy
    */
-  private generateEvent(): AudioEvent {
+  private update(index: number, changes: Partial<AudioChannelState>): void {
+    const channels = [...this.channels];
+    channels[index] = { ...channels[index], ...changes };
+    this.channels = channels;
+  }
+
+  /**
+   * Note with a channel's current settings
+   */
+  private createNote(channel: AudioChannelState): AudioNote {
     return {
-      frequency: this.frequencyHz,
-      duration: this.durationMs,
-      waveform: this.waveform === 0 ? "square" : "sine",
-      volume: this.volume / 255.0, // Normalize to 0.0-1.0
+      frequency: channel.frequency,
+      duration: channel.duration,
+      waveform: WAVEFORMS[channel.waveform],
+      volume: channel.volume / 255.0, // Normalize to 0.0-1.0
+      envelope: {
+        attack: channel.attack,
+        decay: channel.decay,
+        sustain: channel.sustain / 255.0,
+        release: channel.release,
+      },
+    };
+  }
+
+  /**
+   * Queue a note, or play it now if its channel is idle
+   */
+  private enqueue(index: number, note: AudioNote): AudioEvent | null {
+    const channel = this.channels[index];
+    if (channel.endCycle <= this.cycles) {
+      return this.play(index, note, this.cycles);
+    }
+    if (channel.queue.length < AUDIO_QUEUE_SIZE) {
+      this.update(index, { queue: [...channel.queue, note] });
+    }
+    return null;
+  }
+
+  /**
+   * Start a note on a channel at the given cycle count
+   */
+  private play(index: number, note: AudioNote, startCycle: number): AudioEvent {
+    this.update(index, { endCycle: startCycle + (note.duration * this.clockHz) / 1000 });
+    const event: AudioEvent = {
+      ...note,
+      channel: index,
+      time: (startCycle * 1000) / this.clockHz,
     };
+    this.listener?.(event);
+    return event;
+  }
+
+  snapshot(): AudioState {
+    return { channels: this.channels, cycles: this.cycles };
+  }
+
+  restore(state: AudioState): void {
+    this.channels = state.channels;
+    this.cycles = state.cycles;
   }
 
   /**
    * Clear device state
    */
-  clear(): void {
-    this.ctrl = 0;
-    this.waveform = 0;
-    this.frequencyHz = 440;
-    this.durationMs = 100;
-    this.volume = 128;
+  reset(): void {
+    this.channels = Array.from({ length: AUDIO_CHANNELS }, createChannel);
+    this.cycles = 0;
   }
 }
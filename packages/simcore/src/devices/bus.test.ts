@@ -0,0 +1,91 @@
+import { DeviceBus, type Device } from "./bus";
+
+/** A device with one register per offset that counts its ticks */
+class RegisterFile implements Device<number[]> {
+  registers: number[];
+  ticks = 0;
+
+  constructor(size: number) {
+    this.registers = new Array<number>(size).fill(0);
+  }
+
+  read(offset: number): number {
+    return this.registers[offset];
+  }
+
+  write(offset: number, value: number): void {
+    this.registers[offset] = value;
+  }
+
+  reset(): void {
+    this.registers.fill(0);
+  }
+
+  tick(cycles: number): void {
+    this.ticks += cycles;
+  }
+
+  snapshot(): number[] {
+    return [...this.registers];
+  }
+
+  restore(state: number[]): void {
+    this.registers = [...state];
+  }
+}
+
+describe("DeviceBus", () => {
+  let bus: DeviceBus;
+  let device: RegisterFile;
+
+  beforeEach(() => {
+    bus = new DeviceBus();
+    device = new RegisterFile(4);
+    bus.map({ name: "regs", base: 0x10500, size: 4, device });
+  });
+
+  test("routes reads and writes to the device at the offset from its base", () => {
+    expect(bus.write(0x10502, 42)).toBe(true);
+    expect(device.registers[2]).toBe(42);
+    expect(bus.read(0x10502)).toBe(42);
+  });
+
+  test("reports addresses outside every mapping", () => {
+    expect(bus.read(0x10504)).toBeUndefined();
+    expect(bus.write(0x104ff, 1)).toBe(false);
+    expect(bus.find(0x10503)?.name).toBe("regs");
+  });
+
+  test("rejects overlapping ranges and duplicate names", () => {
+    const other = new RegisterFile(4);
+    expect(() => bus.map({ name: "other", base: 0x10503, size: 2, device: other })).toThrow(
+      'Device "other" at 0x10503 overlaps "regs" at 0x10500',
+    );
+    expect(() => bus.map({ name: "regs", base: 0x10600, size: 1, device: other })).toThrow(
+      'A device named "regs" is already mapped',
+    );
+    expect(() => bus.map({ name: "empty", base: 0x10600, size: 0, device: other })).toThrow(
+      "positive size",
+    );
+    bus.map({ name: "other", base: 0x10504, size: 4, device: other });
+    expect(bus.getMappings().map((m) => m.name)).toEqual(["regs", "other"]);
+  });
+
+  test("resets and ticks every device", () => {
+    bus.write(0x10500, 7);
+    bus.tick(3);
+    bus.tick(2);
+    expect(device.ticks).toBe(5);
+    bus.reset();
+    expect(device.registers).toEqual([0, 0, 0, 0]);
+  });
+
+  test("replace() swaps the device behind a name", () => {
+    const replacement = new RegisterFile(4);
+    bus.replace("regs", replacement);
+    bus.write(0x10501, 9);
+    expect(replacement.registers[1]).toBe(9);
+    expect(device.registers[1]).toBe(0);
+    expect(() => bus.replace("missing", replacement)).toThrow('No device named "missing"');
+  });
+});
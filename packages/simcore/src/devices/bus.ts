@@ -0,0 +1,129 @@
+/**
+ * TonX86 Device Bus - routes memory-mapped I/O to peripherals
+ *
+ * Each device is mapped at a base address and sees register offsets from
+ * that base. Mapped ranges may not overlap. The Simulator maps its built-in
+ * devices at:
+ * - 0xF000-0x10002:  lcd      (pixels, then format and palette registers)
+ * - 0x10100-0x101FF: keyboard
+ * - 0x10200-0x1023F: audio    (four channels of 16 registers)
+ * - 0x10300-0x10304: pic
+ * - 0x10400-0x10403: timer
+ * - 0x10500-0x10503: uart     (data, status, control, receive count)
+ * - 0x11000-0x11FFF: text     (characters, attributes, cursor registers)
+ * Further devices are mapped with the `devices` option of the Simulator.
+ */
+
+/**
+ * A memory-mapped peripheral
+ */
+export interface Device<State = unknown> {
+  /**
+   * Read the register at `offset` (reads may have side effects). Undefined
+   * means there is no readable register there, which the CPU reports as #GP.
+   */
+  read(offset: number): number | undefined;
+  /** Write the register at `offset` */
+  write(offset: number, value: number): void;
+  /** Return to the power-on state */
+  reset(): void;
+  /** Advance by the clock cycles the last instruction took */
+  tick?(cycles: number): void;
+  /** Copy of the device state for snapshots and step-back (JSON-serializable) */
+  snapshot(): State;
+  /** Restore a state returned by snapshot() */
+  restore(state: State): void;
+}
+
+/**
+ * A device and the address range it occupies
+ */
+export interface DeviceMapping {
+  /** Unique name; keys the device's state in snapshots */
+  name: string;
+  /** First address of the range */
+  base: number;
+  /** Number of addresses in the range */
+  size: number;
+  device: Device;
+}
+
+export class DeviceBus {
+  private mappings: DeviceMapping[] = [];
+
+  /**
+   * Map a device. Throws if the name is taken or the range overlaps another device.
+   */
+  map(mapping: DeviceMapping): void {
+    const { name, base, size } = mapping;
+    if (!Number.isInteger(base) || !Number.isInteger(size) || base < 0 || size < 1) {
+      throw new Error(`Device "${name}" needs a non-negative base and a positive size`);
+    }
+    for (const other of this.mappings) {
+      if (other.name === name) {
+        throw new Error(`A device named "${name}" is already mapped`);
+      }
+      if (base < other.base + other.size && other.base < base + size) {
+        throw new Error(
+          `Device "${name}" at 0x${base.toString(16)} overlaps "${other.name}" at 0x${other.base.toString(16)}`,
+        );
+      }
+    }
+    this.mappings.push({ ...mapping });
+  }
+
+  /**
+   * Swap the device behind a mapped name, keeping its address range
+   */
+  replace(name: string, device: Device): void {
+    const mapping = this.mappings.find((m) => m.name === name);
+    if (!mapping) {
+      throw new Error(`No device named "${name}" is mapped`);
+    }
+    mapping.device = device;
+  }
+
+  /**
+   * Mapping that contains `address`, if any
+   */
+  find(address: number): DeviceMapping | undefined {
+    return this.mappings.find((m) => address >= m.base && address < m.base + m.size);
+  }
+
+  getMappings(): readonly DeviceMapping[] {
+    return this.mappings;
+  }
+
+  /**
+   * Read a device register. Returns undefined if no device is mapped there
+   * or the device has no readable register at that address.
+   */
+  read(address: number): number | undefined {
+    const mapping = this.find(address);
+    return mapping?.device.read(address - mapping.base);
+  }
+
+  /**
+   * Write a device register. Returns false if no device is mapped there.
+   */
+  write(address: number, value: number): boolean {
+    const mapping = this.find(address);
+    if (!mapping) {
+      return false;
+    }
+    mapping.device.write(address - mapping.base, value);
+    return true;
+  }
+
+  reset(): void {
+    for (const mapping of this.mappings) {
+      mapping.device.reset();
+    }
+  }
+
+  tick(cycles: number): void {
+    for (const mapping of this.mappings) {
+      mapping.device.tick?.(cycles);
+    }
+  }
+}
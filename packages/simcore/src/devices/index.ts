@@ -1,4 +1,60 @@
-export { Memory } from "./memory";
-export { LCDDisplay } from "./lcd";
-export { Keyboard } from "./keyboard";
-export { AudioDevice, type AudioEvent } from "./audio";
+export { Memory, type MemoryState } from "./memory";
+export {
+  LCDDisplay,
+  type LCDState,
+  type LCDRegisters,
+  type LCDPixelFormat,
+  LCD_PIXEL_FORMATS,
+  LCD_REGISTER_OFFSET,
+  LCD_IO_SIZE,
+  LCD_PALETTE_SIZE,
+  createDefaultPalette,
+  lcdPixelToRGB,
+} from "./lcd";
+export { Keyboard, type KeyboardState } from "./keyboard";
+export {
+  AudioDevice,
+  type AudioEvent,
+  type AudioNote,
+  type AudioEnvelope,
+  type AudioWaveform,
+  type AudioState,
+  type AudioChannelState,
+  type AudioRegisters,
+  AUDIO_CHANNELS,
+  AUDIO_QUEUE_SIZE,
+} from "./audio";
+export { renderAudio, encodeWav, getAudioEndTime, MAX_AUDIO_RENDER_MS } from "./audio-render";
+export {
+  PIC,
+  type PICState,
+  IRQ_COUNT,
+  IRQ_TIMER,
+  IRQ_KEYBOARD,
+  IRQ_UART,
+  DEFAULT_IRQ_VECTOR_BASE,
+  IDT_BASE,
+  IDT_SIZE,
+} from "./pic";
+export { Timer, type TimerState, TIMER_ENABLE, TIMER_IRQ_ENABLE } from "./timer";
+export {
+  TextDisplay,
+  type TextState,
+  TEXT_BASE,
+  TEXT_ATTRIBUTE_OFFSET,
+  TEXT_REGISTER_OFFSET,
+  TEXT_IO_SIZE,
+  TEXT_MAX_CELLS,
+  TEXT_DEFAULT_ATTRIBUTE,
+  TEXT_CURSOR_VISIBLE,
+} from "./text";
+export {
+  Uart,
+  type UartState,
+  UART_FIFO_SIZE,
+  UART_RX_READY,
+  UART_TX_READY,
+  UART_OVERRUN,
+  UART_RX_IRQ_ENABLE,
+} from "./uart";
+export { DeviceBus, type Device, type DeviceMapping } from "./bus";
@@ -71,12 +71,12 @@ describe("Keyboard", () => {
       expect(keyboard.getStatus()).toBe(0); // empty again
     });
 
-    test("clear() resets all state", () => {
+    test("reset() resets all state", () => {
       keyboard.pushKey(65, true);
       keyboard.pushKey(66, true);
       keyboard.pushKey(67, false);
 
-      keyboard.clear();
+      keyboard.reset();
 
       expect(keyboard.getStatus()).toBe(0);
       expect(keyboard.getKeyCode()).toBe(0);
@@ -134,4 +134,45 @@ describe("Keyboard", () => {
       expect(keyboard.getKeyState()).toBe(0);
     });
   });
+
+  describe("key presses for the input services", () => {
+    test("peekPress finds the oldest press and leaves the queue alone", () => {
+      keyboard.pushKey(65, false);
+      expect(keyboard.peekPress()).toBeUndefined();
+      keyboard.pushKey(66, true);
+      expect(keyboard.peekPress()).toBe(66);
+      expect(keyboard.hasPress(66)).toBe(true);
+      expect(keyboard.hasPress(65)).toBe(false);
+      expect(keyboard.getStatus()).toBe(1);
+    });
+
+    test("popPress drops the releases before the press", () => {
+      keyboard.pushKey(65, false);
+      expect(keyboard.popPress()).toBeUndefined();
+      expect(keyboard.getStatus()).toBe(1);
+
+      keyboard.pushKey(66, true);
+      keyboard.pushKey(66, false);
+      expect(keyboard.popPress()).toBe(66);
+      expect(keyboard.getKeyCode()).toBe(66);
+      expect(keyboard.getKeyState()).toBe(1);
+      expect(keyboard.popPress()).toBeUndefined();
+      expect(keyboard.getStatus()).toBe(1); // The release of 66
+    });
+  });
+
+  describe("snapshot/restore", () => {
+    test("restores the queue and key registers", () => {
+      keyboard.pushKey(65, true);
+      keyboard.pushKey(66, false);
+      const state = keyboard.snapshot();
+      keyboard.reset();
+      keyboard.restore(state);
+      expect(keyboard.getStatus()).toBe(1);
+      expect(keyboard.getKeyCode()).toBe(66);
+      keyboard.popKey();
+      expect(keyboard.getKeyCode()).toBe(65);
+      expect(keyboard.getKeyState()).toBe(1);
+    });
+  });
 });
@@ -1,4 +1,14 @@
 import type { KeyboardEvent } from "../types";
+import type { Device } from "./bus";
+
+/**
+ * Pending key events and the key registers
+ */
+export interface KeyboardState {
+  queue: KeyboardEvent[];
+  keyCode: number;
+  keyState: number;
+}
 
 /**
  * TonX86 Keyboard Input - memory-mapped keyboard support
@@ -13,8 +23,13 @@ import type { KeyboardEvent } from "../types";
  * - Escape: 27
  * - Tab: 9
  * - Backspace: 8
+ *
+ * Memory Map:
+ * - 0x10100: KBD_STATUS   (bit 0: key available)
+ * - 0x10101: KBD_KEYCODE  (reading pops the oldest key event)
+ * - 0x10102: KBD_KEYSTATE (1 = pressed, 0 = released)
  */
-export class Keyboard {
+export class Keyboard implements Device<KeyboardState> {
   private keyQueue: KeyboardEvent[] = [];
   private lastKeyCode: number = 0;
   private lastKeyState: number = 0; // 0 = released, 1 = pressed
@@ -65,12 +80,80 @@ export class Keyboard {
     return false;
   }
 
+  /**
+   * Key code of the oldest queued key press, ignoring releases; the queue is
+   * left unchanged. Returns undefined if no press is queued.
+   */
+  peekPress(): number | undefined {
+    return this.keyQueue.find((event) => event.pressed)?.keyCode;
+  }
+
+  /**
+   * Remove the oldest queued key press and the releases queued before it,
+   * updating the registers to that key. Returns its key code, or undefined
+   * (leaving the queue unchanged) if no press is queued.
+   */
+  popPress(): number | undefined {
+    const index = this.keyQueue.findIndex((event) => event.pressed);
+    if (index < 0) {
+      return undefined;
+    }
+    const event = this.keyQueue[index];
+    this.keyQueue.splice(0, index + 1);
+    this.lastKeyCode = event.keyCode;
+    this.lastKeyState = 1;
+    return event.keyCode;
+  }
+
+  /**
+   * Whether a press of `keyCode` is queued
+   */
+  hasPress(keyCode: number): boolean {
+    return this.keyQueue.some((event) => event.pressed && event.keyCode === keyCode);
+  }
+
+  /**
+   * Read a keyboard register; reading KBD_KEYCODE pops the oldest key event
+   */
+  read(offset: number): number | undefined {
+    switch (offset) {
+      case 0: // KBD_STATUS
+        return this.getStatus();
+      case 1: // KBD_KEYCODE
+        this.popKey();
+        return this.getKeyCode();
+      case 2: // KBD_KEYSTATE
+        return this.getKeyState();
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * The keyboard registers are read-only; writes are ignored
+   */
+  write(_offset: number, _value: number): void {}
+
   /**
    * Clear keyboard queue and state
    */
-  clear(): void {
+  reset(): void {
     this.keyQueue = [];
     this.lastKeyCode = 0;
     this.lastKeyState = 0;
   }
+
+  snapshot(): KeyboardState {
+    return {
+      queue: this.keyQueue.map((event) => ({ ...event })),
+      keyCode: this.lastKeyCode,
+      keyState: this.lastKeyState,
+    };
+  }
+
+  restore(state: KeyboardState): void {
+    this.keyQueue = state.queue.map((event) => ({ ...event }));
+    this.lastKeyCode = state.keyCode;
+    this.lastKeyState = state.keyState;
+  }
 }
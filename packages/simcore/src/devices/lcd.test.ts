@@ -1,4 +1,4 @@
-import { LCDDisplay } from "./lcd";
+import { LCDDisplay, LCD_REGISTER_OFFSET, createDefaultPalette, lcdPixelToRGB } from "./lcd";
 import { Simulator } from "../simulator/index";
 
 describe("LCDDisplay class", () => {
@@ -58,11 +58,11 @@ describe("LCDDisplay class", () => {
     expect(lcd.getPixel(0, 0)).toBe(0); // Unaffected
   });
 
-  test("clear resets all pixels", () => {
+  test("reset clears all pixels", () => {
     const lcd = new LCDDisplay(4, 4);
     lcd.setPixel(0, 0, 1);
     lcd.setPixel(1, 1, 1);
-    lcd.clear();
+    lcd.reset();
     expect(lcd.getPixel(0, 0)).toBe(0);
     expect(lcd.getPixel(1, 1)).toBe(0);
   });
@@ -74,6 +74,103 @@ describe("LCDDisplay class", () => {
     display[0] = 99; // mutate the copy
     expect(lcd.getPixel(0, 0)).toBe(1); // original unaffected
   });
+
+  test("snapshot/restore round-trips pixels", () => {
+    const lcd = new LCDDisplay(4, 4);
+    lcd.setPixel(2, 3, 1);
+    const state = lcd.snapshot();
+    lcd.reset();
+    lcd.restore(state);
+    expect(lcd.getPixel(2, 3)).toBe(1);
+  });
+
+  test("restore rejects mismatched dimensions", () => {
+    const lcd = new LCDDisplay(4, 4);
+    const other = new LCDDisplay(8, 8).snapshot();
+    expect(() => lcd.restore(other)).toThrow("LCD state is 8x8 but display is 4x4");
+  });
+});
+
+describe("LCD pixel formats", () => {
+  const FORMAT = LCD_REGISTER_OFFSET;
+  const PAL_INDEX = LCD_REGISTER_OFFSET + 1;
+  const PAL_DATA = LCD_REGISTER_OFFSET + 2;
+
+  test("starts in mono format with the default palette", () => {
+    const lcd = new LCDDisplay(4, 4);
+    expect(lcd.getFormat()).toBe("mono");
+    expect(lcd.read(FORMAT)).toBe(0);
+    expect(lcd.getPalette()).toEqual(createDefaultPalette());
+  });
+
+  test("each format keeps the bits it uses", () => {
+    const lcd = new LCDDisplay(4, 4);
+    lcd.write(0, 0x1234);
+    expect(lcd.getPixel(0, 0)).toBe(1);
+    lcd.write(FORMAT, 1);
+    lcd.write(0, 0x1234);
+    expect(lcd.getPixel(0, 0)).toBe(0x34);
+    lcd.write(FORMAT, 3);
+    lcd.write(0, 0x12345);
+    expect(lcd.getFormat()).toBe("rgb565");
+    expect(lcd.getPixel(0, 0)).toBe(0x2345);
+  });
+
+  test("unknown format values are ignored", () => {
+    const lcd = new LCDDisplay(4, 4);
+    lcd.write(FORMAT, 2);
+    lcd.write(FORMAT, 9);
+    expect(lcd.getFormat()).toBe("rgb332");
+  });
+
+  test("palette data writes advance the index", () => {
+    const lcd = new LCDDisplay(4, 4);
+    lcd.write(PAL_INDEX, 255);
+    lcd.write(PAL_DATA, 0x123456);
+    lcd.write(PAL_DATA, 0xabcdef);
+    expect(lcd.read(PAL_INDEX)).toBe(1);
+    expect(lcd.getPalette()[255]).toBe(0x123456);
+    lcd.write(PAL_INDEX, 0);
+    expect(lcd.read(PAL_DATA)).toBe(0xabcdef);
+    expect(lcd.read(LCD_REGISTER_OFFSET + 3)).toBeUndefined();
+  });
+
+  test("converts pixel values to colours", () => {
+    const palette = createDefaultPalette();
+    expect(lcdPixelToRGB(1, "mono", palette)).toBe(0xffffff);
+    expect(lcdPixelToRGB(4, "palette", palette)).toBe(0xaa0000);
+    expect(lcdPixelToRGB(255, "palette", palette)).toBe(0xffffff);
+    expect(lcdPixelToRGB(0xe0, "rgb332", palette)).toBe(0xff0000);
+    expect(lcdPixelToRGB(0x03, "rgb332", palette)).toBe(0x0000ff);
+    expect(lcdPixelToRGB(0x07e0, "rgb565", palette)).toBe(0x00ff00);
+    expect(lcdPixelToRGB(0xffff, "rgb565", palette)).toBe(0xffffff);
+  });
+
+  test("getColors() follows the current format", () => {
+    const lcd = new LCDDisplay(2, 2);
+    lcd.write(FORMAT, 1);
+    lcd.write(PAL_INDEX, 7);
+    lcd.write(PAL_DATA, 0x102030);
+    lcd.write(1, 7);
+    expect(Array.from(lcd.getColors())).toEqual([0, 0x102030, 0, 0]);
+  });
+
+  test("reset and snapshot/restore cover the registers", () => {
+    const lcd = new LCDDisplay(4, 4);
+    lcd.write(FORMAT, 3);
+    lcd.write(PAL_DATA, 0x00ff00);
+    lcd.write(5, 0xf800);
+    const state = lcd.snapshot();
+
+    lcd.reset();
+    expect(lcd.getFormat()).toBe("mono");
+    expect(lcd.getPalette()[0]).toBe(0);
+    lcd.restore(state);
+    expect(lcd.getFormat()).toBe("rgb565");
+    expect(lcd.getPalette()[0]).toBe(0x00ff00);
+    expect(lcd.read(PAL_INDEX)).toBe(1);
+    expect(lcd.getDisplay()[5]).toBe(0xf800);
+  });
 });
 
 describe("LCD Memory-mapped I/O", () => {
@@ -103,4 +200,29 @@ describe("LCD Memory-mapped I/O", () => {
       sim.executeInstruction("MOV", [`0x${outOfBoundsAddr}`, "1"]);
     }).not.toThrow();
   });
+
+  test("selects a pixel format and palette via MOV to the LCD registers", () => {
+    sim.executeInstruction("MOV", ["0x10000", "1"]); // LCD_FORMAT = palette
+    sim.executeInstruction("MOV", ["0x10001", "2"]); // LCD_PAL_INDEX = 2
+    sim.executeInstruction("MOV", ["0x10002", "0xFF8000"]); // LCD_PAL_DATA
+    sim.executeInstruction("MOV", ["0xF000", "2"]);
+    expect(sim.getLCDFormat()).toBe("palette");
+    expect(sim.getLCDPalette()[2]).toBe(0xff8000);
+    expect(sim.getLCDColors()[0]).toBe(0xff8000);
+    sim.executeInstruction("MOV", ["EAX", "[0x10000]"]);
+    expect(sim.getRegisters().EAX).toBe(1);
+  });
+
+  test("RGB565 pixels keep 16 bits", () => {
+    sim.executeInstruction("MOV", ["0x10000", "3"]);
+    sim.executeInstruction("MOV", ["0xF003", "0xF81F"]);
+    expect(sim.getLCDDisplay()[3]).toBe(0xf81f);
+    expect(sim.getLCDColors()[3]).toBe(0xff00ff);
+  });
+
+  test("addresses past the LCD registers raise #GP", () => {
+    expect(() => sim.executeInstruction("MOV", ["EAX", "[0x10003]"])).toThrow(
+      "Unknown I/O read address",
+    );
+  });
 });
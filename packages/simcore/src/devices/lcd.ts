@@ -1,10 +1,112 @@
+import type { Device } from "./bus";
+
+/**
+ * How pixel values are turned into colours
+ * - mono:    0 = off, anything else = on (stored as 1)
+ * - palette: 8-bit index into the 256-entry palette
+ * - rgb332:  8-bit RRRGGGBB
+ * - rgb565:  16-bit RRRRRGGGGGGBBBBB
+ */
+export type LCDPixelFormat = "mono" | "palette" | "rgb332" | "rgb565";
+
+/** Pixel formats by LCD_FORMAT register value */
+export const LCD_PIXEL_FORMATS: readonly LCDPixelFormat[] = ["mono", "palette", "rgb332", "rgb565"];
+
+/** Offset of the register block from the LCD base (0xF000 + 0x1000 = 0x10000) */
+export const LCD_REGISTER_OFFSET = 0x1000;
+
+/** Size of the LCD's I/O range: the pixels, then the three registers */
+export const LCD_IO_SIZE = LCD_REGISTER_OFFSET + 3;
+
+/** Number of palette entries */
+export const LCD_PALETTE_SIZE = 256;
+
+/**
+ * LCD dimensions, pixel contents and registers
+ */
+export interface LCDState {
+  width: number;
+  height: number;
+  pixels: Uint16Array;
+  format: LCDPixelFormat;
+  /** 0xRRGGBB per entry */
+  palette: Uint32Array;
+  paletteIndex: number;
+}
+
+/** The register part of the LCD state */
+export type LCDRegisters = Pick<LCDState, "format" | "palette" | "paletteIndex">;
+
+/** The 16 CGA colours */
+const CGA_COLORS = [
+  0x000000, 0x0000aa, 0x00aa00, 0x00aaaa, 0xaa0000, 0xaa00aa, 0xaa5500, 0xaaaaaa, 0x555555,
+  0x5555ff, 0x55ff55, 0x55ffff, 0xff5555, 0xff55ff, 0xffff55, 0xffffff,
+];
+
+/**
+ * Power-on palette: the 16 CGA colours, then a grey ramp from black to white
+ */
+export function createDefaultPalette(): Uint32Array {
+  const palette = new Uint32Array(LCD_PALETTE_SIZE);
+  palette.set(CGA_COLORS);
+  for (let i = CGA_COLORS.length; i < LCD_PALETTE_SIZE; i++) {
+    const level = Math.round(
+      ((i - CGA_COLORS.length) * 255) / (LCD_PALETTE_SIZE - 1 - CGA_COLORS.length),
+    );
+    palette[i] = (level << 16) | (level << 8) | level;
+  }
+  return palette;
+}
+
+/** Scale an n-bit colour channel to 8 bits */
+function expandChannel(value: number, bits: number): number {
+  return Math.round((value * 255) / ((1 << bits) - 1));
+}
+
+/**
+ * Colour (0xRRGGBB) of a pixel value; mono pixels are black or white
+ */
+export function lcdPixelToRGB(value: number, format: LCDPixelFormat, palette: Uint32Array): number {
+  switch (format) {
+    case "mono":
+      return value ? 0xffffff : 0;
+    case "palette":
+      return palette[value & 0xff];
+    case "rgb332":
+      return (
+        (expandChannel((value >> 5) & 0x7, 3) << 16) |
+        (expandChannel((value >> 2) & 0x7, 3) << 8) |
+        expandChannel(value & 0x3, 2)
+      );
+    case "rgb565":
+      return (
+        (expandChannel((value >> 11) & 0x1f, 5) << 16) |
+        (expandChannel((value >> 5) & 0x3f, 6) << 8) |
+        expandChannel(value & 0x1f, 5)
+      );
+  }
+}
+
 /**
  * TonX86 LCD Display - supports 2x2 to 256x256 grids
+ *
+ * Memory Map:
+ * - 0xF000-0xFFFF: pixels; the address 0xF000 + y * width + x is pixel (x, y).
+ *                  Pixels are write-only; reads return 0.
+ * - 0x10000: LCD_FORMAT    (0: mono, 1: palette, 2: RGB332, 3: RGB565; other values are ignored)
+ * - 0x10001: LCD_PAL_INDEX (palette entry accessed through LCD_PAL_DATA)
+ * - 0x10002: LCD_PAL_DATA  (0xRRGGBB of that entry; writing advances LCD_PAL_INDEX)
+ *
+ * Pixel values keep their bits when the format changes, so a program can
+ * draw first and pick the format afterwards.
  */
-export class LCDDisplay {
+export class LCDDisplay implements Device<LCDState> {
   private width: number;
   private height: number;
-  private pixels: Uint8Array;
+  private pixels: Uint16Array;
+  private format: LCDPixelFormat = "mono";
+  private palette = createDefaultPalette();
+  private paletteIndex = 0;
 
   constructor(width: number = 8, height: number = 8) {
     if (width < 2 || width > 256 || height < 2 || height > 256) {
@@ -17,7 +119,7 @@ export class LCDDisplay {
     }
     this.width = width;
     this.height = height;
-    this.pixels = new Uint8Array(width * height);
+    this.pixels = new Uint16Array(width * height);
   }
 
   getPixel(x: number, y: number): number {
@@ -31,7 +133,57 @@ export class LCDDisplay {
     if (x < 0 || x >= this.width || y < 0 || y >= this.height) {
       return;
     }
-    this.pixels[y * this.width + x] = value ? 1 : 0;
+    this.pixels[y * this.width + x] = this.toPixelValue(value);
+  }
+
+  /** Keep the bits of `value` that the current format uses */
+  private toPixelValue(value: number): number {
+    switch (this.format) {
+      case "mono":
+        return value ? 1 : 0;
+      case "rgb565":
+        return value & 0xffff;
+      default:
+        return value & 0xff;
+    }
+  }
+
+  read(offset: number): number | undefined {
+    switch (offset - LCD_REGISTER_OFFSET) {
+      case 0:
+        return LCD_PIXEL_FORMATS.indexOf(this.format);
+      case 1:
+        return this.paletteIndex;
+      case 2:
+        return this.palette[this.paletteIndex];
+      default:
+        return offset < LCD_REGISTER_OFFSET ? 0 : undefined;
+    }
+  }
+
+  /**
+   * Set the pixel at a row-major offset (offsets past the last pixel are
+   * ignored) or write a register
+   */
+  write(offset: number, value: number): void {
+    if (offset < LCD_REGISTER_OFFSET) {
+      if (offset >= 0 && offset < this.pixels.length) {
+        this.pixels[offset] = this.toPixelValue(value);
+      }
+      return;
+    }
+    switch (offset - LCD_REGISTER_OFFSET) {
+      case 0:
+        this.format = LCD_PIXEL_FORMATS[value] ?? this.format;
+        break;
+      case 1:
+        this.paletteIndex = value & 0xff;
+        break;
+      case 2:
+        this.palette[this.paletteIndex] = value & 0xffffff;
+        this.paletteIndex = (this.paletteIndex + 1) & 0xff;
+        break;
+    }
   }
 
   getWidth(): number {
@@ -42,11 +194,66 @@ export class LCDDisplay {
     return this.height;
   }
 
-  clear(): void {
+  getFormat(): LCDPixelFormat {
+    return this.format;
+  }
+
+  getPalette(): Uint32Array {
+    return new Uint32Array(this.palette);
+  }
+
+  /**
+   * Colour (0xRRGGBB) of every pixel in the current format
+   */
+  getColors(): Uint32Array {
+    const colors = new Uint32Array(this.pixels.length);
+    for (let i = 0; i < this.pixels.length; i++) {
+      colors[i] = lcdPixelToRGB(this.pixels[i], this.format, this.palette);
+    }
+    return colors;
+  }
+
+  reset(): void {
     this.pixels.fill(0);
+    this.format = "mono";
+    this.palette = createDefaultPalette();
+    this.paletteIndex = 0;
+  }
+
+  getDisplay(): Uint16Array {
+    return new Uint16Array(this.pixels);
+  }
+
+  getRegisters(): LCDRegisters {
+    return { format: this.format, palette: this.getPalette(), paletteIndex: this.paletteIndex };
   }
 
-  getDisplay(): Uint8Array {
-    return new Uint8Array(this.pixels);
+  setRegisters(registers: LCDRegisters): void {
+    this.format = registers.format;
+    this.palette = new Uint32Array(registers.palette);
+    this.paletteIndex = registers.paletteIndex;
+  }
+
+  snapshot(): LCDState {
+    return {
+      width: this.width,
+      height: this.height,
+      pixels: this.getDisplay(),
+      ...this.getRegisters(),
+    };
+  }
+
+  /**
+   * Restore pixels and registers saved from a display of the same dimensions
+   */
+  restore(state: LCDState): void {
+    if (state.width !== this.width || state.height !== this.height) {
+      throw new Error(
+        `LCD state is ${state.width}x${state.height} but display is ${this.width}x${this.height}`,
+      );
+    }
+    this.pixels.fill(0);
+    this.pixels.set(state.pixels.subarray(0, this.pixels.length));
+    this.setRegisters(state);
   }
 }
@@ -84,4 +84,18 @@ describe("Memory", () => {
       expect(small.readA(255)).toBe(2);
     });
   });
+
+  describe("saveState/loadState", () => {
+    test("restores both banks and clears other bytes", () => {
+      memory.writeA(0x10, 1);
+      memory.writeB(0x20, 2);
+      const state = memory.saveState();
+      memory.writeA(0x30, 3);
+      memory.loadState(state);
+      expect(memory.readA(0x10)).toBe(1);
+      expect(memory.readB(0x20)).toBe(2);
+      expect(memory.readA(0x30)).toBe(0);
+      expect(memory.getSize()).toBe(65536);
+    });
+  });
 });
@@ -1,3 +1,11 @@
+/**
+ * Contents of both memory banks
+ */
+export interface MemoryState {
+  bankA: Uint8Array;
+  bankB: Uint8Array;
+}
+
 /**
  * TonX86 Memory - supports two separate memory banks (A and B)
  */
@@ -10,6 +18,13 @@ export class Memory {
     this.bankB = new Uint8Array(size);
   }
 
+  /**
+   * Size of each bank in bytes
+   */
+  getSize(): number {
+    return this.bankA.length;
+  }
+
   readA(address: number): number {
     return this.bankA[address] || 0;
   }
@@ -30,4 +45,20 @@ export class Memory {
     this.bankA.fill(0);
     this.bankB.fill(0);
   }
+
+  /**
+   * Copy both banks
+   */
+  saveState(): MemoryState {
+    return { bankA: new Uint8Array(this.bankA), bankB: new Uint8Array(this.bankB) };
+  }
+
+  /**
+   * Replace both banks; bytes beyond the bank size are ignored
+   */
+  loadState(state: MemoryState): void {
+    this.clear();
+    this.bankA.set(state.bankA.subarray(0, this.bankA.length));
+    this.bankB.set(state.bankB.subarray(0, this.bankB.length));
+  }
 }
@@ -0,0 +1,82 @@
+import { PIC, IRQ_KEYBOARD, IRQ_TIMER, DEFAULT_IRQ_VECTOR_BASE } from "./pic";
+
+describe("PIC", () => {
+  let pic: PIC;
+
+  beforeEach(() => {
+    pic = new PIC();
+  });
+
+  test("has no pending IRQ after reset", () => {
+    expect(pic.getPendingIRQ()).toBe(-1);
+    expect(pic.read(4)).toBe(DEFAULT_IRQ_VECTOR_BASE);
+  });
+
+  test("acknowledge moves an IRQ from IRR to ISR and returns its vector", () => {
+    pic.raise(IRQ_KEYBOARD);
+    expect(pic.read(0)).toBe(0b10);
+    expect(pic.getPendingIRQ()).toBe(IRQ_KEYBOARD);
+    expect(pic.acknowledge(IRQ_KEYBOARD)).toBe(0x09);
+    expect(pic.read(0)).toBe(0);
+    expect(pic.read(2)).toBe(0b10);
+  });
+
+  test("IRQ0 has the highest priority", () => {
+    pic.raise(IRQ_KEYBOARD);
+    pic.raise(IRQ_TIMER);
+    expect(pic.getPendingIRQ()).toBe(IRQ_TIMER);
+  });
+
+  test("masked IRQs stay pending but are not delivered", () => {
+    pic.write(1, 0b10);
+    pic.raise(IRQ_KEYBOARD);
+    expect(pic.getPendingIRQ()).toBe(-1);
+    pic.write(1, 0);
+    expect(pic.getPendingIRQ()).toBe(IRQ_KEYBOARD);
+  });
+
+  test("an IRQ in service blocks equal and lower priority requests until EOI", () => {
+    pic.raise(IRQ_TIMER);
+    pic.acknowledge(pic.getPendingIRQ());
+    pic.raise(IRQ_TIMER);
+    pic.raise(IRQ_KEYBOARD);
+    expect(pic.getPendingIRQ()).toBe(-1);
+    pic.write(3, 0); // EOI
+    expect(pic.getPendingIRQ()).toBe(IRQ_TIMER);
+  });
+
+  test("a higher priority IRQ can preempt one in service", () => {
+    pic.raise(IRQ_KEYBOARD);
+    pic.acknowledge(IRQ_KEYBOARD);
+    pic.raise(IRQ_TIMER);
+    expect(pic.getPendingIRQ()).toBe(IRQ_TIMER);
+  });
+
+  test("setLevel clears a request when the line goes inactive", () => {
+    pic.setLevel(IRQ_KEYBOARD, true);
+    pic.setLevel(IRQ_KEYBOARD, false);
+    expect(pic.getPendingIRQ()).toBe(-1);
+  });
+
+  test("writing IRR cancels requests and VECTOR relocates IRQs", () => {
+    pic.raise(IRQ_TIMER);
+    pic.raise(IRQ_KEYBOARD);
+    pic.write(0, 0b01);
+    expect(pic.read(0)).toBe(0b10);
+    pic.write(4, 0x20);
+    expect(pic.acknowledge(IRQ_KEYBOARD)).toBe(0x21);
+  });
+
+  test("rejects invalid IRQ lines", () => {
+    expect(() => pic.raise(8)).toThrow("Invalid IRQ line: 8");
+  });
+
+  test("snapshot and restore round-trip", () => {
+    pic.raise(IRQ_KEYBOARD);
+    pic.write(1, 0x80);
+    const state = pic.snapshot();
+    pic.reset();
+    pic.restore(state);
+    expect(pic.snapshot()).toEqual({ irr: 0b10, imr: 0x80, isr: 0, vectorBase: 8 });
+  });
+});
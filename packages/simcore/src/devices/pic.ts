@@ -0,0 +1,172 @@
+/**
+ * TonX86 Programmable Interrupt Controller - 8 maskable IRQ lines
+ *
+ * Memory Map:
+ * - 0x10300: PIC_IRR    (read: pending requests; write: 1 bits cancel requests)
+ * - 0x10301: PIC_IMR    (interrupt mask, bit n = 1 masks IRQn)
+ * - 0x10302: PIC_ISR    (read: IRQs currently being serviced)
+ * - 0x10303: PIC_EOI    (write: end of interrupt for the highest-priority ISR bit)
+ * - 0x10304: PIC_VECTOR (vector number of IRQ0; IRQn uses VECTOR + n)
+ *
+ * IRQ0 has the highest priority. Lines:
+ * - IRQ0: timer tick
+ * - IRQ1: keyboard (asserted while a key event is available)
+ * - IRQ4: UART (asserted while received data is available, if enabled)
+ */
+
+import type { Device } from "./bus";
+
+/** Number of IRQ lines */
+export const IRQ_COUNT = 8;
+
+/** IRQ line of the timer */
+export const IRQ_TIMER = 0;
+
+/** IRQ line of the keyboard */
+export const IRQ_KEYBOARD = 1;
+
+/** IRQ line of the UART (COM1 on the PC) */
+export const IRQ_UART = 4;
+
+/** Default vector of IRQ0 (IRQ0 -> INT 08h, IRQ1 -> INT 09h, as on the PC) */
+export const DEFAULT_IRQ_VECTOR_BASE = 0x08;
+
+/**
+ * Interrupt descriptor table in memory bank A: 256 little-endian 32-bit
+ * handler code addresses (vector n at IDT_BASE + 4n, 0 = no handler)
+ */
+export const IDT_BASE = 0x1c00;
+
+/** Size of the interrupt descriptor table in bytes */
+export const IDT_SIZE = 256 * 4;
+
+/**
+ * PIC register values
+ */
+export interface PICState {
+  irr: number;
+  imr: number;
+  isr: number;
+  vectorBase: number;
+}
+
+export class PIC implements Device<PICState> {
+  private irr: number = 0; // Interrupt request register
+  private imr: number = 0; // Interrupt mask register
+  private isr: number = 0; // In-service register
+  private vectorBase: number = DEFAULT_IRQ_VECTOR_BASE;
+
+  /**
+   * Latch an interrupt request (edge-triggered sources)
+   */
+  raise(irq: number): void {
+    if (irq < 0 || irq >= IRQ_COUNT) {
+      throw new Error(`Invalid IRQ line: ${irq}`);
+    }
+    this.irr |= 1 << irq;
+  }
+
+  /**
+   * Drive a level-triggered line: the request is pending exactly while the line is active
+   */
+  setLevel(irq: number, active: boolean): void {
+    if (active) {
+      this.raise(irq);
+    } else {
+      this.irr &= ~(1 << irq);
+    }
+  }
+
+  /**
+   * Highest-priority IRQ that can be delivered now, or -1. A request is
+   * deliverable when it is unmasked and no equal or higher priority IRQ is in service.
+   */
+  getPendingIRQ(): number {
+    const ready = this.irr & ~this.imr;
+    for (let irq = 0; irq < IRQ_COUNT; irq++) {
+      if (this.isr & (1 << irq)) return -1;
+      if (ready & (1 << irq)) return irq;
+    }
+    return -1;
+  }
+
+  /**
+   * Move an IRQ from pending to in-service and return its interrupt vector
+   */
+  acknowledge(irq: number): number {
+    this.irr &= ~(1 << irq);
+    this.isr |= 1 << irq;
+    return (this.vectorBase + irq) & 0xff;
+  }
+
+  /**
+   * End of interrupt: clear the highest-priority in-service IRQ
+   */
+  endOfInterrupt(): void {
+    for (let irq = 0; irq < IRQ_COUNT; irq++) {
+      if (this.isr & (1 << irq)) {
+        this.isr &= ~(1 << irq);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Write to a PIC register
+   */
+  write(offset: number, value: number): void {
+    switch (offset) {
+      case 0: // PIC_IRR
+        this.irr &= ~value & 0xff;
+        break;
+      case 1: // PIC_IMR
+        this.imr = value & 0xff;
+        break;
+      case 3: // PIC_EOI
+        this.endOfInterrupt();
+        break;
+      case 4: // PIC_VECTOR
+        this.vectorBase = value & 0xff;
+        break;
+    }
+  }
+
+  /**
+   * Read from a PIC register
+   */
+  read(offset: number): number {
+    switch (offset) {
+      case 0: // PIC_IRR
+        return this.irr;
+      case 1: // PIC_IMR
+        return this.imr;
+      case 2: // PIC_ISR
+        return this.isr;
+      case 4: // PIC_VECTOR
+        return this.vectorBase;
+      default:
+        return 0;
+    }
+  }
+
+  snapshot(): PICState {
+    return { irr: this.irr, imr: this.imr, isr: this.isr, vectorBase: this.vectorBase };
+  }
+
+  restore(state: PICState): void {
+    this.irr = state.irr & 0xff;
+    this.imr = state.imr & 0xff;
+    this.isr = state.isr & 0xff;
+    this.vectorBase = state.vectorBase & 0xff;
+  }
+
+  /**
+   * Clear device state
+   */
+  reset(): void {
+    this.irr = 0;
+    this.imr = 0;
+    this.isr = 0;
+    this.vectorBase = DEFAULT_IRQ_VECTOR_BASE;
+  }
+}
@@ -0,0 +1,138 @@
+import {
+  TextDisplay,
+  TEXT_ATTRIBUTE_OFFSET,
+  TEXT_REGISTER_OFFSET,
+  TEXT_MAX_CELLS,
+  TEXT_DEFAULT_ATTRIBUTE,
+} from "./text";
+import { Simulator } from "../simulator/index";
+import { parseSnapshot, serializeSnapshot } from "../simulator/snapshot";
+
+const CURSOR_X = TEXT_REGISTER_OFFSET;
+const CURSOR_Y = TEXT_REGISTER_OFFSET + 1;
+const CTRL = TEXT_REGISTER_OFFSET + 2;
+const COLS = TEXT_REGISTER_OFFSET + 3;
+const ROWS = TEXT_REGISTER_OFFSET + 4;
+const CLEAR = TEXT_REGISTER_OFFSET + 5;
+
+describe("TextDisplay class", () => {
+  test("defaults to 80x25 blank cells with a visible cursor", () => {
+    const text = new TextDisplay();
+    expect(text.read(COLS)).toBe(80);
+    expect(text.read(ROWS)).toBe(25);
+    expect(text.read(CTRL)).toBe(1);
+    expect(text.read(0)).toBe(0x20);
+    expect(text.read(TEXT_ATTRIBUTE_OFFSET)).toBe(TEXT_DEFAULT_ATTRIBUTE);
+    expect(text.getLines()).toHaveLength(25);
+    expect(text.getLines()[0]).toBe(" ".repeat(80));
+  });
+
+  test("constructor validates dimensions", () => {
+    expect(() => new TextDisplay(0, 25)).toThrow("Text display must have between 1 and");
+    expect(() => new TextDisplay(100, 100)).toThrow(`${TEXT_MAX_CELLS} cells`);
+    expect(new TextDisplay(40, 10).getColumns()).toBe(40);
+  });
+
+  test("characters and attributes are addressed row by row", () => {
+    const text = new TextDisplay(4, 2);
+    text.write(5, "A".charCodeAt(0));
+    text.write(TEXT_ATTRIBUTE_OFFSET + 5, 0x1e);
+    expect(text.getLines()).toEqual(["    ", " A  "]);
+    expect(text.read(TEXT_ATTRIBUTE_OFFSET + 5)).toBe(0x1e);
+  });
+
+  test("writes past the grid are ignored", () => {
+    const text = new TextDisplay(4, 2);
+    text.write(8, 0x41);
+    text.write(TEXT_ATTRIBUTE_OFFSET + 8, 0x41);
+    expect(text.read(8)).toBe(0);
+    expect(text.getLines().join("")).toBe(" ".repeat(8));
+  });
+
+  test("cursor registers are clamped to the grid", () => {
+    const text = new TextDisplay(4, 2);
+    text.write(CURSOR_X, 3);
+    text.write(CURSOR_Y, 9);
+    expect(text.read(CURSOR_X)).toBe(3);
+    expect(text.read(CURSOR_Y)).toBe(1);
+    text.write(CTRL, 0);
+    expect(text.read(CTRL)).toBe(0);
+  });
+
+  test("TEXT_CLEAR fills the grid and homes the cursor", () => {
+    const text = new TextDisplay(4, 2);
+    text.write(0, 0x41);
+    text.write(CURSOR_X, 2);
+    text.write(CLEAR, 0x1f);
+    expect(text.getLines()).toEqual(["    ", "    "]);
+    expect(text.read(TEXT_ATTRIBUTE_OFFSET + 7)).toBe(0x1f);
+    expect(text.read(CURSOR_X)).toBe(0);
+    expect(text.read(CLEAR)).toBeUndefined();
+  });
+
+  test("snapshot/restore round-trips cells and registers", () => {
+    const text = new TextDisplay(4, 2);
+    text.write(1, 0x42);
+    text.write(CURSOR_Y, 1);
+    const state = text.snapshot();
+    text.reset();
+    expect(text.read(1)).toBe(0x20);
+    text.restore(state);
+    expect(text.read(1)).toBe(0x42);
+    expect(text.read(CURSOR_Y)).toBe(1);
+    expect(() => text.restore(new TextDisplay(8, 2).snapshot())).toThrow(
+      "Text state is 8x2 but display is 4x2",
+    );
+  });
+});
+
+describe("Text display memory-mapped I/O", () => {
+  let sim: Simulator;
+
+  beforeEach(() => {
+    sim = new Simulator(8, 8, "educational", { textColumns: 10, textRows: 3 });
+  });
+
+  test("MOV writes characters, attributes and the cursor", () => {
+    sim.executeInstruction("MOV", ["0x1100B", "0x48"]); // 'H' at (1, 1)
+    sim.executeInstruction("MOV", ["0x1180B", "0x4F"]); // white on red
+    sim.executeInstruction("MOV", ["0x11FF0", "2"]);
+    expect(sim.getTextLines()[1]).toBe(" H        ");
+    const display = sim.getTextDisplay();
+    expect(display.attributes[11]).toBe(0x4f);
+    expect(display.cursorX).toBe(2);
+    sim.executeInstruction("MOV", ["EAX", "[0x11FF3]"]);
+    expect(sim.getRegisters().EAX).toBe(10);
+  });
+
+  test("cells can be indexed with registers", () => {
+    sim.executeInstruction("MOV", ["EDI", "0x11000"]);
+    sim.executeInstruction("MOV", ["[EDI + 12]", "0x21"]);
+    expect(sim.getTextLines()[1]).toBe("  !       ");
+  });
+
+  test("step-back and snapshots restore the text display", () => {
+    sim.setHistoryDepth(100);
+    sim.loadInstructions(
+      [
+        { line: 1, mnemonic: "MOV", operands: ["0x11000", "0x41"], raw: "" },
+        { line: 2, mnemonic: "MOV", operands: ["0x11FF5", "0x17"], raw: "" },
+      ],
+      new Map(),
+    );
+    sim.step();
+    const saved = parseSnapshot(serializeSnapshot(sim.snapshot()));
+    sim.step();
+    expect(sim.getTextLines()[0]).toBe(" ".repeat(10));
+
+    sim.stepBack();
+    expect(sim.getTextLines()[0]).toBe("A" + " ".repeat(9));
+    expect(sim.getTextDisplay().attributes[0]).toBe(TEXT_DEFAULT_ATTRIBUTE);
+
+    sim.reset();
+    const other = new Simulator();
+    other.restore(saved);
+    expect(other.getTextDisplay().columns).toBe(10);
+    expect(other.getTextLines()[0]).toBe("A" + " ".repeat(9));
+  });
+});
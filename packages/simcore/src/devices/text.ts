@@ -0,0 +1,197 @@
+/**
+ * TonX86 Text Display - a grid of character cells, 80x25 by default
+ *
+ * Memory Map (offsets from 0x11000):
+ * - 0x11000 + y * columns + x: character code (0-255) of cell (x, y)
+ * - 0x11800 + y * columns + x: attribute of cell (x, y)
+ *                              (bits 0-3: foreground, bits 4-7: background, CGA colours)
+ * - 0x11FF0: TEXT_CURSOR_X (column of the cursor; clamped to the grid)
+ * - 0x11FF1: TEXT_CURSOR_Y (row of the cursor; clamped to the grid)
+ * - 0x11FF2: TEXT_CTRL     (bit 0: show the cursor; set at power-on)
+ * - 0x11FF3: TEXT_COLS     (read-only)
+ * - 0x11FF4: TEXT_ROWS     (read-only)
+ * - 0x11FF5: TEXT_CLEAR    (write-only: fill every cell with a space in the
+ *                           written attribute and move the cursor home)
+ *
+ * Cells keep what was written until they are overwritten, so programs can
+ * redraw menus and progress bars in place.
+ */
+
+import type { Device } from "./bus";
+
+/** Text display characters, attributes and registers are mapped from this address */
+export const TEXT_BASE = 0x11000;
+
+/** Offset of the attribute plane from the character plane */
+export const TEXT_ATTRIBUTE_OFFSET = 0x800;
+
+/** Offset of the registers from the device base */
+export const TEXT_REGISTER_OFFSET = 0xff0;
+
+/** Size of the text display's I/O range */
+export const TEXT_IO_SIZE = 0x1000;
+
+/** Most cells a display can have (the attribute plane ends at the registers) */
+export const TEXT_MAX_CELLS = TEXT_REGISTER_OFFSET - TEXT_ATTRIBUTE_OFFSET;
+
+/** Light grey on black */
+export const TEXT_DEFAULT_ATTRIBUTE = 0x07;
+
+/** TEXT_CTRL bit: show the cursor */
+export const TEXT_CURSOR_VISIBLE = 0x1;
+
+/**
+ * Text display dimensions, cells and registers
+ */
+export interface TextState {
+  columns: number;
+  rows: number;
+  chars: Uint8Array;
+  attributes: Uint8Array;
+  cursorX: number;
+  cursorY: number;
+  ctrl: number;
+}
+
+export class TextDisplay implements Device<TextState> {
+  private chars: Uint8Array;
+  private attributes: Uint8Array;
+  private cursorX = 0;
+  private cursorY = 0;
+  private ctrl = TEXT_CURSOR_VISIBLE;
+
+  constructor(
+    private readonly columns: number = 80,
+    private readonly rows: number = 25,
+  ) {
+    if (
+      !Number.isInteger(columns) ||
+      !Number.isInteger(rows) ||
+      columns < 1 ||
+      rows < 1 ||
+      columns * rows > TEXT_MAX_CELLS
+    ) {
+      throw new Error(`Text display must have between 1 and ${TEXT_MAX_CELLS} cells`);
+    }
+    this.chars = new Uint8Array(columns * rows).fill(0x20);
+    this.attributes = new Uint8Array(columns * rows).fill(TEXT_DEFAULT_ATTRIBUTE);
+  }
+
+  getColumns(): number {
+    return this.columns;
+  }
+
+  getRows(): number {
+    return this.rows;
+  }
+
+  read(offset: number): number | undefined {
+    if (offset < TEXT_ATTRIBUTE_OFFSET) {
+      return this.chars[offset] ?? 0;
+    }
+    if (offset < TEXT_REGISTER_OFFSET) {
+      return this.attributes[offset - TEXT_ATTRIBUTE_OFFSET] ?? 0;
+    }
+    switch (offset - TEXT_REGISTER_OFFSET) {
+      case 0:
+        return this.cursorX;
+      case 1:
+        return this.cursorY;
+      case 2:
+        return this.ctrl;
+      case 3:
+        return this.columns;
+      case 4:
+        return this.rows;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Write a cell or a register. Cells past the end of the grid are ignored.
+   */
+  write(offset: number, value: number): void {
+    if (offset < TEXT_ATTRIBUTE_OFFSET) {
+      if (offset < this.chars.length) {
+        this.chars[offset] = value & 0xff;
+      }
+      return;
+    }
+    if (offset < TEXT_REGISTER_OFFSET) {
+      if (offset - TEXT_ATTRIBUTE_OFFSET < this.attributes.length) {
+        this.attributes[offset - TEXT_ATTRIBUTE_OFFSET] = value & 0xff;
+      }
+      return;
+    }
+    switch (offset - TEXT_REGISTER_OFFSET) {
+      case 0:
+        this.cursorX = Math.min(value, this.columns - 1);
+        break;
+      case 1:
+        this.cursorY = Math.min(value, this.rows - 1);
+        break;
+      case 2:
+        this.ctrl = value & TEXT_CURSOR_VISIBLE;
+        break;
+      case 5:
+        this.clear(value & 0xff);
+        break;
+    }
+  }
+
+  /**
+   * Fill every cell with a space in `attribute` and move the cursor home
+   */
+  clear(attribute: number = TEXT_DEFAULT_ATTRIBUTE): void {
+    this.chars.fill(0x20);
+    this.attributes.fill(attribute);
+    this.cursorX = 0;
+    this.cursorY = 0;
+  }
+
+  /**
+   * The characters of each row (code 0 shows as a space)
+   */
+  getLines(): string[] {
+    const lines: string[] = [];
+    for (let y = 0; y < this.rows; y++) {
+      const row = this.chars.subarray(y * this.columns, (y + 1) * this.columns);
+      lines.push(String.fromCharCode(...row.map((code) => code || 0x20)));
+    }
+    return lines;
+  }
+
+  reset(): void {
+    this.clear();
+    this.ctrl = TEXT_CURSOR_VISIBLE;
+  }
+
+  snapshot(): TextState {
+    return {
+      columns: this.columns,
+      rows: this.rows,
+      chars: new Uint8Array(this.chars),
+      attributes: new Uint8Array(this.attributes),
+      cursorX: this.cursorX,
+      cursorY: this.cursorY,
+      ctrl: this.ctrl,
+    };
+  }
+
+  /**
+   * Restore cells and registers saved from a display of the same dimensions
+   */
+  restore(state: TextState): void {
+    if (state.columns !== this.columns || state.rows !== this.rows) {
+      throw new Error(
+        `Text state is ${state.columns}x${state.rows} but display is ${this.columns}x${this.rows}`,
+      );
+    }
+    this.chars.set(state.chars.subarray(0, this.chars.length));
+    this.attributes.set(state.attributes.subarray(0, this.attributes.length));
+    this.cursorX = state.cursorX;
+    this.cursorY = state.cursorY;
+    this.ctrl = state.ctrl;
+  }
+}
@@ -0,0 +1,69 @@
+import { Timer, TIMER_ENABLE, TIMER_IRQ_ENABLE } from "./timer";
+
+describe("Timer", () => {
+  let timer: Timer;
+
+  beforeEach(() => {
+    timer = new Timer();
+  });
+
+  test("does not count while disabled", () => {
+    timer.write(1, 10);
+    expect(timer.advance(50)).toBe(0);
+    expect(timer.read(2)).toBe(10);
+  });
+
+  test("writing the reload value restarts the count", () => {
+    timer.write(0, TIMER_ENABLE);
+    timer.write(1, 10);
+    timer.advance(4);
+    expect(timer.read(2)).toBe(6);
+    timer.write(1, 20);
+    expect(timer.read(2)).toBe(20);
+  });
+
+  test("expires and reloads every period", () => {
+    timer.write(0, TIMER_ENABLE);
+    timer.write(1, 10);
+    expect(timer.advance(9)).toBe(0);
+    expect(timer.advance(1)).toBe(1);
+    expect(timer.read(2)).toBe(10);
+    expect(timer.advance(25)).toBe(2);
+    expect(timer.read(2)).toBe(5);
+  });
+
+  test("status is set on expiry and cleared by reading", () => {
+    timer.write(0, TIMER_ENABLE);
+    timer.write(1, 3);
+    timer.advance(3);
+    expect(timer.read(3)).toBe(1);
+    expect(timer.read(3)).toBe(0);
+  });
+
+  test("a reload value of 0 stops the timer", () => {
+    timer.write(0, TIMER_ENABLE);
+    timer.write(1, 0);
+    expect(timer.advance(100)).toBe(0);
+    expect(timer.read(3)).toBe(0);
+  });
+
+  test("interrupts require both the enable and IRQ bits", () => {
+    timer.write(0, TIMER_IRQ_ENABLE);
+    expect(timer.isInterruptEnabled()).toBe(false);
+    timer.write(0, TIMER_ENABLE | TIMER_IRQ_ENABLE);
+    expect(timer.isInterruptEnabled()).toBe(true);
+  });
+
+  test("snapshots, restores and resets its registers", () => {
+    timer.write(0, TIMER_ENABLE);
+    timer.write(1, 8);
+    timer.advance(8);
+    const state = timer.snapshot();
+    expect(state).toEqual({ ctrl: 1, reload: 8, counter: 8, status: 1 });
+
+    timer.reset();
+    expect(timer.snapshot()).toEqual({ ctrl: 0, reload: 0, counter: 0, status: 0 });
+    timer.restore(state);
+    expect(timer.snapshot()).toEqual(state);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * TonX86 Programmable Interval Timer - counts down in simulated CPU cycles
+ *
+ * Memory Map:
+ * - 0x10400: TIMER_CTRL   (bit 0: enable, bit 1: raise IRQ0 on expiry)
+ * - 0x10401: TIMER_RELOAD (period in cycles; writing also restarts the count)
+ * - 0x10402: TIMER_COUNT  (cycles left until the next expiry; writable)
+ * - 0x10403: TIMER_STATUS (bit 0: expired since last read; cleared by reading)
+ *
+ * When the count reaches zero the timer expires, sets STATUS bit 0 and reloads
+ * from TIMER_RELOAD, so it fires every RELOAD cycles. A reload value of 0 stops it.
+ */
+
+import type { Device } from "./bus";
+
+/** TIMER_CTRL bit: count down */
+export const TIMER_ENABLE = 0x1;
+
+/** TIMER_CTRL bit: request IRQ0 on every expiry */
+export const TIMER_IRQ_ENABLE = 0x2;
+
+/**
+ * Timer register values
+ */
+export interface TimerState {
+  ctrl: number;
+  reload: number;
+  counter: number;
+  status: number;
+}
+
+export class Timer implements Device<TimerState> {
+  private ctrl: number = 0;
+  private reload: number = 0;
+  private counter: number = 0;
+  private status: number = 0;
+
+  /**
+   * @param onInterrupt Called when the timer expires with interrupts enabled (raises IRQ0)
+   */
+  constructor(private readonly onInterrupt?: () => void) {}
+
+  /**
+   * Count down by the cycles an instruction took and request an interrupt
+   * if the timer expired with TIMER_IRQ_ENABLE set
+   */
+  tick(cycles: number): void {
+    if (this.advance(cycles) > 0 && this.isInterruptEnabled()) {
+      this.onInterrupt?.();
+    }
+  }
+
+  /**
+   * Count down by the cycles an instruction took. Returns the number of
+   * times the timer expired.
+   */
+  advance(cycles: number): number {
+    if (!(this.ctrl & TIMER_ENABLE) || this.reload === 0 || cycles <= 0) {
+      return 0;
+    }
+    if (this.counter === 0) {
+      this.counter = this.reload;
+    }
+    if (cycles < this.counter) {
+      this.counter -= cycles;
+      return 0;
+    }
+
+    const overrun = cycles - this.counter;
+    this.counter = this.reload - (overrun % this.reload);
+    this.status |= 1;
+    return 1 + Math.floor(overrun / this.reload);
+  }
+
+  /**
+   * Whether expiries should raise IRQ0
+   */
+  isInterruptEnabled(): boolean {
+    return (this.ctrl & (TIMER_ENABLE | TIMER_IRQ_ENABLE)) === (TIMER_ENABLE | TIMER_IRQ_ENABLE);
+  }
+
+  /**
+   * Write to a timer register
+   */
+  write(offset: number, value: number): void {
+    switch (offset) {
+      case 0: // TIMER_CTRL
+        this.ctrl = value & (TIMER_ENABLE | TIMER_IRQ_ENABLE);
+        break;
+      case 1: // TIMER_RELOAD
+        this.reload = value >>> 0;
+        this.counter = this.reload;
+        break;
+      case 2: // TIMER_COUNT
+        this.counter = value >>> 0;
+        break;
+    }
+  }
+
+  /**
+   * Read from a timer register
+   */
+  read(offset: number): number {
+    switch (offset) {
+      case 0: // TIMER_CTRL
+        return this.ctrl;
+      case 1: // TIMER_RELOAD
+        return this.reload;
+      case 2: // TIMER_COUNT
+        return this.counter;
+      case 3: {
+        // TIMER_STATUS
+        const status = this.status;
+        this.status = 0;
+        return status;
+      }
+      default:
+        return 0;
+    }
+  }
+
+  snapshot(): TimerState {
+    return {
+      ctrl: this.ctrl,
+      reload: this.reload,
+      counter: this.counter,
+      status: this.status,
+    };
+  }
+
+  restore(state: TimerState): void {
+    this.ctrl = state.ctrl & (TIMER_ENABLE | TIMER_IRQ_ENABLE);
+    this.reload = state.reload >>> 0;
+    this.counter = state.counter >>> 0;
+    this.status = state.status & 1;
+  }
+
+  /**
+   * Clear device state
+   */
+  reset(): void {
+    this.ctrl = 0;
+    this.reload = 0;
+    this.counter = 0;
+    this.status = 0;
+  }
+}
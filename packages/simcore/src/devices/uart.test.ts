@@ -0,0 +1,183 @@
+import {
+  Uart,
+  UART_FIFO_SIZE,
+  UART_RX_READY,
+  UART_TX_READY,
+  UART_OVERRUN,
+  UART_RX_IRQ_ENABLE,
+} from "./uart";
+import { IDT_BASE } from "./pic";
+import { Simulator } from "../simulator/index";
+import type { Instruction } from "../types";
+
+const DATA = 0;
+const STATUS = 1;
+const CTRL = 2;
+const RX_COUNT = 3;
+
+function instr(mnemonic: string, operands: string[] = [], line = 1): Instruction {
+  return { line, mnemonic, operands, raw: `${mnemonic} ${operands.join(", ")}`.trim() };
+}
+
+describe("Uart class", () => {
+  let uart: Uart;
+
+  beforeEach(() => {
+    uart = new Uart();
+  });
+
+  test("received bytes are read in order", () => {
+    expect(uart.read(STATUS)).toBe(UART_TX_READY);
+    expect(uart.receive([0x41, 0x142])).toBe(2);
+    expect(uart.read(STATUS)).toBe(UART_RX_READY | UART_TX_READY);
+    expect(uart.read(RX_COUNT)).toBe(2);
+    expect(uart.read(DATA)).toBe(0x41);
+    expect(uart.read(DATA)).toBe(0x42);
+    expect(uart.read(DATA)).toBe(0); // Empty
+    expect(uart.read(RX_COUNT)).toBe(0);
+  });
+
+  test("written bytes are queued for the host", () => {
+    uart.write(DATA, 0x68);
+    uart.write(DATA, 0x169);
+    expect(uart.takeTransmitted()).toEqual([0x68, 0x69]);
+    expect(uart.takeTransmitted()).toEqual([]);
+  });
+
+  test("a full receive FIFO drops input and reports an overrun once", () => {
+    expect(uart.receive(new Array(UART_FIFO_SIZE + 3).fill(1))).toBe(UART_FIFO_SIZE);
+    expect(uart.getReceiveSpace()).toBe(0);
+    expect(uart.read(STATUS)).toBe(UART_RX_READY | UART_TX_READY | UART_OVERRUN);
+    expect(uart.read(STATUS)).toBe(UART_RX_READY | UART_TX_READY);
+  });
+
+  test("a full transmit FIFO clears TX ready and drops writes", () => {
+    for (let i = 0; i < UART_FIFO_SIZE + 1; i++) {
+      uart.write(DATA, i);
+    }
+    expect(uart.read(STATUS)).toBe(0);
+    expect(uart.takeTransmitted()).toHaveLength(UART_FIFO_SIZE);
+    expect(uart.read(STATUS)).toBe(UART_TX_READY);
+  });
+
+  test("the receive interrupt follows CTRL and the FIFO", () => {
+    uart.receive([1]);
+    expect(uart.isInterruptPending()).toBe(false);
+    uart.write(CTRL, 0xff);
+    expect(uart.read(CTRL)).toBe(UART_RX_IRQ_ENABLE);
+    expect(uart.isInterruptPending()).toBe(true);
+    uart.read(DATA);
+    expect(uart.isInterruptPending()).toBe(false);
+  });
+
+  test("unknown registers read as undefined", () => {
+    expect(uart.read(4)).toBeUndefined();
+  });
+
+  test("rewind puts read bytes back and keeps newer host input", () => {
+    uart.receive([1, 2]);
+    const before = uart.snapshot();
+    uart.read(DATA);
+    uart.write(DATA, 9);
+    uart.receive([3]);
+    uart.rewind(before);
+    expect(uart.read(RX_COUNT)).toBe(3);
+    expect([uart.read(DATA), uart.read(DATA), uart.read(DATA)]).toEqual([1, 2, 3]);
+    expect(uart.takeTransmitted()).toEqual([]);
+  });
+
+  test("rewind cannot unsend output the host already took", () => {
+    uart.write(DATA, 1);
+    const before = uart.snapshot();
+    uart.write(DATA, 2);
+    expect(uart.takeTransmitted()).toEqual([1, 2]);
+    uart.rewind(before);
+    expect(uart.takeTransmitted()).toEqual([]);
+  });
+
+  test("reset empties both FIFOs", () => {
+    uart.receive([1]);
+    uart.write(DATA, 2);
+    uart.write(CTRL, 1);
+    uart.reset();
+    expect(uart.snapshot()).toEqual({ rx: [], tx: [], ctrl: 0, overrun: false, rxTaken: 0 });
+  });
+});
+
+describe("UART memory-mapped I/O", () => {
+  let sim: Simulator;
+
+  beforeEach(() => {
+    sim = new Simulator();
+  });
+
+  test("a program echoes its input in upper case", () => {
+    sim.loadInstructions(
+      [
+        instr("MOV", ["EAX", "[0x10503]"], 1),
+        instr("CMP", ["EAX", "0"], 2),
+        instr("JE", ["done"], 3),
+        instr("MOV", ["EAX", "[0x10500]"], 4),
+        instr("SUB", ["EAX", "32"], 5),
+        instr("MOV", ["[0x10500]", "EAX"], 6),
+        instr("JMP", ["loop"], 7),
+        instr("HLT", [], 8),
+      ],
+      new Map([
+        ["loop", 0],
+        ["done", 7],
+      ]),
+    );
+    expect(sim.pushSerialInput("abc")).toBe(3);
+    sim.run();
+    expect(String.fromCharCode(...sim.takeSerialOutput())).toBe("ABC");
+    expect(sim.getSerialInputSpace()).toBe(UART_FIFO_SIZE);
+  });
+
+  test("received data raises IRQ4 when enabled", () => {
+    sim.loadInstructions(
+      [
+        instr("MOV", ["[0x10502]", "1"], 1),
+        instr("STI", [], 2),
+        instr("JMP", ["idle"], 3),
+        instr("MOV", ["EBX", "[0x10500]"], 4),
+        instr("MOV", ["[0x10303]", "0"], 5),
+        instr("IRET", [], 6),
+      ],
+      new Map([["idle", 2]]),
+    );
+    const handler = sim.getAssembledProgram().instructions[3].address;
+    sim.executeInstruction("MOV", [`[${IDT_BASE + 0x0c * 4}]`, `${handler}`]); // IRQ4 -> INT 0Ch
+    sim.step();
+    sim.step();
+    sim.step();
+    expect(sim.getEIP()).toBe(2); // Nothing received yet
+
+    sim.pushSerialInput([0x7a]);
+    sim.step(); // JMP, then IRQ4 is delivered
+    expect(sim.getEIP()).toBe(3);
+    sim.step();
+    expect(sim.getRegisters().EBX).toBe(0x7a);
+  });
+
+  test("stepBack restores a byte that was read", () => {
+    sim.setHistoryDepth(100);
+    sim.loadInstructions([instr("MOV", ["EAX", "[0x10500]"], 1), instr("HLT", [], 2)], new Map());
+    sim.pushSerialInput("x");
+    sim.step();
+    expect(sim.getRegisters().EAX).toBe(0x78);
+    sim.stepBack();
+    expect(sim.getUartState().rx).toEqual([0x78]);
+  });
+
+  test("snapshots carry the FIFOs", () => {
+    sim.pushSerialInput("in");
+    sim.executeInstruction("MOV", ["[0x10500]", "0x21"]);
+    const snapshot = sim.snapshot();
+
+    const other = new Simulator();
+    other.restore(snapshot);
+    expect(other.getUartState().rx).toEqual([0x69, 0x6e]);
+    expect(other.takeSerialOutput()).toEqual([0x21]);
+  });
+});
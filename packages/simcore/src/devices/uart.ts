@@ -0,0 +1,174 @@
+/**
+ * TonX86 UART - a serial port with receive and transmit FIFOs
+ *
+ * Memory Map:
+ * - 0x10500: UART_DATA     (read: pop the oldest received byte, 0 if none;
+ *                           write: queue a byte for transmission)
+ * - 0x10501: UART_STATUS   (bit 0: received data available, bit 1: room in the
+ *                           transmit FIFO, bit 2: received bytes were lost since
+ *                           the last read; reading clears bit 2)
+ * - 0x10502: UART_CTRL     (bit 0: assert IRQ4 while received data is available)
+ * - 0x10503: UART_RX_COUNT (read-only: bytes waiting in the receive FIFO)
+ *
+ * The host fills the receive FIFO with receive() and drains the transmit FIFO
+ * with takeTransmitted(). Bytes received while the receive FIFO is full and
+ * bytes written while the transmit FIFO is full are dropped.
+ */
+
+import type { Device } from "./bus";
+
+/** Capacity of each FIFO in bytes */
+export const UART_FIFO_SIZE = 4096;
+
+/** UART_STATUS bit: the receive FIFO is not empty */
+export const UART_RX_READY = 0x1;
+
+/** UART_STATUS bit: the transmit FIFO has room */
+export const UART_TX_READY = 0x2;
+
+/** UART_STATUS bit: received bytes were dropped because the receive FIFO was full */
+export const UART_OVERRUN = 0x4;
+
+/** UART_CTRL bit: assert IRQ4 while received data is available */
+export const UART_RX_IRQ_ENABLE = 0x1;
+
+/**
+ * FIFO contents and register values
+ */
+export interface UartState {
+  rx: number[];
+  tx: number[];
+  ctrl: number;
+  overrun: boolean;
+  /** Bytes read from UART_DATA since reset */
+  rxTaken: number;
+}
+
+export class Uart implements Device<UartState> {
+  private rx: number[] = [];
+  private tx: number[] = [];
+  private ctrl: number = 0;
+  private overrun: boolean = false;
+  private rxTaken: number = 0;
+
+  /**
+   * Add bytes to the receive FIFO. Returns how many fit; the rest are dropped
+   * and flagged as an overrun.
+   */
+  receive(bytes: ArrayLike<number>): number {
+    const accepted = Math.min(bytes.length, UART_FIFO_SIZE - this.rx.length);
+    for (let i = 0; i < accepted; i++) {
+      this.rx.push(bytes[i] & 0xff);
+    }
+    if (accepted < bytes.length) {
+      this.overrun = true;
+    }
+    return accepted;
+  }
+
+  /**
+   * Free space in the receive FIFO
+   */
+  getReceiveSpace(): number {
+    return UART_FIFO_SIZE - this.rx.length;
+  }
+
+  /**
+   * Remove and return everything in the transmit FIFO
+   */
+  takeTransmitted(): number[] {
+    const bytes = this.tx;
+    this.tx = [];
+    return bytes;
+  }
+
+  getStatus(): number {
+    return (
+      (this.rx.length > 0 ? UART_RX_READY : 0) |
+      (this.tx.length < UART_FIFO_SIZE ? UART_TX_READY : 0) |
+      (this.overrun ? UART_OVERRUN : 0)
+    );
+  }
+
+  /**
+   * Whether IRQ4 should be asserted
+   */
+  isInterruptPending(): boolean {
+    return (this.ctrl & UART_RX_IRQ_ENABLE) !== 0 && this.rx.length > 0;
+  }
+
+  read(offset: number): number | undefined {
+    switch (offset) {
+      case 0: // UART_DATA
+        if (this.rx.length === 0) {
+          return 0;
+        }
+        this.rxTaken++;
+        return this.rx.shift();
+      case 1: {
+        // UART_STATUS
+        const status = this.getStatus();
+        this.overrun = false;
+        return status;
+      }
+      case 2: // UART_CTRL
+        return this.ctrl;
+      case 3: // UART_RX_COUNT
+        return this.rx.length;
+      default:
+        return undefined;
+    }
+  }
+
+  write(offset: number, value: number): void {
+    switch (offset) {
+      case 0: // UART_DATA
+        if (this.tx.length < UART_FIFO_SIZE) {
+          this.tx.push(value & 0xff);
+        }
+        break;
+      case 2: // UART_CTRL
+        this.ctrl = value & UART_RX_IRQ_ENABLE;
+        break;
+    }
+  }
+
+  reset(): void {
+    this.rx = [];
+    this.tx = [];
+    this.ctrl = 0;
+    this.overrun = false;
+    this.rxTaken = 0;
+  }
+
+  snapshot(): UartState {
+    return {
+      rx: [...this.rx],
+      tx: [...this.tx],
+      ctrl: this.ctrl,
+      overrun: this.overrun,
+      rxTaken: this.rxTaken,
+    };
+  }
+
+  restore(state: UartState): void {
+    this.rx = [...state.rx];
+    this.tx = [...state.tx];
+    this.ctrl = state.ctrl;
+    this.overrun = state.overrun;
+    this.rxTaken = state.rxTaken;
+  }
+
+  /**
+   * Undo a step from the state saved before it. Bytes the step read go back to
+   * the front of the receive FIFO and bytes it transmitted are removed. Input
+   * the host added since is kept; output the host already took cannot be unsent.
+   */
+  rewind(state: UartState): void {
+    const rx = [...state.rx.slice(0, this.rxTaken - state.rxTaken), ...this.rx];
+    const tx = this.tx.slice(0, Math.min(this.tx.length, state.tx.length));
+    this.restore(state);
+    this.rx = rx;
+    this.tx = tx;
+  }
+}
@@ -88,4 +88,32 @@ describe("Flag Semantics - Arithmetic", () => {
       expect(sim.getState().registers[0]).toBe(4);
     });
   });
+
+  describe("PF/AF", () => {
+    it("sets PF when the low byte of the result has an even number of 1 bits", () => {
+      sim.executeInstruction("MOV", ["EAX", "0x100"]);
+      sim.executeInstruction("ADD", ["EAX", "2"]); // low byte 0x02: one bit
+      expect(sim.isParityFlagSet()).toBe(false);
+      sim.executeInstruction("ADD", ["EAX", "1"]); // low byte 0x03: two bits
+      expect(sim.isParityFlagSet()).toBe(true);
+      sim.executeInstruction("SUB", ["EAX", "3"]); // low byte 0x00
+      expect(sim.isParityFlagSet()).toBe(true);
+    });
+
+    it("sets AF on a carry out of bit 3", () => {
+      sim.executeInstruction("MOV", ["EAX", "0x0F"]);
+      sim.executeInstruction("ADD", ["EAX", "1"]);
+      expect(sim.isAuxiliaryCarryFlagSet()).toBe(true);
+      sim.executeInstruction("ADD", ["EAX", "1"]);
+      expect(sim.isAuxiliaryCarryFlagSet()).toBe(false);
+    });
+
+    it("sets AF on a borrow into bit 3", () => {
+      sim.executeInstruction("MOV", ["EAX", "0x10"]);
+      sim.executeInstruction("CMP", ["EAX", "1"]);
+      expect(sim.isAuxiliaryCarryFlagSet()).toBe(true);
+      sim.executeInstruction("CMP", ["EAX", "0x10"]);
+      expect(sim.isAuxiliaryCarryFlagSet()).toBe(false);
+    });
+  });
 });
@@ -1,5 +1,9 @@
+import { getWidthMask, type OperandWidth } from "../types";
+
 // Flag bit positions
 const CF_BIT = 0x01; // Carry flag (bit 0)
+const PF_BIT = 0x04; // Parity flag (bit 2)
+const AF_BIT = 0x10; // Auxiliary carry flag (bit 4)
 const ZF_BIT = 0x40; // Zero flag (bit 6)
 const SF_BIT = 0x80; // Sign flag (bit 7)
 const OF_BIT = 0x800; // Overflow flag (bit 11)
@@ -7,11 +11,16 @@ const OF_BIT = 0x800; // Overflow flag (bit 11)
 /**
  * Update Zero and Sign flags only (helper for other flag methods).
  * @param flags - current flags value
- * @param result - the 32-bit result value
+ * @param result - the result value
+ * @param width - operand size in bits (the sign bit is bit width-1)
  */
-export function computeZeroAndSignFlags(flags: number, result: number): number {
+export function computeZeroAndSignFlags(
+  flags: number,
+  result: number,
+  width: OperandWidth = 32,
+): number {
   let f = flags;
-  const result32 = result >>> 0;
+  const result32 = (result & getWidthMask(width)) >>> 0;
 
   // Zero flag (bit 6)
   if (result32 === 0) {
@@ -21,7 +30,7 @@ export function computeZeroAndSignFlags(flags: number, result: number): number {
   }
 
   // Sign flag (bit 7)
-  if ((result32 & 0x80000000) !== 0) {
+  if ((result32 >>> (width - 1)) & 1) {
     f |= SF_BIT;
   } else {
     f &= ~SF_BIT;
@@ -31,38 +40,56 @@ export function computeZeroAndSignFlags(flags: number, result: number): number {
 }
 
 /**
- * Update CPU flags based on arithmetic result with Carry and Overflow.
+ * Update the Parity flag: set if the low byte of the result has an even
+ * number of 1 bits, whatever the operand size.
+ * @param flags - current flags value
+ * @param result - the result value
+ */
+export function computeParityFlag(flags: number, result: number): number {
+  let bits = result & 0xff;
+  bits ^= bits >> 4;
+  bits ^= bits >> 2;
+  bits ^= bits >> 1;
+  return bits & 1 ? flags & ~PF_BIT : flags | PF_BIT;
+}
+
+/**
+ * Operands and result of an addition or subtraction
+ */
+export interface ArithOperands {
+  result: number; // The result (truncated to `width` bits)
+  dest: number; // Original destination value (unsigned)
+  src: number; // Source value (unsigned)
+  width: OperandWidth; // Operand size in bits; values are truncated to this width
+}
+
+/**
+ * Update CPU flags based on arithmetic result with Carry, Overflow,
+ * Parity and Auxiliary carry.
  * Per x86 specification (ref: UVA CS216 x86 Guide).
  * @param flags - current flags value
- * @param result - the masked 32-bit result
- * @param destVal - original destination value (unsigned)
- * @param srcVal - source value (unsigned)
+ * @param operands - the operands, result and operand size
  * @param isSubtraction - true for SUB/CMP/DEC/NEG operations
  */
 export function computeArithFlags(
   flags: number,
-  result: number,
-  destVal: number,
-  srcVal: number,
+  operands: ArithOperands,
   isSubtraction: boolean,
 ): number {
-  let f = flags;
-  const result32 = result >>> 0;
-  const dest32 = destVal >>> 0;
-  const src32 = srcVal >>> 0;
+  const { width } = operands;
+  const mask = getWidthMask(width);
+  const result32 = (operands.result & mask) >>> 0;
+  const dest32 = (operands.dest & mask) >>> 0;
+  const src32 = (operands.src & mask) >>> 0;
 
-  // Zero flag (bit 6)
-  if (result32 === 0) {
-    f |= ZF_BIT;
-  } else {
-    f &= ~ZF_BIT;
-  }
+  let f = computeZeroAndSignFlags(flags, result32, width);
+  f = computeParityFlag(f, result32);
 
-  // Sign flag (bit 7)
-  if ((result32 & 0x80000000) !== 0) {
-    f |= SF_BIT;
+  // Auxiliary carry flag (bit 4) - carry or borrow out of bit 3 (for BCD)
+  if ((dest32 ^ src32 ^ result32) & 0x10) {
+    f |= AF_BIT;
   } else {
-    f &= ~SF_BIT;
+    f &= ~AF_BIT;
   }
 
   // Carry flag (bit 0) - unsigned overflow/borrow
@@ -83,9 +110,9 @@ export function computeArithFlags(
   }
 
   // Overflow flag (bit 11) - signed overflow
-  const destSign = (dest32 & 0x80000000) !== 0;
-  const srcSign = (src32 & 0x80000000) !== 0;
-  const resultSign = (result32 & 0x80000000) !== 0;
+  const destSign = ((dest32 >>> (width - 1)) & 1) !== 0;
+  const srcSign = ((src32 >>> (width - 1)) & 1) !== 0;
+  const resultSign = ((result32 >>> (width - 1)) & 1) !== 0;
   if (isSubtraction) {
     // Overflow if: positive - negative = negative, or negative - positive = positive
     if (destSign !== srcSign && resultSign !== destSign) {
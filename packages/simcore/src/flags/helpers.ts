@@ -1,13 +1,23 @@
 // Flag bit positions
 const CF_BIT = 0x01; // Carry flag (bit 0)
-const ZF_BIT = 0x40; // Zero flag (bit 6)
+const PF_BIT = 0x04; // Parity flag (bit 2)
+const AF_BIT = 0x10; // Auxiliary carry flag (bit 4)
 const SF_BIT = 0x80; // Sign flag (bit 7)
 
+/** Zero flag (ZF, bit 6) */
+export const ZERO_FLAG = 0x40;
+
+/** Interrupt enable flag (IF, bit 9) */
+export const INTERRUPT_FLAG = 0x200;
+
+/** Direction flag (DF, bit 10): string instructions step downwards when set */
+export const DIRECTION_FLAG = 0x400;
+
 /**
  * Check if the Zero flag (ZF, bit 6) is set
  */
 export function isZeroFlagSet(flags: number): boolean {
-  return (flags & ZF_BIT) !== 0;
+  return (flags & ZERO_FLAG) !== 0;
 }
 
 /**
@@ -24,9 +34,37 @@ export function isCarryFlagSet(flags: number): boolean {
   return (flags & CF_BIT) !== 0;
 }
 
+/**
+ * Check if the Parity flag (PF, bit 2) is set
+ */
+export function isParityFlagSet(flags: number): boolean {
+  return (flags & PF_BIT) !== 0;
+}
+
+/**
+ * Check if the Auxiliary carry flag (AF, bit 4) is set
+ */
+export function isAuxiliaryCarryFlagSet(flags: number): boolean {
+  return (flags & AF_BIT) !== 0;
+}
+
 /**
  * Check if the Overflow flag (OF, bit 11) is set
  */
 export function isOverflowFlagSet(flags: number): boolean {
   return (flags & 0x800) !== 0;
 }
+
+/**
+ * Check if the Interrupt flag (IF, bit 9) is set
+ */
+export function isInterruptFlagSet(flags: number): boolean {
+  return (flags & INTERRUPT_FLAG) !== 0;
+}
+
+/**
+ * Check if the Direction flag (DF, bit 10) is set
+ */
+export function isDirectionFlagSet(flags: number): boolean {
+  return (flags & DIRECTION_FLAG) !== 0;
+}
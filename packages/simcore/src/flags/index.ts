@@ -1,5 +1,17 @@
-export { isZeroFlagSet, isSignFlagSet, isCarryFlagSet, isOverflowFlagSet } from "./helpers";
-export { computeArithFlags, computeZeroAndSignFlags } from "./arithmetic";
+export {
+  isZeroFlagSet,
+  isSignFlagSet,
+  isCarryFlagSet,
+  isOverflowFlagSet,
+  isInterruptFlagSet,
+  isParityFlagSet,
+  isAuxiliaryCarryFlagSet,
+  isDirectionFlagSet,
+  ZERO_FLAG,
+  INTERRUPT_FLAG,
+  DIRECTION_FLAG,
+} from "./helpers";
+export { computeArithFlags, computeZeroAndSignFlags, computeParityFlag } from "./arithmetic";
 export { computeLogicalFlags } from "./logical";
 export { computeShiftFlags } from "./shift";
 export { computeRotateFlags } from "./rotate";
@@ -95,4 +95,16 @@ describe("Flag Semantics - Logical", () => {
       expect((sim.getState().flags & 0x800) !== 0).toBe(false); // OF cleared
     });
   });
+
+  describe("PF/AF", () => {
+    it("sets PF from the low byte of the result and clears AF", () => {
+      sim.executeInstruction("MOV", ["EAX", "0x0F"]);
+      sim.executeInstruction("ADD", ["EAX", "1"]); // AF set
+      sim.executeInstruction("AND", ["EAX", "0xFF30"]); // low byte 0x10: one bit
+      expect(sim.isParityFlagSet()).toBe(false);
+      expect(sim.isAuxiliaryCarryFlagSet()).toBe(false);
+      sim.executeInstruction("OR", ["EAX", "0x01"]); // low byte 0x11: two bits
+      expect(sim.isParityFlagSet()).toBe(true);
+    });
+  });
 });
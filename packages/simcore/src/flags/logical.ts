@@ -1,33 +1,46 @@
+import { getWidthMask, type OperandWidth } from "../types";
+import { computeParityFlag } from "./arithmetic";
+
 // Flag bit positions
 const CF_BIT = 0x01; // Carry flag (bit 0)
+const AF_BIT = 0x10; // Auxiliary carry flag (bit 4)
 const ZF_BIT = 0x40; // Zero flag (bit 6)
 const SF_BIT = 0x80; // Sign flag (bit 7)
 const OF_BIT = 0x800; // Overflow flag (bit 11)
 
 /**
- * Update CPU flags based on result (Zero and Sign only).
- * Used for logical operations that clear C and O flags.
+ * Update CPU flags based on result (Zero, Sign and Parity).
+ * Used for logical operations that clear C, O and A flags.
+ * @param width - operand size in bits (the sign bit is bit width-1)
  */
-export function computeLogicalFlags(flags: number, result: number): number {
+export function computeLogicalFlags(
+  flags: number,
+  result: number,
+  width: OperandWidth = 32,
+): number {
   let f = flags;
+  const masked = (result & getWidthMask(width)) >>> 0;
 
   // Set Zero flag if result is zero
-  if (result === 0) {
+  if (masked === 0) {
     f |= ZF_BIT;
   } else {
     f &= ~ZF_BIT;
   }
 
-  // Set Sign flag if result is negative (bit 31 set)
-  if ((result & 0x80000000) !== 0) {
+  // Set Sign flag if result is negative (top bit set)
+  if ((masked >>> (width - 1)) & 1) {
     f |= SF_BIT;
   } else {
     f &= ~SF_BIT;
   }
 
-  // Clear Carry and Overflow for logical operations
+  f = computeParityFlag(f, masked);
+
+  // Clear Carry and Overflow for logical operations (AF is undefined; cleared)
   f &= ~CF_BIT;
   f &= ~OF_BIT;
+  f &= ~AF_BIT;
 
   return f;
 }
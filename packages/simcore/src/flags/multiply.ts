@@ -1,4 +1,4 @@
-import type { CompatibilityMode } from "../types";
+import type { CompatibilityMode, OperandWidth } from "../types";
 import { computeZeroAndSignFlags } from "./arithmetic";
 
 // Flag bit positions
@@ -11,15 +11,17 @@ const OF_BIT = 0x800; // Overflow flag (bit 11)
  * Update flags for multiply instructions (MUL, IMUL).
  * Per x86 specification for multiplication.
  * @param flags - current flags value
- * @param lower - lower 32 bits of result (in EAX)
- * @param upper - upper 32 bits of result (in EDX)
+ * @param lower - lower half of the result (in AL, AX or EAX)
+ * @param upper - upper half of the result (in AH, DX or EDX); non-zero sets CF and OF
  * @param compatibilityMode - current compatibility mode
+ * @param width - operand size in bits (the sign bit of `lower` is bit width-1)
  */
 export function computeMultiplyFlags(
   flags: number,
   lower: number,
   upper: number,
   compatibilityMode: CompatibilityMode,
+  width: OperandWidth = 32,
 ): number {
   let f = flags;
   const upper32 = upper >>> 0;
@@ -35,7 +37,7 @@ export function computeMultiplyFlags(
 
   // ZF and SF: Keep for educational mode (undefined in strict x86)
   if (compatibilityMode === "educational") {
-    f = computeZeroAndSignFlags(f, lower);
+    f = computeZeroAndSignFlags(f, lower, width);
   } else {
     // In strict-x86 mode, ZF and SF are undefined - clear them
     f &= ~ZF_BIT;
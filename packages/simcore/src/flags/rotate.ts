@@ -1,4 +1,4 @@
-import type { CompatibilityMode } from "../types";
+import { getWidthMask, type CompatibilityMode, type OperandWidth } from "../types";
 import { computeZeroAndSignFlags } from "./arithmetic";
 
 // Flag bit positions
@@ -9,14 +9,14 @@ const OF_BIT = 0x800; // Overflow flag (bit 11)
  * Update flags for rotate instructions (ROL, ROR).
  * Per x86 specification for rotate operations.
  * @param flags - current flags value
- * @param result - the rotated result
+ * @param rotated - the rotated result and the operand size
  * @param count - the rotate count
  * @param rotateType - the type of rotate operation
  * @param compatibilityMode - current compatibility mode
  */
 export function computeRotateFlags(
   flags: number,
-  result: number,
+  rotated: { result: number; width: OperandWidth },
   count: number,
   rotateType: "ROL" | "ROR",
   compatibilityMode: CompatibilityMode,
@@ -25,7 +25,8 @@ export function computeRotateFlags(
   if (count === 0) return flags;
 
   let f = flags;
-  const result32 = result >>> 0;
+  const { width } = rotated;
+  const result32 = (rotated.result & getWidthMask(width)) >>> 0;
 
   // CF: Bit rotated into CF
   if (rotateType === "ROL") {
@@ -38,7 +39,7 @@ export function computeRotateFlags(
     }
   } else {
     // For ROR, CF gets the MSB of result (bit rotated from LSB to MSB)
-    const cf = (result32 >>> 31) & 1;
+    const cf = (result32 >>> (width - 1)) & 1;
     if (cf) {
       f |= CF_BIT;
     } else {
@@ -48,7 +49,7 @@ export function computeRotateFlags(
 
   // OF: Only affected for single-bit rotates
   if (count === 1) {
-    const msb = (result32 >>> 31) & 1;
+    const msb = (result32 >>> (width - 1)) & 1;
     if (rotateType === "ROL") {
       // OF = MSB of result XOR CF
       const cf = f & CF_BIT ? 1 : 0;
@@ -59,7 +60,7 @@ export function computeRotateFlags(
       }
     } else {
       // ROR: OF = MSB XOR (MSB-1)
-      const msb1 = (result32 >>> 30) & 1;
+      const msb1 = (result32 >>> (width - 2)) & 1;
       if (msb !== msb1) {
         f |= OF_BIT;
       } else {
@@ -73,7 +74,7 @@ export function computeRotateFlags(
 
   // For educational mode, also update ZF and SF (undefined in strict x86)
   if (compatibilityMode === "educational") {
-    f = computeZeroAndSignFlags(f, result32);
+    f = computeZeroAndSignFlags(f, result32, width);
   }
 
   return f;
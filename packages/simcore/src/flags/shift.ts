@@ -1,22 +1,30 @@
-import { computeZeroAndSignFlags } from "./arithmetic";
+import { getWidthMask, type OperandWidth } from "../types";
+import { computeParityFlag, computeZeroAndSignFlags } from "./arithmetic";
 
 // Flag bit positions
 const CF_BIT = 0x01; // Carry flag (bit 0)
 const OF_BIT = 0x800; // Overflow flag (bit 11)
 
+/**
+ * Result and operand of a shift
+ */
+export interface ShiftOperands {
+  result: number; // The shifted result
+  original: number; // The value before shifting
+  width: OperandWidth; // Operand size in bits; values are truncated to this width
+}
+
 /**
  * Update flags for shift instructions (SHL, SHR, SAR).
  * Per x86 specification for shift operations.
  * @param flags - current flags value
- * @param result - the shifted result
- * @param originalValue - the value before shifting
+ * @param operands - the shifted result, the value before shifting and the operand size
  * @param rawCount - the raw shift count (before masking)
  * @param shiftType - the type of shift operation
  */
 export function computeShiftFlags(
   flags: number,
-  result: number,
-  originalValue: number,
+  operands: ShiftOperands,
   rawCount: number,
   shiftType: "SHL" | "SHR" | "SAR",
 ): number {
@@ -27,29 +35,34 @@ export function computeShiftFlags(
   if (count === 0) return flags;
 
   let f = flags;
-  const result32 = result >>> 0;
-  const original32 = originalValue >>> 0;
+  const { width } = operands;
+  const mask = getWidthMask(width);
+  const result32 = (operands.result & mask) >>> 0;
+  const original32 = (operands.original & mask) >>> 0;
 
-  // Update ZF and SF based on result
-  f = computeZeroAndSignFlags(f, result32);
+  // Update ZF, SF and PF based on result
+  f = computeZeroAndSignFlags(f, result32, width);
+  f = computeParityFlag(f, result32);
 
   // CF: Last bit shifted out
   if (shiftType === "SHL") {
     // For left shift, CF gets the bit shifted out from MSB
-    if (rawCount <= 32) {
-      const cf = (original32 >>> (32 - count)) & 1;
+    if (rawCount <= 32 && count <= width) {
+      const cf = (original32 >>> (width - count)) & 1;
       if (cf) {
         f |= CF_BIT;
       } else {
         f &= ~CF_BIT;
       }
     } else {
-      // RawCount > 32, all bits shifted out, CF = 0
+      // All bits shifted out, CF = 0
       f &= ~CF_BIT;
     }
   } else {
-    // For right shifts (SHR, SAR), CF gets the last bit shifted out from LSB
-    const cf = (original32 >>> (count - 1)) & 1;
+    // For right shifts (SHR, SAR), CF gets the last bit shifted out from LSB;
+    // SAR shifts in copies of the sign bit from above the operand
+    const shifted = shiftType === "SAR" ? (original32 << (32 - width)) >> (32 - width) : original32;
+    const cf = (shifted >>> (count - 1)) & 1;
     if (cf) {
       f |= CF_BIT;
     } else {
@@ -61,7 +74,7 @@ export function computeShiftFlags(
   if (count === 1) {
     if (shiftType === "SHL") {
       // OF = MSB of result XOR CF
-      const msb = (result32 >>> 31) & 1;
+      const msb = (result32 >>> (width - 1)) & 1;
       const cf = f & CF_BIT ? 1 : 0;
       if (msb !== cf) {
         f |= OF_BIT;
@@ -70,7 +83,7 @@ export function computeShiftFlags(
       }
     } else if (shiftType === "SHR") {
       // OF = MSB of original operand
-      const originalMsb = (original32 >>> 31) & 1;
+      const originalMsb = (original32 >>> (width - 1)) & 1;
       if (originalMsb) {
         f |= OF_BIT;
       } else {
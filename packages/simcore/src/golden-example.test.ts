@@ -144,11 +144,10 @@ describe("Example - Edge Cases", () => {
   it("Division by zero handling", () => {
     sim.executeInstruction("MOV", ["EAX", "100"]);
     sim.executeInstruction("MOV", ["EBX", "0"]);
-    sim.executeInstruction("DIV", ["EBX"]);
+    expect(() => sim.executeInstruction("DIV", ["EBX"])).toThrow("#DE");
 
-    // Per implementation, DIV by zero sets result to 0
-    expect(sim.getRegisters().EAX).toBe(0);
-    expect(sim.getRegisters().EDX).toBe(0);
+    // The faulting DIV leaves EAX untouched
+    expect(sim.getRegisters().EAX).toBe(100);
   });
 
   it("Shift left by large amount", () => {
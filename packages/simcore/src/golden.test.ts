@@ -386,14 +386,13 @@ describe("Golden Test Suite - Arithmetic Instructions", () => {
       it(test.name, () => runGoldenTest(test));
     });
 
-    it("DIV by zero sets result to zero", () => {
+    it("DIV by zero raises #DE", () => {
       sim.executeInstruction("MOV", ["EAX", "10"]);
       sim.executeInstruction("MOV", ["EBX", "0"]);
-      sim.executeInstruction("DIV", ["EBX"]);
+      expect(() => sim.executeInstruction("DIV", ["EBX"])).toThrow("#DE Divide error");
 
-      // Per implementation, DIV by zero sets result to 0
       const regs = sim.getRegisters();
-      expect(regs.EAX).toBe(0);
+      expect(regs.EAX).toBe(10);
       expect(regs.EDX).toBe(0);
     });
   });
@@ -34,7 +34,7 @@ describe("index exports", () => {
     expect(lcd.getPixel(0, 0)).toBe(1);
     expect(lcd.getWidth()).toBe(4);
     expect(lcd.getHeight()).toBe(4);
-    lcd.clear();
+    lcd.reset();
     expect(lcd.getPixel(0, 0)).toBe(0);
     expect(lcd.getDisplay().length).toBe(16);
   });
@@ -47,7 +47,7 @@ describe("index exports", () => {
     expect(kb.getKeyCode()).toBe(65);
     expect(kb.getKeyState()).toBe(1);
     expect(kb.popKey()).toBe(true);
-    kb.clear();
+    kb.reset();
     expect(kb.getStatus()).toBe(0);
   });
 
@@ -1,9 +1,60 @@
 // Re-export everything via the simulator barrel (which re-exports peripheral classes)
 export { Simulator } from "./simulator/index";
-export type { CompatibilityMode, Instruction } from "./types";
-export { REGISTER_MAP, REGISTER8_MAP } from "./types";
-export type { AudioEvent } from "./devices";
+export type {
+  CompatibilityMode,
+  ExecutionMode,
+  Instruction,
+  RunOptions,
+  RunResult,
+  SimulatorOptions,
+  StopReason,
+} from "./types";
+export { REGISTER_MAP, REGISTER16_MAP, REGISTER8_MAP } from "./types";
+export type {
+  AudioEnvelope,
+  AudioEvent,
+  AudioNote,
+  AudioWaveform,
+  Device,
+  DeviceMapping,
+  LCDPixelFormat,
+  TextState,
+} from "./devices";
+export { LCD_PIXEL_FORMATS, lcdPixelToRGB, TEXT_CURSOR_VISIBLE } from "./devices";
+export {
+  AUDIO_CHANNELS,
+  AUDIO_QUEUE_SIZE,
+  renderAudio,
+  encodeWav,
+  getAudioEndTime,
+  MAX_AUDIO_RENDER_MS,
+} from "./devices";
+export { serializeSnapshot, parseSnapshot, SNAPSHOT_VERSION } from "./simulator/snapshot";
+export type { SimulatorSnapshot } from "./simulator/snapshot";
+export { DEFAULT_HISTORY_DEPTH } from "./simulator/history";
+export { assembleProgram, decodeInstruction, OPCODE_TABLE } from "./assembler";
+export type { AssembledProgram, AssembledInstruction, DecodedInstruction } from "./assembler";
 
 // Also export individual modules for consumers who want fine-grained imports
-export { CPUState } from "./cpu/index";
-export { Memory, LCDDisplay, Keyboard, AudioDevice } from "./devices";
+export { CPUState, CYCLE_TABLE, getInstructionCycles } from "./cpu/index";
+export { SimulatorException, EXCEPTION_VECTORS, EXCEPTION_NAMES } from "./cpu/index";
+export type { ExceptionType } from "./cpu/index";
+export {
+  Memory,
+  LCDDisplay,
+  Keyboard,
+  AudioDevice,
+  PIC,
+  Timer,
+  TextDisplay,
+  Uart,
+  DeviceBus,
+} from "./devices";
+export {
+  IDT_BASE,
+  IDT_SIZE,
+  IRQ_TIMER,
+  IRQ_KEYBOARD,
+  IRQ_UART,
+  DEFAULT_IRQ_VECTOR_BASE,
+} from "./devices";
@@ -1,4 +1,5 @@
 import { Simulator } from "../simulator/index";
+import { SimulatorException } from "../cpu/index";
 
 describe("executeInstruction - ADD", () => {
   let sim: Simulator;
@@ -359,12 +360,12 @@ describe("executeInstruction - DIV/IDIV", () => {
     expect(() => sim.executeInstruction("DIV", [])).not.toThrow();
   });
 
-  test("IDIV with zero divisor sets EAX and EDX to 0", () => {
+  test("DIV and IDIV with zero divisor raise #DE", () => {
     sim.executeInstruction("MOV", ["EAX", "100"]);
     sim.executeInstruction("MOV", ["ECX", "0"]);
-    sim.executeInstruction("IDIV", ["ECX"]);
-    expect(sim.getRegisters().EAX).toBe(0);
-    expect(sim.getRegisters().EDX).toBe(0);
+    expect(() => sim.executeInstruction("DIV", ["ECX"])).toThrow(SimulatorException);
+    expect(() => sim.executeInstruction("IDIV", ["ECX"])).toThrow("#DE");
+    expect(sim.getRegisters().EAX).toBe(100);
   });
 
   test("IDIV operand guard", () => {
@@ -392,10 +393,10 @@ describe("executeInstruction - MOD", () => {
     expect(sim.getRegisters().EAX).toBe(2);
   });
 
-  test("MOD instruction with zero divisor sets result to 0", () => {
+  test("MOD instruction with zero divisor raises #DE", () => {
     sim.executeInstruction("MOV", ["EAX", "10"]);
-    sim.executeInstruction("MOD", ["EAX", "0"]);
-    expect(sim.getRegisters().EAX).toBe(0);
+    expect(() => sim.executeInstruction("MOD", ["EAX", "0"])).toThrow("#DE");
+    expect(sim.getRegisters().EAX).toBe(10);
   });
 
   test("MOD instruction with invalid operands does nothing", () => {
@@ -477,3 +478,180 @@ describe("Arithmetic - non-register destination branches", () => {
     expect(sim.getRegisters().EAX).toBe(5);
   });
 });
+
+describe("executeInstruction - 16-bit arithmetic", () => {
+  let sim: Simulator;
+
+  beforeEach(() => {
+    sim = new Simulator();
+    sim.executeInstruction("MOV", ["EAX", "0x12340000"]);
+  });
+
+  test("ADD carries out of bit 15 and preserves the upper word", () => {
+    sim.executeInstruction("MOV", ["AX", "0xFFFF"]);
+    sim.executeInstruction("ADD", ["AX", "1"]);
+    expect(sim.getRegisters().EAX).toBe(0x12340000);
+    expect(sim.isCarryFlagSet()).toBe(true);
+    expect(sim.isZeroFlagSet()).toBe(true);
+  });
+
+  test("ADD sets overflow and sign at 16 bits", () => {
+    sim.executeInstruction("MOV", ["AX", "0x7FFF"]);
+    sim.executeInstruction("ADD", ["AX", "1"]);
+    expect(sim.getRegisters().EAX).toBe(0x12348000);
+    expect(sim.isOverflowFlagSet()).toBe(true);
+    expect(sim.isSignFlagSet()).toBe(true);
+  });
+
+  test("SUB borrows at 16 bits", () => {
+    sim.executeInstruction("SUB", ["AX", "1"]);
+    expect(sim.getRegisters().EAX).toBe(0x1234ffff);
+    expect(sim.isCarryFlagSet()).toBe(true);
+    expect(sim.isSignFlagSet()).toBe(true);
+  });
+
+  test("CMP compares the low words only", () => {
+    sim.executeInstruction("MOV", ["EBX", "0x56780005"]);
+    sim.executeInstruction("MOV", ["AX", "5"]);
+    sim.executeInstruction("CMP", ["AX", "BX"]);
+    expect(sim.isZeroFlagSet()).toBe(true);
+  });
+
+  test("INC, DEC and NEG wrap at 16 bits", () => {
+    sim.executeInstruction("MOV", ["CX", "0xFFFF"]);
+    sim.executeInstruction("INC", ["CX"]);
+    expect(sim.getRegisters().ECX).toBe(0);
+    expect(sim.isZeroFlagSet()).toBe(true);
+    sim.executeInstruction("DEC", ["CX"]);
+    expect(sim.getRegisters().ECX).toBe(0xffff);
+    sim.executeInstruction("MOV", ["DX", "1"]);
+    sim.executeInstruction("NEG", ["DX"]);
+    expect(sim.getRegisters().EDX).toBe(0xffff);
+    expect(sim.isCarryFlagSet()).toBe(true);
+  });
+
+  test("MUL with a word operand multiplies AX into DX:AX", () => {
+    sim.executeInstruction("MOV", ["EDX", "0xABCD0000"]);
+    sim.executeInstruction("MOV", ["AX", "0x1000"]);
+    sim.executeInstruction("MOV", ["BX", "0x0010"]);
+    sim.executeInstruction("MUL", ["BX"]);
+    expect(sim.getRegisters().EAX).toBe(0x12340000);
+    expect(sim.getRegisters().EDX).toBe(0xabcd0001);
+    expect(sim.isCarryFlagSet()).toBe(true);
+    expect(sim.isOverflowFlagSet()).toBe(true);
+  });
+
+  test("MUL with a byte operand multiplies AL into AX", () => {
+    sim.executeInstruction("MOV", ["AL", "200"]);
+    sim.executeInstruction("MOV", ["BL", "3"]);
+    sim.executeInstruction("MUL", ["BL"]);
+    expect(sim.getRegisters().EAX).toBe(0x12340258);
+  });
+
+  test("IMUL with one word operand sign-extends into DX", () => {
+    sim.executeInstruction("MOV", ["AX", "-3"]);
+    sim.executeInstruction("MOV", ["CX", "5"]);
+    sim.executeInstruction("IMUL", ["CX"]);
+    expect(sim.getRegisters().EAX).toBe(0x1234fff1);
+    expect(sim.getRegisters().EDX & 0xffff).toBe(0xffff);
+    expect(sim.isCarryFlagSet()).toBe(false); // -15 fits in AX
+  });
+
+  test("IMUL with two and three operands truncates to 16 bits", () => {
+    sim.executeInstruction("MOV", ["AX", "300"]);
+    sim.executeInstruction("MOV", ["CX", "300"]);
+    sim.executeInstruction("IMUL", ["AX", "CX"]);
+    expect(sim.getRegisters().EAX).toBe(0x12345f90); // 90000 & 0xFFFF
+    expect(sim.isOverflowFlagSet()).toBe(true);
+
+    sim.executeInstruction("IMUL", ["BX", "CX", "-2"]);
+    expect(sim.getRegisters().EBX & 0xffff).toBe(0xfda8); // -600
+    expect(sim.isOverflowFlagSet()).toBe(false);
+  });
+
+  test("DIV with a word operand divides DX:AX", () => {
+    sim.executeInstruction("MOV", ["DX", "0x0001"]);
+    sim.executeInstruction("MOV", ["AX", "0x0005"]); // DX:AX = 0x10005
+    sim.executeInstruction("MOV", ["BX", "0x10"]);
+    sim.executeInstruction("DIV", ["BX"]);
+    expect(sim.getRegisters().EAX).toBe(0x12341000);
+    expect(sim.getRegisters().EDX & 0xffff).toBe(5);
+  });
+
+  test("DIV with a byte operand divides AX into AL and AH", () => {
+    sim.executeInstruction("MOV", ["AX", "100"]);
+    sim.executeInstruction("MOV", ["BL", "7"]);
+    sim.executeInstruction("DIV", ["BL"]);
+    expect(sim.getRegisters().EAX).toBe(0x1234020e); // AH = 2, AL = 14
+  });
+
+  test("DIV raises #DE when the quotient does not fit in AX", () => {
+    sim.executeInstruction("MOV", ["DX", "1"]);
+    sim.executeInstruction("MOV", ["BX", "1"]);
+    expect(() => sim.executeInstruction("DIV", ["BX"])).toThrow(SimulatorException);
+  });
+
+  test("IDIV with a word operand divides signed DX:AX", () => {
+    sim.executeInstruction("MOV", ["DX", "0xFFFF"]);
+    sim.executeInstruction("MOV", ["AX", "-7"]); // DX:AX = -7
+    sim.executeInstruction("MOV", ["BX", "2"]);
+    sim.executeInstruction("IDIV", ["BX"]);
+    expect(sim.getRegisters().EAX & 0xffff).toBe(0xfffd); // -3
+    expect(sim.getRegisters().EDX & 0xffff).toBe(0xffff); // -1
+  });
+
+  test("MOD works on 16-bit registers", () => {
+    sim.executeInstruction("MOV", ["AX", "0xFFFF"]);
+    sim.executeInstruction("MOD", ["AX", "10"]);
+    expect(sim.getRegisters().EAX).toBe(0x12340005); // 65535 % 10
+  });
+});
+
+describe("executeInstruction - sized memory destinations", () => {
+  let sim: Simulator;
+
+  beforeEach(() => {
+    sim = new Simulator();
+  });
+
+  test("ADD BYTE PTR wraps at 8 bits and leaves the next byte alone", () => {
+    sim.executeInstruction("MOV", ["[0x100]", "0x12FF"]);
+    sim.executeInstruction("ADD", ["BYTE PTR [0x100]", "1"]);
+    expect(Array.from(sim.getMemoryA(0x100, 2))).toEqual([0x00, 0x12]);
+    expect(sim.isZeroFlagSet()).toBe(true);
+    expect(sim.isCarryFlagSet()).toBe(true);
+  });
+
+  test("SUB and NEG on WORD memory set 16-bit flags", () => {
+    sim.executeInstruction("MOV", ["EBX", "0x100"]);
+    sim.executeInstruction("SUB", ["WORD [EBX]", "1"]);
+    expect(Array.from(sim.getMemoryA(0x100, 4))).toEqual([0xff, 0xff, 0, 0]);
+    expect(sim.isSignFlagSet()).toBe(true);
+    sim.executeInstruction("NEG", ["WORD [EBX]"]);
+    expect(Array.from(sim.getMemoryA(0x100, 4))).toEqual([1, 0, 0, 0]);
+  });
+
+  test("INC and DEC update memory in place", () => {
+    sim.executeInstruction("MOV", ["[0x100]", "0x7F"]);
+    sim.executeInstruction("INC", ["BYTE PTR [0x100]"]);
+    expect(sim.getMemoryA(0x100, 1)[0]).toBe(0x80);
+    expect(sim.isOverflowFlagSet()).toBe(true);
+    sim.executeInstruction("DEC", ["DWORD PTR [0x100]"]);
+    expect(sim.getMemoryA(0x100, 1)[0]).toBe(0x7f);
+  });
+
+  test("CMP compares memory at the operand size", () => {
+    sim.executeInstruction("MOV", ["[0x100]", "0x1FF"]);
+    sim.executeInstruction("CMP", ["BYTE PTR [0x100]", "0xFF"]);
+    expect(sim.isZeroFlagSet()).toBe(true);
+    sim.executeInstruction("CMP", ["[0x100]", "0xFF"]);
+    expect(sim.isZeroFlagSet()).toBe(false);
+  });
+
+  test("a register destination reads unsized memory at its own width", () => {
+    sim.executeInstruction("MOV", ["[0x100]", "0x1234"]);
+    sim.executeInstruction("MOV", ["EAX", "0x10"]);
+    sim.executeInstruction("ADD", ["AL", "[0x100]"]);
+    expect(sim.getRegisters().EAX).toBe(0x44);
+  });
+});
@@ -1,17 +1,31 @@
-import type { ExecutionContext } from "../types";
+import type { ExecutionContext, OperandWidth, RegisterOperand } from "../types";
+import { getWidthMask, isRegisterOperand } from "../types";
+import { SimulatorException } from "../cpu/index";
 import { computeArithFlags, computeLogicalFlags, computeMultiplyFlags } from "../flags";
+import {
+  getOperandWidth,
+  isWritableOperand,
+  readOperand,
+  toSigned,
+  writeOperand,
+} from "./operands";
 
 export function executeAdd(ctx: ExecutionContext, operands: string[]): void {
   if (operands.length !== 2) return;
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type === "register") {
-    const srcValue = ctx.resolveSourceValue(src);
-    const destVal = ctx.cpu.registers[dest.value];
-    const result = (destVal + srcValue) & 0xffffffff;
-    ctx.cpu.registers[dest.value] = result;
-    ctx.cpu.flags = computeArithFlags(ctx.cpu.flags, result, destVal, srcValue, false);
+  if (isWritableOperand(dest)) {
+    const width = getOperandWidth(dest, src);
+    const srcValue = readOperand(ctx, src, width);
+    const destVal = readOperand(ctx, dest, width);
+    const result = (destVal + srcValue) & getWidthMask(width);
+    writeOperand(ctx, dest, result, width);
+    ctx.cpu.flags = computeArithFlags(
+      ctx.cpu.flags,
+      { result, dest: destVal, src: srcValue, width },
+      false,
+    );
   }
 }
 
@@ -20,12 +34,17 @@ export function executeSub(ctx: ExecutionContext, operands: string[]): void {
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type === "register") {
-    const srcValue = ctx.resolveSourceValue(src);
-    const destVal = ctx.cpu.registers[dest.value];
-    const result = (destVal - srcValue) & 0xffffffff;
-    ctx.cpu.registers[dest.value] = result;
-    ctx.cpu.flags = computeArithFlags(ctx.cpu.flags, result, destVal, srcValue, true);
+  if (isWritableOperand(dest)) {
+    const width = getOperandWidth(dest, src);
+    const srcValue = readOperand(ctx, src, width);
+    const destVal = readOperand(ctx, dest, width);
+    const result = (destVal - srcValue) & getWidthMask(width);
+    writeOperand(ctx, dest, result, width);
+    ctx.cpu.flags = computeArithFlags(
+      ctx.cpu.flags,
+      { result, dest: destVal, src: srcValue, width },
+      true,
+    );
   }
 }
 
@@ -33,13 +52,18 @@ export function executeInc(ctx: ExecutionContext, operands: string[]): void {
   if (operands.length !== 1) return;
   const dest = ctx.parseOperand(operands[0]);
 
-  if (dest.type === "register") {
-    const destVal = ctx.cpu.registers[dest.value];
-    const result = (destVal + 1) & 0xffffffff;
-    ctx.cpu.registers[dest.value] = result;
+  if (isWritableOperand(dest)) {
+    const width = getOperandWidth(dest);
+    const destVal = readOperand(ctx, dest, width);
+    const result = (destVal + 1) & getWidthMask(width);
+    writeOperand(ctx, dest, result, width);
     // INC preserves carry flag per x86 spec
     const savedCarry = ctx.cpu.flags & 0x01;
-    ctx.cpu.flags = computeArithFlags(ctx.cpu.flags, result, destVal, 1, false);
+    ctx.cpu.flags = computeArithFlags(
+      ctx.cpu.flags,
+      { result, dest: destVal, src: 1, width },
+      false,
+    );
     ctx.cpu.flags = (ctx.cpu.flags & ~0x01) | savedCarry;
   }
 }
@@ -48,65 +72,150 @@ export function executeDec(ctx: ExecutionContext, operands: string[]): void {
   if (operands.length !== 1) return;
   const dest = ctx.parseOperand(operands[0]);
 
-  if (dest.type === "register") {
-    const destVal = ctx.cpu.registers[dest.value];
-    const result = (destVal - 1) & 0xffffffff;
-    ctx.cpu.registers[dest.value] = result;
+  if (isWritableOperand(dest)) {
+    const width = getOperandWidth(dest);
+    const destVal = readOperand(ctx, dest, width);
+    const result = (destVal - 1) & getWidthMask(width);
+    writeOperand(ctx, dest, result, width);
     // DEC preserves carry flag per x86 spec
     const savedCarry = ctx.cpu.flags & 0x01;
-    ctx.cpu.flags = computeArithFlags(ctx.cpu.flags, result, destVal, 1, true);
+    ctx.cpu.flags = computeArithFlags(
+      ctx.cpu.flags,
+      { result, dest: destVal, src: 1, width },
+      true,
+    );
     ctx.cpu.flags = (ctx.cpu.flags & ~0x01) | savedCarry;
   }
 }
 
+/** Accumulator and the register holding the upper half, per operand size: AL:AH, AX:DX, EAX:EDX */
+const ACCUMULATORS: Record<OperandWidth, { low: RegisterOperand; high: RegisterOperand }> = {
+  8: {
+    low: { type: "register8", value: 0, byteOffset: 0 },
+    high: { type: "register8", value: 0, byteOffset: 8 },
+  },
+  16: { low: { type: "register16", value: 0 }, high: { type: "register16", value: 2 } },
+  32: { low: { type: "register", value: 0 }, high: { type: "register", value: 2 } },
+};
+
+/**
+ * Multiply two `width`-bit operands, splitting the product into its lower and
+ * upper halves (both `width` bits)
+ */
+function multiply(a: number, b: number, width: OperandWidth): { lower: number; upper: number } {
+  const mask = getWidthMask(width);
+  return {
+    lower: (Math.imul(a, b) & mask) >>> 0, // Exact even where a * b is not
+    upper: (Math.floor((a * b) / 2 ** width) & mask) >>> 0,
+  };
+}
+
+/**
+ * Upper half of a signed product as MUL flags see it: zero when it only
+ * sign-extends the lower half, so CF and OF report a truncated result
+ */
+function signedOverflow(lower: number, upper: number, width: OperandWidth): number {
+  const extension = toSigned(lower, width) < 0 ? getWidthMask(width) : 0;
+  return upper ^ extension;
+}
+
+/**
+ * Dividend of DIV and IDIV: EAX for 32-bit divisors (TonX86 leaves EDX out of
+ * the dividend), DX:AX for 16-bit and AX for 8-bit divisors as on x86
+ */
+function readDividend(ctx: ExecutionContext, width: OperandWidth, signed: boolean): number {
+  const { low, high } = ACCUMULATORS[width];
+  if (width === 32) {
+    const eax = readOperand(ctx, low, 32);
+    return signed ? eax | 0 : eax;
+  }
+  const dividend = readOperand(ctx, high, width) * 2 ** width + readOperand(ctx, low, width);
+  return signed ? toSigned(dividend, width === 16 ? 32 : 16) : dividend;
+}
+
+/**
+ * Store a quotient and remainder in the accumulator pair, raising #DE if the
+ * quotient does not fit the operand size
+ */
+function writeQuotient(
+  ctx: ExecutionContext,
+  width: OperandWidth,
+  quotient: number,
+  remainder: number,
+  signed: boolean,
+): void {
+  const limit = signed ? 2 ** (width - 1) : 2 ** width;
+  if (quotient >= limit || (signed && quotient < -limit)) {
+    throw new SimulatorException("DE", "Division overflow");
+  }
+  const { low, high } = ACCUMULATORS[width];
+  writeOperand(ctx, low, quotient, width);
+  writeOperand(ctx, high, remainder, width);
+  if (ctx.compatibilityMode === "educational") {
+    ctx.cpu.flags = computeLogicalFlags(ctx.cpu.flags, quotient, width);
+  } else {
+    ctx.cpu.flags &= ~0x01;
+    ctx.cpu.flags &= ~0x800;
+  }
+}
+
 export function executeMul(ctx: ExecutionContext, operands: string[]): void {
   if (operands.length !== 1) return;
   const src = ctx.parseOperand(operands[0]);
 
-  const srcValue = ctx.resolveSourceValue(src);
-  const result = (ctx.cpu.registers[0] >>> 0) * (srcValue >>> 0);
-  const lower = (result & 0xffffffff) >>> 0;
-  const upper = ((result / 0x100000000) & 0xffffffff) >>> 0;
-  ctx.cpu.registers[0] = lower; // EAX
-  ctx.cpu.registers[2] = upper; // EDX
-  ctx.cpu.flags = computeMultiplyFlags(ctx.cpu.flags, lower, upper, ctx.compatibilityMode);
+  const width = getOperandWidth(src);
+  const { low, high } = ACCUMULATORS[width];
+  const { lower, upper } = multiply(
+    readOperand(ctx, low, width),
+    readOperand(ctx, src, width),
+    width,
+  );
+  writeOperand(ctx, low, lower, width); // AL, AX or EAX
+  writeOperand(ctx, high, upper, width); // AH, DX or EDX
+  ctx.cpu.flags = computeMultiplyFlags(ctx.cpu.flags, lower, upper, ctx.compatibilityMode, width);
 }
 
 export function executeImul(ctx: ExecutionContext, operands: string[]): void {
   if (operands.length === 1) {
     const src = ctx.parseOperand(operands[0]);
-    const srcValue = ctx.resolveSourceValue(src);
-    const eaxSigned = ctx.cpu.registers[0] | 0;
-    const srcSigned = srcValue | 0;
-    const result = eaxSigned * srcSigned;
-    const lower = (result & 0xffffffff) >>> 0;
-    const upper = ((result / 0x100000000) | 0) >>> 0;
-    ctx.cpu.registers[0] = lower;
-    ctx.cpu.registers[2] = upper; // EDX
-    ctx.cpu.flags = computeMultiplyFlags(ctx.cpu.flags, lower, upper, ctx.compatibilityMode);
-  } else if (operands.length === 2) {
-    const dest = ctx.parseOperand(operands[0]);
-    const src = ctx.parseOperand(operands[1]);
-    if (dest.type !== "register") return;
-    const destSigned = ctx.cpu.registers[dest.value] | 0;
-    const srcValue = ctx.resolveSourceValue(src) | 0;
-    const result64 = destSigned * srcValue;
-    const result = (result64 & 0xffffffff) >>> 0;
-    ctx.cpu.registers[dest.value] = result;
-    const upper = ((result64 / 0x100000000) | 0) >>> 0;
-    ctx.cpu.flags = computeMultiplyFlags(ctx.cpu.flags, result, upper, ctx.compatibilityMode);
-  } else if (operands.length === 3) {
+    const width = getOperandWidth(src);
+    const { low, high } = ACCUMULATORS[width];
+    const { lower, upper } = multiply(
+      toSigned(readOperand(ctx, low, width), width),
+      toSigned(readOperand(ctx, src, width), width),
+      width,
+    );
+    writeOperand(ctx, low, lower, width);
+    writeOperand(ctx, high, upper, width);
+    const overflow = signedOverflow(lower, upper, width);
+    ctx.cpu.flags = computeMultiplyFlags(
+      ctx.cpu.flags,
+      lower,
+      overflow,
+      ctx.compatibilityMode,
+      width,
+    );
+  } else if (operands.length === 2 || operands.length === 3) {
+    // IMUL dest, src (dest * src) or IMUL dest, src, const (src * const)
     const dest = ctx.parseOperand(operands[0]);
+    if (!isRegisterOperand(dest)) return;
+    const width = getOperandWidth(dest);
     const src = ctx.parseOperand(operands[1]);
-    const con = ctx.parseOperand(operands[2]);
-    if (dest.type !== "register") return;
-    const srcValue = ctx.resolveSourceValue(src) | 0;
-    const constValue = con.value | 0;
-    const result64 = srcValue * constValue;
-    const result = (result64 & 0xffffffff) >>> 0;
-    ctx.cpu.registers[dest.value] = result;
-    const upper = ((result64 / 0x100000000) | 0) >>> 0;
-    ctx.cpu.flags = computeMultiplyFlags(ctx.cpu.flags, result, upper, ctx.compatibilityMode);
+    const factor = operands.length === 2 ? dest : ctx.parseOperand(operands[2]);
+    const { lower, upper } = multiply(
+      toSigned(readOperand(ctx, src, width), width),
+      toSigned(readOperand(ctx, factor, width), width),
+      width,
+    );
+    writeOperand(ctx, dest, lower, width);
+    const overflow = signedOverflow(lower, upper, width);
+    ctx.cpu.flags = computeMultiplyFlags(
+      ctx.cpu.flags,
+      lower,
+      overflow,
+      ctx.compatibilityMode,
+      width,
+    );
   }
 }
 
@@ -114,47 +223,26 @@ export function executeDiv(ctx: ExecutionContext, operands: string[]): void {
   if (operands.length !== 1) return;
   const src = ctx.parseOperand(operands[0]);
 
-  const srcValue = ctx.resolveSourceValue(src);
-  if (srcValue === 0) {
-    ctx.cpu.registers[0] = 0;
-    ctx.cpu.registers[2] = 0;
-  } else {
-    const dividend = ctx.cpu.registers[0] >>> 0;
-    const divisor = srcValue >>> 0;
-    ctx.cpu.registers[0] = Math.floor(dividend / divisor) >>> 0;
-    ctx.cpu.registers[2] = (dividend % divisor) >>> 0;
-  }
-
-  if (ctx.compatibilityMode === "educational") {
-    ctx.cpu.flags = computeLogicalFlags(ctx.cpu.flags, ctx.cpu.registers[0]);
-  } else {
-    ctx.cpu.flags &= ~0x01;
-    ctx.cpu.flags &= ~0x800;
+  const width = getOperandWidth(src);
+  const divisor = readOperand(ctx, src, width);
+  if (divisor === 0) {
+    throw new SimulatorException("DE", "Division by zero");
   }
+  const dividend = readDividend(ctx, width, false);
+  writeQuotient(ctx, width, Math.floor(dividend / divisor), dividend % divisor, false);
 }
 
 export function executeIdiv(ctx: ExecutionContext, operands: string[]): void {
   if (operands.length !== 1) return;
   const src = ctx.parseOperand(operands[0]);
 
-  const srcValue = ctx.resolveSourceValue(src);
-  const divisor = srcValue | 0;
-
+  const width = getOperandWidth(src);
+  const divisor = toSigned(readOperand(ctx, src, width), width);
   if (divisor === 0) {
-    ctx.cpu.registers[0] = 0;
-    ctx.cpu.registers[2] = 0;
-  } else {
-    const dividend = ctx.cpu.registers[0] | 0;
-    ctx.cpu.registers[0] = Math.trunc(dividend / divisor) >>> 0;
-    ctx.cpu.registers[2] = (dividend % divisor) >>> 0;
-  }
-
-  if (ctx.compatibilityMode === "educational") {
-    ctx.cpu.flags = computeLogicalFlags(ctx.cpu.flags, ctx.cpu.registers[0]);
-  } else {
-    ctx.cpu.flags &= ~0x01;
-    ctx.cpu.flags &= ~0x800;
+    throw new SimulatorException("DE", "Division by zero");
   }
+  const dividend = readDividend(ctx, width, true);
+  writeQuotient(ctx, width, Math.trunc(dividend / divisor), dividend % divisor, true);
 }
 
 export function executeMod(ctx: ExecutionContext, operands: string[]): void {
@@ -162,18 +250,17 @@ export function executeMod(ctx: ExecutionContext, operands: string[]): void {
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type !== "register") return;
+  if (!isRegisterOperand(dest)) return;
 
-  const srcValue = ctx.resolveSourceValue(src);
+  const width = getOperandWidth(dest, src);
+  const modValue = readOperand(ctx, src, width);
 
-  if (srcValue === 0) {
-    ctx.cpu.registers[dest.value] = 0;
-  } else {
-    const destValue = ctx.cpu.registers[dest.value] >>> 0;
-    const modValue = srcValue >>> 0;
-    ctx.cpu.registers[dest.value] = (destValue % modValue) >>> 0;
+  if (modValue === 0) {
+    throw new SimulatorException("DE", "Division by zero");
   }
-  ctx.cpu.flags = computeLogicalFlags(ctx.cpu.flags, ctx.cpu.registers[dest.value]);
+  const result = readOperand(ctx, dest, width) % modValue;
+  writeOperand(ctx, dest, result, width);
+  ctx.cpu.flags = computeLogicalFlags(ctx.cpu.flags, result, width);
 }
 
 export function executeCmp(ctx: ExecutionContext, operands: string[]): void {
@@ -181,11 +268,16 @@ export function executeCmp(ctx: ExecutionContext, operands: string[]): void {
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type === "register") {
-    const destValue = ctx.cpu.registers[dest.value];
-    const srcValue = ctx.resolveSourceValue(src);
-    const result = (destValue - srcValue) & 0xffffffff;
-    ctx.cpu.flags = computeArithFlags(ctx.cpu.flags, result, destValue, srcValue, true);
+  if (isWritableOperand(dest)) {
+    const width = getOperandWidth(dest, src);
+    const destValue = readOperand(ctx, dest, width);
+    const srcValue = readOperand(ctx, src, width);
+    const result = (destValue - srcValue) & getWidthMask(width);
+    ctx.cpu.flags = computeArithFlags(
+      ctx.cpu.flags,
+      { result, dest: destValue, src: srcValue, width },
+      true,
+    );
   }
 }
 
@@ -193,13 +285,18 @@ export function executeNeg(ctx: ExecutionContext, operands: string[]): void {
   if (operands.length !== 1) return;
   const dest = ctx.parseOperand(operands[0]);
 
-  if (dest.type === "register") {
-    const destVal = ctx.cpu.registers[dest.value];
-    const result = (0 - destVal) & 0xffffffff;
-    ctx.cpu.registers[dest.value] = result;
+  if (isWritableOperand(dest)) {
+    const width = getOperandWidth(dest);
+    const destVal = readOperand(ctx, dest, width);
+    const result = (0 - destVal) & getWidthMask(width);
+    writeOperand(ctx, dest, result, width);
 
     // NEG has special CF behavior: CF = (source != 0)
-    ctx.cpu.flags = computeArithFlags(ctx.cpu.flags, result, 0, destVal, true);
+    ctx.cpu.flags = computeArithFlags(
+      ctx.cpu.flags,
+      { result, dest: 0, src: destVal, width },
+      true,
+    );
 
     // Override CF with NEG-specific behavior
     if (destVal !== 0) {
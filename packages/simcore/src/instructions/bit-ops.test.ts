@@ -49,6 +49,18 @@ describe("executeInstruction - LAHF/SAHF (Load/Store flags)", () => {
     expect(sim.isSignFlagSet()).toBe(true);
   });
 
+  test("LAHF and SAHF transfer AF and PF", () => {
+    sim.executeInstruction("MOV", ["EAX", "0x0F"]);
+    sim.executeInstruction("ADD", ["EAX", "0x0C"]); // 0x1B: AF=1, PF=1 (four bits)
+    sim.executeInstruction("LAHF", []);
+    expect((sim.getRegisters().EAX >> 8) & 0x14).toBe(0x14);
+
+    sim.executeInstruction("MOV", ["EAX", "0x00000400"]); // AH = PF only
+    sim.executeInstruction("SAHF", []);
+    expect(sim.isParityFlagSet()).toBe(true);
+    expect(sim.isAuxiliaryCarryFlagSet()).toBe(false);
+  });
+
   test("SAHF clears flags when AH is 0", () => {
     // First set some flags
     sim.executeInstruction("MOV", ["EBX", "0"]);
@@ -92,6 +104,16 @@ describe("executeInstruction - XADD (Exchange and Add)", () => {
   test("XADD with non-register operands is ignored", () => {
     expect(() => sim.executeInstruction("XADD", ["42", "EAX"])).not.toThrow();
   });
+
+  test("XADD on 16-bit registers adds at 16 bits", () => {
+    sim.executeInstruction("MOV", ["EAX", "0x1234FFFF"]);
+    sim.executeInstruction("MOV", ["EBX", "0x56780001"]);
+    sim.executeInstruction("XADD", ["AX", "BX"]);
+    expect(sim.getRegisters().EAX).toBe(0x12340000);
+    expect(sim.getRegisters().EBX).toBe(0x5678ffff);
+    expect(sim.isCarryFlagSet()).toBe(true);
+    expect(sim.isZeroFlagSet()).toBe(true);
+  });
 });
 
 describe("executeInstruction - BSF/BSR (Bit Scan)", () => {
@@ -164,6 +186,18 @@ describe("executeInstruction - BSF/BSR (Bit Scan)", () => {
   test("BSR with non-register dest is ignored", () => {
     expect(() => sim.executeInstruction("BSR", ["42", "EBX"])).not.toThrow();
   });
+
+  test("BSF and BSR scan 16-bit registers", () => {
+    sim.executeInstruction("MOV", ["EAX", "0x12340000"]);
+    sim.executeInstruction("MOV", ["EBX", "0xFFFF0240"]); // BX bits 6 and 9
+    sim.executeInstruction("BSF", ["AX", "BX"]);
+    expect(sim.getRegisters().EAX).toBe(0x12340006);
+    sim.executeInstruction("BSR", ["AX", "BX"]);
+    expect(sim.getRegisters().EAX).toBe(0x12340009);
+    sim.executeInstruction("MOV", ["BX", "0"]);
+    sim.executeInstruction("BSR", ["AX", "BX"]); // Upper word of EBX is ignored
+    expect(sim.isZeroFlagSet()).toBe(true);
+  });
 });
 
 describe("executeInstruction - BSWAP (Byte Swap)", () => {
@@ -206,3 +240,35 @@ describe("executeInstruction - BSWAP (Byte Swap)", () => {
     expect(() => sim.executeInstruction("BSWAP", ["42"])).not.toThrow();
   });
 });
+
+describe("executeInstruction - CLC/STC/CMC (Carry flag)", () => {
+  let sim: Simulator;
+
+  beforeEach(() => {
+    sim = new Simulator();
+  });
+
+  test("STC sets and CLC clears the carry flag", () => {
+    sim.executeInstruction("STC", []);
+    expect(sim.isCarryFlagSet()).toBe(true);
+    sim.executeInstruction("CLC", []);
+    expect(sim.isCarryFlagSet()).toBe(false);
+  });
+
+  test("CMC complements the carry flag and leaves the others alone", () => {
+    sim.executeInstruction("MOV", ["EAX", "0"]);
+    sim.executeInstruction("CMP", ["EAX", "0"]); // ZF=1, CF=0
+    sim.executeInstruction("CMC", []);
+    expect(sim.isCarryFlagSet()).toBe(true);
+    expect(sim.isZeroFlagSet()).toBe(true);
+    sim.executeInstruction("CMC", []);
+    expect(sim.isCarryFlagSet()).toBe(false);
+  });
+
+  test("STC feeds a carry into RCL", () => {
+    sim.executeInstruction("MOV", ["EAX", "0"]);
+    sim.executeInstruction("STC", []);
+    sim.executeInstruction("RCL", ["EAX", "1"]);
+    expect(sim.getRegisters().EAX).toBe(1);
+  });
+});
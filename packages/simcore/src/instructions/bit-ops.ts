@@ -1,18 +1,18 @@
 import type { ExecutionContext } from "../types";
+import { getWidthMask, isRegisterOperand } from "../types";
 import { computeArithFlags } from "../flags";
+import { getOperandWidth, isWritableOperand, readOperand, writeOperand } from "./operands";
 
 // ---------------------------------------------------------------------------
 // LAHF / SAHF - Load/Store AH from/to flags
 // ---------------------------------------------------------------------------
 
+/** Flags LAHF/SAHF transfer: SF, ZF, AF, PF and CF */
+const LAHF_FLAGS = 0xd5;
+
 export function executeLahf(ctx: ExecutionContext): void {
   // LAHF: Load flags (SF:ZF:0:AF:0:PF:1:CF) into AH
-  // We store SF, ZF, CF; AF and PF are not implemented (set 0)
-  const flags = ctx.cpu.flags;
-  let ah = 0x02; // Bit 1 is always 1 in x86 EFLAGS
-  if (flags & 0x01) ah |= 0x01; // CF -> bit 0
-  if (flags & 0x40) ah |= 0x40; // ZF -> bit 6
-  if (flags & 0x80) ah |= 0x80; // SF -> bit 7
+  const ah = (ctx.cpu.flags & LAHF_FLAGS) | 0x02; // Bit 1 is always 1 in x86 EFLAGS
   // Store into AH (bits 8-15 of EAX)
   const eax = ctx.cpu.registers[0];
   ctx.cpu.registers[0] = (eax & 0xffff00ff) | (ah << 8);
@@ -21,26 +21,25 @@ export function executeLahf(ctx: ExecutionContext): void {
 export function executeSahf(ctx: ExecutionContext): void {
   // SAHF: Store AH into flags (SF:ZF:0:AF:0:PF:1:CF)
   const ah = (ctx.cpu.registers[0] >> 8) & 0xff;
-  let flags = ctx.cpu.flags;
-  // CF from bit 0
-  if (ah & 0x01) {
-    flags |= 0x01;
-  } else {
-    flags &= ~0x01;
-  }
-  // ZF from bit 6
-  if (ah & 0x40) {
-    flags |= 0x40;
-  } else {
-    flags &= ~0x40;
-  }
-  // SF from bit 7
-  if (ah & 0x80) {
-    flags |= 0x80;
-  } else {
-    flags &= ~0x80;
-  }
-  ctx.cpu.flags = flags;
+  ctx.cpu.flags = (ctx.cpu.flags & ~LAHF_FLAGS) | (ah & LAHF_FLAGS);
+}
+
+// ---------------------------------------------------------------------------
+// CLC / STC / CMC - Carry flag
+// ---------------------------------------------------------------------------
+
+const CARRY_FLAG = 0x01; // CF (bit 0)
+
+export function executeClc(ctx: ExecutionContext): void {
+  ctx.cpu.flags &= ~CARRY_FLAG;
+}
+
+export function executeStc(ctx: ExecutionContext): void {
+  ctx.cpu.flags |= CARRY_FLAG;
+}
+
+export function executeCmc(ctx: ExecutionContext): void {
+  ctx.cpu.flags ^= CARRY_FLAG;
 }
 
 // ---------------------------------------------------------------------------
@@ -52,13 +51,18 @@ export function executeXadd(ctx: ExecutionContext, operands: string[]): void {
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type === "register" && src.type === "register") {
-    const destVal = ctx.cpu.registers[dest.value];
-    const srcVal = ctx.cpu.registers[src.value];
-    const result = (destVal + srcVal) & 0xffffffff;
-    ctx.cpu.registers[src.value] = destVal; // old dest -> source
-    ctx.cpu.registers[dest.value] = result; // sum -> dest
-    ctx.cpu.flags = computeArithFlags(ctx.cpu.flags, result, destVal, srcVal, false);
+  if (isWritableOperand(dest) && isRegisterOperand(src)) {
+    const width = getOperandWidth(dest, src);
+    const destVal = readOperand(ctx, dest, width);
+    const srcVal = readOperand(ctx, src, width);
+    const result = (destVal + srcVal) & getWidthMask(width);
+    writeOperand(ctx, src, destVal, width); // old dest -> source
+    writeOperand(ctx, dest, result, width); // sum -> dest
+    ctx.cpu.flags = computeArithFlags(
+      ctx.cpu.flags,
+      { result, dest: destVal, src: srcVal, width },
+      false,
+    );
   }
 }
 
@@ -71,9 +75,10 @@ export function executeBsf(ctx: ExecutionContext, operands: string[]): void {
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type !== "register") return;
+  if (!isRegisterOperand(dest)) return;
 
-  const srcValue = ctx.resolveSourceValue(src) >>> 0;
+  const width = getOperandWidth(dest, src);
+  const srcValue = readOperand(ctx, src, width);
 
   if (srcValue === 0) {
     // ZF is set when source is 0, dest is undefined
@@ -81,9 +86,9 @@ export function executeBsf(ctx: ExecutionContext, operands: string[]): void {
   } else {
     ctx.cpu.flags &= ~0x40; // Clear ZF
     // Find least significant set bit
-    for (let i = 0; i < 32; i++) {
+    for (let i = 0; i < width; i++) {
       if ((srcValue >>> i) & 1) {
-        ctx.cpu.registers[dest.value] = i;
+        writeOperand(ctx, dest, i, width);
         break;
       }
     }
@@ -95,9 +100,10 @@ export function executeBsr(ctx: ExecutionContext, operands: string[]): void {
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type !== "register") return;
+  if (!isRegisterOperand(dest)) return;
 
-  const srcValue = ctx.resolveSourceValue(src) >>> 0;
+  const width = getOperandWidth(dest, src);
+  const srcValue = readOperand(ctx, src, width);
 
   if (srcValue === 0) {
     // ZF is set when source is 0, dest is undefined
@@ -105,9 +111,9 @@ export function executeBsr(ctx: ExecutionContext, operands: string[]): void {
   } else {
     ctx.cpu.flags &= ~0x40; // Clear ZF
     // Find most significant set bit
-    for (let i = 31; i >= 0; i--) {
+    for (let i = width - 1; i >= 0; i--) {
       if ((srcValue >>> i) & 1) {
-        ctx.cpu.registers[dest.value] = i;
+        writeOperand(ctx, dest, i, width);
         break;
       }
     }
@@ -1,4 +1,5 @@
 import { Simulator } from "../simulator/index";
+import type { Instruction } from "../types";
 
 describe("executeInstruction - Jump instructions now execute", () => {
   let sim: Simulator;
@@ -38,10 +39,8 @@ describe("executeInstruction - Jump instructions now execute", () => {
     );
   });
 
-  test("RET increments EIP when call stack is empty", () => {
-    const initialEIP = sim.getEIP();
-    sim.executeInstruction("RET", []);
-    expect(sim.getEIP()).toBe(initialEIP + 1);
+  test("RET on an empty stack raises #SS", () => {
+    expect(() => sim.executeInstruction("RET", [])).toThrow("Stack underflow");
   });
 
   test("jump instructions with wrong operand count are ignored", () => {
@@ -76,6 +75,178 @@ describe("executeInstruction - Jump instructions now execute", () => {
   });
 });
 
+describe("Indirect JMP/CALL and label values", () => {
+  let sim: Simulator;
+
+  function instr(mnemonic: string, operands: string[] = [], line = 1): Instruction {
+    return { line, mnemonic, operands, raw: `${mnemonic} ${operands.join(", ")}`.trim() };
+  }
+
+  /** Code address of the instruction at `index` */
+  function addressOf(index: number): number {
+    return sim.getAssembledProgram().instructions[index].address;
+  }
+
+  beforeEach(() => {
+    sim = new Simulator();
+  });
+
+  test("a label used as an immediate is its address", () => {
+    sim.loadInstructions(
+      [instr("MOV", ["EAX", "handler"]), instr("HLT"), instr("NOP")],
+      new Map([
+        ["handler", 2],
+        ["message", 0x2000],
+      ]),
+    );
+    sim.step();
+    expect(sim.getRegisters().EAX).toBe(addressOf(2));
+    sim.executeInstruction("MOV", ["EBX", "message"]);
+    expect(sim.getRegisters().EBX).toBe(0x2000);
+  });
+
+  test("JMP through a register", () => {
+    sim.loadInstructions(
+      [instr("MOV", ["EAX", "target"]), instr("JMP", ["EAX"]), instr("HLT"), instr("NOP")],
+      new Map([["target", 3]]),
+    );
+    sim.step();
+    sim.step();
+    expect(sim.getEIP()).toBe(3);
+  });
+
+  test("CALL through a DD table of labels", () => {
+    sim.loadInstructions(
+      [
+        instr("MOV", ["EBX", "1"]),
+        instr("CALL", ["[table + EBX*4]"]),
+        instr("HLT"),
+        instr("MOV", ["EAX", "10"]),
+        instr("RET"),
+        instr("MOV", ["EAX", "20"]),
+        instr("RET"),
+      ],
+      new Map([
+        ["case0", 3],
+        ["case1", 5],
+        ["table", 0x2000],
+      ]),
+    );
+    sim.loadData([{ address: 0x2000, size: 4, values: ["case0", "case1"] }]);
+    expect(sim.getMemoryA(0x2004, 1)[0]).toBe(addressOf(5));
+
+    sim.step(); // MOV EBX, 1
+    sim.step(); // CALL [table + EBX*4]
+    expect(sim.getEIP()).toBe(5);
+    sim.step(); // MOV EAX, 20
+    sim.step(); // RET
+    expect(sim.getEIP()).toBe(2);
+    expect(sim.getRegisters().EAX).toBe(20);
+  });
+
+  test("indirect targets are addresses in memory execution mode", () => {
+    sim.loadInstructions(
+      [instr("MOV", ["ECX", "target"]), instr("JMP", ["ECX"]), instr("HLT"), instr("NOP")],
+      new Map([["target", 3]]),
+      0x100,
+    );
+    sim.setExecutionMode("memory");
+    sim.step();
+    sim.step();
+    expect(sim.getEIP()).toBe(addressOf(3));
+    expect(sim.getCurrentInstruction()?.mnemonic).toBe("NOP");
+  });
+
+  test("an indirect target that is not an instruction raises #GP", () => {
+    sim.loadInstructions([instr("MOV", ["EAX", "0x999"]), instr("JMP", ["EAX"])], new Map());
+    sim.step();
+    expect(() => sim.step()).toThrow("Branch target address 0x999 is not an instruction");
+  });
+});
+
+describe("CALL/RET through the memory stack", () => {
+  let sim: Simulator;
+
+  function instr(mnemonic: string, operands: string[] = [], line = 1): Instruction {
+    return { line, mnemonic, operands, raw: `${mnemonic} ${operands.join(", ")}`.trim() };
+  }
+
+  function addressOf(index: number): number {
+    return sim.getAssembledProgram().instructions[index].address;
+  }
+
+  function stackTop(): number {
+    return Buffer.from(sim.getMemoryA(sim.getRegisters().ESP, 4)).readUInt32LE(0);
+  }
+
+  beforeEach(() => {
+    sim = new Simulator();
+  });
+
+  test("CALL pushes the code address of the next instruction", () => {
+    sim.loadInstructions(
+      [instr("CALL", ["func"]), instr("HLT"), instr("RET")],
+      new Map([["func", 2]]),
+      0x100,
+    );
+    sim.step();
+    expect(stackTop()).toBe(addressOf(1));
+    expect(sim.getState().callStackDepth).toBe(1);
+    sim.step();
+    expect(sim.getEIP()).toBe(1);
+    expect(sim.getState().callStackDepth).toBe(0);
+  });
+
+  test("RET returns to an overwritten return address", () => {
+    sim.loadInstructions(
+      [
+        instr("MOV", ["ESP", "0xE000"]),
+        instr("CALL", ["func"]),
+        instr("HLT"),
+        instr("MOV", ["[ESP]", "win"]), // Smash the return address
+        instr("RET"),
+        instr("MOV", ["EAX", "1"]),
+      ],
+      new Map([
+        ["func", 3],
+        ["win", 5],
+      ]),
+    );
+    for (let i = 0; i < 4; i++) sim.step();
+    expect(sim.getEIP()).toBe(5);
+    expect(sim.getRegisters().ESP).toBe(0xe000);
+  });
+
+  test("PUSH label / RET jumps to the label", () => {
+    sim.loadInstructions(
+      [instr("PUSH", ["target"]), instr("RET"), instr("HLT"), instr("NOP")],
+      new Map([["target", 3]]),
+    );
+    sim.step();
+    sim.step();
+    expect(sim.getEIP()).toBe(3);
+  });
+
+  test("return addresses are the same in memory execution mode", () => {
+    sim.loadInstructions(
+      [instr("CALL", ["func"]), instr("HLT"), instr("RET")],
+      new Map([["func", 2]]),
+      0x100,
+    );
+    sim.setExecutionMode("memory");
+    sim.step();
+    expect(stackTop()).toBe(addressOf(1));
+    sim.step();
+    expect(sim.getEIP()).toBe(addressOf(1));
+  });
+
+  test("RET to an address that is not an instruction raises #GP", () => {
+    sim.loadInstructions([instr("PUSH", ["0x999"]), instr("RET")], new Map());
+    sim.step();
+    expect(() => sim.step()).toThrow("Return address 0x999 is not an instruction");
+  });
+});
+
 describe("executeInstruction - CMOVxx (Conditional Move)", () => {
   let sim: Simulator;
 
@@ -267,6 +438,19 @@ describe("executeInstruction - CMOVxx (Conditional Move)", () => {
     sim.executeInstruction("CMOVE", ["EAX", "99"]);
     expect(sim.getRegisters().EAX).toBe(99);
   });
+
+  test("CMOVxx moves 16-bit registers and memory, keeping the upper half", () => {
+    sim.executeInstruction("MOV", ["EAX", "0x11112222"]);
+    sim.executeInstruction("MOV", ["EBX", "0x3333ABCD"]);
+    sim.executeInstruction("MOV", ["DWORD [0x2000]", "0x5555BEEF"]);
+    sim.executeInstruction("CMP", ["EAX", "EAX"]); // ZF=1
+    sim.executeInstruction("CMOVE", ["AX", "BX"]);
+    expect(sim.getRegisters().EAX).toBe(0x1111abcd);
+    sim.executeInstruction("CMOVE", ["CX", "WORD [0x2000]"]);
+    expect(sim.getRegisters().ECX).toBe(0xbeef);
+    sim.executeInstruction("CMOVNE", ["AX", "CX"]);
+    expect(sim.getRegisters().EAX).toBe(0x1111abcd);
+  });
 });
 
 describe("executeInstruction - LOOP/LOOPE/LOOPNE (via step)", () => {
@@ -1,19 +1,56 @@
-import type { ExecutionContext } from "../types";
+import type { ExecutionContext, ParsedOperand } from "../types";
+import { isRegisterOperand } from "../types";
+import { SimulatorException } from "../cpu/index";
 import { isZeroFlagSet, isSignFlagSet, isCarryFlagSet, isOverflowFlagSet } from "../flags";
+import { getOperandWidth, readOperand, writeOperand } from "./operands";
 
 // ---------------------------------------------------------------------------
 // Jump helpers
 // ---------------------------------------------------------------------------
 
+/**
+ * Resolve the target of JMP/CALL: a label, or for an indirect branch
+ * (JMP EAX, CALL [table + EBX*4]) the code address held in the register or memory
+ */
+function resolveBranchTarget(ctx: ExecutionContext, operand: string): number | undefined {
+  const target = ctx.resolveLabel(operand);
+  if (target !== undefined) return target;
+
+  let parsed: ParsedOperand;
+  try {
+    parsed = ctx.parseOperand(operand);
+  } catch {
+    return undefined; // Neither a label nor a register/memory operand
+  }
+  if (parsed.type === "immediate") return undefined;
+
+  return codeAddressToEIP(ctx, ctx.resolveSourceValue(parsed), "Branch target");
+}
+
+/**
+ * EIP of the instruction at a code address taken from a register, memory or
+ * the stack; `#GP` if no instruction starts there
+ */
+function codeAddressToEIP(ctx: ExecutionContext, address: number, what: string): number {
+  const eip = ctx.codeAddressToEIP(address);
+  if (eip === undefined) {
+    throw new SimulatorException(
+      "GP",
+      `${what} address 0x${address.toString(16)} is not an instruction`,
+    );
+  }
+  return eip;
+}
+
 /**
  * Helper function to perform an unconditional jump to a label
  */
 function performJump(ctx: ExecutionContext, targetLabel: string): void {
-  const targetIndex = ctx.resolveLabel(targetLabel);
+  const targetIndex = resolveBranchTarget(ctx, targetLabel);
   if (targetIndex !== undefined) {
     ctx.setEIP(targetIndex);
   } else {
-    throw new Error(`Jump target "${targetLabel}" not found in labels`);
+    throw new SimulatorException("GP", `Jump target "${targetLabel}" not found in labels`);
   }
 }
 
@@ -28,13 +65,13 @@ function performConditionalJump(
 ): void {
   const targetIndex = ctx.resolveLabel(targetLabel);
   if (targetIndex === undefined) {
-    throw new Error(`Jump target "${targetLabel}" not found in labels`);
+    throw new SimulatorException("GP", `Jump target "${targetLabel}" not found in labels`);
   }
 
   if (condition) {
     ctx.setEIP(targetIndex);
   } else {
-    ctx.setEIP(ctx.getEIP() + 1);
+    ctx.setEIP(ctx.getNextEIP());
   }
 }
 
@@ -144,27 +181,24 @@ export function executeJbe(ctx: ExecutionContext, operands: string[]): void {
 export function executeCall(ctx: ExecutionContext, operands: string[]): void {
   if (operands.length !== 1) return;
   const targetLabel = operands[0];
-  const targetIndex = ctx.resolveLabel(targetLabel);
+  const targetIndex = resolveBranchTarget(ctx, targetLabel);
 
   if (targetIndex !== undefined) {
-    const returnAddress = ctx.getEIP() + 1;
-    ctx.pushCallStack(returnAddress);
+    // The return address on the stack is a real code address, so RET goes
+    // wherever the stack says - including a return address a program overwrote
+    const returnAddress = ctx.eipToCodeAddress(ctx.getNextEIP());
     ctx.pushStack(returnAddress);
+    ctx.pushCallStack(returnAddress);
     ctx.setEIP(targetIndex);
   } else {
-    throw new Error(`CALL target "${targetLabel}" not found in labels`);
+    throw new SimulatorException("GP", `CALL target "${targetLabel}" not found in labels`);
   }
 }
 
 export function executeRet(ctx: ExecutionContext): void {
-  const returnAddress = ctx.popCallStack();
-  if (returnAddress !== undefined) {
-    ctx.popStack();
-    ctx.setEIP(returnAddress);
-  } else {
-    // No return address on call stack, just advance EIP
-    ctx.setEIP(ctx.getEIP() + 1);
-  }
+  const returnAddress = ctx.popStack();
+  ctx.popCallStack(); // Call depth is debugger metadata; the stack decides where to go
+  ctx.setEIP(codeAddressToEIP(ctx, returnAddress, "Return"));
 }
 
 // ---------------------------------------------------------------------------
@@ -190,10 +224,10 @@ export function executeCmov(
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type !== "register") return;
+  if (!isRegisterOperand(dest)) return;
 
   if (condition()) {
-    const srcValue = ctx.resolveSourceValue(src);
-    ctx.cpu.registers[dest.value] = srcValue;
+    const width = getOperandWidth(dest, src);
+    writeOperand(ctx, dest, readOperand(ctx, src, width), width);
   }
 }
@@ -1,4 +1,5 @@
 import { Simulator } from "../simulator/index";
+import type { Instruction } from "../types";
 
 describe("executeInstruction - MOV", () => {
   let sim: Simulator;
@@ -199,6 +200,28 @@ describe("executeInstruction - 8-bit registers", () => {
     expect(sim.getRegisters().EBX & 0xff).toBe(0x56);
   });
 
+  test("16-bit register writes preserve the upper word", () => {
+    sim.executeInstruction("MOV", ["EAX", "0xAABBCCDD"]);
+    sim.executeInstruction("MOV", ["AX", "0x1234"]);
+    expect(sim.getRegisters().EAX).toBe(0xaabb1234);
+  });
+
+  test("16-bit register reads return the low word", () => {
+    sim.executeInstruction("MOV", ["ESI", "0x12345678"]);
+    sim.executeInstruction("MOV", ["EBX", "SI"]);
+    expect(sim.getRegisters().EBX).toBe(0x5678);
+    sim.executeInstruction("MOV", ["DX", "0x1FFFF"]);
+    expect(sim.getRegisters().EDX).toBe(0xffff);
+  });
+
+  test("XCHG swaps 16-bit registers", () => {
+    sim.executeInstruction("MOV", ["EAX", "0x11110001"]);
+    sim.executeInstruction("MOV", ["EBX", "0x22220002"]);
+    sim.executeInstruction("XCHG", ["AX", "BX"]);
+    expect(sim.getRegisters().EAX).toBe(0x11110002);
+    expect(sim.getRegisters().EBX).toBe(0x22220001);
+  });
+
   test("MOV handles register8 read/write", () => {
     sim.executeInstruction("MOV", ["EAX", "0x1234"]);
     sim.executeInstruction("MOV", ["AL", "0x56"]);
@@ -318,6 +341,13 @@ describe("executeInstruction - LEA", () => {
     expect(sim.getRegisters().EAX).toBe(404);
   });
 
+  test("LEA computes base + index*scale + displacement", () => {
+    sim.executeInstruction("MOV", ["EBX", "0x1000"]);
+    sim.executeInstruction("MOV", ["ESI", "3"]);
+    sim.executeInstruction("LEA", ["EAX", "[EBX + ESI*8 - 4]"]);
+    expect(sim.getRegisters().EAX).toBe(0x1014);
+  });
+
   test("LEA with immediate (non-memory) source loads value directly", () => {
     sim.executeInstruction("LEA", ["EAX", "5000"]);
     expect(sim.getRegisters().EAX).toBe(5000);
@@ -326,6 +356,13 @@ describe("executeInstruction - LEA", () => {
   test("LEA operand guard", () => {
     expect(() => sim.executeInstruction("LEA", ["EAX"])).not.toThrow();
   });
+
+  test("LEA into a 16-bit register keeps the low word of the address", () => {
+    sim.executeInstruction("MOV", ["EAX", "0x12340000"]);
+    sim.executeInstruction("MOV", ["EBX", "0x0001FFFE"]);
+    sim.executeInstruction("LEA", ["AX", "[EBX+4]"]);
+    expect(sim.getRegisters().EAX).toBe(0x12340002);
+  });
 });
 
 describe("executeInstruction - MOVZX/MOVSX", () => {
@@ -363,6 +400,20 @@ describe("executeInstruction - MOVZX/MOVSX", () => {
     expect(sim.getRegisters().EAX).toBe(0x50);
   });
 
+  test("MOVZX and MOVSX extend 16-bit registers from 16 bits", () => {
+    sim.executeInstruction("MOV", ["EBX", "0xFFFF8001"]);
+    sim.executeInstruction("MOVZX", ["EAX", "BX"]);
+    expect(sim.getRegisters().EAX).toBe(0x8001);
+    sim.executeInstruction("MOVSX", ["ECX", "BX"]);
+    expect(sim.getRegisters().ECX).toBe(0xffff8001);
+  });
+
+  test("MOVSX into a 16-bit register", () => {
+    sim.executeInstruction("MOV", ["EDX", "0x12340000"]);
+    sim.executeInstruction("MOVSX", ["DX", "0x80"]);
+    expect(sim.getRegisters().EDX).toBe(0x1234ff80);
+  });
+
   test("MOVSX with immediate 8-bit negative value", () => {
     sim.executeInstruction("MOVSX", ["EAX", "128"]);
     expect(sim.getRegisters().EAX).toBe(0xffffff80);
@@ -423,3 +474,153 @@ describe("Data-movement - non-register destination branches", () => {
     expect(sim.getRegisters().EAX).toBe(0);
   });
 });
+
+describe("Effective addressing", () => {
+  let sim: Simulator;
+
+  function instr(mnemonic: string, operands: string[], line: number): Instruction {
+    return { line, mnemonic, operands, raw: `${mnemonic} ${operands.join(", ")}` };
+  }
+
+  beforeEach(() => {
+    sim = new Simulator();
+  });
+
+  test("[base + index*scale + disp] reads and writes memory", () => {
+    sim.executeInstruction("MOV", ["EBX", "0x3000"]);
+    sim.executeInstruction("MOV", ["ECX", "2"]);
+    sim.executeInstruction("MOV", ["[EBX+ECX*4+8]", "0x12345678"]);
+    sim.executeInstruction("MOV", ["EAX", "[0x3010]"]);
+    expect(sim.getRegisters().EAX).toBe(0x12345678);
+    sim.executeInstruction("MOV", ["EDX", "[ebx + 8 + 4*ecx]"]);
+    expect(sim.getRegisters().EDX).toBe(0x12345678);
+  });
+
+  test("index registers are read when the instruction executes", () => {
+    sim.loadInstructions(
+      [
+        instr("MOV", ["ESI", "0"], 1),
+        instr("MOV", ["EAX", "[table + ESI*4]"], 2),
+        instr("MOV", ["ESI", "2"], 3),
+        instr("MOV", ["EBX", "[table + ESI*4]"], 4),
+      ],
+      new Map([["table", 0x2000]]),
+    );
+    sim.loadData([{ address: 0x2000, size: 4, values: [10, 20, 30] }]);
+    for (let i = 0; i < 4; i++) sim.step();
+    expect(sim.getRegisters().EAX).toBe(10);
+    expect(sim.getRegisters().EBX).toBe(30);
+  });
+
+  test("label-relative operands work in memory execution mode", () => {
+    sim.loadInstructions(
+      [instr("MOV", ["ESI", "1"], 1), instr("MOV", ["EAX", "[table+ESI*4-4]"], 2)],
+      new Map([["table", 0x2004]]),
+      0x100,
+    );
+    sim.loadData([{ address: 0x2000, size: 4, values: [7, 8] }]);
+    sim.setExecutionMode("memory");
+    sim.step();
+    sim.step();
+    expect(sim.getRegisters().EAX).toBe(8);
+  });
+
+  test("negative displacements with a base register", () => {
+    sim.executeInstruction("MOV", ["EBP", "0x4010"]);
+    sim.executeInstruction("MOV", ["[EBP-0x10]", "99"]);
+    sim.executeInstruction("MOV", ["EAX", "[0x4000]"]);
+    expect(sim.getRegisters().EAX).toBe(99);
+  });
+
+  test("PUSH reads SIB and absolute memory operands", () => {
+    sim.executeInstruction("MOV", ["[0x2000]", "5"]);
+    sim.executeInstruction("MOV", ["EDI", "1"]);
+    sim.executeInstruction("PUSH", ["[0x1FFC+EDI*4]"]);
+    sim.executeInstruction("PUSH", ["[0x2000]"]);
+    sim.executeInstruction("POP", ["EAX"]);
+    sim.executeInstruction("POP", ["EBX"]);
+    expect(sim.getRegisters().EAX).toBe(5);
+    expect(sim.getRegisters().EBX).toBe(5);
+  });
+
+  test("unknown labels in memory operands are reported", () => {
+    expect(() => sim.executeInstruction("MOV", ["EAX", "[nowhere+4]"])).toThrow(
+      "unknown symbol 'nowhere'",
+    );
+  });
+});
+
+describe("Operand size specifiers", () => {
+  let sim: Simulator;
+
+  beforeEach(() => {
+    sim = new Simulator();
+  });
+
+  test("BYTE and WORD stores write only their own bytes", () => {
+    sim.executeInstruction("MOV", ["[0x100]", "0xAABBCCDD"]);
+    sim.executeInstruction("MOV", ["BYTE PTR [0x100]", "0x11"]);
+    sim.executeInstruction("MOV", ["WORD [0x102]", "0x2233"]);
+    expect(Array.from(sim.getMemoryA(0x100, 5))).toEqual([0x11, 0xcc, 0x33, 0x22, 0]);
+  });
+
+  test("sized loads zero-extend into 32-bit registers", () => {
+    sim.executeInstruction("MOV", ["[0x100]", "0x8899AABB"]);
+    sim.executeInstruction("MOV", ["EAX", "BYTE PTR [0x100]"]);
+    expect(sim.getRegisters().EAX).toBe(0xbb);
+    sim.executeInstruction("MOV", ["EBX", "WORD PTR [0x100]"]);
+    expect(sim.getRegisters().EBX).toBe(0xaabb);
+    sim.executeInstruction("MOV", ["ECX", "DWORD PTR [0x100]"]);
+    expect(sim.getRegisters().ECX).toBe(0x8899aabb);
+  });
+
+  test("unsized memory takes the size of the register operand", () => {
+    sim.executeInstruction("MOV", ["[0x100]", "0xFFFFFFFF"]);
+    sim.executeInstruction("MOV", ["ESI", "0x100"]);
+    sim.executeInstruction("MOV", ["[ESI]", "AL"]);
+    expect(Array.from(sim.getMemoryA(0x100, 4))).toEqual([0, 0xff, 0xff, 0xff]);
+  });
+
+  test("MOVZX and MOVSX read BYTE and WORD memory", () => {
+    sim.executeInstruction("MOV", ["[0x100]", "0x80F0"]);
+    sim.executeInstruction("MOVZX", ["EAX", "BYTE PTR [0x100]"]);
+    expect(sim.getRegisters().EAX).toBe(0xf0);
+    sim.executeInstruction("MOVSX", ["EAX", "BYTE PTR [0x100]"]);
+    expect(sim.getRegisters().EAX).toBe(0xfffffff0);
+    sim.executeInstruction("MOVSX", ["EAX", "WORD PTR [0x100]"]);
+    expect(sim.getRegisters().EAX).toBe(0xffff80f0);
+    expect(() => sim.executeInstruction("MOVZX", ["EAX", "DWORD [0x100]"])).toThrow(
+      "must be a BYTE or WORD operand",
+    );
+  });
+
+  test("XCHG swaps a register with memory", () => {
+    sim.executeInstruction("MOV", ["[0x100]", "0x1234"]);
+    sim.executeInstruction("MOV", ["EAX", "0xAB"]);
+    sim.executeInstruction("XCHG", ["AL", "[0x100]"]);
+    expect(sim.getRegisters().EAX).toBe(0x34);
+    expect(Array.from(sim.getMemoryA(0x100, 2))).toEqual([0xab, 0x12]);
+  });
+
+  test("PUSH and POP with sized memory operands", () => {
+    sim.executeInstruction("MOV", ["[0x100]", "0x12345678"]);
+    sim.executeInstruction("PUSH", ["WORD PTR [0x100]"]);
+    sim.executeInstruction("POP", ["EAX"]);
+    expect(sim.getRegisters().EAX).toBe(0x5678);
+    sim.executeInstruction("PUSH", ["0xAABBCCDD"]);
+    sim.executeInstruction("POP", ["BYTE PTR [0x100]"]);
+    expect(Array.from(sim.getMemoryA(0x100, 4))).toEqual([0xdd, 0x56, 0x34, 0x12]);
+  });
+
+  test("sized writes to I/O registers are truncated", () => {
+    sim.executeInstruction("MOV", ["BYTE PTR [0x10401]", "0x1FF"]);
+    sim.executeInstruction("MOV", ["EAX", "[0x10401]"]);
+    expect(sim.getRegisters().EAX).toBe(0xff);
+  });
+
+  test("size specifiers need a memory operand", () => {
+    expect(() => sim.executeInstruction("MOV", ["EAX", "BYTE PTR 5"])).toThrow(
+      "Size specifier BYTE must be followed by a memory operand",
+    );
+  });
+});
@@ -1,47 +1,21 @@
-import type { ExecutionContext, ParsedOperand, RegisterOperand } from "../types";
-
-/** Resolve the effective address for a memory-type operand */
-function resolveMemoryAddress(ctx: ExecutionContext, op: ParsedOperand): number {
-  if (op.base === -1) {
-    return op.offset || 0;
-  }
-  return (ctx.cpu.registers[op.base!] + (op.offset || 0)) & 0xffff;
-}
-
-/** Check whether an address falls in the I/O-mapped region */
-function isIOAddress(addr: number): boolean {
-  return (addr >= 0xf000 && addr <= 0xffff) || (addr >= 0x10100 && addr <= 0x102ff);
-}
-
-/** Read the value described by a parsed operand */
-function readSourceValue(ctx: ExecutionContext, src: ParsedOperand): number {
-  if (src.type === "register" || src.type === "register8") {
-    return ctx.readRegisterValue(src as RegisterOperand);
-  }
-  if (src.type === "memory") {
-    const addr = resolveMemoryAddress(ctx, src);
-    return isIOAddress(addr) ? ctx.readIO(addr) : ctx.readMemory32(addr);
-  }
-  return src.value;
-}
+import type { ExecutionContext, OperandWidth, ParsedOperand, RegisterOperand } from "../types";
+import { isIOAddress, isRegisterOperand, getWidthMask } from "../types";
+import { computeEffectiveAddress, SimulatorException } from "../cpu/index";
+import { getOperandWidth, isWritableOperand, readOperand, writeOperand } from "./operands";
 
 /** Write a value into a parsed destination operand */
-function writeDestValue(ctx: ExecutionContext, dest: ParsedOperand, value: number): void {
-  if (dest.type === "register" || dest.type === "register8") {
-    ctx.writeRegisterValue(dest as RegisterOperand, value);
+function writeDestValue(
+  ctx: ExecutionContext,
+  dest: ParsedOperand,
+  value: number,
+  width: OperandWidth,
+): void {
+  if (dest.type === "immediate") {
+    // Immediate value destination - treat as I/O address
+    ctx.writeIO(dest.value, (value & getWidthMask(width)) >>> 0);
     return;
   }
-  if (dest.type === "memory") {
-    const addr = resolveMemoryAddress(ctx, dest);
-    if (isIOAddress(addr)) {
-      ctx.writeIO(addr, value);
-    } else {
-      ctx.writeMemory32(addr, value);
-    }
-    return;
-  }
-  // Immediate value destination - treat as I/O address
-  ctx.writeIO(dest.value, value);
+  writeOperand(ctx, dest, value, width);
 }
 
 export function executeMov(ctx: ExecutionContext, operands: string[]): void {
@@ -53,19 +27,18 @@ export function executeMov(ctx: ExecutionContext, operands: string[]): void {
   if (ctx.compatibilityMode === "strict-x86") {
     const isDestMemory = dest.type === "immediate" || dest.type === "memory";
     const isSrcMemory =
-      src.type === "memory" ||
-      (src.type === "immediate" &&
-        ((src.value >= 0xf000 && src.value <= 0xffff) ||
-          (src.value >= 0x10100 && src.value <= 0x102ff)));
+      src.type === "memory" || (src.type === "immediate" && isIOAddress(src.value));
 
     if (isDestMemory && isSrcMemory) {
-      throw new Error(
+      throw new SimulatorException(
+        "UD",
         "Memory-to-memory MOV not allowed in strict-x86 mode. Use a register as intermediate.",
       );
     }
   }
 
-  writeDestValue(ctx, dest, readSourceValue(ctx, src));
+  const width = getOperandWidth(dest, src);
+  writeDestValue(ctx, dest, readOperand(ctx, src, width), width);
 }
 
 export function executeXchg(ctx: ExecutionContext, operands: string[]): void {
@@ -73,13 +46,11 @@ export function executeXchg(ctx: ExecutionContext, operands: string[]): void {
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (
-    (dest.type === "register" || dest.type === "register8") &&
-    (src.type === "register" || src.type === "register8")
-  ) {
-    const temp = ctx.readRegisterValue(dest as RegisterOperand);
-    ctx.writeRegisterValue(dest as RegisterOperand, ctx.readRegisterValue(src as RegisterOperand));
-    ctx.writeRegisterValue(src as RegisterOperand, temp);
+  if (isWritableOperand(dest) && isWritableOperand(src)) {
+    const width = getOperandWidth(dest, src);
+    const temp = readOperand(ctx, dest, width);
+    writeOperand(ctx, dest, readOperand(ctx, src, width), width);
+    writeOperand(ctx, src, temp, width);
   }
 }
 
@@ -88,34 +59,48 @@ export function executeLea(ctx: ExecutionContext, operands: string[]): void {
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type === "register") {
+  if (isRegisterOperand(dest)) {
+    // A 16-bit destination keeps the low 16 bits of the address
+    const width = getOperandWidth(dest);
     if (src.type === "memory") {
-      let addr: number;
-      if (src.base === -1) {
-        addr = src.offset || 0;
-      } else {
-        addr = (ctx.cpu.registers[src.base!] + (src.offset || 0)) & 0xffffffff;
-      }
-      ctx.cpu.registers[dest.value] = addr >>> 0;
+      writeOperand(ctx, dest, computeEffectiveAddress(ctx.cpu.registers, src), width);
     } else if (src.type === "immediate") {
-      ctx.cpu.registers[dest.value] = src.value;
+      writeOperand(ctx, dest, src.value, width);
     }
   }
 }
 
+/**
+ * Source of MOVZX/MOVSX: WORD memory and 16-bit registers extend from 16 bits,
+ * BYTE or unsized memory and anything else from 8
+ */
+function readNarrowSource(
+  ctx: ExecutionContext,
+  src: ParsedOperand,
+): { value: number; width: OperandWidth } {
+  if (src.type === "memory") {
+    if (src.size === 32) {
+      throw new SimulatorException("UD", "MOVZX/MOVSX source must be a BYTE or WORD operand");
+    }
+    const width = src.size ?? 8;
+    return { value: readOperand(ctx, src, width), width };
+  }
+  if (src.type === "register16") {
+    return { value: ctx.readRegisterValue(src as RegisterOperand), width: 16 };
+  }
+  if (src.type === "register" || src.type === "register8") {
+    return { value: ctx.readRegisterValue(src as RegisterOperand) & 0xff, width: 8 };
+  }
+  return { value: src.value & 0xff, width: 8 };
+}
+
 export function executeMovzx(ctx: ExecutionContext, operands: string[]): void {
   if (operands.length !== 2) return;
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type === "register") {
-    let srcValue: number;
-    if (src.type === "register" || src.type === "register8") {
-      srcValue = ctx.readRegisterValue(src as RegisterOperand) & 0xff;
-    } else {
-      srcValue = src.value & 0xff;
-    }
-    ctx.cpu.registers[dest.value] = srcValue;
+  if (isRegisterOperand(dest)) {
+    ctx.writeRegisterValue(dest, readNarrowSource(ctx, src).value);
   }
 }
 
@@ -124,18 +109,13 @@ export function executeMovsx(ctx: ExecutionContext, operands: string[]): void {
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type === "register") {
-    let srcValue: number;
-    if (src.type === "register" || src.type === "register8") {
-      srcValue = ctx.readRegisterValue(src as RegisterOperand) & 0xff;
-    } else {
-      srcValue = src.value & 0xff;
-    }
-    // Sign extend from 8-bit to 32-bit
-    if (srcValue & 0x80) {
-      ctx.cpu.registers[dest.value] = srcValue | 0xffffff00;
+  if (isRegisterOperand(dest)) {
+    const { value, width } = readNarrowSource(ctx, src);
+    // Sign extend from 8 or 16 bits to 32 bits
+    if (value & (1 << (width - 1))) {
+      ctx.writeRegisterValue(dest, (value | ~getWidthMask(width)) >>> 0);
     } else {
-      ctx.cpu.registers[dest.value] = srcValue;
+      ctx.writeRegisterValue(dest, value);
     }
   }
 }
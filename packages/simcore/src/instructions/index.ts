@@ -1,4 +1,5 @@
 import type { ExecutionContext } from "../types";
+import { SimulatorException } from "../cpu/index";
 import { isZeroFlagSet, isSignFlagSet, isCarryFlagSet, isOverflowFlagSet } from "../flags";
 
 import { executeMov, executeXchg, executeLea, executeMovzx, executeMovsx } from "./data-movement";
@@ -25,7 +26,16 @@ import {
   executeRcl,
   executeRcr,
 } from "./shift-rotate";
-import { executePush, executePop } from "./stack";
+import {
+  executePush,
+  executePop,
+  executePushf,
+  executePopf,
+  executePusha,
+  executePopa,
+  executeEnter,
+  executeLeave,
+} from "./stack";
 import {
   executeJmp,
   executeJe,
@@ -45,19 +55,35 @@ import {
   executeLoop,
   executeCmov,
 } from "./control-flow";
-import { executeLods, executeStos, executeMovs, executeScas, executeCmps } from "./string-ops";
+import {
+  executeLods,
+  executeStos,
+  executeMovs,
+  executeScas,
+  executeCmps,
+  executeRep,
+  executeCld,
+  executeStd,
+} from "./string-ops";
 import {
   executeLahf,
   executeSahf,
+  executeClc,
+  executeStc,
+  executeCmc,
   executeXadd,
   executeBsf,
   executeBsr,
   executeBswap,
 } from "./bit-ops";
-import { executeInt, executeInt3, executeIret } from "./interrupts";
+import { executeInt, executeInt3, executeIret, executeSti, executeCli } from "./interrupts";
 import { executeRand } from "./misc";
 
-type InstructionHandler = (ctx: ExecutionContext, mnemonic: string, operands: string[]) => void;
+export type InstructionHandler = (
+  ctx: ExecutionContext,
+  mnemonic: string,
+  operands: string[],
+) => void;
 
 /**
  * Dispatch map from mnemonic to handler.
@@ -166,10 +192,19 @@ const INSTRUCTION_MAP: Record<string, InstructionHandler> = {
   POP: (ctx, _, ops) => executePop(ctx, ops),
   CALL: (ctx, _, ops) => executeCall(ctx, ops),
   RET: (ctx) => executeRet(ctx),
+  PUSHF: (ctx) => executePushf(ctx),
+  POPF: (ctx) => executePopf(ctx),
+  PUSHA: (ctx) => executePusha(ctx),
+  POPA: (ctx) => executePopa(ctx),
+  ENTER: (ctx, _, ops) => executeEnter(ctx, ops),
+  LEAVE: (ctx) => executeLeave(ctx),
 
   // ── Bit operations ───────────────────────────────────────
   LAHF: (ctx) => executeLahf(ctx),
   SAHF: (ctx) => executeSahf(ctx),
+  CLC: (ctx) => executeClc(ctx),
+  STC: (ctx) => executeStc(ctx),
+  CMC: (ctx) => executeCmc(ctx),
   XADD: (ctx, _, ops) => executeXadd(ctx, ops),
   BSF: (ctx, _, ops) => executeBsf(ctx, ops),
   BSR: (ctx, _, ops) => executeBsr(ctx, ops),
@@ -186,11 +221,32 @@ const INSTRUCTION_MAP: Record<string, InstructionHandler> = {
   SCAS: (ctx) => executeScas(ctx),
   CMPSB: (ctx) => executeCmps(ctx),
   CMPS: (ctx) => executeCmps(ctx),
+  LODSW: (ctx) => executeLods(ctx, 16),
+  LODSD: (ctx) => executeLods(ctx, 32),
+  STOSW: (ctx) => executeStos(ctx, 16),
+  STOSD: (ctx) => executeStos(ctx, 32),
+  MOVSW: (ctx) => executeMovs(ctx, 16),
+  MOVSD: (ctx) => executeMovs(ctx, 32),
+  SCASW: (ctx) => executeScas(ctx, 16),
+  SCASD: (ctx) => executeScas(ctx, 32),
+  CMPSW: (ctx) => executeCmps(ctx, 16),
+  CMPSD: (ctx) => executeCmps(ctx, 32),
+  CLD: (ctx) => executeCld(ctx),
+  STD: (ctx) => executeStd(ctx),
+
+  // ── Repeat prefixes (mnemonic passed through) ────────────
+  REP: (ctx, m, ops) => executeRep(ctx, m, ops),
+  REPE: (ctx, m, ops) => executeRep(ctx, m, ops),
+  REPZ: (ctx, m, ops) => executeRep(ctx, m, ops),
+  REPNE: (ctx, m, ops) => executeRep(ctx, m, ops),
+  REPNZ: (ctx, m, ops) => executeRep(ctx, m, ops),
 
   // ── Interrupts ───────────────────────────────────────────
   INT: (ctx, _, ops) => executeInt(ctx, ops),
   INT3: (ctx) => executeInt3(ctx),
   IRET: (ctx) => executeIret(ctx),
+  STI: (ctx) => executeSti(ctx),
+  CLI: (ctx) => executeCli(ctx),
 
   // ── Misc ─────────────────────────────────────────────────
   RAND: (ctx, _, ops) => executeRand(ctx, ops),
@@ -202,6 +258,26 @@ const INSTRUCTION_MAP: Record<string, InstructionHandler> = {
   },
 };
 
+/**
+ * Look up the handler for a mnemonic once, so repeated executions can skip
+ * the dispatch. Unknown mnemonics get a handler that raises #UD when run.
+ */
+export function resolveInstruction(mnemonic: string): {
+  mnemonic: string;
+  handler: InstructionHandler;
+} {
+  const upper = mnemonic.toUpperCase();
+  if (Object.prototype.hasOwnProperty.call(INSTRUCTION_MAP, upper)) {
+    return { mnemonic: upper, handler: INSTRUCTION_MAP[upper] };
+  }
+  return {
+    mnemonic: upper,
+    handler: () => {
+      throw new SimulatorException("UD", `Unknown instruction: ${mnemonic}`);
+    },
+  };
+}
+
 /**
  * Execute a single instruction given the execution context.
  * Uses a dispatch map for O(1) lookup instead of a switch statement.
@@ -211,11 +287,6 @@ export function executeInstruction(
   mnemonic: string,
   operands: string[],
 ): void {
-  const upper = mnemonic.toUpperCase();
-  const handler = INSTRUCTION_MAP[upper];
-  if (handler) {
-    handler(ctx, upper, operands);
-    return;
-  }
-  throw new Error(`Unknown instruction: ${mnemonic}`);
+  const resolved = resolveInstruction(mnemonic);
+  resolved.handler(ctx, resolved.mnemonic, operands);
 }
@@ -1,4 +1,7 @@
 import { Simulator } from "../simulator/index";
+import { IDT_BASE } from "../devices/pic";
+import { SimulatorException } from "../cpu/index";
+import type { Instruction } from "../types";
 
 describe("executeInstruction - INT", () => {
   let sim: Simulator;
@@ -103,6 +106,23 @@ describe("executeInstruction - INT", () => {
       // Should not throw or hang
       expect(sim.getConsoleOutput().length).toBeLessThanOrEqual(4096);
     });
+
+    test("INT 0x21 AH=0x4C halts with the return code in AL", () => {
+      expect(sim.getState().exitCode).toBeNull();
+      sim.executeInstruction("MOV", ["EAX", "0x12344C03"]);
+      sim.executeInstruction("INT", ["0x21"]);
+      const state = sim.getState();
+      expect(state.halted).toBe(true);
+      expect(state.exitCode).toBe(3);
+
+      sim.reset();
+      expect(sim.getState().exitCode).toBeNull();
+    });
+
+    test("INT 0x20 and HLT do not set an exit code", () => {
+      sim.executeInstruction("INT", ["0x20"]);
+      expect(sim.getState().exitCode).toBeNull();
+    });
   });
 
   describe("IRET instruction", () => {
@@ -173,11 +193,9 @@ describe("executeInstruction - INT3 (Breakpoint)", () => {
     sim = new Simulator();
   });
 
-  test("INT3 halts the processor", () => {
-    sim.executeInstruction("INT3", []);
-    const state = sim.getState();
-    expect(state.halted).toBe(true);
-    expect(state.running).toBe(false);
+  test("INT3 raises #BP without halting the processor", () => {
+    expect(() => sim.executeInstruction("INT3", [])).toThrow("#BP Breakpoint");
+    expect(sim.getState().halted).toBe(false);
   });
 });
 
@@ -202,3 +220,514 @@ describe("INT edge cases", () => {
     expect(sim.getConsoleOutput()).toBe("");
   });
 });
+
+describe("Keyboard input services", () => {
+  let sim: Simulator;
+
+  function instr(mnemonic: string, operands: string[] = [], line = 1): Instruction {
+    return { line, mnemonic, operands, raw: `${mnemonic} ${operands.join(", ")}`.trim() };
+  }
+
+  /** Load `MOV EAX, ax` followed by `INT vector` and HLT */
+  function loadService(vector: number, ax: number): void {
+    sim.loadInstructions(
+      [instr("MOV", ["EAX", `${ax}`], 1), instr("INT", [`${vector}`], 2), instr("HLT", [], 3)],
+      new Map(),
+    );
+  }
+
+  function typeKeys(text: string): void {
+    for (const char of text) {
+      sim.pushKeyboardEvent(char.charCodeAt(0), true);
+      sim.pushKeyboardEvent(char.charCodeAt(0), false);
+    }
+  }
+
+  beforeEach(() => {
+    sim = new Simulator();
+  });
+
+  test("INT 0x21 AH=0x01 waits for a key press, then echoes it", () => {
+    loadService(0x21, 0x0100);
+    expect(sim.run()).toEqual({ reason: "waiting-for-input", steps: 2, line: 2 });
+    expect(sim.getEIP()).toBe(1);
+    expect(sim.isWaitingForInput()).toBe(true);
+
+    expect(sim.run()).toEqual({ reason: "waiting-for-input", steps: 1, line: 2 });
+    sim.pushKeyboardEvent(65, false); // Releases are skipped
+    typeKeys("x");
+    expect(sim.run().reason).toBe("halted");
+    expect(sim.getRegisters().EAX).toBe(0x0178);
+    expect(sim.getConsoleOutput()).toBe("x");
+    expect(sim.isWaitingForInput()).toBe(false);
+    expect(sim.getKeyboardStatus().status).toBe(1); // The release of 'x' is still queued
+  });
+
+  test("INT 0x21 AH=0x07 reads without echo", () => {
+    loadService(0x21, 0x0700);
+    typeKeys("q");
+    expect(sim.run().reason).toBe("halted");
+    expect(sim.getRegisters().EAX & 0xff).toBe(0x71);
+    expect(sim.getConsoleOutput()).toBe("");
+  });
+
+  test("INT 0x21 AH=0x0A reads a line once Enter is queued", () => {
+    sim.executeInstruction("MOV", ["BYTE [0x200]", "5"]); // 4 characters and the CR
+    loadService(0x21, 0x0a00);
+    sim.executeInstruction("MOV", ["EDX", "0x200"]);
+    typeKeys("ab");
+    expect(sim.run().reason).toBe("waiting-for-input");
+    expect(sim.getKeyboardStatus().status).toBe(1); // Keys stay queued until Enter
+
+    typeKeys("c\bdefg\r");
+    expect(sim.run().reason).toBe("halted");
+    expect(Array.from(sim.getMemoryA(0x200, 7))).toEqual([5, 4, 0x61, 0x62, 0x64, 0x65, 13]);
+    expect(sim.getConsoleOutput()).toBe("abde");
+  });
+
+  test("INT 0x16 AH=0x00 returns the key code in AX", () => {
+    loadService(0x16, 0xffff);
+    sim.executeInstruction("MOV", ["EAX", "0x12340000"]);
+    sim.setEIP(1);
+    sim.pushKeyboardEvent(129, true); // Down arrow
+    sim.run();
+    expect(sim.getRegisters().EAX).toBe(0x12340081);
+  });
+
+  test("INT 0x16 AH=0x01 peeks without waiting or removing the key", () => {
+    loadService(0x16, 0x0100);
+    expect(sim.run().reason).toBe("halted");
+    expect(sim.isZeroFlagSet()).toBe(true);
+
+    sim.reset();
+    typeKeys("k");
+    expect(sim.run().reason).toBe("halted");
+    expect(sim.isZeroFlagSet()).toBe(false);
+    expect(sim.getRegisters().EAX).toBe(0x6b);
+    expect(sim.getKeyboardStatus().status).toBe(1);
+  });
+
+  test("an installed handler replaces the built-in service", () => {
+    loadService(0x16, 0);
+    const hlt = sim.getAssembledProgram().instructions[2].address;
+    sim.executeInstruction("MOV", [`[${IDT_BASE + 0x16 * 4}]`, `${hlt}`]);
+    expect(sim.run().reason).toBe("halted");
+    expect(sim.isWaitingForInput()).toBe(false);
+  });
+
+  test("step does not advance while waiting and step-back undoes a read", () => {
+    sim.setHistoryDepth(100);
+    loadService(0x16, 0);
+    sim.step();
+    sim.step();
+    expect(sim.getEIP()).toBe(1);
+    typeKeys("z");
+    sim.step();
+    expect(sim.getEIP()).toBe(2);
+    expect(sim.getRegisters().EAX).toBe(0x7a);
+
+    sim.stepBack();
+    expect(sim.getEIP()).toBe(1);
+    expect(sim.isWaitingForInput()).toBe(false);
+    sim.step();
+    expect(sim.getRegisters().EAX).toBe(0x7a);
+  });
+});
+
+describe("STI / CLI", () => {
+  let sim: Simulator;
+
+  beforeEach(() => {
+    sim = new Simulator();
+  });
+
+  test("STI sets and CLI clears the interrupt flag (bit 9)", () => {
+    sim.executeInstruction("STI", []);
+    expect(sim.getState().flags & 0x200).toBe(0x200);
+    sim.executeInstruction("CLI", []);
+    expect(sim.getState().flags & 0x200).toBe(0);
+  });
+});
+
+describe("Interrupt descriptor table", () => {
+  let sim: Simulator;
+
+  function instr(mnemonic: string, operands: string[] = [], line = 1): Instruction {
+    return { line, mnemonic, operands, raw: `${mnemonic} ${operands.join(", ")}`.trim() };
+  }
+
+  /** Point IDT entry `vector` at the code address of instruction `index` */
+  function installHandler(vector: number, index: number): void {
+    const address = sim.getAssembledProgram().instructions[index].address;
+    sim.executeInstruction("MOV", [`[${IDT_BASE + vector * 4}]`, `${address}`]);
+  }
+
+  beforeEach(() => {
+    sim = new Simulator();
+  });
+
+  test("INT n enters an installed handler and IRET returns", () => {
+    sim.loadInstructions(
+      [
+        instr("STI", [], 1),
+        instr("INT", ["0x40"], 2),
+        instr("HLT", [], 3),
+        instr("MOV", ["EBX", "5"], 4),
+        instr("IRET", [], 5),
+      ],
+      new Map(),
+      0x100,
+    );
+    installHandler(0x40, 3);
+    const esp = sim.getRegisters().ESP;
+
+    sim.step();
+    sim.step();
+    expect(sim.getEIP()).toBe(3);
+    expect(sim.getRegisters().ESP).toBe(esp - 8);
+    expect(sim.getState().flags & 0x200).toBe(0); // IF cleared in the handler
+
+    sim.step();
+    sim.step();
+    expect(sim.getEIP()).toBe(2);
+    expect(sim.getRegisters().ESP).toBe(esp);
+    expect(sim.getRegisters().EBX).toBe(5);
+    expect(sim.getState().flags & 0x200).toBe(0x200);
+  });
+
+  test.each(["instruction-list", "memory"] as const)(
+    "the handler finds the code address of the return EIP at [ESP] (%s mode)",
+    (mode) => {
+      sim.loadInstructions(
+        [
+          instr("MOV", ["ESP", "0xE000"], 1), // Below the LCD, so [ESP] reads memory
+          instr("INT", ["0x40"], 2),
+          instr("HLT", [], 3),
+          instr("MOV", ["EAX", "[ESP]"], 4),
+          instr("IRET", [], 5),
+        ],
+        new Map(),
+        0x100,
+      );
+      installHandler(0x40, 3);
+      sim.setExecutionMode(mode);
+      const resume = sim.getAssembledProgram().instructions[2].address;
+
+      for (let i = 0; i < 3; i++) sim.step();
+      expect(sim.getRegisters().EAX).toBe(resume);
+      sim.step();
+      expect(sim.getEIP()).toBe(mode === "memory" ? resume : 2);
+    },
+  );
+
+  test("built-in services still run when no handler is installed", () => {
+    sim.loadInstructions(
+      [instr("MOV", ["EAX", "0x0E41"], 1), instr("INT", ["0x10"], 2)],
+      new Map(),
+    );
+    sim.step();
+    sim.step();
+    expect(sim.getConsoleOutput()).toBe("A");
+    expect(sim.getEIP()).toBe(2);
+  });
+
+  test("a program may not overlap the IDT, so a large one is loaded above it", () => {
+    const program = [
+      ...Array.from({ length: 1500 }, (_, i) => instr("MOV", ["ECX", "0x12345678"], i + 1)),
+      instr("MOV", ["EAX", "0x0E41"], 1501),
+      instr("INT", ["0x10"], 1502),
+      instr("HLT", [], 1503),
+    ];
+    expect(() => sim.loadInstructions(program, new Map())).toThrow(
+      "overlaps the interrupt descriptor table at 0x1c00",
+    );
+
+    sim.loadInstructions(program, new Map(), 0x2400);
+    expect(sim.getAssembledProgram().bytes.length).toBeGreaterThan(7 * 1024);
+    expect(sim.getMemoryA(IDT_BASE, 0x400).every((byte) => byte === 0)).toBe(true);
+    expect(sim.run().reason).toBe("halted");
+    expect(sim.getConsoleOutput()).toBe("A");
+  });
+
+  describe("keyboard IRQ", () => {
+    beforeEach(() => {
+      sim.loadInstructions(
+        [
+          instr("STI", [], 1),
+          instr("JMP", ["idle"], 2),
+          instr("MOV", ["EAX", "[0x10101]"], 3),
+          instr("MOV", ["[0x10303]", "0"], 4),
+          instr("IRET", [], 5),
+        ],
+        new Map([["idle", 1]]),
+      );
+      installHandler(0x09, 2);
+    });
+
+    test("a key press is delivered to the IRQ1 handler", () => {
+      sim.pushKeyboardEvent(65, true);
+      sim.step(); // STI, then IRQ1 is delivered
+      expect(sim.getEIP()).toBe(2);
+      sim.step();
+      expect(sim.getRegisters().EAX).toBe(65);
+      sim.step(); // EOI
+      sim.step(); // IRET
+      expect(sim.getEIP()).toBe(1);
+      sim.step();
+      expect(sim.getEIP()).toBe(1); // No more keys: stays in the idle loop
+    });
+
+    test("is not delivered while IF is clear", () => {
+      sim.pushKeyboardEvent(65, true);
+      sim.executeInstruction("CLI", []);
+      sim.setEIP(1);
+      sim.step();
+      expect(sim.getEIP()).toBe(1);
+    });
+
+    test("is not delivered while masked", () => {
+      sim.executeInstruction("MOV", ["[0x10301]", "0x02"]);
+      sim.pushKeyboardEvent(65, true);
+      sim.step();
+      expect(sim.getEIP()).toBe(1);
+    });
+
+    test("an IRQ without a handler is dropped", () => {
+      sim.executeInstruction("MOV", [`[${IDT_BASE + 0x09 * 4}]`, "0"]);
+      sim.raiseIRQ(0);
+      sim.step();
+      expect(sim.getEIP()).toBe(1);
+      expect(sim.snapshot().pic).toEqual({ irr: 0, imr: 0, isr: 0, vectorBase: 8 });
+    });
+  });
+
+  describe("timer IRQ", () => {
+    beforeEach(() => {
+      sim.loadInstructions(
+        [
+          instr("STI", [], 1),
+          instr("JMP", ["idle"], 2),
+          instr("INC", ["EBX"], 3),
+          instr("MOV", ["[0x10303]", "0"], 4),
+          instr("IRET", [], 5),
+        ],
+        new Map([["idle", 1]]),
+      );
+      installHandler(0x08, 2);
+    });
+
+    test("raises IRQ0 every reload period", () => {
+      sim.executeInstruction("MOV", ["[0x10401]", "10"]);
+      sim.executeInstruction("MOV", ["[0x10400]", "3"]);
+      for (let i = 0; i < 40 && sim.getRegisters().EBX < 3; i++) {
+        sim.step();
+      }
+      expect(sim.getRegisters().EBX).toBe(3);
+      expect(sim.getCycleCount()).toBeGreaterThanOrEqual(30);
+    });
+
+    test("does not interrupt when its IRQ bit is clear", () => {
+      sim.executeInstruction("MOV", ["[0x10401]", "5"]);
+      sim.executeInstruction("MOV", ["[0x10400]", "1"]);
+      for (let i = 0; i < 10; i++) {
+        sim.step();
+      }
+      expect(sim.getRegisters().EBX).toBe(0);
+      sim.executeInstruction("MOV", ["EAX", "[0x10403]"]);
+      expect(sim.getRegisters().EAX).toBe(1);
+    });
+  });
+
+  test("handlers are code addresses in memory execution mode", () => {
+    sim.loadInstructions(
+      [instr("INT", ["0x40"], 1), instr("HLT", [], 2), instr("IRET", [], 3)],
+      new Map(),
+      0x100,
+    );
+    installHandler(0x40, 2);
+    sim.setExecutionMode("memory");
+    sim.step();
+    expect(sim.getEIP()).toBe(sim.getAssembledProgram().instructions[2].address);
+  });
+
+  test("rejects a handler address that is not an instruction", () => {
+    sim.loadInstructions([instr("INT", ["0x40"], 1)], new Map());
+    sim.executeInstruction("MOV", [`[${IDT_BASE + 0x40 * 4}]`, "0x999"]);
+    expect(() => sim.step()).toThrow("handler address 0x999 is not an instruction");
+  });
+});
+
+describe("CPU exceptions", () => {
+  let sim: Simulator;
+
+  function instr(mnemonic: string, operands: string[] = [], line = 1): Instruction {
+    return { line, mnemonic, operands, raw: `${mnemonic} ${operands.join(", ")}`.trim() };
+  }
+
+  function installHandler(vector: number, index: number): void {
+    const address = sim.getAssembledProgram().instructions[index].address;
+    sim.executeInstruction("MOV", [`[${IDT_BASE + vector * 4}]`, `${address}`]);
+  }
+
+  /** Run one step and return the exception it raised */
+  function stepFault(): SimulatorException {
+    try {
+      sim.step();
+    } catch (err) {
+      if (err instanceof SimulatorException) return err;
+      throw err;
+    }
+    throw new Error("step() did not raise an exception");
+  }
+
+  beforeEach(() => {
+    sim = new Simulator();
+  });
+
+  test("an unhandled #DE reports the faulting EIP and line and leaves EIP on it", () => {
+    sim.loadInstructions(
+      [instr("MOV", ["EAX", "10"], 3), instr("DIV", ["EBX"], 4), instr("HLT", [], 5)],
+      new Map(),
+    );
+    sim.step();
+    const fault = stepFault();
+    expect(fault.mnemonic).toBe("#DE");
+    expect(fault.vector).toBe(0);
+    expect(fault.eip).toBe(1);
+    expect(fault.line).toBe(4);
+    expect(fault.detail).toBe("Division by zero");
+    expect(sim.getEIP()).toBe(1);
+    expect(sim.getState().halted).toBe(false);
+  });
+
+  test("a #DE handler runs and IRET retries the faulting instruction", () => {
+    sim.loadInstructions(
+      [
+        instr("MOV", ["EAX", "10"], 1),
+        instr("DIV", ["EBX"], 2),
+        instr("HLT", [], 3),
+        instr("MOV", ["EBX", "2"], 4),
+        instr("IRET", [], 5),
+      ],
+      new Map(),
+      0x100,
+    );
+    installHandler(0, 3);
+    const esp = sim.getRegisters().ESP;
+
+    sim.step();
+    sim.step(); // #DE enters the handler
+    expect(sim.getEIP()).toBe(3);
+    expect(sim.getRegisters().ESP).toBe(esp - 8);
+    sim.step();
+    sim.step(); // IRET back to the DIV
+    expect(sim.getEIP()).toBe(1);
+    sim.step();
+    expect(sim.getRegisters().EAX).toBe(5);
+    expect(sim.getRegisters().ESP).toBe(esp);
+  });
+
+  test("an unhandled #BP leaves EIP after the INT3 so execution can continue", () => {
+    sim.loadInstructions(
+      [instr("INT3", [], 1), instr("MOV", ["EAX", "1"], 2), instr("HLT", [], 3)],
+      new Map(),
+    );
+    const fault = stepFault();
+    expect(fault.mnemonic).toBe("#BP");
+    expect(fault.eip).toBe(0);
+    expect(sim.getEIP()).toBe(1);
+    sim.step();
+    expect(sim.getRegisters().EAX).toBe(1);
+  });
+
+  test("a #BP handler returns to the instruction after INT3", () => {
+    sim.loadInstructions(
+      [instr("INT3", [], 1), instr("HLT", [], 2), instr("INC", ["ECX"], 3), instr("IRET", [], 4)],
+      new Map(),
+    );
+    installHandler(3, 2);
+    sim.step();
+    expect(sim.getEIP()).toBe(2);
+    sim.step();
+    sim.step();
+    expect(sim.getEIP()).toBe(1);
+    expect(sim.getRegisters().ECX).toBe(1);
+  });
+
+  test.each([
+    ["unknown mnemonic", instr("BOGUS", ["EAX"]), "#UD", 6],
+    ["malformed operand", instr("MOV", ["EAX", "0xZZ"]), "#UD", 6],
+    ["unknown I/O read", instr("MOV", ["EAX", "[0x10240]"]), "#GP", 13],
+    ["unknown I/O write", instr("MOV", ["0x10240", "1"]), "#GP", 13],
+    ["missing jump target", instr("JMP", ["nowhere"]), "#GP", 13],
+  ])("%s raises %s", (_name, instruction, mnemonic, vector) => {
+    sim.loadInstructions([instruction], new Map());
+    const fault = stepFault();
+    expect(fault.mnemonic).toBe(mnemonic);
+    expect(fault.vector).toBe(vector);
+  });
+
+  test("POP on an empty stack raises #SS", () => {
+    sim.loadInstructions([instr("POP", ["EAX"])], new Map());
+    expect(stepFault().mnemonic).toBe("#SS");
+    expect(sim.getRegisters().ESP).toBe(0xffff);
+  });
+
+  test("PUSH past the bottom of memory raises #SS", () => {
+    sim.loadInstructions([instr("MOV", ["ESP", "2"]), instr("PUSH", ["EAX"])], new Map());
+    sim.step();
+    expect(stepFault().mnemonic).toBe("#SS");
+    expect(sim.getRegisters().ESP).toBe(2);
+  });
+
+  test("a fault while delivering an exception is a #DF carrying the original", () => {
+    sim.loadInstructions(
+      [
+        instr("MOV", ["ESP", "6"], 1),
+        instr("DIV", ["EBX"], 2),
+        instr("HLT", [], 3),
+        instr("IRET", [], 4),
+      ],
+      new Map(),
+    );
+    installHandler(0, 3);
+    sim.step();
+    const fault = stepFault();
+    expect(fault.mnemonic).toBe("#DF");
+    expect(fault.eip).toBe(1);
+    expect(fault.line).toBe(2);
+    expect(fault.message).toContain("#SS Stack fault: Stack overflow while delivering #DE");
+    expect(fault.original?.mnemonic).toBe("#DE");
+    expect(fault.original?.line).toBe(2);
+    expect(sim.getEIP()).toBe(1);
+    expect(sim.getRegisters().ESP).toBe(6);
+  });
+
+  test("a fault while delivering an IRQ stops at the interrupted instruction", () => {
+    sim.loadInstructions(
+      [
+        instr("MOV", ["ESP", "6"], 1),
+        instr("STI", [], 2),
+        instr("NOP", [], 3),
+        instr("IRET", [], 4),
+      ],
+      new Map(),
+    );
+    installHandler(0x09, 3);
+    sim.step();
+    sim.pushKeyboardEvent(65, true);
+    const fault = stepFault();
+    expect(fault.mnemonic).toBe("#SS");
+    expect(fault.eip).toBe(2);
+    expect(fault.line).toBe(3);
+    expect(sim.getRegisters().ESP).toBe(6);
+  });
+
+  test("a faulting step can be undone", () => {
+    sim.setHistoryDepth(100);
+    sim.loadInstructions([instr("INT3", [], 1)], new Map());
+    stepFault();
+    expect(sim.stepBack()).toBe(true);
+    expect(sim.getEIP()).toBe(0);
+  });
+});
@@ -1,71 +1,189 @@
 import type { ExecutionContext } from "../types";
+import { INTERRUPT_FLAG, ZERO_FLAG } from "../flags";
+import { SimulatorException } from "../cpu/index";
 
 export function executeInt(ctx: ExecutionContext, operands: string[]): void {
   if (operands.length !== 1) return;
   const intNum = ctx.parseOperand(operands[0]);
+  if (intNum.type !== "immediate") return;
 
-  if (intNum.type === "immediate") {
-    switch (intNum.value) {
-      case 0x10: {
-        // Video services - write character to console
-        const ah = (ctx.cpu.registers[0] >> 8) & 0xff;
-        const al = ctx.cpu.registers[0] & 0xff;
+  // A handler installed in the IDT takes precedence over the built-in services
+  if (ctx.dispatchInterrupt(intNum.value & 0xff, ctx.getNextEIP())) return;
+  executeBuiltinInt(ctx, intNum.value);
+}
 
-        if (ah === 0x0e) {
-          ctx.appendConsoleOutput(String.fromCharCode(al));
-        }
-        break;
+/** Built-in BIOS/DOS-style services (INT 0x10, 0x16, 0x20, 0x21) */
+function executeBuiltinInt(ctx: ExecutionContext, vector: number): void {
+  switch (vector) {
+    case 0x10: {
+      // Video services - write character to console
+      const ah = (ctx.cpu.registers[0] >> 8) & 0xff;
+      const al = ctx.cpu.registers[0] & 0xff;
+
+      if (ah === 0x0e) {
+        ctx.appendConsoleOutput(String.fromCharCode(al));
+      }
+      break;
+    }
+
+    case 0x16:
+      executeKeyboardService(ctx);
+      break;
+
+    case 0x20: {
+      // Program terminate
+      ctx.cpu.halted = true;
+      ctx.cpu.running = false;
+      break;
+    }
+
+    case 0x21:
+      executeDosService(ctx);
+      break;
+  }
+}
+
+/** Carriage return, which ends an AH=0x0A input line */
+const KEY_ENTER = 13;
+
+/** Backspace, which deletes the last character of an AH=0x0A input line */
+const KEY_BACKSPACE = 8;
+
+/** Replace AL with `value`, keeping the rest of EAX */
+function setAL(ctx: ExecutionContext, value: number): void {
+  ctx.cpu.registers[0] = ((ctx.cpu.registers[0] & ~0xff) | (value & 0xff)) >>> 0;
+}
+
+/** Replace AX with a key code in AL and 0 in AH, keeping the rest of EAX */
+function setAX(ctx: ExecutionContext, key: number): void {
+  ctx.cpu.registers[0] = ((ctx.cpu.registers[0] & 0xffff0000) | (key & 0xff)) >>> 0;
+}
+
+/**
+ * BIOS keyboard services (INT 0x16)
+ * - AH=0x00: wait for a key press and return its key code in AX
+ * - AH=0x01: ZF=0 and AX = key code of the next key press without removing
+ *   it, or ZF=1 if none is queued
+ */
+function executeKeyboardService(ctx: ExecutionContext): void {
+  const ah = (ctx.cpu.registers[0] >> 8) & 0xff;
+
+  switch (ah) {
+    case 0x00: {
+      const key = ctx.readKey();
+      if (key === undefined) {
+        ctx.waitForInput();
+        return;
+      }
+      setAX(ctx, key);
+      break;
+    }
+    case 0x01: {
+      const key = ctx.peekKey();
+      if (key === undefined) {
+        ctx.cpu.flags |= ZERO_FLAG;
+        return;
       }
+      ctx.cpu.flags &= ~ZERO_FLAG;
+      setAX(ctx, key);
+      break;
+    }
+  }
+}
+
+/** DOS-style services (INT 0x21) */
+function executeDosService(ctx: ExecutionContext): void {
+  const ah = (ctx.cpu.registers[0] >> 8) & 0xff;
 
-      case 0x20: {
-        // Program terminate
-        ctx.cpu.halted = true;
-        ctx.cpu.running = false;
-        break;
+  switch (ah) {
+    case 0x01:
+    case 0x07: {
+      // Wait for a key press and return it in AL; AH=0x01 echoes it
+      const key = ctx.readKey();
+      if (key === undefined) {
+        ctx.waitForInput();
+        return;
       }
+      setAL(ctx, key);
+      if (ah === 0x01) {
+        ctx.appendConsoleOutput(String.fromCharCode(key & 0xff));
+      }
+      break;
+    }
+    case 0x02: {
+      const dl = ctx.cpu.registers[2] & 0xff;
+      ctx.appendConsoleOutput(String.fromCharCode(dl));
+      break;
+    }
+    case 0x09: {
+      // Write $-terminated string to stdout
+      // DS:EDX points to string ending with '$' (0x24)
+      const address = ctx.cpu.registers[2]; // EDX
+      let result = "";
+      let offset = 0;
+      const maxLength = 4096; // Safety limit to prevent infinite loops
 
-      case 0x21: {
-        // DOS-style services
-        const ah = (ctx.cpu.registers[0] >> 8) & 0xff;
-
-        switch (ah) {
-          case 0x02: {
-            const dl = ctx.cpu.registers[2] & 0xff;
-            ctx.appendConsoleOutput(String.fromCharCode(dl));
-            break;
-          }
-          case 0x09: {
-            // Write $-terminated string to stdout
-            // DS:EDX points to string ending with '$' (0x24)
-            const address = ctx.cpu.registers[2]; // EDX
-            let result = "";
-            let offset = 0;
-            const maxLength = 4096; // Safety limit to prevent infinite loops
-
-            while (offset < maxLength) {
-              const byte = ctx.readMemory32(address + offset) & 0xff;
-              if (byte === 0x24) {
-                // '$' terminator found
-                break;
-              }
-              result += String.fromCharCode(byte);
-              offset++;
-            }
-
-            ctx.appendConsoleOutput(result);
-            break;
-          }
+      while (offset < maxLength) {
+        const byte = ctx.readMemory32(address + offset) & 0xff;
+        if (byte === 0x24) {
+          // '$' terminator found
+          break;
         }
-        break;
+        result += String.fromCharCode(byte);
+        offset++;
       }
+
+      ctx.appendConsoleOutput(result);
+      break;
+    }
+    case 0x0a:
+      readLine(ctx);
+      break;
+    case 0x4c:
+      // Terminate with the return code in AL
+      ctx.cpu.exitCode = ctx.cpu.registers[0] & 0xff;
+      ctx.cpu.halted = true;
+      ctx.cpu.running = false;
+      break;
+  }
+}
+
+/**
+ * Buffered line input (INT 0x21 AH=0x0A) into the buffer at EDX: byte 0 holds
+ * the capacity including the terminating CR, byte 1 receives the number of
+ * characters read and the characters follow from byte 2, ending with CR.
+ *
+ * The line is taken in one go once Enter is in the keyboard queue; until then
+ * the service waits and the keys stay queued. Backspace deletes the last
+ * character, and characters that do not fit are dropped. The characters are
+ * echoed without the CR; the program prints its own line break.
+ */
+function readLine(ctx: ExecutionContext): void {
+  if (!ctx.isKeyQueued(KEY_ENTER)) {
+    ctx.waitForInput();
+    return;
+  }
+  const address = ctx.cpu.registers[2]; // EDX
+  const capacity = ctx.readMemory(address, 8);
+  const chars: number[] = [];
+
+  for (let key = ctx.readKey(); key !== undefined && key !== KEY_ENTER; key = ctx.readKey()) {
+    if (key === KEY_BACKSPACE) {
+      chars.pop();
+    } else if (chars.length + 1 < capacity) {
+      chars.push(key & 0xff);
     }
   }
+
+  chars.forEach((char, i) => ctx.writeMemory(address + 2 + i, char, 8));
+  ctx.writeMemory(address + 2 + chars.length, KEY_ENTER, 8);
+  ctx.writeMemory(address + 1, chars.length, 8);
+  ctx.appendConsoleOutput(String.fromCharCode(...chars));
 }
 
-export function executeInt3(ctx: ExecutionContext): void {
-  // INT3 triggers a breakpoint - halt the processor
-  ctx.cpu.halted = true;
-  ctx.cpu.running = false;
+export function executeInt3(_ctx: ExecutionContext): void {
+  // INT3 raises #BP; step() resumes after the INT3 once it is handled
+  throw new SimulatorException("BP", "INT3 breakpoint");
 }
 
 export function executeIret(_ctx: ExecutionContext): void {
@@ -77,3 +195,11 @@ export function executeIret(_ctx: ExecutionContext): void {
   // popping and flag restoration happens in step() after control flow handling
   // to ensure proper order: pop IP, then pop FLAGS
 }
+
+export function executeSti(ctx: ExecutionContext): void {
+  ctx.cpu.flags |= INTERRUPT_FLAG;
+}
+
+export function executeCli(ctx: ExecutionContext): void {
+  ctx.cpu.flags &= ~INTERRUPT_FLAG;
+}
@@ -93,3 +93,59 @@ describe("executeInstruction - Logical (AND/OR/XOR/NOT/NEG/TEST)", () => {
     expect(sim.getState().flags).toBe(flagsBefore);
   });
 });
+
+describe("executeInstruction - 16-bit logical operations", () => {
+  let sim: Simulator;
+
+  beforeEach(() => {
+    sim = new Simulator();
+  });
+
+  test("AND, OR and XOR only change the low word", () => {
+    sim.executeInstruction("MOV", ["EAX", "0xAAAA0F0F"]);
+    sim.executeInstruction("AND", ["AX", "0x00FF"]);
+    expect(sim.getRegisters().EAX).toBe(0xaaaa000f);
+    sim.executeInstruction("OR", ["AX", "0x8000"]);
+    expect(sim.getRegisters().EAX).toBe(0xaaaa800f);
+    expect(sim.isSignFlagSet()).toBe(true);
+    sim.executeInstruction("XOR", ["AX", "AX"]);
+    expect(sim.getRegisters().EAX).toBe(0xaaaa0000);
+    expect(sim.isZeroFlagSet()).toBe(true);
+  });
+
+  test("NOT and TEST use 16-bit width", () => {
+    sim.executeInstruction("MOV", ["EBX", "0x12340000"]);
+    sim.executeInstruction("NOT", ["BX"]);
+    expect(sim.getRegisters().EBX).toBe(0x1234ffff);
+    sim.executeInstruction("TEST", ["BX", "0x8000"]);
+    expect(sim.isSignFlagSet()).toBe(true);
+    expect(sim.isZeroFlagSet()).toBe(false);
+  });
+});
+
+describe("executeInstruction - logical ops on sized memory", () => {
+  let sim: Simulator;
+
+  beforeEach(() => {
+    sim = new Simulator();
+  });
+
+  test("AND, OR and XOR only touch the addressed bytes", () => {
+    sim.executeInstruction("MOV", ["[0x100]", "0xAABBCCDD"]);
+    sim.executeInstruction("AND", ["BYTE PTR [0x100]", "0x0F"]);
+    sim.executeInstruction("OR", ["BYTE PTR [0x101]", "0x03"]);
+    sim.executeInstruction("XOR", ["WORD PTR [0x102]", "0xFFFF"]);
+    expect(Array.from(sim.getMemoryA(0x100, 4))).toEqual([0x0d, 0xcf, 0x44, 0x55]);
+  });
+
+  test("NOT and TEST honour the operand size", () => {
+    sim.executeInstruction("MOV", ["[0x100]", "0x00FF"]);
+    sim.executeInstruction("NOT", ["BYTE PTR [0x100]"]);
+    expect(Array.from(sim.getMemoryA(0x100, 2))).toEqual([0, 0]);
+    sim.executeInstruction("MOV", ["[0x100]", "0x80"]);
+    sim.executeInstruction("TEST", ["BYTE PTR [0x100]", "0x80"]);
+    expect(sim.isSignFlagSet()).toBe(true);
+    sim.executeInstruction("TEST", ["DWORD PTR [0x100]", "0x80"]);
+    expect(sim.isSignFlagSet()).toBe(false);
+  });
+});
@@ -1,15 +1,19 @@
 import type { ExecutionContext } from "../types";
+import { getWidthMask } from "../types";
 import { computeLogicalFlags } from "../flags";
+import { getOperandWidth, isWritableOperand, readOperand, writeOperand } from "./operands";
 
 export function executeAnd(ctx: ExecutionContext, operands: string[]): void {
   if (operands.length !== 2) return;
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type === "register") {
-    const srcValue = ctx.resolveSourceValue(src);
-    ctx.cpu.registers[dest.value] = ctx.cpu.registers[dest.value] & srcValue & 0xffffffff;
-    ctx.cpu.flags = computeLogicalFlags(ctx.cpu.flags, ctx.cpu.registers[dest.value]);
+  if (isWritableOperand(dest)) {
+    const width = getOperandWidth(dest, src);
+    const srcValue = readOperand(ctx, src, width);
+    const result = readOperand(ctx, dest, width) & srcValue & getWidthMask(width);
+    writeOperand(ctx, dest, result, width);
+    ctx.cpu.flags = computeLogicalFlags(ctx.cpu.flags, result, width);
   }
 }
 
@@ -18,10 +22,12 @@ export function executeOr(ctx: ExecutionContext, operands: string[]): void {
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type === "register") {
-    const srcValue = ctx.resolveSourceValue(src);
-    ctx.cpu.registers[dest.value] = (ctx.cpu.registers[dest.value] | srcValue) & 0xffffffff;
-    ctx.cpu.flags = computeLogicalFlags(ctx.cpu.flags, ctx.cpu.registers[dest.value]);
+  if (isWritableOperand(dest)) {
+    const width = getOperandWidth(dest, src);
+    const srcValue = readOperand(ctx, src, width);
+    const result = (readOperand(ctx, dest, width) | srcValue) & getWidthMask(width);
+    writeOperand(ctx, dest, result, width);
+    ctx.cpu.flags = computeLogicalFlags(ctx.cpu.flags, result, width);
   }
 }
 
@@ -30,10 +36,12 @@ export function executeXor(ctx: ExecutionContext, operands: string[]): void {
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type === "register") {
-    const srcValue = ctx.resolveSourceValue(src);
-    ctx.cpu.registers[dest.value] = (ctx.cpu.registers[dest.value] ^ srcValue) & 0xffffffff;
-    ctx.cpu.flags = computeLogicalFlags(ctx.cpu.flags, ctx.cpu.registers[dest.value]);
+  if (isWritableOperand(dest)) {
+    const width = getOperandWidth(dest, src);
+    const srcValue = readOperand(ctx, src, width);
+    const result = (readOperand(ctx, dest, width) ^ srcValue) & getWidthMask(width);
+    writeOperand(ctx, dest, result, width);
+    ctx.cpu.flags = computeLogicalFlags(ctx.cpu.flags, result, width);
   }
 }
 
@@ -41,8 +49,9 @@ export function executeNot(ctx: ExecutionContext, operands: string[]): void {
   if (operands.length !== 1) return;
   const dest = ctx.parseOperand(operands[0]);
 
-  if (dest.type === "register") {
-    ctx.cpu.registers[dest.value] = ~ctx.cpu.registers[dest.value] & 0xffffffff;
+  if (isWritableOperand(dest)) {
+    const width = getOperandWidth(dest);
+    writeOperand(ctx, dest, ~readOperand(ctx, dest, width), width);
     // NOT does not affect flags in x86
   }
 }
@@ -52,10 +61,11 @@ export function executeTest(ctx: ExecutionContext, operands: string[]): void {
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type === "register") {
-    const destValue = ctx.cpu.registers[dest.value];
-    const srcValue = ctx.resolveSourceValue(src);
-    const result = destValue & srcValue & 0xffffffff;
-    ctx.cpu.flags = computeLogicalFlags(ctx.cpu.flags, result);
+  if (isWritableOperand(dest)) {
+    const width = getOperandWidth(dest, src);
+    const destValue = readOperand(ctx, dest, width);
+    const srcValue = readOperand(ctx, src, width);
+    const result = destValue & srcValue & getWidthMask(width);
+    ctx.cpu.flags = computeLogicalFlags(ctx.cpu.flags, result, width);
   }
 }
@@ -34,6 +34,17 @@ describe("executeInstruction - RAND", () => {
     expect(value).toBeLessThan(10);
   });
 
+  test("RAND fills a 16-bit register within range", () => {
+    sim.executeInstruction("MOV", ["EAX", "0x12340000"]);
+    for (let i = 0; i < 20; i++) {
+      sim.executeInstruction("RAND", ["AX", "1000"]);
+      expect(sim.getRegisters().EAX >>> 16).toBe(0x1234);
+      expect(sim.getRegisters().EAX & 0xffff).toBeLessThan(1000);
+    }
+    sim.executeInstruction("RAND", ["AX"]);
+    expect(sim.getRegisters().EAX >>> 16).toBe(0x1234);
+  });
+
   test("RAND ignores invalid or missing operands", () => {
     expect(() => sim.executeInstruction("RAND", [])).not.toThrow();
     expect(() => sim.executeInstruction("RAND", ["10"])).not.toThrow();
@@ -1,22 +1,24 @@
 import type { ExecutionContext } from "../types";
+import { getWidthMask, isRegisterOperand } from "../types";
 import { computeLogicalFlags } from "../flags";
+import { getOperandWidth, readOperand, writeOperand } from "./operands";
 
 export function executeRand(ctx: ExecutionContext, operands: string[]): void {
   if (operands.length < 1) return;
 
   const dest = ctx.parseOperand(operands[0]);
-  if (dest.type !== "register") return;
+  if (!isRegisterOperand(dest)) return;
 
-  let maxValue = 0xffffffff;
+  const width = getOperandWidth(dest);
+  let maxValue = getWidthMask(width);
 
   if (operands.length === 2) {
-    const maxOp = ctx.parseOperand(operands[1]);
-    maxValue = maxOp.type === "register" ? ctx.cpu.registers[maxOp.value] : maxOp.value;
+    maxValue = readOperand(ctx, ctx.parseOperand(operands[1]), width);
   }
 
   if (maxValue <= 0) maxValue = 1;
 
-  const randomValue = Math.floor(Math.random() * maxValue) >>> 0;
-  ctx.cpu.registers[dest.value] = randomValue;
-  ctx.cpu.flags = computeLogicalFlags(ctx.cpu.flags, randomValue);
+  const randomValue = Math.floor(ctx.random() * maxValue) >>> 0;
+  writeOperand(ctx, dest, randomValue, width);
+  ctx.cpu.flags = computeLogicalFlags(ctx.cpu.flags, randomValue, width);
 }
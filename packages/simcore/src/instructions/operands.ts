@@ -0,0 +1,92 @@
+/**
+ * Sized operand access shared by the instruction handlers.
+ *
+ * The operand size comes from a register (EAX, AX, AL) or from a BYTE, WORD or
+ * DWORD specifier on a memory operand, the destination's size taking priority.
+ * An instruction whose operands state no size (MOV [EBX], 5) works on 32 bits.
+ * As with registers, a narrower source is zero-extended to the operand size.
+ */
+
+import type { ExecutionContext, OperandWidth, ParsedOperand } from "../types";
+import { getRegisterWidth, getWidthMask, isIOAddress, isRegisterOperand } from "../types";
+import { computeMemoryAddress } from "../cpu/index";
+
+/** Size an operand states itself, if any */
+function getStatedWidth(operand: ParsedOperand): OperandWidth | undefined {
+  if (isRegisterOperand(operand)) return getRegisterWidth(operand);
+  if (operand.type === "memory") return operand.size;
+  return undefined;
+}
+
+/**
+ * Operand size of an instruction: the first size stated by `operands`
+ * (destination first), or 32 bits if none states one
+ */
+export function getOperandWidth(...operands: ParsedOperand[]): OperandWidth {
+  for (const operand of operands) {
+    const stated = getStatedWidth(operand);
+    if (stated !== undefined) return stated;
+  }
+  return 32;
+}
+
+/**
+ * Check whether an operand can be written: a register or a memory location
+ */
+export function isWritableOperand(operand: ParsedOperand): boolean {
+  return isRegisterOperand(operand) || operand.type === "memory";
+}
+
+/**
+ * Read a register, memory, I/O or immediate operand. Registers and sized
+ * memory operands are read at their own size, anything else at `width` bits.
+ */
+export function readOperand(
+  ctx: ExecutionContext,
+  operand: ParsedOperand,
+  width: OperandWidth,
+): number {
+  if (isRegisterOperand(operand)) {
+    return ctx.readRegisterValue(operand);
+  }
+  if (operand.type === "memory") {
+    const size = operand.size ?? width;
+    const addr = computeMemoryAddress(ctx.cpu.registers, operand);
+    if (!isIOAddress(addr)) {
+      return ctx.readMemory(addr, size);
+    }
+    return (ctx.readIO(addr) & getWidthMask(size)) >>> 0;
+  }
+  return (operand.value & getWidthMask(width)) >>> 0;
+}
+
+/**
+ * Write the low `width` bits of `value` to a register, memory or I/O operand.
+ * Immediate operands are not writable and are ignored.
+ */
+export function writeOperand(
+  ctx: ExecutionContext,
+  operand: ParsedOperand,
+  value: number,
+  width: OperandWidth,
+): void {
+  const truncated = (value & getWidthMask(width)) >>> 0;
+  if (isRegisterOperand(operand)) {
+    ctx.writeRegisterValue(operand, truncated);
+  } else if (operand.type === "memory") {
+    const addr = computeMemoryAddress(ctx.cpu.registers, operand);
+    if (isIOAddress(addr)) {
+      ctx.writeIO(addr, truncated);
+    } else {
+      ctx.writeMemory(addr, truncated, width);
+    }
+  }
+}
+
+/**
+ * Interpret the low `width` bits of a value as a two's complement number
+ */
+export function toSigned(value: number, width: OperandWidth): number {
+  const shift = 32 - width;
+  return (value << shift) >> shift;
+}
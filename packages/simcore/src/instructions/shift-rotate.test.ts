@@ -373,3 +373,116 @@ describe("RCL/RCR strict-x86 mode (no ZF/SF update)", () => {
     expect(sim.getRegisters().EAX).toBe(0);
   });
 });
+
+describe("Shifts and rotates on 16-bit registers", () => {
+  let sim: Simulator;
+
+  beforeEach(() => {
+    sim = new Simulator();
+    sim.executeInstruction("MOV", ["EAX", "0x12340000"]);
+  });
+
+  test("SHL shifts out of bit 15 and preserves the upper word", () => {
+    sim.executeInstruction("MOV", ["AX", "0x8001"]);
+    sim.executeInstruction("SHL", ["AX", "1"]);
+    expect(sim.getRegisters().EAX).toBe(0x12340002);
+    expect(sim.isCarryFlagSet()).toBe(true);
+    expect(sim.isOverflowFlagSet()).toBe(true);
+  });
+
+  test("SHR shifts the low word only", () => {
+    sim.executeInstruction("MOV", ["AX", "0x8000"]);
+    sim.executeInstruction("MOV", ["CL", "15"]);
+    sim.executeInstruction("SHR", ["AX", "CL"]);
+    expect(sim.getRegisters().EAX).toBe(0x12340001);
+  });
+
+  test("SAR extends the sign from bit 15", () => {
+    sim.executeInstruction("MOV", ["AX", "0x8000"]);
+    sim.executeInstruction("SAR", ["AX", "4"]);
+    expect(sim.getRegisters().EAX).toBe(0x1234f800);
+    expect(sim.isSignFlagSet()).toBe(true);
+  });
+
+  test("ROL and ROR rotate within 16 bits", () => {
+    sim.executeInstruction("MOV", ["AX", "0x1234"]);
+    sim.executeInstruction("ROR", ["AX", "4"]);
+    expect(sim.getRegisters().EAX).toBe(0x12344123);
+    expect(sim.isCarryFlagSet()).toBe(false);
+    sim.executeInstruction("ROL", ["AX", "8"]);
+    expect(sim.getRegisters().EAX).toBe(0x12342341);
+    expect(sim.isCarryFlagSet()).toBe(true);
+  });
+
+  test("RCL and RCR rotate through carry at bit 15", () => {
+    sim.executeInstruction("MOV", ["AX", "0x8000"]);
+    sim.executeInstruction("CLC", []);
+    sim.executeInstruction("RCL", ["AX", "1"]);
+    expect(sim.getRegisters().EAX).toBe(0x12340000);
+    expect(sim.isCarryFlagSet()).toBe(true);
+    sim.executeInstruction("RCR", ["AX", "1"]);
+    expect(sim.getRegisters().EAX).toBe(0x12348000);
+    expect(sim.isCarryFlagSet()).toBe(false);
+  });
+
+  test("8-bit registers shift within their byte", () => {
+    sim.executeInstruction("MOV", ["AH", "0x81"]);
+    sim.executeInstruction("SHL", ["AH", "1"]);
+    expect(sim.getRegisters().EAX).toBe(0x12340200);
+    expect(sim.isCarryFlagSet()).toBe(true);
+  });
+});
+
+describe("Shifts and rotates on memory operands", () => {
+  let sim: Simulator;
+
+  beforeEach(() => {
+    sim = new Simulator();
+  });
+
+  test("SHL DWORD PTR shifts memory in place", () => {
+    sim.executeInstruction("MOV", ["[0x100]", "0x80000001"]);
+    sim.executeInstruction("SHL", ["DWORD PTR [0x100]", "1"]);
+    expect(Array.from(sim.getMemoryA(0x100, 4))).toEqual([0x02, 0, 0, 0]);
+    expect(sim.isCarryFlagSet()).toBe(true);
+  });
+
+  test("unsized memory shifts 32 bits", () => {
+    sim.executeInstruction("MOV", ["EBX", "0x100"]);
+    sim.executeInstruction("MOV", ["[EBX]", "0x80000000"]);
+    sim.executeInstruction("SAR", ["[EBX]", "4"]);
+    expect(Array.from(sim.getMemoryA(0x100, 4))).toEqual([0, 0, 0, 0xf8]);
+  });
+
+  test("WORD PTR shifts by CL within 16 bits and leaves the next word alone", () => {
+    sim.executeInstruction("MOV", ["[0x100]", "0x12348000"]);
+    sim.executeInstruction("MOV", ["CL", "15"]);
+    sim.executeInstruction("SHR", ["WORD PTR [0x100]", "CL"]);
+    expect(Array.from(sim.getMemoryA(0x100, 4))).toEqual([0x01, 0x00, 0x34, 0x12]);
+  });
+
+  test("BYTE PTR rotates within 8 bits", () => {
+    sim.executeInstruction("MOV", ["[0x100]", "0x1281"]);
+    sim.executeInstruction("ROL", ["BYTE PTR [0x100]", "1"]);
+    expect(Array.from(sim.getMemoryA(0x100, 2))).toEqual([0x03, 0x12]);
+    expect(sim.isCarryFlagSet()).toBe(true);
+    sim.executeInstruction("ROR", ["BYTE PTR [0x100]", "2"]);
+    expect(sim.getMemoryA(0x100, 1)[0]).toBe(0xc0);
+  });
+
+  test("RCL and RCR rotate memory through carry", () => {
+    sim.executeInstruction("MOV", ["[0x100]", "0x80"]);
+    sim.executeInstruction("STC", []);
+    sim.executeInstruction("RCL", ["BYTE PTR [0x100]", "1"]);
+    expect(sim.getMemoryA(0x100, 1)[0]).toBe(0x01);
+    expect(sim.isCarryFlagSet()).toBe(true);
+    sim.executeInstruction("RCR", ["WORD PTR [0x100]", "1"]);
+    expect(Array.from(sim.getMemoryA(0x100, 2))).toEqual([0x00, 0x80]);
+    expect(sim.isCarryFlagSet()).toBe(true);
+  });
+
+  test("an immediate destination is ignored", () => {
+    sim.executeInstruction("SHL", ["5", "1"]);
+    expect(sim.getRegisters().EAX).toBe(0);
+  });
+});
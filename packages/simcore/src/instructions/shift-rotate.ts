@@ -1,18 +1,39 @@
-import type { ExecutionContext } from "../types";
+import type { ExecutionContext, ParsedOperand } from "../types";
+import { getWidthMask } from "../types";
 import { computeShiftFlags, computeRotateFlags, computeZeroAndSignFlags } from "../flags";
+import {
+  getOperandWidth,
+  isWritableOperand,
+  readOperand,
+  toSigned,
+  writeOperand,
+} from "./operands";
+
+/**
+ * Shift or rotate count from CL (or any register) or an immediate, before masking
+ */
+function readCount(ctx: ExecutionContext, src: ParsedOperand): number {
+  return readOperand(ctx, src, 32);
+}
 
 export function executeShl(ctx: ExecutionContext, operands: string[]): void {
   if (operands.length !== 2) return;
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type === "register") {
-    const originalValue = ctx.cpu.registers[dest.value];
-    const rawCount = src.type === "register" ? ctx.cpu.registers[src.value] : src.value;
+  if (isWritableOperand(dest)) {
+    const width = getOperandWidth(dest);
+    const originalValue = readOperand(ctx, dest, width);
+    const rawCount = readCount(ctx, src);
     const count = rawCount & 0x1f;
-    const result = (originalValue << count) & 0xffffffff;
-    ctx.cpu.registers[dest.value] = result;
-    ctx.cpu.flags = computeShiftFlags(ctx.cpu.flags, result, originalValue, rawCount, "SHL");
+    const result = (originalValue << count) & getWidthMask(width);
+    writeOperand(ctx, dest, result, width);
+    ctx.cpu.flags = computeShiftFlags(
+      ctx.cpu.flags,
+      { result, original: originalValue, width },
+      rawCount,
+      "SHL",
+    );
   }
 }
 
@@ -21,13 +42,19 @@ export function executeShr(ctx: ExecutionContext, operands: string[]): void {
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type === "register") {
-    const originalValue = ctx.cpu.registers[dest.value];
-    const rawCount = src.type === "register" ? ctx.cpu.registers[src.value] : src.value;
+  if (isWritableOperand(dest)) {
+    const width = getOperandWidth(dest);
+    const originalValue = readOperand(ctx, dest, width);
+    const rawCount = readCount(ctx, src);
     const count = rawCount & 0x1f;
-    const result = (originalValue >>> count) & 0xffffffff;
-    ctx.cpu.registers[dest.value] = result;
-    ctx.cpu.flags = computeShiftFlags(ctx.cpu.flags, result, originalValue, rawCount, "SHR");
+    const result = originalValue >>> count;
+    writeOperand(ctx, dest, result, width);
+    ctx.cpu.flags = computeShiftFlags(
+      ctx.cpu.flags,
+      { result, original: originalValue, width },
+      rawCount,
+      "SHR",
+    );
   }
 }
 
@@ -36,19 +63,20 @@ export function executeSar(ctx: ExecutionContext, operands: string[]): void {
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type === "register") {
-    const originalValue = ctx.cpu.registers[dest.value];
-    const rawCount = src.type === "register" ? ctx.cpu.registers[src.value] : src.value;
+  if (isWritableOperand(dest)) {
+    const width = getOperandWidth(dest);
+    const originalValue = readOperand(ctx, dest, width);
+    const rawCount = readCount(ctx, src);
     const count = rawCount & 0x1f;
-    const signBit = (originalValue & 0x80000000) >>> 31;
-    let result = originalValue >>> count;
-    if (signBit === 1) {
-      const mask = 0xffffffff << (32 - count);
-      result |= mask;
-    }
-    result &= 0xffffffff;
-    ctx.cpu.registers[dest.value] = result;
-    ctx.cpu.flags = computeShiftFlags(ctx.cpu.flags, result, originalValue, rawCount, "SAR");
+    // Shifting the sign-extended value fills the vacated bits with the sign bit
+    const result = (toSigned(originalValue, width) >> count) & getWidthMask(width);
+    writeOperand(ctx, dest, result, width);
+    ctx.cpu.flags = computeShiftFlags(
+      ctx.cpu.flags,
+      { result, original: originalValue, width },
+      rawCount,
+      "SAR",
+    );
   }
 }
 
@@ -57,12 +85,20 @@ export function executeRol(ctx: ExecutionContext, operands: string[]): void {
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type === "register") {
-    const count = (src.type === "register" ? ctx.cpu.registers[src.value] : src.value) & 0x1f;
-    const value = ctx.cpu.registers[dest.value];
-    const result = ((value << count) | (value >>> (32 - count))) & 0xffffffff;
-    ctx.cpu.registers[dest.value] = result;
-    ctx.cpu.flags = computeRotateFlags(ctx.cpu.flags, result, count, "ROL", ctx.compatibilityMode);
+  if (isWritableOperand(dest)) {
+    const width = getOperandWidth(dest);
+    const count = readCount(ctx, src) & 0x1f;
+    const rotation = count % width;
+    const value = readOperand(ctx, dest, width);
+    const result = ((value << rotation) | (value >>> (width - rotation))) & getWidthMask(width);
+    writeOperand(ctx, dest, result, width);
+    ctx.cpu.flags = computeRotateFlags(
+      ctx.cpu.flags,
+      { result, width },
+      count,
+      "ROL",
+      ctx.compatibilityMode,
+    );
   }
 }
 
@@ -71,12 +107,20 @@ export function executeRor(ctx: ExecutionContext, operands: string[]): void {
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type === "register") {
-    const count = (src.type === "register" ? ctx.cpu.registers[src.value] : src.value) & 0x1f;
-    const value = ctx.cpu.registers[dest.value];
-    const result = ((value >>> count) | (value << (32 - count))) & 0xffffffff;
-    ctx.cpu.registers[dest.value] = result;
-    ctx.cpu.flags = computeRotateFlags(ctx.cpu.flags, result, count, "ROR", ctx.compatibilityMode);
+  if (isWritableOperand(dest)) {
+    const width = getOperandWidth(dest);
+    const count = readCount(ctx, src) & 0x1f;
+    const rotation = count % width;
+    const value = readOperand(ctx, dest, width);
+    const result = ((value >>> rotation) | (value << (width - rotation))) & getWidthMask(width);
+    writeOperand(ctx, dest, result, width);
+    ctx.cpu.flags = computeRotateFlags(
+      ctx.cpu.flags,
+      { result, width },
+      count,
+      "ROR",
+      ctx.compatibilityMode,
+    );
   }
 }
 
@@ -85,20 +129,22 @@ export function executeRcl(ctx: ExecutionContext, operands: string[]): void {
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type === "register") {
-    const rawCount = (src.type === "register" ? ctx.cpu.registers[src.value] : src.value) & 0x1f;
+  if (isWritableOperand(dest)) {
+    const rawCount = readCount(ctx, src) & 0x1f;
     if (rawCount === 0) return;
 
-    let value = ctx.cpu.registers[dest.value] >>> 0;
+    const width = getOperandWidth(dest);
+    const mask = getWidthMask(width);
+    let value = readOperand(ctx, dest, width);
     let cf = ctx.cpu.flags & 0x01 ? 1 : 0;
 
     for (let i = 0; i < rawCount; i++) {
-      const msb = (value >>> 31) & 1;
-      value = ((value << 1) | cf) >>> 0;
+      const msb = (value >>> (width - 1)) & 1;
+      value = ((value << 1) | cf) & mask;
       cf = msb;
     }
 
-    ctx.cpu.registers[dest.value] = value;
+    writeOperand(ctx, dest, value, width);
 
     // Update CF
     if (cf) {
@@ -109,7 +155,7 @@ export function executeRcl(ctx: ExecutionContext, operands: string[]): void {
 
     // OF: only defined for single-bit rotates
     if (rawCount === 1) {
-      const msb = (value >>> 31) & 1;
+      const msb = (value >>> (width - 1)) & 1;
       if (msb !== cf) {
         ctx.cpu.flags |= 0x800;
       } else {
@@ -120,7 +166,7 @@ export function executeRcl(ctx: ExecutionContext, operands: string[]): void {
     }
 
     if (ctx.compatibilityMode === "educational") {
-      ctx.cpu.flags = computeZeroAndSignFlags(ctx.cpu.flags, value);
+      ctx.cpu.flags = computeZeroAndSignFlags(ctx.cpu.flags, value, width);
     }
   }
 }
@@ -130,20 +176,21 @@ export function executeRcr(ctx: ExecutionContext, operands: string[]): void {
   const dest = ctx.parseOperand(operands[0]);
   const src = ctx.parseOperand(operands[1]);
 
-  if (dest.type === "register") {
-    const rawCount = (src.type === "register" ? ctx.cpu.registers[src.value] : src.value) & 0x1f;
+  if (isWritableOperand(dest)) {
+    const rawCount = readCount(ctx, src) & 0x1f;
     if (rawCount === 0) return;
 
-    let value = ctx.cpu.registers[dest.value] >>> 0;
+    const width = getOperandWidth(dest);
+    let value = readOperand(ctx, dest, width);
     let cf = ctx.cpu.flags & 0x01 ? 1 : 0;
 
     for (let i = 0; i < rawCount; i++) {
       const lsb = value & 1;
-      value = ((value >>> 1) | (cf << 31)) >>> 0;
+      value = ((value >>> 1) | (cf << (width - 1))) >>> 0;
       cf = lsb;
     }
 
-    ctx.cpu.registers[dest.value] = value;
+    writeOperand(ctx, dest, value, width);
 
     // Update CF
     if (cf) {
@@ -154,8 +201,8 @@ export function executeRcr(ctx: ExecutionContext, operands: string[]): void {
 
     // OF: only defined for single-bit rotates
     if (rawCount === 1) {
-      const msb = (value >>> 31) & 1;
-      const msb1 = (value >>> 30) & 1;
+      const msb = (value >>> (width - 1)) & 1;
+      const msb1 = (value >>> (width - 2)) & 1;
       if (msb !== msb1) {
         ctx.cpu.flags |= 0x800;
       } else {
@@ -166,7 +213,7 @@ export function executeRcr(ctx: ExecutionContext, operands: string[]): void {
     }
 
     if (ctx.compatibilityMode === "educational") {
-      ctx.cpu.flags = computeZeroAndSignFlags(ctx.cpu.flags, value);
+      ctx.cpu.flags = computeZeroAndSignFlags(ctx.cpu.flags, value, width);
     }
   }
 }
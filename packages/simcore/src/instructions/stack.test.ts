@@ -82,3 +82,108 @@ describe("executeInstruction - Stack (PUSH/POP)", () => {
     expect(sim.getRegisters().ESP).toBe(espBefore);
   });
 });
+
+describe("executeInstruction - PUSHF/POPF and PUSHA/POPA", () => {
+  let sim: Simulator;
+
+  beforeEach(() => {
+    sim = new Simulator(8, 8);
+  });
+
+  test("PUSHF and POPF save and restore the flags", () => {
+    sim.executeInstruction("MOV", ["EAX", "0"]);
+    sim.executeInstruction("CMP", ["EAX", "0"]); // ZF=1
+    sim.executeInstruction("PUSHF", []);
+    const flags = sim.getState().flags;
+    sim.executeInstruction("CMP", ["EAX", "1"]); // ZF=0, CF=1, SF=1
+    sim.executeInstruction("POPF", []);
+    expect(sim.getState().flags).toBe(flags);
+    expect(sim.isZeroFlagSet()).toBe(true);
+  });
+
+  test("PUSHF pushes the flags as a 4-byte slot", () => {
+    const esp = sim.getRegisters().ESP;
+    sim.executeInstruction("STC", []);
+    sim.executeInstruction("PUSHF", []);
+    expect(sim.getRegisters().ESP).toBe(esp - 4);
+    sim.executeInstruction("POP", ["EAX"]);
+    expect(sim.getRegisters().EAX & 0x01).toBe(1);
+  });
+
+  test("PUSHA pushes EAX, ECX, EDX, EBX, original ESP, EBP, ESI, EDI", () => {
+    const esp = sim.getRegisters().ESP;
+    ["EAX", "ECX", "EDX", "EBX", "EBP", "ESI", "EDI"].forEach((reg, i) =>
+      sim.executeInstruction("MOV", [reg, `${i + 1}`]),
+    );
+    sim.executeInstruction("PUSHA", []);
+    expect(sim.getRegisters().ESP).toBe(esp - 32);
+
+    const popped: number[] = [];
+    for (let i = 0; i < 8; i++) {
+      sim.executeInstruction("POP", ["EAX"]);
+      popped.push(sim.getRegisters().EAX);
+    }
+    expect(popped).toEqual([7, 6, 5, esp, 4, 3, 2, 1]);
+  });
+
+  test("POPA restores every register except ESP", () => {
+    ["EAX", "ECX", "EDX", "EBX", "EBP", "ESI", "EDI"].forEach((reg, i) =>
+      sim.executeInstruction("MOV", [reg, `${i + 1}`]),
+    );
+    const before = sim.getRegisters();
+    sim.executeInstruction("PUSHA", []);
+    ["EAX", "ECX", "EDX", "EBX", "EBP", "ESI", "EDI"].forEach((reg) =>
+      sim.executeInstruction("MOV", [reg, "0"]),
+    );
+    sim.executeInstruction("POPA", []);
+    expect(sim.getRegisters()).toEqual(before);
+  });
+});
+
+describe("executeInstruction - ENTER/LEAVE", () => {
+  let sim: Simulator;
+
+  /** Dword on the stack (the stack sits in the range operands see as I/O) */
+  function stackDword(address: number): number {
+    return Buffer.from(sim.getMemoryA(address, 4)).readUInt32LE(0);
+  }
+
+  beforeEach(() => {
+    sim = new Simulator(8, 8);
+  });
+
+  test("ENTER size, 0 builds a frame like PUSH EBP; MOV EBP, ESP; SUB ESP, size", () => {
+    sim.executeInstruction("MOV", ["EBP", "0x1234"]);
+    const esp = sim.getRegisters().ESP;
+    sim.executeInstruction("ENTER", ["16", "0"]);
+    expect(sim.getRegisters().EBP).toBe(esp - 4);
+    expect(sim.getRegisters().ESP).toBe(esp - 4 - 16);
+    expect(stackDword(sim.getRegisters().EBP)).toBe(0x1234);
+  });
+
+  test("LEAVE tears the frame down", () => {
+    sim.executeInstruction("MOV", ["EBP", "0x1234"]);
+    const esp = sim.getRegisters().ESP;
+    sim.executeInstruction("ENTER", ["8", "0"]);
+    sim.executeInstruction("PUSH", ["EAX"]);
+    sim.executeInstruction("LEAVE", []);
+    expect(sim.getRegisters().ESP).toBe(esp);
+    expect(sim.getRegisters().EBP).toBe(0x1234);
+  });
+
+  test("ENTER with a nesting level copies the enclosing frame pointers", () => {
+    sim.executeInstruction("ENTER", ["0", "0"]);
+    const outer = sim.getRegisters().EBP;
+    sim.executeInstruction("ENTER", ["4", "2"]);
+    const inner = sim.getRegisters().EBP;
+    // [inner] = saved EBP, [inner-4] = copy of outer frame slot, [inner-8] = inner
+    expect(stackDword(inner)).toBe(outer);
+    expect(stackDword(inner - 8)).toBe(inner);
+    expect(sim.getRegisters().ESP).toBe(inner - 8 - 4);
+  });
+
+  test("ENTER raises #SS when the frame does not fit on the stack", () => {
+    sim.executeInstruction("MOV", ["ESP", "16"]);
+    expect(() => sim.executeInstruction("ENTER", ["64", "0"])).toThrow("#SS");
+  });
+});
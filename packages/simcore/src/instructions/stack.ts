@@ -1,28 +1,90 @@
-import type { ExecutionContext, RegisterOperand } from "../types";
+import type { ExecutionContext } from "../types";
+import { getOperandWidth, isWritableOperand, readOperand, writeOperand } from "./operands";
+import { SimulatorException } from "../cpu/index";
+
+const ESP = 4;
+const EBP = 5;
 
 export function executePush(ctx: ExecutionContext, operands: string[]): void {
   if (operands.length !== 1) return;
   const src = ctx.parseOperand(operands[0]);
 
-  let value: number;
-  if (src.type === "register" || src.type === "register8") {
-    value = ctx.readRegisterValue(src as RegisterOperand);
-  } else if (src.type === "memory") {
-    const addr = (ctx.cpu.registers[src.base!] + (src.offset || 0)) & 0xffff;
-    value = ctx.readMemory32(addr);
-  } else {
-    value = src.value;
-  }
-
-  ctx.pushStack(value);
+  // Stack slots are always 4 bytes; narrower operands are zero-extended
+  ctx.pushStack(readOperand(ctx, src, getOperandWidth(src)));
 }
 
 export function executePop(ctx: ExecutionContext, operands: string[]): void {
   if (operands.length !== 1) return;
   const dest = ctx.parseOperand(operands[0]);
 
-  if (dest.type === "register" || dest.type === "register8") {
+  if (isWritableOperand(dest)) {
+    const value = ctx.popStack();
+    writeOperand(ctx, dest, value, getOperandWidth(dest));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PUSHF / POPF - Save and restore the flags register
+// ---------------------------------------------------------------------------
+
+export function executePushf(ctx: ExecutionContext): void {
+  ctx.pushStack(ctx.cpu.flags);
+}
+
+export function executePopf(ctx: ExecutionContext): void {
+  ctx.cpu.flags = ctx.popStack();
+}
+
+// ---------------------------------------------------------------------------
+// PUSHA / POPA - Save and restore all general-purpose registers
+// ---------------------------------------------------------------------------
+
+export function executePusha(ctx: ExecutionContext): void {
+  // Push EAX, ECX, EDX, EBX, the original ESP, EBP, ESI, EDI
+  const originalESP = ctx.cpu.registers[ESP];
+  for (let reg = 0; reg < 8; reg++) {
+    ctx.pushStack(reg === ESP ? originalESP : ctx.cpu.registers[reg]);
+  }
+}
+
+export function executePopa(ctx: ExecutionContext): void {
+  // Pop in reverse order; the saved ESP is discarded
+  for (let reg = 7; reg >= 0; reg--) {
     const value = ctx.popStack();
-    ctx.writeRegisterValue(dest as RegisterOperand, value);
+    if (reg !== ESP) ctx.cpu.registers[reg] = value;
   }
 }
+
+// ---------------------------------------------------------------------------
+// ENTER / LEAVE - Stack frames
+// ---------------------------------------------------------------------------
+
+export function executeEnter(ctx: ExecutionContext, operands: string[]): void {
+  if (operands.length !== 2) return;
+  const size = readOperand(ctx, ctx.parseOperand(operands[0]), 16);
+  const level = readOperand(ctx, ctx.parseOperand(operands[1]), 8) & 0x1f;
+
+  // ENTER size, 0 is PUSH EBP; MOV EBP, ESP; SUB ESP, size. A non-zero
+  // nesting level also copies the enclosing frame pointers (level - 1 of
+  // them) and pushes the new frame pointer, for nested procedures.
+  ctx.pushStack(ctx.cpu.registers[EBP]);
+  const frame = ctx.cpu.registers[ESP];
+  for (let i = 1; i < level; i++) {
+    ctx.pushStack(ctx.readMemory32((ctx.cpu.registers[EBP] - i * 4) & 0xffff));
+  }
+  if (level > 0) {
+    ctx.pushStack(frame);
+  }
+
+  if (ctx.cpu.registers[ESP] < size) {
+    throw new SimulatorException("SS", "Stack overflow");
+  }
+  ctx.cpu.registers[EBP] = frame;
+  ctx.cpu.registers[ESP] = ctx.cpu.registers[ESP] - size;
+}
+
+export function executeLeave(ctx: ExecutionContext): void {
+  // LEAVE is MOV ESP, EBP; POP EBP
+  ctx.cpu.registers[ESP] = ctx.cpu.registers[EBP] & 0xffff;
+  ctx.cpu.registers[EBP] = ctx.popStack();
+}
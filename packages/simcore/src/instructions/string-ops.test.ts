@@ -1,4 +1,5 @@
 import { Simulator } from "../simulator/index";
+import type { Instruction } from "../types";
 
 describe("executeInstruction - String Operations (LODS/STOS/MOVS/SCAS/CMPS)", () => {
   let sim: Simulator;
@@ -36,6 +37,32 @@ describe("executeInstruction - String Operations (LODS/STOS/MOVS/SCAS/CMPS)", ()
     expect(sim.getRegisters().EDI).toBe(301);
   });
 
+  test("STOSB writes a single byte", () => {
+    sim.executeInstruction("MOV", ["[300]", "0xAABBCCDD"]);
+    sim.executeInstruction("MOV", ["EAX", "0x42"]);
+    sim.executeInstruction("MOV", ["EDI", "300"]);
+    sim.executeInstruction("STOSB", []);
+    expect(Array.from(sim.getMemoryA(300, 4))).toEqual([0x42, 0xcc, 0xbb, 0xaa]);
+  });
+
+  test("MOVSB copies a single byte", () => {
+    sim.executeInstruction("MOV", ["[500]", "0x1234"]);
+    sim.executeInstruction("MOV", ["[600]", "0xAABBCCDD"]);
+    sim.executeInstruction("MOV", ["ESI", "500"]);
+    sim.executeInstruction("MOV", ["EDI", "600"]);
+    sim.executeInstruction("MOVSB", []);
+    expect(Array.from(sim.getMemoryA(600, 4))).toEqual([0x34, 0xcc, 0xbb, 0xaa]);
+  });
+
+  test("SCASB sets the sign flag from bit 7", () => {
+    sim.executeInstruction("MOV", ["[300]", "0x01"]);
+    sim.executeInstruction("MOV", ["EAX", "0"]);
+    sim.executeInstruction("MOV", ["EDI", "300"]);
+    sim.executeInstruction("SCASB", []);
+    expect(sim.isSignFlagSet()).toBe(true);
+    expect(sim.isCarryFlagSet()).toBe(true);
+  });
+
   test("STOS is alias for STOSB", () => {
     sim.executeInstruction("MOV", ["EAX", "0x77"]);
     sim.executeInstruction("MOV", ["EDI", "400"]);
@@ -111,3 +138,179 @@ describe("executeInstruction - String Operations (LODS/STOS/MOVS/SCAS/CMPS)", ()
     expect(sim.isCarryFlagSet()).toBe(true); // 0x10 < 0x20
   });
 });
+
+describe("executeInstruction - String operation sizes and direction", () => {
+  let sim: Simulator;
+
+  beforeEach(() => {
+    sim = new Simulator();
+  });
+
+  test("LODSW and LODSD load a word or dword and advance ESI by its size", () => {
+    sim.executeInstruction("MOV", ["[100]", "0x11223344"]);
+    sim.executeInstruction("MOV", ["ESI", "100"]);
+    sim.executeInstruction("MOV", ["EAX", "0xFFFFFFFF"]);
+    sim.executeInstruction("LODSW", []);
+    expect(sim.getRegisters().EAX).toBe(0xffff3344);
+    expect(sim.getRegisters().ESI).toBe(102);
+    sim.executeInstruction("MOV", ["ESI", "100"]);
+    sim.executeInstruction("LODSD", []);
+    expect(sim.getRegisters().EAX).toBe(0x11223344);
+    expect(sim.getRegisters().ESI).toBe(104);
+  });
+
+  test("STOSW and STOSD store AX or EAX", () => {
+    sim.executeInstruction("MOV", ["EAX", "0xAABBCCDD"]);
+    sim.executeInstruction("MOV", ["EDI", "300"]);
+    sim.executeInstruction("STOSW", []);
+    sim.executeInstruction("STOSD", []);
+    expect(Array.from(sim.getMemoryA(300, 6))).toEqual([0xdd, 0xcc, 0xdd, 0xcc, 0xbb, 0xaa]);
+    expect(sim.getRegisters().EDI).toBe(306);
+  });
+
+  test("MOVSD copies a dword", () => {
+    sim.executeInstruction("MOV", ["[500]", "0x12345678"]);
+    sim.executeInstruction("MOV", ["ESI", "500"]);
+    sim.executeInstruction("MOV", ["EDI", "600"]);
+    sim.executeInstruction("MOVSD", []);
+    expect(Array.from(sim.getMemoryA(600, 4))).toEqual([0x78, 0x56, 0x34, 0x12]);
+    expect(sim.getRegisters().ESI).toBe(504);
+    expect(sim.getRegisters().EDI).toBe(604);
+  });
+
+  test("SCASW and CMPSD compare at their own size", () => {
+    sim.executeInstruction("MOV", ["[900]", "0x00011234"]);
+    sim.executeInstruction("MOV", ["EAX", "0x1234"]);
+    sim.executeInstruction("MOV", ["EDI", "900"]);
+    sim.executeInstruction("SCASW", []);
+    expect(sim.isZeroFlagSet()).toBe(true);
+    expect(sim.getRegisters().EDI).toBe(902);
+
+    sim.executeInstruction("MOV", ["[1000]", "0x00011234"]);
+    sim.executeInstruction("MOV", ["ESI", "900"]);
+    sim.executeInstruction("MOV", ["EDI", "1000"]);
+    sim.executeInstruction("CMPSD", []);
+    expect(sim.isZeroFlagSet()).toBe(true);
+  });
+
+  test("STD makes string instructions step downwards and CLD restores it", () => {
+    sim.executeInstruction("MOV", ["EAX", "0x42"]);
+    sim.executeInstruction("MOV", ["EDI", "300"]);
+    sim.executeInstruction("STD", []);
+    expect(sim.isDirectionFlagSet()).toBe(true);
+    sim.executeInstruction("STOSB", []);
+    sim.executeInstruction("STOSD", []);
+    expect(sim.getRegisters().EDI).toBe(295);
+
+    sim.executeInstruction("CLD", []);
+    expect(sim.isDirectionFlagSet()).toBe(false);
+    sim.executeInstruction("STOSB", []);
+    expect(sim.getRegisters().EDI).toBe(296);
+  });
+});
+
+describe("REP prefixes", () => {
+  let sim: Simulator;
+
+  function instr(mnemonic: string, operands: string[] = [], line = 1): Instruction {
+    return { line, mnemonic, operands, raw: `${mnemonic} ${operands.join(", ")}`.trim() };
+  }
+
+  /** Load a program ending in HLT and step until it halts */
+  function run(instructions: Instruction[]): number {
+    sim.loadInstructions([...instructions, instr("HLT")], new Map());
+    let steps = 0;
+    while (!sim.getState().halted && steps < 1000) {
+      sim.step();
+      steps++;
+    }
+    return steps;
+  }
+
+  beforeEach(() => {
+    sim = new Simulator();
+  });
+
+  test("REP STOSB fills ECX bytes (memset)", () => {
+    sim.executeInstruction("MOV", ["[0x2004]", "0x99"]);
+    run([
+      instr("MOV", ["EDI", "0x2000"]),
+      instr("MOV", ["EAX", "0x7F"]),
+      instr("MOV", ["ECX", "4"]),
+      instr("REP", ["STOSB"]),
+    ]);
+    expect(Array.from(sim.getMemoryA(0x2000, 5))).toEqual([0x7f, 0x7f, 0x7f, 0x7f, 0x99]);
+    expect(sim.getRegisters().ECX).toBe(0);
+    expect(sim.getRegisters().EDI).toBe(0x2004);
+  });
+
+  test("each iteration is a separate step that stays on the instruction", () => {
+    sim.loadInstructions(
+      [instr("MOV", ["ECX", "3"]), instr("REP", ["STOSD"]), instr("HLT")],
+      new Map(),
+    );
+    sim.step();
+    sim.step();
+    expect(sim.getEIP()).toBe(1);
+    expect(sim.getRegisters().ECX).toBe(2);
+    sim.step();
+    sim.step();
+    expect(sim.getEIP()).toBe(2);
+    expect(sim.getRegisters().ECX).toBe(0);
+  });
+
+  test("REP with ECX = 0 does nothing", () => {
+    run([instr("MOV", ["EDI", "0x2000"]), instr("MOV", ["EAX", "1"]), instr("REP", ["STOSB"])]);
+    expect(sim.getMemoryA(0x2000, 1)[0]).toBe(0);
+    expect(sim.getRegisters().EDI).toBe(0x2000);
+  });
+
+  test("REP MOVSD copies ECX dwords", () => {
+    sim.executeInstruction("MOV", ["[0x2000]", "0x11111111"]);
+    sim.executeInstruction("MOV", ["[0x2004]", "0x22222222"]);
+    run([
+      instr("MOV", ["ESI", "0x2000"]),
+      instr("MOV", ["EDI", "0x3000"]),
+      instr("MOV", ["ECX", "2"]),
+      instr("REP", ["MOVSD"]),
+    ]);
+    expect(Array.from(sim.getMemoryA(0x3000, 8))).toEqual([
+      0x11, 0x11, 0x11, 0x11, 0x22, 0x22, 0x22, 0x22,
+    ]);
+  });
+
+  test("REPNE SCASB stops at the first match (strlen)", () => {
+    const text = [0x68, 0x69, 0x21, 0x00];
+    text.forEach((byte, i) => sim.executeInstruction("MOV", [`BYTE [${0x2000 + i}]`, `${byte}`]));
+    run([
+      instr("MOV", ["EDI", "0x2000"]),
+      instr("MOV", ["EAX", "0"]),
+      instr("MOV", ["ECX", "0xFFFF"]),
+      instr("REPNE", ["SCASB"]),
+    ]);
+    expect(sim.isZeroFlagSet()).toBe(true);
+    expect(0xffff - sim.getRegisters().ECX - 1).toBe(3);
+    expect(sim.getRegisters().EDI).toBe(0x2004);
+  });
+
+  test("REPE CMPSB stops at the first difference", () => {
+    sim.executeInstruction("MOV", ["[0x2000]", "0x44434241"]);
+    sim.executeInstruction("MOV", ["[0x3000]", "0x44584241"]);
+    run([
+      instr("MOV", ["ESI", "0x2000"]),
+      instr("MOV", ["EDI", "0x3000"]),
+      instr("MOV", ["ECX", "4"]),
+      instr("REPE", ["CMPSB"]),
+    ]);
+    expect(sim.isZeroFlagSet()).toBe(false);
+    expect(sim.getRegisters().ECX).toBe(1);
+    expect(sim.getRegisters().ESI).toBe(0x2003);
+  });
+
+  test("REP without a string instruction raises #UD", () => {
+    sim.loadInstructions([instr("REP", ["MOV"])], new Map());
+    expect(() => sim.step()).toThrow(
+      "#UD Invalid opcode: REP must be followed by a string instruction",
+    );
+  });
+});
@@ -1,56 +1,137 @@
-import type { ExecutionContext } from "../types";
-import { computeArithFlags } from "../flags";
-
-export function executeLods(ctx: ExecutionContext): void {
-  // LODSB: Load byte from [ESI] into AL, increment ESI
-  const addr = ctx.cpu.registers[6] & 0xffff; // ESI
-  const value = ctx.readMemory32(addr) & 0xff;
-  // Store into AL (low byte of EAX)
-  ctx.cpu.registers[0] = (ctx.cpu.registers[0] & 0xffffff00) | value;
-  // Increment ESI
-  ctx.cpu.registers[6] = (ctx.cpu.registers[6] + 1) & 0xffffffff;
-}
-
-export function executeStos(ctx: ExecutionContext): void {
-  // STOSB: Store AL to [EDI], increment EDI
-  const addr = ctx.cpu.registers[7] & 0xffff; // EDI
-  const al = ctx.cpu.registers[0] & 0xff;
-  ctx.writeMemory32(addr, al);
-  // Increment EDI
-  ctx.cpu.registers[7] = (ctx.cpu.registers[7] + 1) & 0xffffffff;
-}
-
-export function executeMovs(ctx: ExecutionContext): void {
-  // MOVSB: Move byte from [ESI] to [EDI], increment both
-  const srcAddr = ctx.cpu.registers[6] & 0xffff; // ESI
-  const dstAddr = ctx.cpu.registers[7] & 0xffff; // EDI
-  const value = ctx.readMemory32(srcAddr) & 0xff;
-  ctx.writeMemory32(dstAddr, value);
-  // Increment ESI and EDI
-  ctx.cpu.registers[6] = (ctx.cpu.registers[6] + 1) & 0xffffffff;
-  ctx.cpu.registers[7] = (ctx.cpu.registers[7] + 1) & 0xffffffff;
-}
-
-export function executeScas(ctx: ExecutionContext): void {
-  // SCASB: Compare AL with byte at [EDI], set flags, increment EDI
-  const addr = ctx.cpu.registers[7] & 0xffff; // EDI
-  const al = ctx.cpu.registers[0] & 0xff;
-  const memValue = ctx.readMemory32(addr) & 0xff;
-  const result = (al - memValue) & 0xffffffff;
-  ctx.cpu.flags = computeArithFlags(ctx.cpu.flags, result, al, memValue, true);
-  // Increment EDI
-  ctx.cpu.registers[7] = (ctx.cpu.registers[7] + 1) & 0xffffffff;
-}
-
-export function executeCmps(ctx: ExecutionContext): void {
-  // CMPSB: Compare byte at [ESI] with byte at [EDI], set flags, increment both
-  const srcAddr = ctx.cpu.registers[6] & 0xffff; // ESI
-  const dstAddr = ctx.cpu.registers[7] & 0xffff; // EDI
-  const srcValue = ctx.readMemory32(srcAddr) & 0xff;
-  const dstValue = ctx.readMemory32(dstAddr) & 0xff;
-  const result = (srcValue - dstValue) & 0xffffffff;
-  ctx.cpu.flags = computeArithFlags(ctx.cpu.flags, result, srcValue, dstValue, true);
-  // Increment ESI and EDI
-  ctx.cpu.registers[6] = (ctx.cpu.registers[6] + 1) & 0xffffffff;
-  ctx.cpu.registers[7] = (ctx.cpu.registers[7] + 1) & 0xffffffff;
+import type { ExecutionContext, OperandWidth } from "../types";
+import { getWidthMask } from "../types";
+import { computeArithFlags, isDirectionFlagSet, isZeroFlagSet, DIRECTION_FLAG } from "../flags";
+import { SimulatorException } from "../cpu/index";
+
+// String instructions work on elements of 8, 16 or 32 bits (the B, W and D
+// forms) at [ESI] and [EDI], then step both index registers by the element
+// size: up when DF is clear (CLD), down when it is set (STD).
+
+const ECX = 1;
+const ESI = 6;
+const EDI = 7;
+
+/** Step an index register to the next element in the direction given by DF */
+function advanceIndex(ctx: ExecutionContext, reg: number, width: OperandWidth): void {
+  const step = isDirectionFlagSet(ctx.cpu.flags) ? -width / 8 : width / 8;
+  ctx.cpu.registers[reg] = (ctx.cpu.registers[reg] + step) >>> 0;
+}
+
+/** Address of the element an index register points at */
+function indexAddress(ctx: ExecutionContext, reg: number): number {
+  return ctx.cpu.registers[reg] & 0xffff;
+}
+
+export function executeLods(ctx: ExecutionContext, width: OperandWidth = 8): void {
+  // LODS: Load element from [ESI] into AL/AX/EAX, advance ESI
+  const value = ctx.readMemory(indexAddress(ctx, ESI), width);
+  const mask = getWidthMask(width);
+  ctx.cpu.registers[0] = ((ctx.cpu.registers[0] & ~mask) | value) >>> 0;
+  advanceIndex(ctx, ESI, width);
+}
+
+export function executeStos(ctx: ExecutionContext, width: OperandWidth = 8): void {
+  // STOS: Store AL/AX/EAX to [EDI], advance EDI
+  const value = ctx.cpu.registers[0] & getWidthMask(width);
+  ctx.writeMemory(indexAddress(ctx, EDI), value, width);
+  advanceIndex(ctx, EDI, width);
+}
+
+export function executeMovs(ctx: ExecutionContext, width: OperandWidth = 8): void {
+  // MOVS: Move element from [ESI] to [EDI], advance both
+  const value = ctx.readMemory(indexAddress(ctx, ESI), width);
+  ctx.writeMemory(indexAddress(ctx, EDI), value, width);
+  advanceIndex(ctx, ESI, width);
+  advanceIndex(ctx, EDI, width);
+}
+
+export function executeScas(ctx: ExecutionContext, width: OperandWidth = 8): void {
+  // SCAS: Compare AL/AX/EAX with element at [EDI], set flags, advance EDI
+  const mask = getWidthMask(width);
+  const acc = ctx.cpu.registers[0] & mask;
+  const memValue = ctx.readMemory(indexAddress(ctx, EDI), width);
+  const result = (acc - memValue) & mask;
+  ctx.cpu.flags = computeArithFlags(
+    ctx.cpu.flags,
+    { result, dest: acc, src: memValue, width },
+    true,
+  );
+  advanceIndex(ctx, EDI, width);
+}
+
+export function executeCmps(ctx: ExecutionContext, width: OperandWidth = 8): void {
+  // CMPS: Compare element at [ESI] with element at [EDI], set flags, advance both
+  const srcValue = ctx.readMemory(indexAddress(ctx, ESI), width);
+  const dstValue = ctx.readMemory(indexAddress(ctx, EDI), width);
+  const result = (srcValue - dstValue) & getWidthMask(width);
+  ctx.cpu.flags = computeArithFlags(
+    ctx.cpu.flags,
+    { result, dest: srcValue, src: dstValue, width },
+    true,
+  );
+  advanceIndex(ctx, ESI, width);
+  advanceIndex(ctx, EDI, width);
+}
+
+// ---------------------------------------------------------------------------
+// REP / REPE / REPNE prefixes
+// ---------------------------------------------------------------------------
+
+const STRING_HANDLERS: {
+  [name: string]: (ctx: ExecutionContext, width: OperandWidth) => void;
+} = {
+  LODS: executeLods,
+  STOS: executeStos,
+  MOVS: executeMovs,
+  SCAS: executeScas,
+  CMPS: executeCmps,
+};
+
+/** Element size named by a string instruction suffix (no suffix = byte) */
+const SUFFIX_WIDTHS: { [suffix: string]: OperandWidth } = { "": 8, B: 8, W: 16, D: 32 };
+
+/**
+ * Execute one iteration of a REP-prefixed string instruction (e.g. REP STOSB).
+ *
+ * Like x86, each iteration is a separate step: while ECX is non-zero the
+ * element is processed and ECX decremented, and EIP stays on the instruction
+ * until ECX reaches 0, so interrupts are taken between iterations. REP and
+ * REPE/REPZ are the same prefix; with SCAS and CMPS they also stop once ZF is
+ * clear, REPNE/REPNZ once ZF is set.
+ */
+export function executeRep(ctx: ExecutionContext, mnemonic: string, operands: string[]): void {
+  const match =
+    operands.length === 1 ? /^(LODS|STOS|MOVS|SCAS|CMPS)([BWD]?)$/i.exec(operands[0].trim()) : null;
+  if (!match) {
+    throw new SimulatorException("UD", `${mnemonic} must be followed by a string instruction`);
+  }
+
+  const count = ctx.cpu.registers[ECX];
+  if (count === 0) {
+    ctx.setEIP(ctx.getNextEIP());
+    return;
+  }
+
+  const name = match[1].toUpperCase();
+  STRING_HANDLERS[name](ctx, SUFFIX_WIDTHS[match[2].toUpperCase()]);
+  ctx.cpu.registers[ECX] = count - 1;
+
+  let repeat = count - 1 !== 0;
+  if (repeat && (name === "SCAS" || name === "CMPS")) {
+    const untilEqual = mnemonic === "REPNE" || mnemonic === "REPNZ";
+    repeat = isZeroFlagSet(ctx.cpu.flags) !== untilEqual;
+  }
+  ctx.setEIP(repeat ? ctx.getEIP() : ctx.getNextEIP());
+}
+
+// ---------------------------------------------------------------------------
+// CLD / STD - Direction flag
+// ---------------------------------------------------------------------------
+
+export function executeCld(ctx: ExecutionContext): void {
+  ctx.cpu.flags &= ~DIRECTION_FLAG;
+}
+
+export function executeStd(ctx: ExecutionContext): void {
+  ctx.cpu.flags |= DIRECTION_FLAG;
 }
@@ -0,0 +1,251 @@
+import { ExecutionHistory, DEFAULT_HISTORY_DEPTH, type JournalEntry } from "./history";
+import { Simulator } from "./index";
+import type { Instruction } from "../types";
+
+function instr(mnemonic: string, operands: string[] = [], line = 1): Instruction {
+  return { line, mnemonic, operands, raw: `${mnemonic} ${operands.join(", ")}`.trim() };
+}
+
+function entry(eip: number): JournalEntry {
+  return {
+    eip,
+    registers: new Uint32Array(8),
+    flags: 0,
+    halted: false,
+    exitCode: null,
+    cycles: 0,
+    callStack: [],
+    instructionLength: 1,
+    consoleLength: 0,
+    keyboard: { queue: [], keyCode: 0, keyState: 0 },
+    audio: { channels: [], cycles: 0 },
+    pic: { irr: 0, imr: 0, isr: 0, vectorBase: 8 },
+    timer: { ctrl: 0, reload: 0, counter: 0, status: 0 },
+    devices: [],
+    random: { seed: 0, state: 0 },
+    memory: [],
+    pixels: [],
+  };
+}
+
+describe("ExecutionHistory", () => {
+  test("is disabled by default", () => {
+    const history = new ExecutionHistory();
+    expect(history.getDepth()).toBe(0);
+    expect(history.isEnabled()).toBe(false);
+    history.setDepth(DEFAULT_HISTORY_DEPTH);
+    expect(history.isEnabled()).toBe(true);
+  });
+
+  test("drops the oldest entries beyond its depth", () => {
+    const history = new ExecutionHistory(2);
+    history.push(entry(0));
+    history.push(entry(1));
+    history.push(entry(2));
+    expect(history.length).toBe(2);
+    expect(history.pop()?.eip).toBe(2);
+    expect(history.pop()?.eip).toBe(1);
+    expect(history.pop()).toBeUndefined();
+  });
+
+  test("shrinking the depth trims existing entries", () => {
+    const history = new ExecutionHistory(5);
+    for (let i = 0; i < 5; i++) history.push(entry(i));
+    history.setDepth(3);
+    expect(history.length).toBe(3);
+    expect(history.pop()?.eip).toBe(4);
+  });
+
+  test("keeps its order after wrapping around and popping", () => {
+    const history = new ExecutionHistory(3);
+    for (let i = 0; i < 5; i++) history.push(entry(i));
+    expect(history.pop()?.eip).toBe(4);
+    history.push(entry(5));
+    history.push(entry(6));
+    expect(history.length).toBe(3);
+    expect([history.pop()?.eip, history.pop()?.eip, history.pop()?.eip]).toEqual([6, 5, 3]);
+    expect(history.pop()).toBeUndefined();
+  });
+
+  test("depth 0 disables recording", () => {
+    const history = new ExecutionHistory(0);
+    history.push(entry(0));
+    expect(history.isEnabled()).toBe(false);
+    expect(history.length).toBe(0);
+  });
+});
+
+describe("Simulator - Reverse execution", () => {
+  let sim: Simulator;
+
+  beforeEach(() => {
+    sim = new Simulator(8, 8);
+    sim.setHistoryDepth(DEFAULT_HISTORY_DEPTH);
+  });
+
+  test("records nothing until a history depth is set", () => {
+    const plain = new Simulator(8, 8);
+    plain.loadInstructions([instr("MOV", ["EAX", "5"])], new Map());
+    plain.step();
+    expect(plain.getHistoryDepth()).toBe(0);
+    expect(plain.getHistoryLength()).toBe(0);
+    expect(plain.stepBack()).toBe(false);
+  });
+
+  test("stepBack undoes register, flag, cycle and EIP changes", () => {
+    sim.loadInstructions(
+      [instr("MOV", ["EAX", "5"], 1), instr("SUB", ["EAX", "5"], 2), instr("HLT", [], 3)],
+      new Map(),
+    );
+    sim.step();
+    const before = sim.getState();
+    sim.step();
+    expect(sim.isZeroFlagSet()).toBe(true);
+
+    expect(sim.stepBack()).toBe(true);
+    expect(sim.getState()).toEqual(before);
+    expect(sim.getCurrentInstruction()?.line).toBe(2);
+  });
+
+  test("stepBack undoes an exit with a return code", () => {
+    sim.loadInstructions(
+      [instr("MOV", ["EAX", "0x4C01"], 1), instr("INT", ["0x21"], 2)],
+      new Map(),
+    );
+    sim.run();
+    expect(sim.getState().exitCode).toBe(1);
+
+    sim.stepBack();
+    expect(sim.getState().halted).toBe(false);
+    expect(sim.getState().exitCode).toBeNull();
+  });
+
+  test("stepBack restores memory written by PUSH and CALL", () => {
+    sim.loadInstructions(
+      [instr("PUSH", ["0x12345678"], 1), instr("CALL", ["sub"], 2), instr("RET", [], 3)],
+      new Map([["sub", 2]]),
+    );
+    const esp = sim.getRegisters().ESP;
+    sim.step();
+    sim.step();
+    expect(sim.getState().callStackDepth).toBe(1);
+
+    sim.stepBack();
+    expect(sim.getState().callStackDepth).toBe(0);
+    expect(Array.from(sim.getMemoryA(esp - 8, 4))).toEqual([0, 0, 0, 0]);
+
+    sim.stepBack();
+    expect(sim.getRegisters().ESP).toBe(esp);
+    expect(Array.from(sim.getMemoryA(esp - 4, 4))).toEqual([0, 0, 0, 0]);
+    expect(sim.getEIP()).toBe(0);
+  });
+
+  test("stepBack restores LCD pixels and console output", () => {
+    sim.loadInstructions(
+      [
+        instr("MOV", ["0xF003", "1"], 1),
+        instr("MOV", ["EAX", "0x0E41"], 2),
+        instr("INT", ["0x10"], 3),
+      ],
+      new Map(),
+    );
+    sim.step();
+    expect(sim.getLCDDisplay()[3]).toBe(1);
+    sim.step();
+    sim.step();
+    expect(sim.getConsoleOutput()).toBe("A");
+
+    sim.stepBack();
+    expect(sim.getConsoleOutput()).toBe("");
+    sim.stepBack();
+    sim.stepBack();
+    expect(sim.getLCDDisplay()[3]).toBe(0);
+    expect(sim.stepBack()).toBe(false);
+  });
+
+  test("stepBack restores the LCD format and palette", () => {
+    sim.loadInstructions(
+      [
+        instr("MOV", ["0x10000", "3"], 1),
+        instr("MOV", ["0xF000", "0xF800"], 2),
+        instr("MOV", ["0x10002", "0x123456"], 3),
+      ],
+      new Map(),
+    );
+    sim.step();
+    sim.step();
+    sim.step();
+    expect(sim.getLCDPalette()[0]).toBe(0x123456);
+
+    sim.stepBack();
+    expect(sim.getLCDPalette()[0]).toBe(0);
+    sim.stepBack();
+    expect(sim.getLCDDisplay()[0]).toBe(0);
+    sim.stepBack();
+    expect(sim.getLCDFormat()).toBe("mono");
+  });
+
+  test("stepBack restores the keyboard queue", () => {
+    sim.loadInstructions([instr("MOV", ["EAX", "[0x10101]"], 1)], new Map());
+    sim.pushKeyboardEvent(65, true);
+    sim.step();
+    expect(sim.getKeyboardStatus().status).toBe(0);
+
+    sim.stepBack();
+    expect(sim.getKeyboardStatus().status).toBe(1);
+  });
+
+  test("steps back over a halt", () => {
+    sim.loadInstructions([instr("HLT", [], 1)], new Map());
+    sim.step();
+    expect(sim.getState().halted).toBe(true);
+    sim.stepBack();
+    expect(sim.getState().halted).toBe(false);
+    expect(sim.getCycleCount()).toBe(0);
+  });
+
+  test("history is limited by setHistoryDepth", () => {
+    sim.loadInstructions(
+      [instr("INC", ["EAX"], 1), instr("INC", ["EAX"], 2), instr("INC", ["EAX"], 3)],
+      new Map(),
+    );
+    sim.setHistoryDepth(2);
+    sim.step();
+    sim.step();
+    sim.step();
+    expect(sim.getHistoryLength()).toBe(2);
+    sim.stepBack();
+    sim.stepBack();
+    expect(sim.stepBack()).toBe(false);
+    expect(sim.getRegisters().EAX).toBe(1);
+  });
+
+  test("history depth 0 disables stepping back", () => {
+    sim.loadInstructions([instr("INC", ["EAX"], 1)], new Map());
+    sim.setHistoryDepth(0);
+    sim.step();
+    expect(sim.getHistoryLength()).toBe(0);
+    expect(sim.stepBack()).toBe(false);
+  });
+
+  test("reset and restore clear the history", () => {
+    sim.loadInstructions([instr("INC", ["EAX"], 1), instr("INC", ["EAX"], 2)], new Map());
+    const saved = sim.snapshot();
+    sim.step();
+    sim.restore(saved);
+    expect(sim.getHistoryLength()).toBe(0);
+    sim.step();
+    sim.reset();
+    expect(sim.getHistoryLength()).toBe(0);
+  });
+
+  test("steps back in memory execution mode", () => {
+    sim.loadInstructions([instr("MOV", ["EAX", "7"], 1), instr("HLT", [], 2)], new Map(), 0x100);
+    sim.setExecutionMode("memory");
+    sim.step();
+    expect(sim.getRegisters().EAX).toBe(7);
+    sim.stepBack();
+    expect(sim.getEIP()).toBe(0x100);
+    expect(sim.getRegisters().EAX).toBe(0);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * TonX86 execution history - an undo journal with one entry per step().
+ *
+ * Each entry holds the machine state a step may change: registers, flags, EIP,
+ * call stack and device registers are copied before the step, while memory
+ * bytes and LCD pixels are recorded as (location, old value) pairs when they
+ * are written. Undoing an entry restores all of them.
+ */
+
+import type { KeyboardState } from "../devices/keyboard";
+import type { AudioState } from "../devices/audio";
+import type { PICState } from "../devices/pic";
+import type { TimerState } from "../devices/timer";
+import type { LCDRegisters } from "../devices/lcd";
+import type { TextState } from "../devices/text";
+import type { UartState } from "../devices/uart";
+import type { RandomState } from "./random";
+
+/** Suggested number of steps to keep when reverse execution is wanted (the debugger's default) */
+export const DEFAULT_HISTORY_DEPTH = 10000;
+
+/**
+ * State changed by a single step
+ */
+export interface JournalEntry {
+  eip: number;
+  registers: Uint32Array;
+  flags: number;
+  halted: boolean;
+  exitCode: number | null;
+  cycles: number;
+  callStack: number[];
+  instructionLength: number;
+  consoleLength: number;
+  keyboard: KeyboardState;
+  audio: AudioState;
+  pic: PICState;
+  timer: TimerState;
+  /** Snapshots of the custom devices, in mapping order */
+  devices: unknown[];
+  random: RandomState;
+  /** [address, old byte] for each memory bank A write, in write order */
+  memory: Array<[number, number]>;
+  /** [pixel index, old value] for each LCD write, in write order */
+  pixels: Array<[number, number]>;
+  /** LCD format and palette before the step, if it wrote them */
+  lcd?: LCDRegisters;
+  /** Text display before the step, if it wrote to it */
+  text?: TextState;
+  /** UART before the step, if it accessed it */
+  uart?: UartState;
+}
+
+/**
+ * Bounded list of journal entries; the oldest entries are dropped first.
+ * Entries live in a ring buffer so that recording a step stays O(1) when
+ * the history is full.
+ */
+export class ExecutionHistory {
+  private entries: Array<JournalEntry | undefined> = [];
+  private start = 0; // Index of the oldest entry in the ring
+  private count = 0;
+
+  /**
+   * @param depth Maximum number of entries; 0 (the default) disables the
+   *   journal, so steps cost nothing extra until a caller asks for history
+   */
+  constructor(private depth: number = 0) {}
+
+  getDepth(): number {
+    return this.depth;
+  }
+
+  /**
+   * Change the maximum number of entries (0 disables the journal)
+   */
+  setDepth(depth: number): void {
+    const kept = this.toArray();
+    this.depth = Math.max(0, Math.floor(depth));
+    this.entries = kept.slice(Math.max(0, kept.length - this.depth));
+    this.start = 0;
+    this.count = this.entries.length;
+  }
+
+  isEnabled(): boolean {
+    return this.depth > 0;
+  }
+
+  push(entry: JournalEntry): void {
+    if (!this.isEnabled()) return;
+    if (this.count < this.depth) {
+      this.entries[(this.start + this.count) % this.depth] = entry;
+      this.count++;
+    } else {
+      // Full: overwrite the oldest entry
+      this.entries[this.start] = entry;
+      this.start = (this.start + 1) % this.depth;
+    }
+  }
+
+  pop(): JournalEntry | undefined {
+    if (this.count === 0) return undefined;
+    this.count--;
+    const slot = (this.start + this.count) % this.depth;
+    const entry = this.entries[slot];
+    this.entries[slot] = undefined;
+    return entry;
+  }
+
+  get length(): number {
+    return this.count;
+  }
+
+  clear(): void {
+    this.entries = [];
+    this.start = 0;
+    this.count = 0;
+  }
+
+  /** Entries from oldest to newest */
+  private toArray(): JournalEntry[] {
+    const result: JournalEntry[] = [];
+    for (let i = 0; i < this.count; i++) {
+      result.push(this.entries[(this.start + i) % this.depth] as JournalEntry);
+    }
+    return result;
+  }
+}
@@ -8,7 +8,7 @@ import {
   REGISTER8_MAP,
   AudioEvent,
 } from "../index";
-import type { Instruction, CompatibilityMode } from "../index";
+import type { Instruction, CompatibilityMode, Device } from "../index";
 
 /**
  * Tests for Simulator orchestrator (simulator.ts)
@@ -17,6 +17,10 @@ import type { Instruction, CompatibilityMode } from "../index";
  * and barrel re-exports.
  */
 
+function instr(line: number, mnemonic: string, ...operands: string[]): Instruction {
+  return { line, mnemonic, operands, raw: `${mnemonic} ${operands.join(", ")}`.trim() };
+}
+
 describe("Simulator - re-exports", () => {
   test("re-exports CPUState class", () => {
     const cpu = new CPUState();
@@ -85,13 +89,20 @@ describe("Simulator - Lifecycle", () => {
     expect(sim.getRegisters().ESP).toBe(0xffff);
   });
 
-  test("run() sets running", () => {
-    sim.run();
-    expect(sim.getState().running).toBe(true);
+  test("run() sets running while it executes", () => {
+    let running = false;
+    sim.loadInstructions([instr(1, "NOP"), instr(2, "NOP")], new Map());
+    sim.run({
+      until: () => {
+        running = sim.getState().running;
+        return true;
+      },
+    });
+    expect(running).toBe(true);
+    expect(sim.getState().running).toBe(false);
   });
 
   test("pause() clears running", () => {
-    sim.run();
     sim.pause();
     expect(sim.getState().running).toBe(false);
   });
@@ -106,7 +117,6 @@ describe("Simulator - Lifecycle", () => {
   test("reset() clears all state", () => {
     sim.executeInstruction("MOV", ["EAX", "100"]);
     sim.executeInstruction("MOV", ["EBX", "200"]);
-    sim.run();
 
     sim.reset();
 
@@ -261,6 +271,27 @@ describe("Simulator - Control Flow (loadInstructions, step)", () => {
     expect(sim.getEIP()).toBe(0);
   });
 
+  test("reloading a program reuses its assembly unless the source changed", () => {
+    const instructions = [instr(1, "MOV", "EAX", "10"), instr(2, "HLT")];
+    sim.loadInstructions(instructions, new Map());
+    const program = sim.getAssembledProgram();
+    sim.run();
+
+    sim.loadInstructions([instr(1, "MOV", "EAX", "10"), instr(2, "HLT")], new Map());
+    expect(sim.getAssembledProgram()).toBe(program);
+    expect(sim.getEIP()).toBe(0);
+    expect(sim.getState().halted).toBe(false);
+
+    instructions[0].operands[1] = "20"; // Edited in place
+    sim.loadInstructions(instructions, new Map());
+    expect(sim.getAssembledProgram()).not.toBe(program);
+    sim.run();
+    expect(sim.getRegisters().EAX).toBe(20);
+
+    sim.loadInstructions(instructions, new Map(), 0x100);
+    expect(sim.getAssembledProgram().origin).toBe(0x100);
+  });
+
   test("step() executes instruction and increments EIP", () => {
     const instructions = [
       { line: 1, mnemonic: "MOV", operands: ["EAX", "10"], raw: "MOV EAX, 10" },
@@ -730,16 +761,198 @@ describe("Simulator - CALL/RET via step()", () => {
     expect(() => sim.step()).toThrow('Jump target "missing" not found');
   });
 
-  test("RET with empty call stack increments EIP", () => {
+  test("RET with an empty stack raises #SS", () => {
     const instructions = [
       { line: 1, mnemonic: "RET", operands: [], raw: "RET" },
       { line: 2, mnemonic: "MOV", operands: ["EBX", "7"], raw: "MOV EBX, 7" },
     ];
     sim.loadInstructions(instructions, new Map());
+    expect(() => sim.step()).toThrow("Stack underflow");
+  });
+});
+
+describe("Simulator - Cycle counting", () => {
+  let sim: Simulator;
+
+  beforeEach(() => {
+    sim = new Simulator();
+  });
+
+  test("starts at zero and counts base cycles per step", () => {
+    sim.loadInstructions(
+      [
+        { line: 1, mnemonic: "MOV", operands: ["EAX", "1"], raw: "MOV EAX, 1" },
+        { line: 2, mnemonic: "ADD", operands: ["EAX", "2"], raw: "ADD EAX, 2" },
+      ],
+      new Map(),
+    );
+    expect(sim.getCycleCount()).toBe(0);
     sim.step();
-    expect(sim.getEIP()).toBe(1);
     sim.step();
-    expect(sim.getRegisters().EBX).toBe(7);
+    expect(sim.getCycleCount()).toBe(2);
+    expect(sim.getState().cycles).toBe(2);
+  });
+
+  test("memory operands cost extra cycles", () => {
+    sim.loadInstructions(
+      [{ line: 1, mnemonic: "MOV", operands: ["EAX", "[0x2000]"], raw: "MOV EAX, [0x2000]" }],
+      new Map(),
+    );
+    sim.step();
+    expect(sim.getCycleCount()).toBe(3);
+  });
+
+  test("taken branches cost more than branches that fall through", () => {
+    const instructions = [
+      { line: 1, mnemonic: "CMP", operands: ["EAX", "0"], raw: "CMP EAX, 0" },
+      { line: 2, mnemonic: "JNE", operands: ["end"], raw: "JNE end" },
+      { line: 3, mnemonic: "JE", operands: ["end"], raw: "JE end" },
+      { line: 4, mnemonic: "NOP", operands: [], raw: "NOP" },
+      { line: 5, mnemonic: "NOP", operands: [], raw: "NOP" },
+    ];
+    sim.loadInstructions(instructions, new Map([["end", 4]]));
+    sim.step(); // CMP: 1
+    sim.step(); // JNE not taken: 1
+    expect(sim.getCycleCount()).toBe(2);
+    sim.step(); // JE taken: 1 + 2
+    expect(sim.getCycleCount()).toBe(5);
+  });
+
+  test("CALL and RET use their ISA cost plus the branch penalty", () => {
+    const instructions = [
+      { line: 1, mnemonic: "CALL", operands: ["func"], raw: "CALL func" },
+      { line: 2, mnemonic: "HLT", operands: [], raw: "HLT" },
+      { line: 3, mnemonic: "RET", operands: [], raw: "RET" },
+    ];
+    sim.loadInstructions(instructions, new Map([["func", 2]]));
+    sim.step();
+    sim.step();
+    expect(sim.getCycleCount()).toBe(8);
+    sim.step(); // HLT
+    expect(sim.getCycleCount()).toBe(9);
+  });
+
+  test("reset() clears the cycle counter", () => {
+    sim.loadInstructions([{ line: 1, mnemonic: "NOP", operands: [], raw: "NOP" }], new Map());
+    sim.step();
+    sim.reset();
+    expect(sim.getCycleCount()).toBe(0);
+  });
+});
+
+describe("Simulator - run()", () => {
+  let sim: Simulator;
+
+  // MOV ECX, 5 / top: DEC ECX / MOV [0x2000], ECX / JNZ top / HLT
+  const loop = [
+    instr(1, "MOV", "ECX", "5"),
+    instr(2, "DEC", "ECX"),
+    instr(3, "MOV", "[0x2000]", "ECX"),
+    instr(4, "JNZ", "top"),
+    instr(5, "HLT"),
+  ];
+  const loopLabels = new Map([["top", 1]]);
+
+  beforeEach(() => {
+    sim = new Simulator();
+    sim.loadInstructions(loop, loopLabels);
+  });
+
+  test("runs until HLT", () => {
+    expect(sim.run()).toEqual({ reason: "halted", steps: 17, line: 5 });
+    expect(sim.getRegisters().ECX).toBe(0);
+  });
+
+  test("reports running off the end of the program as halted", () => {
+    sim.loadInstructions([instr(1, "NOP")], new Map());
+    expect(sim.run()).toEqual({ reason: "halted", steps: 2, line: -1 });
+  });
+
+  test("stops after maxSteps instructions", () => {
+    expect(sim.run({ maxSteps: 4 })).toEqual({ reason: "step-limit", steps: 4, line: 4 });
+    expect(sim.run({ maxSteps: 100 }).reason).toBe("halted");
+  });
+
+  test("stops once maxCycles have elapsed", () => {
+    const result = sim.run({ maxCycles: 3 });
+    expect(result.reason).toBe("cycle-limit");
+    expect(sim.getCycleCount()).toBeGreaterThanOrEqual(3);
+  });
+
+  test("stops before the instruction on a breakpoint line", () => {
+    const breakpoints = new Set([3]);
+    expect(sim.run({ breakpoints })).toEqual({ reason: "breakpoint", steps: 2, line: 3 });
+    expect(sim.getEIP()).toBe(2);
+
+    // Resuming executes the breakpoint line before stopping there again
+    expect(sim.run({ breakpoints })).toEqual({ reason: "breakpoint", steps: 3, line: 3 });
+    expect(sim.getRegisters().ECX).toBe(3);
+  });
+
+  test("skipInitialBreakpoint: false stops at the first instruction", () => {
+    const result = sim.run({ breakpoints: new Set([1]), skipInitialBreakpoint: false });
+    expect(result).toEqual({ reason: "breakpoint", steps: 0, line: 1 });
+  });
+
+  test("stops at code addresses added with addBreakpoint()", () => {
+    sim.addBreakpoint(sim.getAssembledProgram().instructions[4].address);
+    expect(sim.run()).toEqual({ reason: "breakpoint", steps: 16, line: 5 });
+    sim.removeBreakpoint(sim.getAssembledProgram().instructions[4].address);
+  });
+
+  test("does not stop between the iterations of a REP instruction", () => {
+    sim.loadInstructions(
+      [
+        instr(1, "MOV", "EDI", "0x2000"),
+        instr(2, "MOV", "ECX", "3"),
+        instr(3, "REP", "STOSB"),
+        instr(4, "HLT"),
+      ],
+      new Map(),
+    );
+    const breakpoints = new Set([3]);
+    expect(sim.run({ breakpoints }).reason).toBe("breakpoint");
+    expect(sim.run({ maxSteps: 1 }).reason).toBe("step-limit");
+    expect(sim.getRegisters().ECX).toBe(2);
+    expect(sim.run({ breakpoints, skipInitialBreakpoint: false }).reason).toBe("halted");
+    expect(sim.getRegisters().ECX).toBe(0);
+  });
+
+  test("stops after an instruction writes a watched address", () => {
+    const result = sim.run({ watchpoints: new Set([0x2000]) });
+    expect(result).toEqual({ reason: "watchpoint", steps: 3, line: 3, address: 0x2000 });
+    expect(sim.getMemoryA(0x2000, 1)[0]).toBe(4);
+  });
+
+  test("watchpoints cover every byte of a wider write", () => {
+    const result = sim.run({ watchpoints: new Set([0x2003]) });
+    expect(result.reason).toBe("watchpoint");
+    expect(result.address).toBe(0x2003);
+  });
+
+  test("stops when until() returns true", () => {
+    const result = sim.run({ until: () => sim.getRegisters().ECX === 2 });
+    expect(result).toEqual({ reason: "until", steps: 8, line: 2 });
+  });
+
+  test("returns an unhandled CPU exception instead of throwing it", () => {
+    sim.loadInstructions(
+      [instr(1, "MOV", "EAX", "10"), instr(2, "DIV", "EBX"), instr(3, "HLT")],
+      new Map(),
+    );
+    const result = sim.run();
+    expect(result.reason).toBe("exception");
+    expect(result.steps).toBe(1);
+    expect(result.line).toBe(2);
+    expect(result.exception?.mnemonic).toBe("#DE");
+  });
+
+  test("records history like step()", () => {
+    sim.setHistoryDepth(100);
+    sim.run({ maxSteps: 4 });
+    expect(sim.getHistoryLength()).toBe(4);
+    expect(sim.stepBack()).toBe(true);
+    expect(sim.getEIP()).toBe(3);
   });
 });
 
@@ -1010,15 +1223,41 @@ describe("Simulator - Audio Integration", () => {
     expect(events[0].volume).toBeCloseTo(200 / 255);
   });
 
+  test("queued notes are timed by the clockHz option", () => {
+    sim = new Simulator(8, 8, "educational", { clockHz: 1000 }); // 1 cycle per ms
+    const events: AudioEvent[] = [];
+    sim.setAudioEventCallback((event) => {
+      events.push(event);
+    });
+    sim.loadInstructions(
+      [
+        instr(1, "MOV", "0x1020B", "1"), // Queue: plays now (100 ms)
+        instr(2, "MOV", "0x1021B", "1"), // Channel 1: plays now
+        instr(3, "MOV", "0x1020B", "1"), // Queue: plays after the first note
+        instr(4, "MOV", "ECX", "200"),
+        instr(5, "LOOP", "wait"),
+        instr(6, "HLT"),
+      ],
+      new Map([["wait", 4]]),
+    );
+    sim.run();
+
+    expect(events.map((e) => [e.channel, e.time])).toEqual([
+      [0, 0],
+      [1, 1],
+      [0, 100],
+    ]);
+  });
+
   test("reading invalid audio I/O address throws error", () => {
-    expect(() => sim.executeInstruction("MOV", ["EAX", "[0x10207]"])).toThrow(
-      "Unknown I/O read address: 0x10207",
+    expect(() => sim.executeInstruction("MOV", ["EAX", "[0x1020C]"])).toThrow(
+      "Unknown I/O read address: 0x1020c",
     );
   });
 
   test("writing invalid audio I/O address throws error", () => {
-    expect(() => sim.executeInstruction("MOV", ["0x10207", "1"])).toThrow(
-      "Unknown I/O address: 0x10207",
+    expect(() => sim.executeInstruction("MOV", ["0x10240", "1"])).toThrow(
+      "Unknown I/O address: 0x10240",
     );
   });
 });
@@ -1040,7 +1279,7 @@ describe("Simulator - IRET instruction", () => {
       }, // index 0
       { line: 2, mnemonic: "MOV", operands: ["EBX", "0"], raw: "MOV EBX, 0" }, // index 1 - Flags
       { line: 3, mnemonic: "PUSH", operands: ["EBX"], raw: "PUSH EBX" }, // index 2 - Push flags
-      { line: 4, mnemonic: "MOV", operands: ["ECX", "6"], raw: "MOV ECX, 6" }, // index 3 - Return address (index 6)
+      { line: 4, mnemonic: "MOV", operands: ["ECX", "resume"], raw: "MOV ECX, resume" }, // index 3 - Return address (index 6)
       { line: 5, mnemonic: "PUSH", operands: ["ECX"], raw: "PUSH ECX" }, // index 4 - Push return address
       { line: 6, mnemonic: "IRET", operands: [], raw: "IRET" }, // index 5 - Should jump to index 6
       {
@@ -1051,14 +1290,14 @@ describe("Simulator - IRET instruction", () => {
       }, // index 6
       { line: 8, mnemonic: "HLT", operands: [], raw: "HLT" }, // index 7
     ];
-    const labels = new Map<string, number>();
+    const labels = new Map([["resume", 6]]);
     sim.loadInstructions(instructions, labels);
 
     sim.step(); // index 0: MOV EAX, 100
     sim.step(); // index 1: MOV EBX, 0
     sim.step(); // index 2: PUSH EBX (flags)
-    sim.step(); // index 3: MOV ECX, 6
-    sim.step(); // index 4: PUSH ECX (return address = 6)
+    sim.step(); // index 3: MOV ECX, resume
+    sim.step(); // index 4: PUSH ECX (return address of index 6)
     sim.step(); // index 5: IRET - should jump to index 6
 
     expect(sim.getEIP()).toBe(6); // Should be at index 6
@@ -1076,17 +1315,17 @@ describe("Simulator - IRET instruction", () => {
         raw: `MOV EDX, ${testFlags}`,
       },
       { line: 2, mnemonic: "PUSH", operands: ["EDX"], raw: "PUSH EDX" }, // Push flags first
-      { line: 3, mnemonic: "MOV", operands: ["EAX", "6"], raw: "MOV EAX, 6" }, // Return address
+      { line: 3, mnemonic: "MOV", operands: ["EAX", "resume"], raw: "MOV EAX, resume" }, // Return address
       { line: 4, mnemonic: "PUSH", operands: ["EAX"], raw: "PUSH EAX" }, // Push return address
       { line: 5, mnemonic: "IRET", operands: [], raw: "IRET" }, // Pop return address, pop flags
       { line: 6, mnemonic: "HLT", operands: [], raw: "HLT" },
     ];
-    const labels = new Map<string, number>();
+    const labels = new Map([["resume", 6]]);
     sim.loadInstructions(instructions, labels);
 
     sim.step(); // MOV EDX, testFlags
     sim.step(); // PUSH EDX (flags on stack)
-    sim.step(); // MOV EAX, 6
+    sim.step(); // MOV EAX, resume
     sim.step(); // PUSH EAX (return address on stack)
 
     sim.step(); // IRET
@@ -1108,7 +1347,7 @@ describe("Simulator - IRET instruction", () => {
     // 3. IRET returns to main code with restored flags
 
     const savedFlags = 0x41; // ZF=1, CF=1
-    const returnAddr = 8; // Return to line 8
+    const returnAddr = 8; // Return to index 8
 
     const instructions = [
       // Main code - simulate interrupt happening
@@ -1122,8 +1361,8 @@ describe("Simulator - IRET instruction", () => {
       {
         line: 3,
         mnemonic: "MOV",
-        operands: ["EBX", `${returnAddr}`],
-        raw: `MOV EBX, ${returnAddr}`,
+        operands: ["EBX", "resume"],
+        raw: "MOV EBX, resume",
       },
       { line: 4, mnemonic: "PUSH", operands: ["EBX"], raw: "PUSH EBX" }, // Push return address
       // Interrupt handler code
@@ -1133,12 +1372,12 @@ describe("Simulator - IRET instruction", () => {
       { line: 7, mnemonic: "MOV", operands: ["EDX", "99"], raw: "MOV EDX, 99" },
       { line: 8, mnemonic: "HLT", operands: [], raw: "HLT" },
     ];
-    const labels = new Map<string, number>();
+    const labels = new Map([["resume", returnAddr]]);
     sim.loadInstructions(instructions, labels);
 
     sim.step(); // MOV EAX, savedFlags
     sim.step(); // PUSH EAX (flags)
-    sim.step(); // MOV EBX, returnAddr
+    sim.step(); // MOV EBX, resume
     sim.step(); // PUSH EBX (return address)
     sim.step(); // MOV ECX, 42 (handler work)
     expect(sim.getRegisters().ECX).toBe(42);
@@ -1156,17 +1395,17 @@ describe("Simulator - IRET instruction", () => {
     const instructions = [
       { line: 1, mnemonic: "MOV", operands: ["EAX", "0"], raw: "MOV EAX, 0" },
       { line: 2, mnemonic: "PUSH", operands: ["EAX"], raw: "PUSH EAX" }, // Push flags=0
-      { line: 3, mnemonic: "MOV", operands: ["EBX", "6"], raw: "MOV EBX, 6" },
+      { line: 3, mnemonic: "MOV", operands: ["EBX", "resume"], raw: "MOV EBX, resume" },
       { line: 4, mnemonic: "PUSH", operands: ["EBX"], raw: "PUSH EBX" }, // Push return address
       { line: 5, mnemonic: "IRET", operands: [], raw: "IRET" },
       { line: 6, mnemonic: "HLT", operands: [], raw: "HLT" },
     ];
-    const labels = new Map<string, number>();
+    const labels = new Map([["resume", 6]]);
     sim.loadInstructions(instructions, labels);
 
     sim.step(); // MOV EAX, 0
     sim.step(); // PUSH EAX
-    sim.step(); // MOV EBX, 6
+    sim.step(); // MOV EBX, resume
     sim.step(); // PUSH EBX
     sim.step(); // IRET
 
@@ -1279,6 +1518,43 @@ describe("Simulator - Data Loading", () => {
       ]);
     });
 
+    it("should resolve data labels to their memory address", () => {
+      // The parser maps data labels to their address, code labels to an index
+      const labels = new Map([
+        ["code", 1],
+        ["table", 0x2000],
+      ]);
+      sim.loadInstructions(
+        [
+          { line: 1, mnemonic: "MOV", operands: ["EAX", "[table+4]"], raw: "" },
+          { line: 2, mnemonic: "HLT", operands: [], raw: "" },
+        ],
+        labels,
+      );
+      sim.loadData([{ address: 0x2000, size: 4, values: ["table", "code"] }]);
+      expect(sim.getAssembledProgram().labels.has("table")).toBe(false);
+
+      sim.step();
+      expect(sim.getRegisters().EAX).toBe(sim.getAssembledProgram().instructions[1].address);
+      expect(Buffer.from(sim.getMemoryA(0x2000, 4)).readUInt32LE(0)).toBe(0x2000);
+    });
+
+    it("should reject data that overlaps the program code", () => {
+      sim.loadInstructions(
+        [
+          { line: 1, mnemonic: "MOV", operands: ["EAX", "1"], raw: "" },
+          { line: 2, mnemonic: "HLT", operands: [], raw: "" },
+        ],
+        new Map(),
+        0x2000,
+      );
+      const code = sim.getMemoryA(0x2000, 4);
+      expect(() => sim.loadData([{ address: 0x1ffe, size: 4, values: [0] }])).toThrow(
+        "Data at 0x1ffe overlaps the program code at 0x2000",
+      );
+      expect(sim.getMemoryA(0x2000, 4)).toEqual(code);
+    });
+
     it("should handle empty data items array", () => {
       // Should not throw
       expect(() => sim.loadData([])).not.toThrow();
@@ -1338,6 +1614,34 @@ describe("Simulator - Data Loading", () => {
     });
   });
 
+  describe("Labels in data", () => {
+    it("should store the address of a label", () => {
+      sim.loadInstructions(
+        [
+          { line: 1, mnemonic: "NOP", operands: [], raw: "NOP" },
+          { line: 2, mnemonic: "HLT", operands: [], raw: "HLT" },
+        ],
+        new Map([
+          ["done", 1],
+          ["buffer", 0x3000],
+        ]),
+        0x100,
+      );
+      sim.loadData([{ address: 0x2000, size: 4, values: ["done", "buffer", 7] }]);
+
+      const words = Buffer.from(sim.getMemoryA(0x2000, 12));
+      expect(words.readUInt32LE(0)).toBe(0x102);
+      expect(words.readUInt32LE(4)).toBe(0x3000);
+      expect(words.readUInt32LE(8)).toBe(7);
+    });
+
+    it("should throw for an undefined label", () => {
+      expect(() => sim.loadData([{ address: 0x2000, size: 4, values: ["nowhere"] }])).toThrow(
+        'Undefined label "nowhere" in data',
+      );
+    });
+  });
+
   describe("Data at various memory locations", () => {
     it("should load data at high memory address", () => {
       sim.loadData([{ address: 0xf000 - 100, size: 1, values: [0xff] }]);
@@ -1392,3 +1696,94 @@ describe("Simulator - Data Loading", () => {
     });
   });
 });
+
+describe("Simulator - Custom devices", () => {
+  /** One-register counter: writes add to it, ticks add the elapsed cycles */
+  class Counter implements Device<number> {
+    value = 0;
+    read(offset: number): number | undefined {
+      return offset === 0 ? this.value : undefined;
+    }
+    write(_offset: number, value: number): void {
+      this.value += value;
+    }
+    reset(): void {
+      this.value = 0;
+    }
+    tick(cycles: number): void {
+      this.value += cycles * 1000;
+    }
+    snapshot(): number {
+      return this.value;
+    }
+    restore(state: number): void {
+      this.value = state;
+    }
+  }
+
+  let counter: Counter;
+  let sim: Simulator;
+
+  beforeEach(() => {
+    counter = new Counter();
+    sim = new Simulator(8, 8, "educational", {
+      devices: [{ name: "counter", base: 0x10800, size: 2, device: counter }],
+    });
+  });
+
+  test("MOV reads and writes the device registers", () => {
+    counter.value = 5;
+    sim.executeInstruction("MOV", ["EAX", "[0x10800]"]);
+    expect(sim.getRegisters().EAX).toBe(5);
+    sim.executeInstruction("MOV", ["[0x10800]", "3"]);
+    expect(counter.value).toBe(8);
+  });
+
+  test("unreadable registers raise #GP", () => {
+    expect(() => sim.executeInstruction("MOV", ["EAX", "[0x10801]"])).toThrow(
+      "Unknown I/O read address",
+    );
+  });
+
+  test("devices are ticked with the cycles of each step", () => {
+    sim.loadInstructions([instr(1, "NOP"), instr(2, "HLT")], new Map());
+    sim.step();
+    expect(counter.value).toBe(sim.getState().cycles * 1000);
+  });
+
+  test("reset() resets the device", () => {
+    counter.value = 9;
+    sim.reset();
+    expect(counter.value).toBe(0);
+  });
+
+  test("device state is part of snapshots and step-back", () => {
+    sim.setHistoryDepth(100);
+    sim.loadInstructions([instr(1, "MOV", "[0x10800]", "7")], new Map());
+    const before = sim.snapshot();
+    sim.step();
+    const written = counter.value;
+    expect(sim.snapshot().devices).toEqual({ counter: written });
+
+    sim.restore(before);
+    expect(counter.value).toBe(0);
+    sim.step();
+    sim.stepBack();
+    expect(counter.value).toBe(0);
+  });
+
+  test("devices must be mapped inside the I/O range", () => {
+    expect(
+      () =>
+        new Simulator(8, 8, "educational", {
+          devices: [{ name: "low", base: 0x2000, size: 4, device: new Counter() }],
+        }),
+    ).toThrow('Device "low" must be mapped inside the I/O range');
+    expect(
+      () =>
+        new Simulator(8, 8, "educational", {
+          devices: [{ name: "keys", base: 0x10180, size: 4, device: new Counter() }],
+        }),
+    ).toThrow('overlaps "keyboard"');
+  });
+});
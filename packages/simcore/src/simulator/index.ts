@@ -7,26 +7,126 @@
  *   - memory.ts      - Memory class (dual-bank)
  *   - lcd.ts         - LCDDisplay class
  *   - keyboard.ts    - Keyboard class
+ *   - uart.ts        - Uart class (serial port)
  *   - flags.ts       - pure-function flag computation
  *   - instructions.ts - per-instruction execution logic
+ *   - assembler/      - machine-code encoder/decoder for loaded programs
+ *   - snapshot.ts     - versioned save/restore format for the whole machine
+ *   - history.ts      - per-step undo journal for reverse execution
+ *   - pipeline.ts     - decode-once stage: prepared instructions, operand cache
+ *   - random.ts       - seedable generator behind RAND
  */
 
 // Internal imports
-import { CPUState } from "../cpu/index";
+import {
+  CPUState,
+  getBaseCycles,
+  TAKEN_BRANCH_CYCLES,
+  parseMemoryExpression,
+  splitSizeSpecifier,
+  computeMemoryAddress,
+  SimulatorException,
+  EXCEPTION_VECTORS,
+} from "../cpu/index";
 import { Memory } from "../devices/memory";
-import { LCDDisplay } from "../devices/lcd";
+import { LCDDisplay, LCD_REGISTER_OFFSET, LCD_IO_SIZE, type LCDPixelFormat } from "../devices/lcd";
 import { Keyboard } from "../devices/keyboard";
-import { AudioDevice, type AudioEvent } from "../devices/audio";
+import {
+  AudioDevice,
+  AUDIO_CHANNELS,
+  AUDIO_CHANNEL_STRIDE,
+  type AudioEvent,
+} from "../devices/audio";
+import { PIC, IRQ_KEYBOARD, IRQ_TIMER, IRQ_UART, IDT_BASE, IDT_SIZE } from "../devices/pic";
+import { Timer } from "../devices/timer";
+import { TextDisplay, TEXT_BASE, TEXT_IO_SIZE, type TextState } from "../devices/text";
+import { Uart, type UartState } from "../devices/uart";
+import { DeviceBus, type DeviceMapping } from "../devices/bus";
 import type {
   Instruction,
   ParsedOperand,
   RegisterOperand,
   CompatibilityMode,
+  ExecutionMode,
   ExecutionContext,
+  OperandWidth,
+  RunOptions,
+  RunResult,
+  SimulatorOptions,
 } from "../types";
-import { REGISTER_MAP, REGISTER8_MAP } from "../types";
-import { isZeroFlagSet, isSignFlagSet, isCarryFlagSet, isOverflowFlagSet } from "../flags/index";
+import { REGISTER_MAP, REGISTER16_MAP, REGISTER8_MAP, getWidthMask, isIOAddress } from "../types";
+import {
+  isZeroFlagSet,
+  isSignFlagSet,
+  isCarryFlagSet,
+  isOverflowFlagSet,
+  isInterruptFlagSet,
+  isParityFlagSet,
+  isAuxiliaryCarryFlagSet,
+  isDirectionFlagSet,
+  INTERRUPT_FLAG,
+} from "../flags/index";
 import { executeInstruction } from "../instructions/index";
+import { assembleProgram, decodeInstruction, type AssembledProgram } from "../assembler/index";
+import {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_VERSION,
+  encodeMemoryPages,
+  decodeMemoryPages,
+  encodePixels,
+  decodePixels,
+  encodePalette,
+  decodePalette,
+  encodeText,
+  decodeText,
+  validateSnapshot,
+  type SimulatorSnapshot,
+} from "./snapshot";
+import { ExecutionHistory, type JournalEntry } from "./history";
+import { OperandCache, prepareInstruction, type PreparedInstruction } from "./pipeline";
+import { RandomGenerator } from "./random";
+
+/** Code can be fetched from anywhere in the 64KB of memory bank A */
+const CODE_ADDRESS_LIMIT = 0x10000;
+
+/** Prefixes that repeat a string instruction, keeping EIP on it until done */
+const REPEAT_PREFIXES = ["REP", "REPE", "REPZ", "REPNE", "REPNZ"];
+
+/** The stack lives in memory bank A below this address */
+const STACK_LIMIT = 0x10000;
+
+/** LCD pixels are mapped from this address, one byte per pixel */
+const IO_LCD_BASE = 0xf000;
+
+/** UART registers are mapped from this address */
+const IO_UART_BASE = 0x10500;
+
+/**
+ * Run an operand parser, reporting a malformed operand as #UD
+ */
+function parseOrFault<T>(parse: () => T): T {
+  try {
+    return parse();
+  } catch (err) {
+    if (err instanceof SimulatorException) throw err;
+    throw new SimulatorException("UD", err instanceof Error ? err.message : String(err));
+  }
+}
+
+/**
+ * Text identifying a program: its origin, labels and instructions
+ */
+function getSourceKey(
+  instructions: readonly Instruction[],
+  labels: ReadonlyMap<string, number>,
+  origin: number,
+): string {
+  let key = `${origin}\n${[...labels].join(";")}`;
+  for (const instr of instructions) {
+    key += `\n${instr.line} ${instr.mnemonic} ${instr.operands.join("\t")}`;
+  }
+  return key;
+}
 
 /**
  * TonX86 Simulator - main execution engine
@@ -37,95 +137,157 @@ export class Simulator {
   private lcd: LCDDisplay;
   private keyboard: Keyboard;
   private audio: AudioDevice;
-  private code: Uint8Array = new Uint8Array();
+  private pic: PIC;
+  private timer: Timer;
+  private text: TextDisplay;
+  private uart = new Uart();
+  private bus = new DeviceBus(); // Memory-mapped I/O: built-in and custom devices
+  private customDevices: DeviceMapping[] = []; // Devices from SimulatorOptions
+  private random = new RandomGenerator(); // RAND source; seedable for replayable runs
+  private program: AssembledProgram = {
+    origin: 0,
+    bytes: new Uint8Array(),
+    instructions: [],
+    labels: new Map(),
+  };
   private consoleOutput: string = "";
   private compatibilityMode: CompatibilityMode = "educational";
-  private audioEventCallback?: (event: AudioEvent) => void;
+  private executionMode: ExecutionMode = "instruction-list";
 
   // Control flow state
   private eip: number = 0;
   private instructions: Instruction[] = [];
+  private prepared: PreparedInstruction[] = []; // Decoded once per instructions entry
   private labels: Map<string, number> = new Map();
-  private callStack: number[] = [];
+  private callStack: number[] = []; // Return addresses of active CALLs (debugger metadata)
+  private instructionLength: number = 1; // Length of the instruction being executed
+  private addressToIndex: Map<number, number> = new Map(); // Code address -> source instruction
+  private loadedSource = ""; // Key of the assembled program, so reloading it skips assembly
+
+  // Reverse execution
+  private history = new ExecutionHistory();
+  private journal: JournalEntry | null = null; // Entry recording the step in progress
+
+  // Interrupts
+  private interruptEntered = false; // Set when the current instruction transferred to an ISR
+  private waitingForInput = false; // Set when the current instruction blocked on the keyboard
+
+  // Batch execution
+  private repeatEIP = -1; // EIP of a REP instruction with iterations left
+  private watchpoints: ReadonlySet<number> | null = null; // Addresses watched by run()
+  private watchHit = -1; // First watched address written by the current step
+
+  // Decode stage: operand descriptors and the context handed to instruction handlers
+  private operandCache = new OperandCache((operand) => this.parseOperand(operand));
+  private executing: PreparedInstruction | null = null; // Instruction whose handler is running
+  private readonly context: ExecutionContext;
 
   constructor(
     lcdWidth: number = 8,
     lcdHeight: number = 8,
     compatibilityMode: CompatibilityMode = "educational",
+    options: SimulatorOptions = {},
   ) {
     this.cpu = new CPUState();
     this.memory = new Memory();
     this.lcd = new LCDDisplay(lcdWidth, lcdHeight);
     this.keyboard = new Keyboard();
-    this.audio = new AudioDevice();
+    this.audio = new AudioDevice(options.clockHz);
+    this.pic = new PIC();
+    this.timer = new Timer(() => this.pic.raise(IRQ_TIMER));
+    this.text = new TextDisplay(options.textColumns, options.textRows);
+    this.mapDevices(options.devices ?? []);
     this.compatibilityMode = compatibilityMode;
     this.cpu.registers[4] = 0xffff; // Initialize ESP
+    this.context = this.createExecutionContext();
   }
 
   // ---------------------------------------------------------------------------
   // I/O helpers
   // ---------------------------------------------------------------------------
 
+  /**
+   * Map the built-in devices, then the custom ones. Custom devices must lie
+   * inside the I/O window so that memory accesses reach them.
+   */
+  private mapDevices(devices: DeviceMapping[]): void {
+    this.bus.map({ name: "lcd", base: IO_LCD_BASE, size: LCD_IO_SIZE, device: this.lcd });
+    this.bus.map({ name: "keyboard", base: 0x10100, size: 0x100, device: this.keyboard });
+    this.bus.map({
+      name: "audio",
+      base: 0x10200,
+      size: AUDIO_CHANNELS * AUDIO_CHANNEL_STRIDE,
+      device: this.audio,
+    });
+    this.bus.map({ name: "pic", base: 0x10300, size: 5, device: this.pic });
+    this.bus.map({ name: "timer", base: 0x10400, size: 4, device: this.timer });
+    this.bus.map({ name: "uart", base: IO_UART_BASE, size: 4, device: this.uart });
+    this.bus.map({ name: "text", base: TEXT_BASE, size: TEXT_IO_SIZE, device: this.text });
+
+    for (const mapping of devices) {
+      if (!isIOAddress(mapping.base) || !isIOAddress(mapping.base + mapping.size - 1)) {
+        throw new Error(
+          `Device "${mapping.name}" must be mapped inside the I/O range 0x10100-0x10FFF`,
+        );
+      }
+      this.bus.map(mapping);
+      this.customDevices.push(mapping);
+    }
+  }
+
   /**
    * Read from memory-mapped I/O addresses
    */
   private readIO(address: number): number {
-    const IO_LCD_BASE = 0xf000;
-    const IO_LCD_LIMIT = 0x10000;
-    const IO_KEYBOARD_STATUS = 0x10100;
-    const IO_KEYBOARD_KEYCODE = 0x10101;
-    const IO_KEYBOARD_KEYSTATE = 0x10102;
-    const IO_AUDIO_BASE = 0x10200;
-    const IO_AUDIO_LIMIT = 0x10207;
-
-    if (address >= IO_LCD_BASE && address < IO_LCD_LIMIT) {
-      return 0;
-    }
-    if (address === IO_KEYBOARD_STATUS) {
-      return this.keyboard.getStatus();
+    if (this.journal) {
+      this.journalUartAccess(this.journal, address);
     }
-    if (address === IO_KEYBOARD_KEYCODE) {
-      this.keyboard.popKey();
-      return this.keyboard.getKeyCode();
+    const value = this.bus.read(address);
+    if (value === undefined) {
+      throw new SimulatorException("GP", `Unknown I/O read address: 0x${address.toString(16)}`);
     }
-    if (address === IO_KEYBOARD_KEYSTATE) {
-      return this.keyboard.getKeyState();
-    }
-    if (address >= IO_AUDIO_BASE && address < IO_AUDIO_LIMIT) {
-      return this.audio.read(address - IO_AUDIO_BASE);
-    }
-    throw new Error(`Unknown I/O read address: 0x${address.toString(16)}`);
+    return value;
   }
 
   /**
    * Write to memory-mapped I/O addresses
    */
   private writeIO(address: number, value: number): void {
-    const IO_LCD_BASE = 0xf000;
-    const IO_LCD_LIMIT = 0x10000;
-    const IO_KEYBOARD_BASE = 0x10100;
-    const IO_KEYBOARD_LIMIT = 0x10200;
-    const IO_AUDIO_BASE = 0x10200;
-    const IO_AUDIO_LIMIT = 0x10207;
-    const lcdSize = this.lcd.getWidth() * this.lcd.getHeight();
-
-    if (address >= IO_LCD_BASE && address < IO_LCD_LIMIT) {
-      const pixelIndex = address - IO_LCD_BASE;
-      const width = this.lcd.getWidth();
-      const x = pixelIndex % width;
-      const y = Math.floor(pixelIndex / width);
-      if (pixelIndex < lcdSize) {
-        this.lcd.setPixel(x, y, value);
-      }
-    } else if (address >= IO_KEYBOARD_BASE && address < IO_KEYBOARD_LIMIT) {
-      return;
-    } else if (address >= IO_AUDIO_BASE && address < IO_AUDIO_LIMIT) {
-      const audioEvent = this.audio.write(address - IO_AUDIO_BASE, value);
-      if (audioEvent && this.audioEventCallback) {
-        this.audioEventCallback(audioEvent);
+    if (this.watchpoints) {
+      this.noteWatchedWrite(address, 1);
+    }
+    if (this.journal) {
+      this.journalLCDWrite(this.journal, address - IO_LCD_BASE);
+      if (!this.journal.text && address >= TEXT_BASE && address < TEXT_BASE + TEXT_IO_SIZE) {
+        this.journal.text = this.text.snapshot();
       }
-    } else {
-      throw new Error(`Unknown I/O address: 0x${address.toString(16)}`);
+      this.journalUartAccess(this.journal, address);
+    }
+    if (!this.bus.write(address, value)) {
+      throw new SimulatorException("GP", `Unknown I/O address: 0x${address.toString(16)}`);
+    }
+  }
+
+  /**
+   * Record what an LCD write at `offset` overwrites: the old pixel, or the
+   * registers as they were before the step first changed them
+   */
+  private journalLCDWrite(journal: JournalEntry, offset: number): void {
+    const width = this.lcd.getWidth();
+    if (offset >= 0 && offset < width * this.lcd.getHeight()) {
+      journal.pixels.push([offset, this.lcd.getPixel(offset % width, Math.floor(offset / width))]);
+    } else if (offset >= LCD_REGISTER_OFFSET && offset < LCD_IO_SIZE && !journal.lcd) {
+      journal.lcd = this.lcd.getRegisters();
+    }
+  }
+
+  /**
+   * Save the UART before the step first reads or writes it (reads pop the
+   * receive FIFO, so they change it too)
+   */
+  private journalUartAccess(journal: JournalEntry, address: number): void {
+    if (!journal.uart && address >= IO_UART_BASE && address < IO_UART_BASE + 4) {
+      journal.uart = this.uart.snapshot();
     }
   }
 
@@ -133,19 +295,46 @@ export class Simulator {
   // Memory helpers
   // ---------------------------------------------------------------------------
 
+  private readMemory(address: number, width: OperandWidth): number {
+    let value = 0;
+    for (let i = 0; i < width / 8; i++) {
+      value |= this.memory.readA(address + i) << (i * 8);
+    }
+    return value >>> 0;
+  }
+
+  private writeMemory(address: number, value: number, width: OperandWidth): void {
+    const length = width / 8;
+    if (this.journal) {
+      for (let i = 0; i < length; i++) {
+        this.journal.memory.push([address + i, this.memory.readA(address + i)]);
+      }
+    }
+    for (let i = 0; i < length; i++) {
+      this.memory.writeA(address + i, (value >> (i * 8)) & 0xff);
+    }
+    if (this.watchpoints) {
+      this.noteWatchedWrite(address, length);
+    }
+  }
+
+  /**
+   * Remember the first watched address written while run() executes
+   */
+  private noteWatchedWrite(address: number, length: number): void {
+    for (let i = 0; i < length && this.watchHit < 0; i++) {
+      if (this.watchpoints?.has(address + i)) {
+        this.watchHit = address + i;
+      }
+    }
+  }
+
   private readMemory32(address: number): number {
-    const byte0 = this.memory.readA(address);
-    const byte1 = this.memory.readA(address + 1);
-    const byte2 = this.memory.readA(address + 2);
-    const byte3 = this.memory.readA(address + 3);
-    return (byte0 | (byte1 << 8) | (byte2 << 16) | (byte3 << 24)) >>> 0;
+    return this.readMemory(address, 32);
   }
 
   private writeMemory32(address: number, value: number): void {
-    this.memory.writeA(address, value & 0xff);
-    this.memory.writeA(address + 1, (value >> 8) & 0xff);
-    this.memory.writeA(address + 2, (value >> 16) & 0xff);
-    this.memory.writeA(address + 3, (value >> 24) & 0xff);
+    this.writeMemory(address, value, 32);
   }
 
   // ---------------------------------------------------------------------------
@@ -153,11 +342,17 @@ export class Simulator {
   // ---------------------------------------------------------------------------
 
   pushStack(value: number): void {
+    if (this.cpu.registers[4] < 4) {
+      throw new SimulatorException("SS", "Stack overflow");
+    }
     this.cpu.registers[4] = (this.cpu.registers[4] - 4) & 0xffff;
     this.writeMemory32(this.cpu.registers[4], value);
   }
 
   popStack(): number {
+    if (this.cpu.registers[4] + 4 > STACK_LIMIT) {
+      throw new SimulatorException("SS", "Stack underflow");
+    }
     const value = this.readMemory32(this.cpu.registers[4]);
     this.cpu.registers[4] = (this.cpu.registers[4] + 4) & 0xffff;
     return value;
@@ -167,6 +362,26 @@ export class Simulator {
   // Operand parsing
   // ---------------------------------------------------------------------------
 
+  /**
+   * Descriptor for an operand of the running instruction, as prepared when it
+   * was decoded. Handlers pass on the operand strings of the instruction itself,
+   * so a scan of its few operands finds the descriptor without parsing or
+   * hashing; other operands (REP's string instruction, executeInstruction())
+   * go through the cache.
+   */
+  private getOperand(operand: string): ParsedOperand {
+    const fetched = this.executing;
+    if (fetched !== null) {
+      const operands = fetched.instr.operands;
+      for (let i = 0; i < operands.length; i++) {
+        if (operands[i] === operand) {
+          return fetched.operands[i] ?? this.operandCache.get(operand);
+        }
+      }
+    }
+    return this.operandCache.get(operand);
+  }
+
   private parseOperand(operand: string): ParsedOperand {
     const rawOperand = operand.trim();
 
@@ -175,71 +390,27 @@ export class Simulator {
       return { type: "immediate", value: rawOperand.charCodeAt(1) };
     }
 
+    // Size specifier: BYTE, WORD or DWORD [PTR] before a memory operand
+    const sized = parseOrFault(() => splitSizeSpecifier(rawOperand));
+    if (sized.size !== undefined) {
+      return { ...this.parseOperand(sized.operand), size: sized.size };
+    }
+
     operand = rawOperand.toUpperCase();
 
-    // Memory addressing [REG] or [REG+offset] or [REG+REG]
+    // Memory addressing [base + index*scale + displacement]
     if (operand.startsWith("[") && operand.endsWith("]")) {
-      const memExpr = operand.slice(1, -1).trim();
-      const plusMatch = memExpr.match(/^([A-Z]+)\s*\+\s*(.+)$/);
-      const minusMatch = memExpr.match(/^([A-Z]+)\s*-\s*(.+)$/);
-
-      if (plusMatch) {
-        const baseReg = plusMatch[1];
-        const offsetStr = plusMatch[2];
-
-        if (Object.prototype.hasOwnProperty.call(REGISTER_MAP, baseReg)) {
-          let offset = 0;
-          if (Object.prototype.hasOwnProperty.call(REGISTER_MAP, offsetStr)) {
-            offset = this.cpu.registers[REGISTER_MAP[offsetStr]];
-          } else {
-            offset = parseInt(offsetStr, 10);
-          }
-          return {
-            type: "memory",
-            value: 0,
-            base: REGISTER_MAP[baseReg],
-            offset: offset,
-          };
-        }
-      } else if (minusMatch) {
-        const baseReg = minusMatch[1];
-        const offsetStr = minusMatch[2];
-
-        if (Object.prototype.hasOwnProperty.call(REGISTER_MAP, baseReg)) {
-          const offset = parseInt(offsetStr, 10);
-          return {
-            type: "memory",
-            value: 0,
-            base: REGISTER_MAP[baseReg],
-            offset: -offset,
-          };
-        }
-      } else {
-        if (Object.prototype.hasOwnProperty.call(REGISTER_MAP, memExpr)) {
-          return {
-            type: "memory",
-            value: 0,
-            base: REGISTER_MAP[memExpr],
-            offset: 0,
-          };
-        }
-
-        let addr = 0;
-        if (memExpr.startsWith("0X")) {
-          addr = parseInt(memExpr.substring(2), 16);
-        } else if (memExpr.startsWith("0B")) {
-          addr = parseInt(memExpr.substring(2), 2);
-        } else {
-          addr = parseInt(memExpr, 10);
-        }
+      const ref = parseOrFault(() =>
+        parseMemoryExpression(rawOperand.slice(1, -1).trim(), (name) =>
+          this.resolveAddressSymbol(name),
+        ),
+      );
+      return { type: "memory", value: 0, ...ref };
+    }
 
-        return {
-          type: "memory",
-          value: 0,
-          base: -1,
-          offset: addr,
-        };
-      }
+    // 16-bit register aliases
+    if (Object.prototype.hasOwnProperty.call(REGISTER16_MAP, operand)) {
+      return { type: "register16", value: REGISTER16_MAP[operand] };
     }
 
     // 8-bit register aliases
@@ -256,23 +427,32 @@ export class Simulator {
       return { type: "register", value: REGISTER_MAP[operand] };
     }
 
+    // Label used as a value (MOV EAX, handler) stands for its address
+    if (/^[A-Z_]\w*$/.test(operand)) {
+      const address = this.resolveAddressSymbol(rawOperand);
+      if (address !== undefined) {
+        return { type: "immediate", value: address };
+      }
+    }
+
     // Immediate value
     let value = 0;
     if (operand.startsWith("0X")) {
       const hexPart = operand.substring(2);
       if (!/^[0-9A-F]+$/.test(hexPart)) {
-        throw new Error(`Invalid hexadecimal value: ${operand}`);
+        throw new SimulatorException("UD", `Invalid hexadecimal value: ${operand}`);
       }
       value = parseInt(hexPart, 16);
     } else if (operand.startsWith("0B")) {
       const binPart = operand.substring(2);
       if (!/^[01]+$/.test(binPart)) {
-        throw new Error(`Invalid binary value: ${operand}`);
+        throw new SimulatorException("UD", `Invalid binary value: ${operand}`);
       }
       value = parseInt(binPart, 2);
     } else {
       if (!/^-?\d+$/.test(operand)) {
-        throw new Error(
+        throw new SimulatorException(
+          "UD",
           `Invalid operand: ${rawOperand}. Expected register, immediate value, or memory address`,
         );
       }
@@ -288,6 +468,9 @@ export class Simulator {
       const shift = operand.byteOffset ?? 0;
       return (regValue >> shift) & 0xff;
     }
+    if (operand.type === "register16") {
+      return regValue & 0xffff;
+    }
     return regValue;
   }
 
@@ -299,6 +482,11 @@ export class Simulator {
       this.cpu.registers[operand.value] = updated >>> 0;
       return;
     }
+    if (operand.type === "register16") {
+      const updated = (this.cpu.registers[operand.value] & 0xffff0000) | (value & 0xffff);
+      this.cpu.registers[operand.value] = updated >>> 0;
+      return;
+    }
     this.cpu.registers[operand.value] = value >>> 0;
   }
 
@@ -306,25 +494,23 @@ export class Simulator {
     type: string;
     value: number;
     base?: number;
+    index?: number;
+    scale?: number;
     offset?: number;
+    size?: OperandWidth;
     byteOffset?: number;
   }): number {
     if (src.type === "register") {
       return this.cpu.registers[src.value];
-    } else if (src.type === "register8") {
+    } else if (src.type === "register16" || src.type === "register8") {
       return this.readRegisterValue(src as RegisterOperand);
     } else if (src.type === "memory") {
-      let addr: number;
-      if (src.base === -1) {
-        addr = src.offset || 0;
-      } else {
-        addr = (this.cpu.registers[src.base!] + (src.offset || 0)) & 0xffff;
-      }
-      // Check if address is in I/O range: LCD (0xF000-0xFFFF) or peripheral I/O (0x10100-0x102FF)
-      if ((addr >= 0xf000 && addr <= 0xffff) || (addr >= 0x10100 && addr <= 0x102ff)) {
-        return this.readIO(addr);
+      const width = src.size ?? 32;
+      const addr = computeMemoryAddress(this.cpu.registers, src);
+      if (isIOAddress(addr)) {
+        return (this.readIO(addr) & getWidthMask(width)) >>> 0;
       }
-      return this.readMemory32(addr);
+      return this.readMemory(addr, width);
     }
     return src.value;
   }
@@ -333,11 +519,14 @@ export class Simulator {
   // Build the ExecutionContext that instruction handlers use
   // ---------------------------------------------------------------------------
 
-  private getExecutionContext(): ExecutionContext {
+  /**
+   * Create the context once; every step() reuses it
+   */
+  private createExecutionContext(): ExecutionContext {
     return {
       cpu: this.cpu,
       compatibilityMode: this.compatibilityMode,
-      parseOperand: (op) => this.parseOperand(op),
+      parseOperand: (op) => this.getOperand(op),
       readRegisterValue: (op) => this.readRegisterValue(op),
       writeRegisterValue: (op, v) => this.writeRegisterValue(op, v),
       resolveSourceValue: (src) => this.resolveSourceValue(src),
@@ -345,20 +534,33 @@ export class Simulator {
       writeIO: (addr, v) => this.writeIO(addr, v),
       readMemory32: (addr) => this.readMemory32(addr),
       writeMemory32: (addr, v) => this.writeMemory32(addr, v),
+      readMemory: (addr, width) => this.readMemory(addr, width),
+      writeMemory: (addr, v, width) => this.writeMemory(addr, v, width),
       pushStack: (v) => this.pushStack(v),
       popStack: () => this.popStack(),
       appendConsoleOutput: (text) => {
         this.consoleOutput += text;
       },
-      resolveLabel: (label) => this.labels.get(label),
+      random: () => this.random.next(),
+      resolveLabel: (label) => this.resolveLabel(label),
+      codeAddressToEIP: (address) => this.codeAddressToEIP(address),
+      eipToCodeAddress: (eip) => this.eipToCodeAddress(eip),
       getEIP: () => this.eip,
       setEIP: (value) => {
         this.eip = value;
       },
+      getNextEIP: () => this.getNextEIP(),
       pushCallStack: (returnAddress) => {
         this.callStack.push(returnAddress);
       },
       popCallStack: () => this.callStack.pop(),
+      peekKey: () => this.keyboard.peekPress(),
+      readKey: () => this.keyboard.popPress(),
+      isKeyQueued: (keyCode) => this.keyboard.hasPress(keyCode),
+      waitForInput: () => {
+        this.waitingForInput = true;
+      },
+      dispatchInterrupt: (vector, returnEIP) => this.enterInterrupt(vector, returnEIP),
     };
   }
 
@@ -366,25 +568,86 @@ export class Simulator {
   // Program loading
   // ---------------------------------------------------------------------------
 
-  loadInstructions(instructions: Instruction[], labels: Map<string, number>): void {
+  /**
+   * Load parsed instructions and assemble them into memory bank A at
+   * `codeStartAddress` so the encoded bytes are visible as ordinary memory.
+   * The image may not overlap the interrupt descriptor table. Reloading the
+   * same program (e.g. to restart it) reuses its assembly and decoding.
+   */
+  loadInstructions(
+    instructions: Instruction[],
+    labels: Map<string, number>,
+    codeStartAddress: number = 0,
+  ): void {
+    const source = getSourceKey(instructions, labels, codeStartAddress);
+    if (source !== this.loadedSource) {
+      this.assembleInstructions(instructions, labels, codeStartAddress);
+      this.loadedSource = source;
+    }
     this.instructions = instructions;
     this.labels = labels;
-    this.eip = 0;
+    this.writeProgramImage();
+    this.eip = this.getEntryPoint();
     this.callStack = [];
+    this.repeatEIP = -1;
+    this.history.clear();
+    this.cpu.cycles = 0;
     this.cpu.halted = false;
+    this.cpu.exitCode = null;
     this.cpu.running = false;
   }
 
+  /**
+   * Assemble and decode a program, rejecting an image that overlaps the IDT
+   */
+  private assembleInstructions(
+    instructions: Instruction[],
+    labels: Map<string, number>,
+    codeStartAddress: number,
+  ): void {
+    const program = assembleProgram(instructions, labels, codeStartAddress);
+    const end = program.origin + program.bytes.length;
+    if (program.origin < IDT_BASE + IDT_SIZE && end > IDT_BASE) {
+      throw new Error(
+        `Program code at 0x${program.origin.toString(16)}-0x${(end - 1).toString(16)} overlaps ` +
+          `the interrupt descriptor table at 0x${IDT_BASE.toString(16)}; move it with ORG`,
+      );
+    }
+    this.program = program;
+    this.addressToIndex = new Map(program.instructions.map((p, i) => [p.address, i]));
+    this.operandCache.clear();
+    this.prepared = instructions.map((instr) => prepareInstruction(instr, 1, this.operandCache));
+  }
+
+  /**
+   * Write data items into memory bank A. A string value is a label name
+   * (DD handler) and stores the label's address, so call this after
+   * loadInstructions() when the data refers to code labels. Data may not
+   * overlap the program code.
+   */
   loadData(
     dataItems: Array<{
       address: number;
       size: 1 | 2 | 4;
-      values: number[];
+      values: Array<number | string>;
     }>,
   ): void {
+    const { origin, bytes } = this.program;
+    for (const item of dataItems) {
+      const end = item.address + item.size * item.values.length;
+      if (item.address < origin + bytes.length && end > origin) {
+        throw new Error(
+          `Data at 0x${item.address.toString(16)} overlaps the program code at 0x${origin.toString(16)}`,
+        );
+      }
+    }
     for (const item of dataItems) {
       let address = item.address;
-      for (const value of item.values) {
+      for (const entry of item.values) {
+        const value = typeof entry === "string" ? this.resolveAddressSymbol(entry) : entry;
+        if (value === undefined) {
+          throw new Error(`Undefined label "${entry}" in data`);
+        }
         if (item.size === 1) {
           this.memory.writeA(address, value & 0xff);
           address += 1;
@@ -400,6 +663,16 @@ export class Simulator {
     }
   }
 
+  /**
+   * Copy the current program image into memory bank A
+   */
+  private writeProgramImage(): void {
+    const { origin, bytes } = this.program;
+    for (let i = 0; i < bytes.length; i++) {
+      this.memory.writeA(origin + i, bytes[i]);
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // EIP / instruction access
   // ---------------------------------------------------------------------------
@@ -413,10 +686,106 @@ export class Simulator {
   }
 
   getCurrentInstruction(): Instruction | null {
-    if (this.eip >= 0 && this.eip < this.instructions.length) {
-      return this.instructions[this.eip];
+    return this.fetchInstruction()?.instr ?? null;
+  }
+
+  /**
+   * EIP value at which execution starts: index 0, or the program origin in memory mode
+   */
+  private getEntryPoint(): number {
+    return this.executionMode === "memory" ? this.program.origin : 0;
+  }
+
+  private getNextEIP(): number {
+    return this.eip + this.instructionLength;
+  }
+
+  /**
+   * Resolve a jump target to an EIP value. In memory mode, decoded branch
+   * targets (and numeric operands) are already absolute addresses.
+   */
+  private resolveLabel(label: string): number | undefined {
+    if (this.executionMode === "instruction-list") {
+      return this.labels.get(label);
     }
-    return null;
+    const address = this.program.labels.get(label);
+    if (address !== undefined) return address;
+    if (/^0x[0-9a-f]+$/i.test(label)) return parseInt(label.substring(2), 16);
+    return /^\d+$/.test(label) ? parseInt(label, 10) : undefined;
+  }
+
+  /**
+   * Address of a label used inside a memory operand or DD data: code labels
+   * give their address in the program image. Data labels are in the label map
+   * with their memory address rather than an instruction index, so the
+   * assembler leaves them out of the image's labels and they are found here
+   * as given.
+   */
+  private resolveAddressSymbol(name: string): number | undefined {
+    return this.program.labels.get(name) ?? this.labels.get(name);
+  }
+
+  /**
+   * EIP value for a code address held in memory or a register (IDT entries,
+   * indirect branches): the address itself in memory mode, the index of the
+   * instruction placed there in instruction-list mode
+   */
+  private codeAddressToEIP(address: number): number | undefined {
+    if (this.executionMode === "memory") return address;
+    const end = this.program.origin + this.program.bytes.length;
+    return address === end ? this.instructions.length : this.addressToIndex.get(address);
+  }
+
+  /**
+   * Code address of the instruction at an EIP value (the inverse of codeAddressToEIP);
+   * the end of the program maps to the address just past the last instruction
+   */
+  private eipToCodeAddress(eip: number): number {
+    if (this.executionMode === "memory") return eip;
+    const placed = this.program.instructions;
+    return eip < placed.length
+      ? placed[eip].address
+      : this.program.origin + this.program.bytes.length;
+  }
+
+  /**
+   * Fetch the instruction at EIP, or null when execution has run off the program.
+   * In memory mode the bytes at EIP are decoded, so code written at runtime executes
+   * too; the line map attributes decoded instructions back to their source line.
+   */
+  private fetchInstruction(): PreparedInstruction | null {
+    if (this.executionMode === "instruction-list") {
+      return this.prepared[this.eip] ?? null;
+    }
+
+    const end = this.program.origin + this.program.bytes.length;
+    if (this.eip < 0 || this.eip >= CODE_ADDRESS_LIMIT || this.eip === end) {
+      return null;
+    }
+    const decoded = decodeInstruction((addr) => this.memory.readA(addr), this.eip);
+    const index = this.addressToIndex.get(this.eip);
+    const source = index !== undefined ? this.instructions[index] : undefined;
+    return prepareInstruction(
+      {
+        line: source?.line ?? 0,
+        mnemonic: decoded.mnemonic,
+        operands: decoded.operands,
+        raw: `${decoded.mnemonic} ${decoded.operands.join(", ")}`.trim(),
+      },
+      decoded.length,
+      this.operandCache,
+    );
+  }
+
+  /**
+   * Map an EIP value to the source line of the instruction it points at (0 if none)
+   */
+  getLineForEIP(eip: number): number {
+    if (this.executionMode === "instruction-list") {
+      return this.instructions[eip]?.line ?? 0;
+    }
+    const index = this.addressToIndex.get(eip);
+    return index !== undefined ? this.instructions[index].line : 0;
   }
 
   getInstructions(): Instruction[] {
@@ -427,6 +796,13 @@ export class Simulator {
     return this.labels;
   }
 
+  /**
+   * Get the assembled program image (origin, bytes, per-instruction addresses)
+   */
+  getAssembledProgram(): AssembledProgram {
+    return this.program;
+  }
+
   // ---------------------------------------------------------------------------
   // Control flow
   // ---------------------------------------------------------------------------
@@ -436,23 +812,74 @@ export class Simulator {
    * Returns the line number of the executed instruction, or -1 if program ended.
    */
   step(): number {
-    if (this.eip < 0 || this.eip >= this.instructions.length) {
+    const fetched = this.fetchInstruction();
+    if (!fetched) {
       this.cpu.halted = true;
       this.cpu.running = false;
       return -1;
     }
 
-    const instr = this.instructions[this.eip];
-    const currentLine = instr.line;
+    this.journal = this.history.isEnabled() ? this.beginJournalEntry() : null;
+    const startCycles = this.cpu.cycles;
+    const stepEIP = this.eip;
+    this.repeatEIP = -1;
+    try {
+      const line = this.executeOrFault(fetched);
+      if (this.eip === stepEIP && REPEAT_PREFIXES.includes(fetched.mnemonic)) {
+        this.repeatEIP = stepEIP;
+      }
+      this.bus.tick(this.cpu.cycles - startCycles);
+      if (!this.cpu.halted) {
+        this.deliverInterrupt();
+      }
+      return line;
+    } finally {
+      if (this.journal) {
+        this.history.push(this.journal);
+        this.journal = null;
+      }
+    }
+  }
+
+  /**
+   * Execute a fetched instruction, raising any CPU exception it signals
+   */
+  private executeOrFault(fetched: PreparedInstruction): number {
+    const faultEIP = this.eip;
+    try {
+      return this.executeFetched(fetched);
+    } catch (err) {
+      if (!(err instanceof SimulatorException)) throw err;
+      this.raiseException(err, faultEIP, fetched.instr.line);
+      return fetched.instr.line;
+    }
+  }
 
-    // Execute via the instruction module
-    this.executeInstruction(instr.mnemonic, instr.operands);
+  /**
+   * Execute a fetched instruction and advance EIP
+   */
+  private executeFetched(fetched: PreparedInstruction): number {
+    const instr = fetched.instr;
+    const currentLine = instr.line;
+    this.instructionLength = fetched.length;
+    const fallThrough = this.getNextEIP();
+    this.interruptEntered = false;
+    this.waitingForInput = false;
+
+    // Execute via the handler resolved when the instruction was decoded
+    this.executing = fetched;
+    try {
+      fetched.handler(this.context, fetched.mnemonic, instr.operands);
+    } finally {
+      this.executing = null;
+    }
 
     if (this.cpu.halted) {
+      this.cpu.cycles += fetched.cycles;
       return currentLine;
     }
 
-    const mnemonic = instr.mnemonic.toUpperCase();
+    const mnemonic = fetched.mnemonic;
 
     // Special handling for IRET and LOOP instructions
     if (mnemonic === "IRET") {
@@ -461,8 +888,15 @@ export class Simulator {
       // IRET pops: IP (first), then FLAGS (second)
       const returnAddress = this.popStack();
       const flags = this.popStack();
+      const returnEIP = this.codeAddressToEIP(returnAddress);
+      if (returnEIP === undefined) {
+        throw new SimulatorException(
+          "GP",
+          `Return address 0x${returnAddress.toString(16)} is not an instruction`,
+        );
+      }
       this.cpu.flags = flags;
-      this.eip = returnAddress;
+      this.eip = returnEIP;
     } else if (
       mnemonic === "LOOP" ||
       mnemonic === "LOOPE" ||
@@ -472,7 +906,7 @@ export class Simulator {
     ) {
       // ECX was already decremented in executeInstruction
       const targetLabel = instr.operands[0];
-      const targetIndex = this.labels.get(targetLabel);
+      const targetIndex = this.resolveLabel(targetLabel);
 
       if (targetIndex !== undefined) {
         const ecx = this.cpu.registers[1];
@@ -489,10 +923,10 @@ export class Simulator {
         if (shouldBranch) {
           this.eip = targetIndex;
         } else {
-          this.eip++;
+          this.eip = this.getNextEIP();
         }
       } else {
-        throw new Error(`LOOP target "${targetLabel}" not found in labels`);
+        throw new SimulatorException("GP", `LOOP target "${targetLabel}" not found in labels`);
       }
     } else if (
       ![
@@ -513,24 +947,144 @@ export class Simulator {
         "JBE",
         "CALL",
         "RET",
-      ].includes(mnemonic)
+        ...REPEAT_PREFIXES,
+      ].includes(mnemonic) &&
+      !this.interruptEntered &&
+      !this.waitingForInput
     ) {
-      // For all instructions except jumps, calls, rets, iret, and loops,
-      // advance EIP normally
-      this.eip++;
+      // For all instructions except jumps, calls, rets, iret, loops, REP
+      // prefixes, INTs that entered a user handler and input services waiting
+      // for a key, advance EIP past the instruction
+      this.eip = this.getNextEIP();
     }
-    // Note: Jump and CALL/RET instructions handle their own EIP updates
+    // Note: Jump, CALL/RET and REP instructions handle their own EIP updates
     // via ExecutionContext.setEIP()
 
+    // A REP instruction that stays on itself for another iteration is not a branch
+    const branchTaken = this.eip !== fallThrough && !REPEAT_PREFIXES.includes(mnemonic);
+    this.cpu.cycles += fetched.cycles + (branchTaken ? TAKEN_BRANCH_CYCLES : 0);
+
     return currentLine;
   }
 
+  // ---------------------------------------------------------------------------
+  // Interrupts
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Transfer control to the IDT handler for `vector`: push FLAGS, then the
+   * code address of the return EIP (the order IRET pops them in reverse), as
+   * CALL does, and clear IF.
+   * Returns false if the IDT entry is empty.
+   */
+  private enterInterrupt(vector: number, returnEIP: number): boolean {
+    const handlerAddress = this.readMemory32(IDT_BASE + vector * 4);
+    if (handlerAddress === 0) {
+      return false;
+    }
+    const target = this.codeAddressToEIP(handlerAddress);
+    if (target === undefined) {
+      throw new SimulatorException(
+        "GP",
+        `Interrupt 0x${vector.toString(16)} handler address 0x${handlerAddress.toString(16)} is not an instruction`,
+      );
+    }
+    if (this.cpu.registers[4] < 8) {
+      throw new SimulatorException("SS", "Stack overflow"); // Before either push, so nothing changes
+    }
+    this.pushStack(this.cpu.flags);
+    this.pushStack(this.eipToCodeAddress(returnEIP));
+    this.cpu.flags &= ~INTERRUPT_FLAG;
+    this.eip = target;
+    this.interruptEntered = true;
+    return true;
+  }
+
+  /**
+   * Dispatch a CPU exception raised by the instruction at `eip` to its IDT
+   * handler. Faults return to the faulting instruction, #BP to the one after
+   * INT3. Without a handler the CPU stops and the exception is rethrown, with
+   * EIP left where execution would resume. A fault while entering the handler
+   * (a full stack, a bad IDT entry) stops the CPU with a #DF that carries the
+   * original exception.
+   */
+  private raiseException(exception: SimulatorException, eip: number, line: number): void {
+    exception.eip = eip;
+    exception.line = line;
+    this.eip = eip;
+    const returnEIP = exception.vector === EXCEPTION_VECTORS.BP ? this.getNextEIP() : eip;
+    let entered: boolean;
+    try {
+      entered = this.enterInterrupt(exception.vector, returnEIP);
+    } catch (err) {
+      if (!(err instanceof SimulatorException)) throw err;
+      const doubleFault = new SimulatorException(
+        "DF",
+        `${err.message} while delivering ${exception.message}`,
+      );
+      doubleFault.original = exception;
+      doubleFault.eip = eip;
+      doubleFault.line = line;
+      this.cpu.running = false;
+      throw doubleFault;
+    }
+    if (entered) {
+      this.cpu.cycles += getBaseCycles("INT");
+      return;
+    }
+    this.eip = returnEIP;
+    this.cpu.running = false;
+    throw exception;
+  }
+
+  /**
+   * Deliver the highest-priority pending IRQ at an instruction boundary if IF
+   * is set. An IRQ whose vector has no handler is acknowledged and dropped.
+   * A fault while entering the handler stops the CPU at the interrupted
+   * instruction.
+   */
+  private deliverInterrupt(): void {
+    this.pic.setLevel(IRQ_KEYBOARD, this.keyboard.getStatus() !== 0);
+    this.pic.setLevel(IRQ_UART, this.uart.isInterruptPending());
+    if (!isInterruptFlagSet(this.cpu.flags)) {
+      return;
+    }
+    const irq = this.pic.getPendingIRQ();
+    if (irq < 0) {
+      return;
+    }
+    const vector = this.pic.acknowledge(irq);
+    let entered: boolean;
+    try {
+      entered = this.enterInterrupt(vector, this.eip);
+    } catch (err) {
+      if (err instanceof SimulatorException) {
+        err.eip = this.eip;
+        err.line = this.fetchInstruction()?.instr.line ?? 0;
+        this.cpu.running = false;
+      }
+      throw err;
+    }
+    if (entered) {
+      this.cpu.cycles += getBaseCycles("INT");
+    } else {
+      this.pic.endOfInterrupt();
+    }
+  }
+
+  /**
+   * Request a hardware interrupt on a PIC line (IRQ0 = timer, IRQ1 = keyboard, IRQ4 = UART)
+   */
+  raiseIRQ(irq: number): void {
+    this.pic.raise(irq);
+  }
+
   // ---------------------------------------------------------------------------
   // Instruction execution (delegates to instructions.ts)
   // ---------------------------------------------------------------------------
 
   executeInstruction(mnemonic: string, operands: string[]): void {
-    executeInstruction(this.getExecutionContext(), mnemonic, operands);
+    executeInstruction(this.context, mnemonic, operands);
   }
 
   // ---------------------------------------------------------------------------
@@ -553,17 +1107,125 @@ export class Simulator {
     return isOverflowFlagSet(this.cpu.flags);
   }
 
+  isParityFlagSet(): boolean {
+    return isParityFlagSet(this.cpu.flags);
+  }
+
+  isAuxiliaryCarryFlagSet(): boolean {
+    return isAuxiliaryCarryFlagSet(this.cpu.flags);
+  }
+
+  isDirectionFlagSet(): boolean {
+    return isDirectionFlagSet(this.cpu.flags);
+  }
+
   // ---------------------------------------------------------------------------
   // Lifecycle
   // ---------------------------------------------------------------------------
 
-  loadProgram(bytecode: Uint8Array): void {
-    this.code = new Uint8Array(bytecode);
+  /**
+   * Load raw machine-code bytes into memory bank A at `address`
+   */
+  loadProgram(bytecode: Uint8Array, address: number = 0): void {
+    this.program = {
+      origin: address,
+      bytes: new Uint8Array(bytecode),
+      instructions: [],
+      labels: new Map(),
+    };
+    this.instructions = [];
+    this.prepared = [];
+    this.labels = new Map();
+    this.addressToIndex = new Map();
+    this.operandCache.clear();
+    this.loadedSource = "";
+    this.writeProgramImage();
     this.cpu.reset();
+    this.eip = this.getEntryPoint();
+    this.callStack = [];
+    this.repeatEIP = -1;
+    this.history.clear();
   }
 
-  run(): void {
+  /**
+   * Execute instructions in a loop until the program stops, a breakpoint or
+   * watchpoint is hit, a limit runs out or `until` returns true. Unlike
+   * step(), an unhandled CPU exception is returned instead of thrown.
+   * A REP instruction is never interrupted by a breakpoint on its own line.
+   */
+  run(options: RunOptions = {}): RunResult {
+    const { maxSteps = Infinity, maxCycles = Infinity, breakpoints, until } = options;
+    const checkBreakpoints = (breakpoints?.size ?? 0) > 0 || this.cpu.breakpoints.size > 0;
+    const startCycles = this.cpu.cycles;
+    let skipBreakpoint = options.skipInitialBreakpoint ?? true;
+    let steps = 0;
+    let line = -1;
+
+    this.watchpoints = options.watchpoints?.size ? options.watchpoints : null;
     this.cpu.running = true;
+    try {
+      for (;;) {
+        if (steps >= maxSteps) {
+          return { reason: "step-limit", steps, line };
+        }
+        if (this.cpu.cycles - startCycles >= maxCycles) {
+          return { reason: "cycle-limit", steps, line };
+        }
+        if (checkBreakpoints && !skipBreakpoint && this.eip !== this.repeatEIP) {
+          const breakpointLine = this.getBreakpointLine(breakpoints);
+          if (breakpointLine !== undefined) {
+            return { reason: "breakpoint", steps, line: breakpointLine };
+          }
+        }
+        skipBreakpoint = false;
+
+        this.watchHit = -1;
+        line = this.step();
+        steps++;
+        if (this.cpu.halted) {
+          return { reason: "halted", steps, line };
+        }
+        if (this.watchHit >= 0) {
+          return { reason: "watchpoint", steps, line, address: this.watchHit };
+        }
+        if (this.isWaitingForInput()) {
+          return { reason: "waiting-for-input", steps, line };
+        }
+        if (until?.()) {
+          return { reason: "until", steps, line };
+        }
+      }
+    } catch (err) {
+      if (!(err instanceof SimulatorException)) throw err;
+      return { reason: "exception", steps, line: err.line, exception: err };
+    } finally {
+      this.watchpoints = null;
+      this.cpu.running = false;
+    }
+  }
+
+  /**
+   * Source line of the instruction at EIP if it has a breakpoint, either
+   * one of `lines` or a code address added with addBreakpoint()
+   */
+  private getBreakpointLine(lines?: ReadonlySet<number>): number | undefined {
+    const instr = this.getCurrentInstruction();
+    if (!instr) {
+      return undefined;
+    }
+    if (lines?.has(instr.line) || this.cpu.hasBreakpoint(this.eipToCodeAddress(this.eip))) {
+      return instr.line;
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether the last instruction is an input service blocked on an empty
+   * keyboard queue. It runs again on the next step, so execution resumes once
+   * a key is pushed. An IRQ delivered while waiting is serviced first.
+   */
+  isWaitingForInput(): boolean {
+    return this.waitingForInput && !this.interruptEntered;
   }
 
   pause(): void {
@@ -578,12 +1240,247 @@ export class Simulator {
   reset(): void {
     this.cpu.reset();
     this.memory.clear();
-    this.lcd.clear();
-    this.keyboard.clear();
-    this.audio.clear();
+    this.writeProgramImage(); // The loaded program survives a machine reset
+    this.bus.reset();
     this.consoleOutput = "";
-    this.eip = 0;
+    this.eip = this.getEntryPoint();
     this.callStack = [];
+    this.repeatEIP = -1;
+    this.waitingForInput = false;
+    this.random.restart();
+    this.history.clear();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Snapshots
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Capture the full machine state (see snapshot.ts for the format)
+   */
+  snapshot(): SimulatorSnapshot {
+    const memory = this.memory.saveState();
+    const lcd = this.lcd.snapshot();
+    return {
+      format: SNAPSHOT_FORMAT,
+      version: SNAPSHOT_VERSION,
+      cpu: {
+        registers: Array.from(this.cpu.registers),
+        flags: this.cpu.flags,
+        halted: this.cpu.halted,
+        exitCode: this.cpu.exitCode,
+        cycles: this.cpu.cycles,
+      },
+      eip: this.eip,
+      executionMode: this.executionMode,
+      callStack: [...this.callStack],
+      memoryA: encodeMemoryPages(memory.bankA),
+      memoryB: encodeMemoryPages(memory.bankB),
+      lcd: {
+        width: lcd.width,
+        height: lcd.height,
+        pixels: encodePixels(lcd.pixels),
+        format: lcd.format,
+        palette: encodePalette(lcd.palette),
+        paletteIndex: lcd.paletteIndex,
+      },
+      keyboard: this.keyboard.snapshot(),
+      audio: this.audio.snapshot(),
+      pic: this.pic.snapshot(),
+      timer: this.timer.snapshot(),
+      devices: Object.fromEntries(this.customDevices.map((m) => [m.name, m.device.snapshot()])),
+      text: encodeText(this.text.snapshot()),
+      uart: this.uart.snapshot(),
+      random: this.random.snapshot(),
+      consoleOutput: this.consoleOutput,
+    };
+  }
+
+  /**
+   * Restore a state captured by snapshot(). The loaded program (instructions,
+   * labels) is kept; memory bank A from the snapshot replaces the code image.
+   */
+  restore(snapshot: SimulatorSnapshot): void {
+    const state = validateSnapshot(snapshot);
+    const memorySize = this.memory.getSize();
+    // Decode everything before changing any state, so a bad snapshot leaves the machine as it was
+    const memory = {
+      bankA: decodeMemoryPages(state.memoryA, memorySize),
+      bankB: decodeMemoryPages(state.memoryB, memorySize),
+    };
+    const lcd = {
+      width: state.lcd.width,
+      height: state.lcd.height,
+      pixels: decodePixels(state.lcd.pixels, state.lcd.width * state.lcd.height),
+      format: state.lcd.format,
+      palette: decodePalette(state.lcd.palette),
+      paletteIndex: state.lcd.paletteIndex,
+    };
+    const text = decodeText(state.text);
+
+    this.cpu.registers.set(state.cpu.registers);
+    this.cpu.flags = state.cpu.flags;
+    this.cpu.halted = state.cpu.halted;
+    this.cpu.exitCode = state.cpu.exitCode;
+    this.cpu.running = false;
+    this.cpu.cycles = state.cpu.cycles;
+
+    this.executionMode = state.executionMode;
+    this.eip = state.eip;
+    this.callStack = [...state.callStack];
+    this.instructionLength = 1;
+    this.waitingForInput = false;
+
+    this.memory.loadState(memory);
+
+    if (lcd.width !== this.lcd.getWidth() || lcd.height !== this.lcd.getHeight()) {
+      this.lcd = new LCDDisplay(lcd.width, lcd.height);
+      this.bus.replace("lcd", this.lcd);
+    }
+    this.lcd.restore(lcd);
+
+    this.keyboard.restore(state.keyboard);
+    this.audio.restore(state.audio);
+    this.pic.restore(state.pic);
+    this.timer.restore(state.timer);
+    for (const { name, device } of this.customDevices) {
+      if (state.devices?.[name] !== undefined) {
+        device.restore(state.devices[name]);
+      } else {
+        device.reset();
+      }
+    }
+    this.restoreText(text);
+    this.uart.restore(state.uart);
+    this.random.restore(state.random);
+    this.consoleOutput = state.consoleOutput;
+    this.history.clear();
+  }
+
+  /**
+   * Restore the text display from a snapshot, resizing it if needed
+   */
+  private restoreText(state: TextState): void {
+    if (state.columns !== this.text.getColumns() || state.rows !== this.text.getRows()) {
+      this.text = new TextDisplay(state.columns, state.rows);
+      this.bus.replace("text", this.text);
+    }
+    this.text.restore(state);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Reverse execution
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Copy the state a step may change; memory and pixel writes are added as they happen
+   */
+  private beginJournalEntry(): JournalEntry {
+    return {
+      eip: this.eip,
+      registers: new Uint32Array(this.cpu.registers),
+      flags: this.cpu.flags,
+      halted: this.cpu.halted,
+      exitCode: this.cpu.exitCode,
+      cycles: this.cpu.cycles,
+      callStack: [...this.callStack],
+      instructionLength: this.instructionLength,
+      consoleLength: this.consoleOutput.length,
+      keyboard: this.keyboard.snapshot(),
+      audio: this.audio.snapshot(),
+      pic: this.pic.snapshot(),
+      timer: this.timer.snapshot(),
+      devices: this.customDevices.map((m) => m.device.snapshot()),
+      random: this.random.snapshot(),
+      memory: [],
+      pixels: [],
+    };
+  }
+
+  /**
+   * Undo the most recent step. Returns false if there is no history left.
+   */
+  stepBack(): boolean {
+    const entry = this.history.pop();
+    if (!entry) {
+      return false;
+    }
+
+    if (entry.lcd) {
+      this.lcd.setRegisters(entry.lcd); // Before the pixels, which were written in this format
+    }
+    if (entry.text) {
+      this.text.restore(entry.text);
+    }
+    if (entry.uart) {
+      this.uart.rewind(entry.uart);
+    }
+    const width = this.lcd.getWidth();
+    for (let i = entry.pixels.length - 1; i >= 0; i--) {
+      const [index, value] = entry.pixels[i];
+      this.lcd.setPixel(index % width, Math.floor(index / width), value);
+    }
+    for (let i = entry.memory.length - 1; i >= 0; i--) {
+      const [address, value] = entry.memory[i];
+      this.memory.writeA(address, value);
+    }
+
+    this.cpu.registers.set(entry.registers);
+    this.cpu.flags = entry.flags;
+    this.cpu.halted = entry.halted;
+    this.cpu.exitCode = entry.exitCode;
+    this.cpu.running = false;
+    this.cpu.cycles = entry.cycles;
+    this.eip = entry.eip;
+    this.callStack = entry.callStack;
+    this.instructionLength = entry.instructionLength;
+    this.waitingForInput = false;
+    this.consoleOutput = this.consoleOutput.slice(0, entry.consoleLength);
+    this.keyboard.restore(entry.keyboard);
+    this.audio.restore(entry.audio);
+    this.pic.restore(entry.pic);
+    this.timer.restore(entry.timer);
+    this.customDevices.forEach((m, i) => m.device.restore(entry.devices[i]));
+    this.random.restore(entry.random);
+    return true;
+  }
+
+  /**
+   * Number of steps that can currently be undone
+   */
+  getHistoryLength(): number {
+    return this.history.length;
+  }
+
+  getHistoryDepth(): number {
+    return this.history.getDepth();
+  }
+
+  /**
+   * Limit how many steps are kept for stepBack(). The journal is off (0) until
+   * this is called, so that steps cost nothing extra when nobody steps back.
+   */
+  setHistoryDepth(depth: number): void {
+    this.history.setDepth(depth);
+  }
+
+  // ---------------------------------------------------------------------------
+  // RAND
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Seed the RAND generator (truncated to 32 bits) and restart its sequence.
+   * A run from reset() with the same seed produces the same RAND values.
+   */
+  setRandomSeed(seed: number): void {
+    this.random.setSeed(seed);
+  }
+
+  /**
+   * Seed of the RAND generator; picked at random unless setRandomSeed() was called
+   */
+  getRandomSeed(): number {
+    return this.random.getSeed();
   }
 
   // ---------------------------------------------------------------------------
@@ -598,10 +1495,19 @@ export class Simulator {
       flags: this.cpu.flags,
       running: this.cpu.running,
       halted: this.cpu.halted,
+      exitCode: this.cpu.exitCode, // INT 21h AH=4Ch return code, null without one
+      cycles: this.cpu.cycles,
       callStackDepth: this.callStack.length,
     };
   }
 
+  /**
+   * Clock cycles elapsed since the last reset (see cpu/timing.ts)
+   */
+  getCycleCount(): number {
+    return this.cpu.cycles;
+  }
+
   getRegisters() {
     return {
       EAX: this.cpu.registers[0],
@@ -631,10 +1537,45 @@ export class Simulator {
     return result;
   }
 
-  getLCDDisplay(): Uint8Array {
+  /**
+   * Raw pixel values, row-major; getLCDFormat() says how to read them
+   */
+  getLCDDisplay(): Uint16Array {
     return this.lcd.getDisplay();
   }
 
+  getLCDFormat(): LCDPixelFormat {
+    return this.lcd.getFormat();
+  }
+
+  /**
+   * The 256 palette entries (0xRRGGBB) used by the "palette" format
+   */
+  getLCDPalette(): Uint32Array {
+    return this.lcd.getPalette();
+  }
+
+  /**
+   * Colour (0xRRGGBB) of every pixel in the current format
+   */
+  getLCDColors(): Uint32Array {
+    return this.lcd.getColors();
+  }
+
+  /**
+   * Copy of the text display: characters, attributes and cursor
+   */
+  getTextDisplay(): TextState {
+    return this.text.snapshot();
+  }
+
+  /**
+   * The characters of each text display row
+   */
+  getTextLines(): string[] {
+    return this.text.getLines();
+  }
+
   pushKeyboardEvent(keyCode: number, pressed: boolean): void {
     this.keyboard.pushKey(keyCode, pressed);
   }
@@ -647,8 +1588,43 @@ export class Simulator {
     };
   }
 
+  /**
+   * Send text or bytes to the program through the UART receive FIFO.
+   * Returns how many bytes fit; the rest are dropped.
+   */
+  pushSerialInput(data: string | ArrayLike<number>): number {
+    const bytes = typeof data === "string" ? Array.from(data, (char) => char.charCodeAt(0)) : data;
+    return this.uart.receive(bytes);
+  }
+
+  /**
+   * Free space in the UART receive FIFO
+   */
+  getSerialInputSpace(): number {
+    return this.uart.getReceiveSpace();
+  }
+
+  /**
+   * Remove and return the bytes the program has written to the UART
+   */
+  takeSerialOutput(): number[] {
+    return this.uart.takeTransmitted();
+  }
+
+  getUartState(): UartState {
+    return this.uart.snapshot();
+  }
+
   setAudioEventCallback(callback: (event: AudioEvent) => void): void {
-    this.audioEventCallback = callback;
+    this.audio.setEventListener(callback);
+  }
+
+  /**
+   * Start the notes still waiting in the audio queues, e.g. after the program
+   * halted. Their events carry their scheduled start times.
+   */
+  flushAudio(): void {
+    this.audio.drain();
   }
 
   getAudioState(): { ctrl: number } {
@@ -679,5 +1655,30 @@ export class Simulator {
 
   setCompatibilityMode(mode: CompatibilityMode): void {
     this.compatibilityMode = mode;
+    this.context.compatibilityMode = mode;
+  }
+
+  getExecutionMode(): ExecutionMode {
+    return this.executionMode;
+  }
+
+  /**
+   * Switch between executing the parsed instruction list and fetching from memory.
+   * EIP is converted between instruction index and code address.
+   */
+  setExecutionMode(mode: ExecutionMode): void {
+    if (mode === this.executionMode) return;
+
+    const placed = this.program.instructions;
+    const end = this.program.origin + this.program.bytes.length;
+    if (mode === "memory") {
+      this.eip = this.eip < placed.length ? placed[this.eip].address : end;
+    } else {
+      this.eip = this.eip === end ? placed.length : (this.addressToIndex.get(this.eip) ?? this.eip);
+    }
+    this.callStack = [];
+    this.history.clear();
+    this.instructionLength = 1;
+    this.executionMode = mode;
   }
 }
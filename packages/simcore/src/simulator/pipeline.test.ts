@@ -0,0 +1,122 @@
+import { OperandCache, OPERAND_CACHE_LIMIT, prepareInstruction } from "./pipeline";
+import { Simulator } from "./index";
+import { MEMORY_OPERAND_CYCLES, SimulatorException } from "../cpu/index";
+import type { Instruction, ParsedOperand } from "../types";
+
+function instr(mnemonic: string, operands: string[] = [], line = 1): Instruction {
+  return { line, mnemonic, operands, raw: `${mnemonic} ${operands.join(", ")}`.trim() };
+}
+
+function countingCache(): { cache: OperandCache; parsed: string[] } {
+  const parsed: string[] = [];
+  const cache = new OperandCache((operand): ParsedOperand => {
+    parsed.push(operand);
+    if (operand === "BAD") {
+      throw new SimulatorException("UD", `Invalid operand: ${operand}`);
+    }
+    return { type: "immediate", value: parsed.length };
+  });
+  return { cache, parsed };
+}
+
+describe("prepareInstruction", () => {
+  test("upper-cases the mnemonic and resolves its handler", () => {
+    const prepared = prepareInstruction(instr("mov", ["EAX", "1"]), 1, countingCache().cache);
+    expect(prepared.mnemonic).toBe("MOV");
+    expect(typeof prepared.handler).toBe("function");
+    expect(prepared.length).toBe(1);
+  });
+
+  test("parses the operands, leaving those that fail to parse undefined", () => {
+    const { cache, parsed } = countingCache();
+    const prepared = prepareInstruction(instr("MOV", ["EAX", "BAD"]), 1, cache);
+    expect(prepared.operands).toEqual([{ type: "immediate", value: 1 }, undefined]);
+    expect(parsed).toEqual(["EAX", "BAD"]);
+  });
+
+  test("works out the cycle cost, memory operands included", () => {
+    const { cache } = countingCache();
+    expect(prepareInstruction(instr("call", ["func"]), 1, cache).cycles).toBe(2);
+    expect(prepareInstruction(instr("ADD", ["[EBX]", "EAX"]), 1, cache).cycles).toBe(
+      1 + MEMORY_OPERAND_CYCLES,
+    );
+  });
+
+  test("unknown mnemonics raise #UD only when executed", () => {
+    const prepared = prepareInstruction(instr("FOO"), 1, countingCache().cache);
+    expect(() => prepared.handler({} as never, prepared.mnemonic, [])).toThrow(
+      "Unknown instruction: FOO",
+    );
+  });
+});
+
+describe("OperandCache", () => {
+  test("parses each operand once", () => {
+    const { cache, parsed } = countingCache();
+    const first = cache.get("EAX");
+    expect(cache.get("EAX")).toBe(first);
+    expect(parsed).toEqual(["EAX"]);
+    expect(cache.size).toBe(1);
+  });
+
+  test("does not cache operands that fail to parse", () => {
+    const { cache, parsed } = countingCache();
+    expect(() => cache.get("BAD")).toThrow(SimulatorException);
+    expect(() => cache.get("BAD")).toThrow(SimulatorException);
+    expect(parsed).toEqual(["BAD", "BAD"]);
+    expect(cache.size).toBe(0);
+  });
+
+  test("tryGet returns undefined for operands that fail to parse", () => {
+    const { cache } = countingCache();
+    expect(cache.tryGet("BAD")).toBeUndefined();
+    expect(cache.tryGet("EAX")).toBe(cache.get("EAX"));
+  });
+
+  test("starts over when the limit is reached", () => {
+    const { cache } = countingCache();
+    for (let i = 0; i < OPERAND_CACHE_LIMIT; i++) {
+      cache.get(String(i));
+    }
+    expect(cache.size).toBe(OPERAND_CACHE_LIMIT);
+    cache.get("one more");
+    expect(cache.size).toBe(1);
+  });
+});
+
+describe("Simulator decode stage", () => {
+  test("operands are resolved against the labels of the program loaded last", () => {
+    const sim = new Simulator();
+    sim.loadInstructions([instr("MOV", ["EAX", "target"]), instr("HLT")], new Map([["target", 1]]));
+    sim.step();
+    const first = sim.getRegisters().EAX;
+
+    sim.loadInstructions(
+      [instr("NOP"), instr("MOV", ["EAX", "target"]), instr("HLT")],
+      new Map([["target", 2]]),
+    );
+    sim.step();
+    sim.step();
+    expect(sim.getRegisters().EAX).not.toBe(first);
+    expect(sim.getRegisters().EAX).toBe(sim.getAssembledProgram().labels.get("target"));
+  });
+
+  test("steps run on the operands prepared at load, without cache lookups", () => {
+    const sim = new Simulator();
+    sim.loadInstructions(
+      [instr("MOV", ["ECX", "3"]), instr("ADD", ["[0x100]", "ECX"]), instr("LOOP", ["top"])],
+      new Map([["top", 1]]),
+    );
+    const { operandCache } = sim as unknown as { operandCache: OperandCache };
+    const lookups: string[] = [];
+    const get = operandCache.get.bind(operandCache);
+    operandCache.get = (operand) => {
+      lookups.push(operand);
+      return get(operand);
+    };
+
+    sim.run({ maxSteps: 100 });
+    expect(sim.getMemoryA(0x100, 1)[0]).toBe(6);
+    expect(lookups).toEqual([]);
+  });
+});
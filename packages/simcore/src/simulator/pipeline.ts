@@ -0,0 +1,105 @@
+/**
+ * TonX86 decode stage - work done once per instruction instead of on every step()
+ *
+ * Loading a program prepares each instruction for execution: its upper-cased
+ * mnemonic, its handler, its operands parsed into ParsedOperand descriptors and
+ * its cycle cost are all worked out once, so step() only runs the handler.
+ * Descriptors come from an OperandCache shared by all instructions, which also
+ * serves code decoded from memory. A descriptor depends only on the labels of
+ * the loaded program, so the cache is cleared whenever another program is
+ * loaded. Descriptors are shared and must not be modified by instruction
+ * handlers.
+ */
+
+import type { Instruction, ParsedOperand } from "../types";
+import { resolveInstruction, type InstructionHandler } from "../instructions/index";
+import { getInstructionCycles } from "../cpu/index";
+
+/**
+ * An instruction ready to execute
+ */
+export interface PreparedInstruction {
+  instr: Instruction;
+  /** Encoded length in bytes (1 for an instruction-list entry) */
+  length: number;
+  /** Upper-cased mnemonic */
+  mnemonic: string;
+  handler: InstructionHandler;
+  /**
+   * Descriptor of each operand, in order. Operands that are not data operands
+   * (branch labels, the instruction after REP) or fail to parse are undefined
+   * and left to the handler, so a fault is raised when they execute.
+   */
+  operands: readonly (ParsedOperand | undefined)[];
+  /** Cycle cost when no branch is taken: base cost plus memory operands */
+  cycles: number;
+}
+
+/**
+ * Look up everything step() needs to run an instruction
+ */
+export function prepareInstruction(
+  instr: Instruction,
+  length: number,
+  cache: OperandCache,
+): PreparedInstruction {
+  const { mnemonic, handler } = resolveInstruction(instr.mnemonic);
+  return {
+    instr,
+    length,
+    mnemonic,
+    handler,
+    operands: instr.operands.map((operand) => cache.tryGet(operand)),
+    cycles: getInstructionCycles(mnemonic, instr.operands, false),
+  };
+}
+
+/**
+ * Descriptors kept before the cache starts over. Code decoded from memory can
+ * produce any number of distinct operands when a program rewrites itself.
+ */
+export const OPERAND_CACHE_LIMIT = 4096;
+
+/**
+ * Parsed operand descriptors keyed by operand string
+ */
+export class OperandCache {
+  private descriptors = new Map<string, ParsedOperand>();
+
+  constructor(private readonly parse: (operand: string) => ParsedOperand) {}
+
+  /**
+   * Descriptor for an operand, parsed on first use. Operands that fail to parse
+   * are not cached, so the fault is raised each time they execute.
+   */
+  get(operand: string): ParsedOperand {
+    let parsed = this.descriptors.get(operand);
+    if (parsed === undefined) {
+      parsed = this.parse(operand);
+      if (this.descriptors.size >= OPERAND_CACHE_LIMIT) {
+        this.descriptors.clear();
+      }
+      this.descriptors.set(operand, parsed);
+    }
+    return parsed;
+  }
+
+  /**
+   * Descriptor for an operand, or undefined if it does not parse
+   */
+  tryGet(operand: string): ParsedOperand | undefined {
+    try {
+      return this.get(operand);
+    } catch {
+      return undefined;
+    }
+  }
+
+  get size(): number {
+    return this.descriptors.size;
+  }
+
+  clear(): void {
+    this.descriptors.clear();
+  }
+}
@@ -0,0 +1,102 @@
+import { RandomGenerator } from "./random";
+import { Simulator } from "./index";
+import type { Instruction } from "../types";
+
+function instr(mnemonic: string, operands: string[] = [], line = 1): Instruction {
+  return { line, mnemonic, operands, raw: `${mnemonic} ${operands.join(", ")}`.trim() };
+}
+
+function sequence(generator: RandomGenerator, count: number): number[] {
+  return Array.from({ length: count }, () => generator.nextUint32());
+}
+
+describe("RandomGenerator", () => {
+  test("the same seed produces the same sequence", () => {
+    expect(sequence(new RandomGenerator(42), 5)).toEqual(sequence(new RandomGenerator(42), 5));
+    expect(sequence(new RandomGenerator(42), 5)).not.toEqual(sequence(new RandomGenerator(43), 5));
+  });
+
+  test("values are 32-bit and next() stays in [0, 1)", () => {
+    const generator = new RandomGenerator(7);
+    for (let i = 0; i < 1000; i++) {
+      const value = generator.nextUint32();
+      expect(Number.isInteger(value) && value >= 0 && value <= 0xffffffff).toBe(true);
+      const fraction = generator.next();
+      expect(fraction >= 0 && fraction < 1).toBe(true);
+    }
+  });
+
+  test("seeds are truncated to 32 bits", () => {
+    const generator = new RandomGenerator(0x100000005);
+    expect(generator.getSeed()).toBe(5);
+    generator.setSeed(-1);
+    expect(generator.getSeed()).toBe(0xffffffff);
+  });
+
+  test("restart() and restore() replay the sequence", () => {
+    const generator = new RandomGenerator(99);
+    const first = sequence(generator, 3);
+    generator.restart();
+    expect(sequence(generator, 3)).toEqual(first);
+
+    const state = generator.snapshot();
+    const next = sequence(generator, 3);
+    generator.restore(state);
+    expect(sequence(generator, 3)).toEqual(next);
+  });
+});
+
+describe("Simulator - seeded RAND", () => {
+  const program = [instr("RAND", ["EAX", "1000"], 1), instr("RAND", ["EBX"], 2), instr("HLT")];
+
+  function runWithSeed(sim: Simulator, seed: number): [number, number] {
+    sim.setRandomSeed(seed);
+    sim.loadInstructions(program, new Map());
+    sim.run();
+    const { EAX, EBX } = sim.getRegisters();
+    return [EAX, EBX];
+  }
+
+  test("runs with the same seed produce the same values", () => {
+    const first = runWithSeed(new Simulator(), 1234);
+    expect(runWithSeed(new Simulator(), 1234)).toEqual(first);
+    expect(first[0]).toBeLessThan(1000);
+  });
+
+  test("reset() restarts the sequence from the seed", () => {
+    const sim = new Simulator();
+    const first = runWithSeed(sim, 5);
+    sim.reset();
+    sim.run();
+    expect([sim.getRegisters().EAX, sim.getRegisters().EBX]).toEqual(first);
+    expect(sim.getRandomSeed()).toBe(5);
+  });
+
+  test("stepBack rewinds the generator", () => {
+    const sim = new Simulator();
+    sim.setRandomSeed(77);
+    sim.loadInstructions(program, new Map());
+    sim.step();
+    const value = sim.getRegisters().EAX;
+    sim.stepBack();
+    sim.step();
+    expect(sim.getRegisters().EAX).toBe(value);
+  });
+
+  test("snapshots carry the generator state", () => {
+    const sim = new Simulator();
+    sim.setRandomSeed(3);
+    sim.loadInstructions(program, new Map());
+    sim.step();
+    const snapshot = sim.snapshot();
+    sim.step();
+    const expected = sim.getRegisters().EBX;
+
+    const other = new Simulator();
+    other.loadInstructions(program, new Map());
+    other.restore(snapshot);
+    expect(other.getRandomSeed()).toBe(3);
+    other.step();
+    expect(other.getRegisters().EBX).toBe(expected);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * TonX86 RAND source - a seedable pseudo-random generator (mulberry32).
+ *
+ * The same seed always produces the same sequence, so programs that use
+ * RAND can be replayed exactly for grading and bug reports.
+ */
+
+/** Generator state for snapshots and step-back */
+export interface RandomState {
+  seed: number;
+  state: number;
+}
+
+/**
+ * A seed picked from Math.random(), used when none is given
+ */
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+export class RandomGenerator {
+  private seed = 0;
+  private state = 0;
+
+  constructor(seed: number = createRandomSeed()) {
+    this.setSeed(seed);
+  }
+
+  /**
+   * Set the seed (truncated to 32 bits) and restart the sequence
+   */
+  setSeed(seed: number): void {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Restart the sequence from the current seed
+   */
+  restart(): void {
+    this.state = this.seed;
+  }
+
+  /**
+   * Next 32-bit unsigned value
+   */
+  nextUint32(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return (t ^ (t >>> 14)) >>> 0;
+  }
+
+  /**
+   * Next value in [0, 1)
+   */
+  next(): number {
+    return this.nextUint32() / 0x100000000;
+  }
+
+  snapshot(): RandomState {
+    return { seed: this.seed, state: this.state };
+  }
+
+  restore(state: RandomState): void {
+    this.seed = state.seed >>> 0;
+    this.state = state.state >>> 0;
+  }
+}
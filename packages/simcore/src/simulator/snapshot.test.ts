@@ -0,0 +1,198 @@
+import {
+  SNAPSHOT_VERSION,
+  encodeMemoryPages,
+  decodeMemoryPages,
+  encodePixels,
+  decodePixels,
+  serializeSnapshot,
+  parseSnapshot,
+} from "./snapshot";
+import { Simulator } from "./index";
+import type { Instruction } from "../types";
+
+function instr(mnemonic: string, operands: string[] = [], line = 1): Instruction {
+  return { line, mnemonic, operands, raw: `${mnemonic} ${operands.join(", ")}`.trim() };
+}
+
+describe("snapshot memory pages", () => {
+  test("stores only non-zero pages", () => {
+    const bank = new Uint8Array(0x1000);
+    bank[0x205] = 0xab;
+    const pages = encodeMemoryPages(bank);
+    expect(Object.keys(pages)).toEqual(["0x0200"]);
+    expect(pages["0x0200"].substring(10, 12)).toBe("ab");
+  });
+
+  test("round-trips bank contents", () => {
+    const bank = new Uint8Array(0x1000);
+    bank[0] = 1;
+    bank[0xfff] = 0xff;
+    expect(decodeMemoryPages(encodeMemoryPages(bank), 0x1000)).toEqual(bank);
+  });
+
+  test("rejects pages outside the bank", () => {
+    expect(() => decodeMemoryPages({ "0x2000": "00" }, 0x1000)).toThrow(
+      "Invalid snapshot: memory page address 0x2000",
+    );
+  });
+});
+
+describe("snapshot pixels", () => {
+  test("uses two hex digits per pixel unless a pixel needs 16 bits", () => {
+    expect(encodePixels(new Uint16Array([0, 1, 0xff]))).toBe("0001ff");
+    expect(encodePixels(new Uint16Array([0, 0xf800]))).toBe("0000f800");
+  });
+
+  test("round-trips both widths", () => {
+    const narrow = new Uint16Array([1, 0, 0xab, 0]);
+    const wide = new Uint16Array([0xffff, 0, 0x1234, 1]);
+    expect(decodePixels(encodePixels(narrow), 4)).toEqual(narrow);
+    expect(decodePixels(encodePixels(wide), 4)).toEqual(wide);
+  });
+});
+
+describe("parseSnapshot", () => {
+  test("rejects documents that are not snapshots", () => {
+    expect(() => parseSnapshot("{}")).toThrow("not a TonX86 snapshot");
+    expect(() => parseSnapshot("not json")).toThrow("Invalid snapshot");
+  });
+
+  test("rejects other format versions", () => {
+    const snapshot = { ...new Simulator().snapshot(), version: SNAPSHOT_VERSION + 1 };
+    expect(() => parseSnapshot(JSON.stringify(snapshot))).toThrow(
+      `Unsupported snapshot version: ${SNAPSHOT_VERSION + 1}`,
+    );
+  });
+
+  test("rejects missing and malformed sections", () => {
+    const snapshot = new Simulator().snapshot();
+    const { uart: _uart, ...withoutUart } = snapshot;
+    expect(() => parseSnapshot(JSON.stringify(withoutUart))).toThrow(
+      "Invalid snapshot: missing or malformed UART state",
+    );
+    const shortText = { ...snapshot, text: { ...snapshot.text, chars: "41" } };
+    expect(() => parseSnapshot(JSON.stringify(shortText))).toThrow("malformed text state");
+    const badAudio = { ...snapshot, audio: { ...snapshot.audio, channels: [] } };
+    expect(() => parseSnapshot(JSON.stringify(badAudio))).toThrow("malformed audio state");
+    const badPixels = { ...snapshot, lcd: { ...snapshot.lcd, pixels: "zz" } };
+    expect(() => parseSnapshot(JSON.stringify(badPixels))).toThrow("malformed LCD state");
+  });
+});
+
+describe("Simulator snapshot/restore", () => {
+  function buildMachine(): Simulator {
+    const sim = new Simulator(16, 16);
+    sim.loadInstructions(
+      [
+        instr("MOV", ["EAX", "7"], 1),
+        instr("PUSH", ["EAX"], 2),
+        instr("CALL", ["func"], 3),
+        instr("HLT", [], 4),
+        instr("MOV", ["0xF003", "1"], 5), // func:
+        instr("RET", [], 6),
+      ],
+      new Map([["func", 4]]),
+    );
+    sim.loadData([{ address: 0x2000, size: 4, values: [0xdeadbeef] }]);
+    sim.step();
+    sim.step();
+    sim.step();
+    sim.step(); // inside func, LCD pixel written
+    sim.executeInstruction("MOV", ["EAX", "0x0E41"]);
+    sim.executeInstruction("INT", ["0x10"]);
+    sim.pushKeyboardEvent(65, true);
+    sim.executeInstruction("MOV", ["0x10206", "200"]); // audio volume
+    sim.executeInstruction("MOV", ["0x10401", "500"]); // timer reload
+    sim.executeInstruction("MOV", ["0x10400", "1"]); // timer enable
+    return sim;
+  }
+
+  test("restores registers, EIP, call stack, memory and devices", () => {
+    const original = buildMachine();
+    const snapshot = original.snapshot();
+
+    const restored = new Simulator();
+    restored.restore(parseSnapshot(serializeSnapshot(snapshot)));
+
+    expect(restored.getRegisters()).toEqual(original.getRegisters());
+    expect(restored.getState()).toEqual(original.getState());
+    expect(restored.getMemoryA(0x2000, 4)).toEqual(new Uint8Array([0xef, 0xbe, 0xad, 0xde]));
+    expect(restored.getMemoryA(0xfff0, 16)).toEqual(original.getMemoryA(0xfff0, 16));
+    expect(restored.getLCDDisplay()).toEqual(original.getLCDDisplay());
+    expect(restored.getLCDDisplay().length).toBe(256);
+    expect(restored.getKeyboardStatus()).toEqual(original.getKeyboardStatus());
+    expect(restored.getConsoleOutput()).toBe("A");
+    expect(restored.snapshot()).toEqual(snapshot);
+  });
+
+  test("execution continues from the restored state", () => {
+    const original = buildMachine();
+    const snapshot = original.snapshot();
+
+    original.step(); // RET
+    original.step(); // HLT
+    expect(original.getState().halted).toBe(true);
+
+    original.restore(snapshot);
+    expect(original.getState().halted).toBe(false);
+    expect(original.step()).toBe(6); // RET again
+    expect(original.step()).toBe(4);
+  });
+
+  test("restores the exit code", () => {
+    const original = new Simulator();
+    original.executeInstruction("MOV", ["EAX", "0x4C2A"]);
+    original.executeInstruction("INT", ["0x21"]);
+    const snapshot = parseSnapshot(serializeSnapshot(original.snapshot()));
+
+    const restored = new Simulator();
+    restored.restore(snapshot);
+    expect(restored.getState().exitCode).toBe(42);
+
+    restored.restore(new Simulator().snapshot());
+    expect(restored.getState().exitCode).toBeNull();
+  });
+
+  test("restores the LCD format and palette", () => {
+    const original = new Simulator(4, 4);
+    original.executeInstruction("MOV", ["0x10000", "3"]);
+    original.executeInstruction("MOV", ["0xF001", "0x07E0"]);
+    original.executeInstruction("MOV", ["0x10002", "0xABCDEF"]);
+
+    const restored = new Simulator(4, 4);
+    restored.restore(parseSnapshot(serializeSnapshot(original.snapshot())));
+    expect(restored.getLCDFormat()).toBe("rgb565");
+    expect(restored.getLCDDisplay()[1]).toBe(0x07e0);
+    expect(restored.getLCDPalette()).toEqual(original.getLCDPalette());
+  });
+
+  test("a truncated snapshot leaves the machine unchanged", () => {
+    const machine = buildMachine();
+    const registers = machine.getRegisters();
+    const state = machine.getState();
+    const memory = machine.getMemoryA(0x2000, 4);
+    const lcd = machine.getLCDDisplay();
+    const output = machine.getConsoleOutput();
+
+    const snapshot = JSON.parse(serializeSnapshot(new Simulator(8, 8).snapshot()));
+    delete snapshot.random;
+    snapshot.memoryA = { "0x20000": "00" };
+    expect(() => machine.restore(snapshot)).toThrow("RAND state");
+
+    snapshot.random = { seed: 1, state: 1 };
+    expect(() => machine.restore(snapshot)).toThrow("memory page address 0x20000");
+
+    expect(machine.getRegisters()).toEqual(registers);
+    expect(machine.getState()).toEqual(state);
+    expect(machine.getMemoryA(0x2000, 4)).toEqual(memory);
+    expect(machine.getLCDDisplay()).toEqual(lcd);
+    expect(machine.getConsoleOutput()).toBe(output);
+  });
+
+  test("snapshot is a plain JSON document", () => {
+    const snapshot = buildMachine().snapshot();
+    expect(snapshot.format).toBe("tonx86-snapshot");
+    expect(snapshot.version).toBe(SNAPSHOT_VERSION);
+    expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+  });
+});
@@ -0,0 +1,353 @@
+/**
+ * TonX86 Simulator snapshots - a versioned, JSON-serializable image of the
+ * whole machine (CPU, memory banks, devices, console output).
+ *
+ * Memory banks are stored sparsely: only 256-byte pages containing non-zero
+ * bytes are kept, as hex strings keyed by their start address ("0x2000").
+ */
+
+import type { ExecutionMode, KeyboardEvent } from "../types";
+import { AUDIO_CHANNELS, type AudioState } from "../devices/audio";
+import type { PICState } from "../devices/pic";
+import type { TimerState } from "../devices/timer";
+import { LCD_PALETTE_SIZE, LCD_PIXEL_FORMATS, type LCDPixelFormat } from "../devices/lcd";
+import type { TextState } from "../devices/text";
+import type { UartState } from "../devices/uart";
+import type { RandomState } from "./random";
+
+/** Identifies a TonX86 snapshot document */
+export const SNAPSHOT_FORMAT = "tonx86-snapshot";
+
+/** Current snapshot format version */
+export const SNAPSHOT_VERSION = 1;
+
+const PAGE_SIZE = 256;
+
+/** General-purpose registers stored in cpu.registers */
+const REGISTER_COUNT = 8;
+
+/** Non-zero memory pages: start address (hex) -> page bytes (hex) */
+export type MemoryPages = Record<string, string>;
+
+/**
+ * Text display state with the character and attribute planes as hex
+ */
+export type TextSnapshot = Omit<TextState, "chars" | "attributes"> & {
+  chars: string;
+  attributes: string;
+};
+
+/**
+ * Full machine state
+ */
+export interface SimulatorSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  cpu: {
+    registers: number[];
+    flags: number;
+    halted: boolean;
+    exitCode: number | null;
+    cycles: number;
+  };
+  eip: number;
+  executionMode: ExecutionMode;
+  callStack: number[];
+  memoryA: MemoryPages;
+  memoryB: MemoryPages;
+  lcd: {
+    width: number;
+    height: number;
+    pixels: string;
+    format: LCDPixelFormat;
+    palette: string;
+    paletteIndex: number;
+  };
+  keyboard: { queue: KeyboardEvent[]; keyCode: number; keyState: number };
+  audio: AudioState;
+  pic: PICState;
+  timer: TimerState;
+  devices?: Record<string, unknown>; // Custom devices by name (SimulatorOptions.devices)
+  text: TextSnapshot;
+  uart: UartState;
+  random: RandomState; // RAND generator
+  consoleOutput: string;
+}
+
+function toHex(bytes: Uint8Array): string {
+  let text = "";
+  for (const byte of bytes) {
+    text += byte.toString(16).padStart(2, "0");
+  }
+  return text;
+}
+
+function fromHex(text: string): Uint8Array {
+  if (text.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(text)) {
+    throw new Error("Invalid snapshot: malformed hex data");
+  }
+  const bytes = new Uint8Array(text.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(text.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Encode a memory bank as its non-zero pages
+ */
+export function encodeMemoryPages(bank: Uint8Array): MemoryPages {
+  const pages: MemoryPages = {};
+  for (let start = 0; start < bank.length; start += PAGE_SIZE) {
+    const page = bank.subarray(start, start + PAGE_SIZE);
+    if (page.some((byte) => byte !== 0)) {
+      pages[`0x${start.toString(16).padStart(4, "0")}`] = toHex(page);
+    }
+  }
+  return pages;
+}
+
+/**
+ * Rebuild a memory bank of `size` bytes from its pages
+ */
+export function decodeMemoryPages(pages: MemoryPages, size: number): Uint8Array {
+  const bank = new Uint8Array(size);
+  for (const [address, hex] of Object.entries(pages)) {
+    const start = parseInt(address, 16);
+    if (Number.isNaN(start) || start < 0 || start >= size) {
+      throw new Error(`Invalid snapshot: memory page address ${address}`);
+    }
+    bank.set(fromHex(hex).subarray(0, size - start), start);
+  }
+  return bank;
+}
+
+function toHexValues(values: ArrayLike<number>, digits: number): string {
+  let text = "";
+  for (let i = 0; i < values.length; i++) {
+    text += values[i].toString(16).padStart(digits, "0");
+  }
+  return text;
+}
+
+function fromHexValues(text: string, digits: number): number[] {
+  if (text.length % digits !== 0 || !/^[0-9a-fA-F]*$/.test(text)) {
+    throw new Error("Invalid snapshot: malformed hex data");
+  }
+  const values: number[] = [];
+  for (let i = 0; i < text.length; i += digits) {
+    values.push(parseInt(text.substring(i, i + digits), 16));
+  }
+  return values;
+}
+
+/**
+ * Encode LCD pixels as two hex digits each, or four if any pixel needs 16 bits (RGB565)
+ */
+export function encodePixels(pixels: Uint16Array): string {
+  return toHexValues(pixels, pixels.some((pixel) => pixel > 0xff) ? 4 : 2);
+}
+
+/**
+ * Decode the `count` pixels of a display encoded by encodePixels()
+ */
+export function decodePixels(text: string, count: number): Uint16Array {
+  return new Uint16Array(fromHexValues(text, text.length === count * 4 ? 4 : 2));
+}
+
+/**
+ * Encode an LCD palette as six hex digits (RRGGBB) per entry
+ */
+export function encodePalette(palette: Uint32Array): string {
+  return toHexValues(palette, 6);
+}
+
+export function decodePalette(text: string): Uint32Array {
+  return new Uint32Array(fromHexValues(text, 6));
+}
+
+/**
+ * Encode a text display state with its planes as hex
+ */
+export function encodeText(state: TextState): TextSnapshot {
+  return { ...state, chars: toHex(state.chars), attributes: toHex(state.attributes) };
+}
+
+export function decodeText(snapshot: TextSnapshot): TextState {
+  return { ...snapshot, chars: fromHex(snapshot.chars), attributes: fromHex(snapshot.attributes) };
+}
+
+type Fields = { [key: string]: unknown };
+
+function isRecord(value: unknown): value is Fields {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function isSize(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+function isNumberArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every(isNumber);
+}
+
+function isHex(value: unknown, length: number, digits = 2): value is string {
+  return (
+    typeof value === "string" && value.length === length * digits && /^[0-9a-fA-F]*$/.test(value)
+  );
+}
+
+function hasNumbers(value: unknown, fields: readonly string[]): value is Fields {
+  return isRecord(value) && fields.every((field) => isNumber(value[field]));
+}
+
+function isMemoryPages(value: unknown): value is MemoryPages {
+  return (
+    isRecord(value) &&
+    Object.values(value).every((hex) => typeof hex === "string" && /^([0-9a-fA-F]{2})*$/.test(hex))
+  );
+}
+
+function isLcdState(lcd: unknown): boolean {
+  if (!hasNumbers(lcd, ["width", "height", "paletteIndex"])) {
+    return false;
+  }
+  const count = isSize(lcd.width) && isSize(lcd.height) ? lcd.width * lcd.height : NaN;
+  return (
+    (isHex(lcd.pixels, count) || isHex(lcd.pixels, count, 4)) &&
+    LCD_PIXEL_FORMATS.includes(lcd.format as LCDPixelFormat) &&
+    isHex(lcd.palette, LCD_PALETTE_SIZE, 6)
+  );
+}
+
+function isKeyboardState(keyboard: unknown): boolean {
+  return (
+    hasNumbers(keyboard, ["keyCode", "keyState"]) &&
+    Array.isArray(keyboard.queue) &&
+    keyboard.queue.every(
+      (event) => hasNumbers(event, ["keyCode"]) && typeof event.pressed === "boolean",
+    )
+  );
+}
+
+function isAudioNote(note: unknown): boolean {
+  return (
+    hasNumbers(note, ["frequency", "duration", "volume"]) &&
+    typeof note.waveform === "string" &&
+    hasNumbers(note.envelope, ["attack", "decay", "sustain", "release"])
+  );
+}
+
+function isAudioState(audio: unknown): boolean {
+  const fields = ["ctrl", "waveform", "frequency", "duration", "volume"];
+  const envelope = ["attack", "decay", "sustain", "release", "endCycle"];
+  return (
+    hasNumbers(audio, ["cycles"]) &&
+    Array.isArray(audio.channels) &&
+    audio.channels.length === AUDIO_CHANNELS &&
+    audio.channels.every(
+      (channel: unknown) =>
+        hasNumbers(channel, [...fields, ...envelope]) &&
+        Array.isArray(channel.queue) &&
+        channel.queue.every(isAudioNote),
+    )
+  );
+}
+
+function isTextState(text: unknown): boolean {
+  if (!hasNumbers(text, ["columns", "rows", "cursorX", "cursorY", "ctrl"])) {
+    return false;
+  }
+  const count = isSize(text.columns) && isSize(text.rows) ? text.columns * text.rows : NaN;
+  return isHex(text.chars, count) && isHex(text.attributes, count);
+}
+
+function isUartState(uart: unknown): boolean {
+  return (
+    hasNumbers(uart, ["ctrl", "rxTaken"]) &&
+    isNumberArray(uart.rx) &&
+    isNumberArray(uart.tx) &&
+    typeof uart.overrun === "boolean"
+  );
+}
+
+function isCpuState(cpu: unknown): boolean {
+  return (
+    hasNumbers(cpu, ["flags", "cycles"]) &&
+    isNumberArray(cpu.registers) &&
+    cpu.registers.length === REGISTER_COUNT &&
+    typeof cpu.halted === "boolean" &&
+    (cpu.exitCode === null || isNumber(cpu.exitCode))
+  );
+}
+
+/**
+ * Check every section of a snapshot, so restoring it cannot fail halfway
+ */
+function checkSections(snapshot: Fields): void {
+  const sections: [string, boolean][] = [
+    ["CPU", isCpuState(snapshot.cpu)],
+    [
+      "execution",
+      isNumber(snapshot.eip) &&
+        (snapshot.executionMode === "instruction-list" || snapshot.executionMode === "memory") &&
+        isNumberArray(snapshot.callStack),
+    ],
+    ["memory", isMemoryPages(snapshot.memoryA) && isMemoryPages(snapshot.memoryB)],
+    ["LCD", isLcdState(snapshot.lcd)],
+    ["keyboard", isKeyboardState(snapshot.keyboard)],
+    ["audio", isAudioState(snapshot.audio)],
+    ["PIC", hasNumbers(snapshot.pic, ["irr", "imr", "isr", "vectorBase"])],
+    ["timer", hasNumbers(snapshot.timer, ["ctrl", "reload", "counter", "status"])],
+    ["device", snapshot.devices === undefined || isRecord(snapshot.devices)],
+    ["text", isTextState(snapshot.text)],
+    ["UART", isUartState(snapshot.uart)],
+    ["RAND", hasNumbers(snapshot.random, ["seed", "state"])],
+    ["console", typeof snapshot.consoleOutput === "string"],
+  ];
+  for (const [name, valid] of sections) {
+    if (!valid) {
+      throw new Error(`Invalid snapshot: missing or malformed ${name} state`);
+    }
+  }
+}
+
+/**
+ * Check that a value is a snapshot this version of the simulator can restore
+ */
+export function validateSnapshot(value: unknown): SimulatorSnapshot {
+  if (!isRecord(value) || value.format !== SNAPSHOT_FORMAT) {
+    throw new Error("Invalid snapshot: not a TonX86 snapshot");
+  }
+  if (value.version !== SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported snapshot version: ${String(value.version)} (expected ${SNAPSHOT_VERSION})`,
+    );
+  }
+  checkSections(value);
+  return value as unknown as SimulatorSnapshot;
+}
+
+/**
+ * Serialize a snapshot to JSON text
+ */
+export function serializeSnapshot(snapshot: SimulatorSnapshot): string {
+  return JSON.stringify(snapshot, null, 2);
+}
+
+/**
+ * Parse and validate snapshot JSON text
+ */
+export function parseSnapshot(text: string): SimulatorSnapshot {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Invalid snapshot: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return validateSnapshot(value);
+}
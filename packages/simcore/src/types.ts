@@ -1,4 +1,5 @@
-import type { CPUState } from "./cpu/index";
+import type { CPUState, SimulatorException } from "./cpu/index";
+import type { DeviceMapping } from "./devices/bus";
 
 /**
  * Instruction interface - represents a parsed assembly instruction
@@ -14,15 +15,18 @@ export interface Instruction {
  * Operand types used by parseOperand
  */
 export type ParsedOperand = {
-  type: "register" | "register8" | "immediate" | "memory";
+  type: "register" | "register16" | "register8" | "immediate" | "memory";
   value: number;
-  base?: number;
-  offset?: number;
+  base?: number; // Memory: base register index, -1 = none
+  index?: number; // Memory: index register index, -1 = none
+  scale?: number; // Memory: index scale (1, 2, 4 or 8)
+  offset?: number; // Memory: displacement
+  size?: OperandWidth; // Memory: explicit BYTE/WORD/DWORD size
   byteOffset?: number;
 };
 
 export type RegisterOperand = {
-  type: "register" | "register8";
+  type: "register" | "register16" | "register8";
   value: number;
   byteOffset?: number;
 };
@@ -40,6 +44,89 @@ export interface KeyboardEvent {
  */
 export type CompatibilityMode = "educational" | "strict-x86";
 
+/**
+ * Where the simulator fetches instructions from:
+ * - "instruction-list": EIP indexes the parsed Instruction array
+ * - "memory": EIP is a byte address; instructions are decoded from memory bank A
+ */
+export type ExecutionMode = "instruction-list" | "memory";
+
+/**
+ * Optional settings for the Simulator constructor
+ */
+export interface SimulatorOptions {
+  /**
+   * Extra memory-mapped devices. Each range must lie inside the peripheral
+   * I/O window 0x10100-0x10FFF and not overlap a built-in device.
+   */
+  devices?: DeviceMapping[];
+  /** Size of the text display (default 80x25, at most TEXT_MAX_CELLS cells) */
+  textColumns?: number;
+  textRows?: number;
+  /** Simulated CPU clock rate in Hz, used to time queued audio notes (default 1 MHz) */
+  clockHz?: number;
+}
+
+/**
+ * Why Simulator.run() returned:
+ * - "halted": HLT, INT 20h, INT 21h AH=4Ch or the end of the program
+ * - "breakpoint": EIP reached a breakpoint line or address (not executed yet)
+ * - "watchpoint": the last instruction wrote to a watched address
+ * - "step-limit" / "cycle-limit": maxSteps or maxCycles ran out
+ * - "until": the `until` condition became true
+ * - "exception": a CPU exception with no IDT handler stopped the CPU
+ * - "waiting-for-input": an input service is blocked on an empty keyboard queue
+ */
+export type StopReason =
+  | "halted"
+  | "breakpoint"
+  | "watchpoint"
+  | "step-limit"
+  | "cycle-limit"
+  | "until"
+  | "exception"
+  | "waiting-for-input";
+
+/**
+ * Limits and stop conditions for Simulator.run(). Without a limit, run()
+ * only returns when the program stops by itself.
+ */
+export interface RunOptions {
+  /** Maximum number of instructions to execute */
+  maxSteps?: number;
+  /** Maximum number of clock cycles to execute */
+  maxCycles?: number;
+  /** Source lines to stop at, before their instruction executes */
+  breakpoints?: ReadonlySet<number>;
+  /**
+   * Ignore a breakpoint on the instruction run() starts at, as when resuming
+   * from it (default true)
+   */
+  skipInitialBreakpoint?: boolean;
+  /** Memory addresses to stop after a write to */
+  watchpoints?: ReadonlySet<number>;
+  /** Checked after every instruction; run() stops once it returns true */
+  until?: () => boolean;
+}
+
+/**
+ * Outcome of Simulator.run()
+ */
+export interface RunResult {
+  reason: StopReason;
+  /** Instructions executed */
+  steps: number;
+  /**
+   * Source line of the breakpoint or faulting instruction, otherwise of the
+   * last instruction executed (-1 if none, or after running off the end)
+   */
+  line: number;
+  /** Address written, for "watchpoint" */
+  address?: number;
+  /** The unhandled exception, for "exception" */
+  exception?: SimulatorException;
+}
+
 /**
  * Map of 32-bit register names to indices
  */
@@ -54,6 +141,20 @@ export const REGISTER_MAP: { [key: string]: number } = {
   EDI: 7,
 };
 
+/**
+ * Map of 16-bit register aliases to their parent register index (the low word)
+ */
+export const REGISTER16_MAP: { [key: string]: number } = {
+  AX: 0,
+  CX: 1,
+  DX: 2,
+  BX: 3,
+  SP: 4,
+  BP: 5,
+  SI: 6,
+  DI: 7,
+};
+
 /**
  * Map of 8-bit register aliases to their parent register index and byte offset
  */
@@ -70,6 +171,46 @@ export const REGISTER8_MAP: {
   BH: { reg: 3, byteOffset: 8 },
 };
 
+/**
+ * Operand size in bits
+ */
+export type OperandWidth = 8 | 16 | 32;
+
+/**
+ * Check whether a parsed operand names a register of any width
+ */
+export function isRegisterOperand(operand: ParsedOperand): operand is RegisterOperand {
+  return (
+    operand.type === "register" || operand.type === "register16" || operand.type === "register8"
+  );
+}
+
+/**
+ * Width of a register operand: 32 for EAX, 16 for AX, 8 for AL/AH
+ */
+export function getRegisterWidth(operand: RegisterOperand): OperandWidth {
+  if (operand.type === "register8") return 8;
+  if (operand.type === "register16") return 16;
+  return 32;
+}
+
+/**
+ * Mask selecting the low `width` bits of a value
+ */
+export function getWidthMask(width: OperandWidth): number {
+  return width === 32 ? 0xffffffff : (1 << width) - 1;
+}
+
+/**
+ * Check whether an address is memory-mapped I/O: the LCD pixels (0xF000-0xFFFF)
+ * and registers (0x10000-0x10002), a peripheral register (0x10100-0x10FFF:
+ * keyboard, audio, PIC, ...) or the text display (0x11000-0x11FFF). Unmapped
+ * addresses in this range raise #GP.
+ */
+export function isIOAddress(addr: number): boolean {
+  return addr >= 0xf000 && addr <= 0x11fff;
+}
+
 /**
  * Execution context interface - provides instruction handlers access to
  * simulator internals without coupling to the Simulator class directly.
@@ -86,7 +227,10 @@ export interface ExecutionContext {
     type: string;
     value: number;
     base?: number;
+    index?: number;
+    scale?: number;
     offset?: number;
+    size?: OperandWidth;
     byteOffset?: number;
   }): number;
 
@@ -95,6 +239,10 @@ export interface ExecutionContext {
   writeIO(address: number, value: number): void;
   readMemory32(address: number): number;
   writeMemory32(address: number, value: number): void;
+  /** Read a little-endian value of `width` bits from memory */
+  readMemory(address: number, width: OperandWidth): number;
+  /** Write the low `width` bits of `value` to memory, little-endian */
+  writeMemory(address: number, value: number, width: OperandWidth): void;
 
   // Stack
   pushStack(value: number): void;
@@ -103,10 +251,40 @@ export interface ExecutionContext {
   // Console output
   appendConsoleOutput(text: string): void;
 
+  /** Next RAND value in [0, 1) from the simulator's seeded generator */
+  random(): number;
+
   // Control flow - for jump/call/ret instructions
   resolveLabel(label: string): number | undefined;
+  /** EIP of the instruction at a code address (indirect branch targets, RET) */
+  codeAddressToEIP(address: number): number | undefined;
+  /** Code address of the instruction at an EIP (return addresses pushed by CALL) */
+  eipToCodeAddress(eip: number): number;
   getEIP(): number;
   setEIP(value: number): void;
+  /** EIP of the instruction following the current one */
+  getNextEIP(): number;
+  /** Call-depth tracking for the debugger; CALL/RET use the memory stack */
   pushCallStack(returnAddress: number): void;
   popCallStack(): number | undefined;
+
+  // Keyboard input services
+  /** Key code of the oldest queued key press, without removing it */
+  peekKey(): number | undefined;
+  /** Remove and return the oldest queued key press (releases before it are dropped) */
+  readKey(): number | undefined;
+  /** Whether a press of `keyCode` is queued */
+  isKeyQueued(keyCode: number): boolean;
+  /**
+   * Block on an empty keyboard queue: EIP stays on the current instruction,
+   * which runs again on the next step, and run() stops with "waiting-for-input"
+   */
+  waitForInput(): void;
+
+  // Interrupts
+  /**
+   * Enter the user handler installed in the IDT for `vector`: push FLAGS and
+   * the return EIP, clear IF and jump. Returns false if no handler is installed.
+   */
+  dispatchInterrupt(vector: number, returnEIP: number): boolean;
 }
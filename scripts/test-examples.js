@@ -9,7 +9,7 @@ const fs = require("fs");
 const path = require("path");
 
 // Import the simulator from compiled simcore package
-const { Simulator } = require("../packages/simcore/out/index.js");
+const { Simulator, renderAudio } = require("../packages/simcore/out/index.js");
 
 const EXAMPLES_DIR = path.join(__dirname, "..", "examples");
 const MAX_STEPS = 100000; // Maximum instruction steps before timeout
@@ -23,6 +23,30 @@ const EXPECTED_TIMEOUT_FILES = new Set([
   "25-keyboard-basics.asm",
 ]);
 
+// UART input fed to examples that read from the serial port, and the output they must send
+const SERIAL_SESSIONS = {
+  "44-serial-calculator.asm": {
+    input: "12+30\n100-58\n6*7\n84/2\n5/0\n2-9\nq\n",
+    output: "42\n42\n42\n42\n?\n-7\n",
+  },
+};
+
+// Keys typed (each pressed and released) for examples that use the keyboard
+// input services, and the console output they must produce
+const KEYBOARD_SESSIONS = {
+  "45-keyboard-services.asm": {
+    keys: "Ada\rhi 1qz",
+    output: "Name? Ada\nHello Ada!\nHI 1 (typed ahead)\n",
+  },
+};
+
+// Notes that music examples must play (counted once the queues have drained
+// after HLT) and the length of the rendered audio in seconds
+const AUDIO_SESSIONS = {
+  "47-music.asm": { notes: 21, seconds: 1.85 },
+};
+const AUDIO_SAMPLE_RATE = 8000; // Enough to measure the length of the rendered audio
+
 // All valid instruction mnemonics (must match simulator switch cases)
 const VALID_MNEMONICS = new Set([
   "MOV",
@@ -75,6 +99,8 @@ const VALID_MNEMONICS = new Set([
   "RET",
   "INT",
   "IRET",
+  "STI",
+  "CLI",
   "RAND",
   "HLT",
   "LOOP",
@@ -112,6 +138,32 @@ const VALID_MNEMONICS = new Set([
   "SCAS",
   "CMPSB",
   "CMPS",
+  "LODSW",
+  "LODSD",
+  "STOSW",
+  "STOSD",
+  "MOVSW",
+  "MOVSD",
+  "SCASW",
+  "SCASD",
+  "CMPSW",
+  "CMPSD",
+  "CLD",
+  "STD",
+  "REP",
+  "REPE",
+  "REPZ",
+  "REPNE",
+  "REPNZ",
+  "PUSHF",
+  "POPF",
+  "PUSHA",
+  "POPA",
+  "ENTER",
+  "LEAVE",
+  "CLC",
+  "STC",
+  "CMC",
   "INT3",
 ]);
 
@@ -140,6 +192,38 @@ const LABEL_INSTRUCTIONS = new Set([
   "LOOPNZ",
 ]);
 
+/**
+ * Parse a numeric or character literal
+ */
+function parseLiteral(text) {
+  if (/^'.'$/.test(text)) return text.charCodeAt(1);
+  if (/^0x/i.test(text)) return parseInt(text.substring(2), 16);
+  if (/^0b/i.test(text)) return parseInt(text.substring(2), 2);
+  return parseInt(text, 10);
+}
+
+/**
+ * Parse the values of a DB/DW/DD directive (label names are kept as strings)
+ */
+function parseDataDirective(directive, valuesStr, constants, address) {
+  const upper = directive.toUpperCase();
+  const size = upper === "DB" ? 1 : upper === "DW" ? 2 : 4;
+  const values = [];
+  for (const token of valuesStr.split(",")) {
+    const text = token.trim();
+    if (text.startsWith('"') && text.endsWith('"')) {
+      for (const ch of text.slice(1, -1)) values.push(ch.charCodeAt(0));
+    } else if (text in constants) {
+      values.push(parseLiteral(constants[text]));
+    } else if (/^[A-Za-z_]\w*$/.test(text)) {
+      values.push(text);
+    } else {
+      values.push(parseLiteral(text));
+    }
+  }
+  return { address, size, values };
+}
+
 /**
  * Parse an ASM file into instructions
  */
@@ -149,6 +233,7 @@ function parseASM(content) {
   const labels = {};
   const constants = {}; // EQU constants
   const dataLabels = {}; // Data section labels with memory addresses
+  const dataItems = []; // Data section contents to load into memory
   let lineNumber = 0;
   let currentSection = "text"; // 'text' or 'data'
   let dataAddress = 0x2000; // Default data start address
@@ -221,25 +306,10 @@ function parseASM(content) {
       // Data directive with label on same line
       const labelWithData = line.match(/^(\w+):\s*(DB|DW|DD)\s+(.+)/i);
       if (labelWithData) {
-        const labelName = labelWithData[1];
-        const directive = labelWithData[2].toUpperCase();
-        const values = labelWithData[3];
-        dataLabels[labelName] = dataAddress;
-
-        // Calculate size to advance address
-        // For simplicity, count comma-separated values
-        const valueCount = values.split(",").length;
-        const size = directive === "DB" ? 1 : directive === "DW" ? 2 : 4;
-
-        // Handle string literals
-        if (values.includes('"')) {
-          const strMatch = values.match(/"([^"]*)"/);
-          if (strMatch) {
-            dataAddress += strMatch[1].length;
-          }
-        } else {
-          dataAddress += valueCount * size;
-        }
+        dataLabels[labelWithData[1]] = dataAddress;
+        const item = parseDataDirective(labelWithData[2], labelWithData[3], constants, dataAddress);
+        dataItems.push(item);
+        dataAddress += item.values.length * item.size;
         continue;
       }
 
@@ -254,20 +324,9 @@ function parseASM(content) {
       if (/^(DB|DW|DD)\s+/i.test(line)) {
         const dataMatch = line.match(/^(DB|DW|DD)\s+(.+)/i);
         if (dataMatch) {
-          const directive = dataMatch[1].toUpperCase();
-          const values = dataMatch[2];
-          const valueCount = values.split(",").length;
-          const size = directive === "DB" ? 1 : directive === "DW" ? 2 : 4;
-
-          // Handle string literals
-          if (values.includes('"')) {
-            const strMatch = values.match(/"([^"]*)"/);
-            if (strMatch) {
-              dataAddress += strMatch[1].length;
-            }
-          } else {
-            dataAddress += valueCount * size;
-          }
+          const item = parseDataDirective(dataMatch[1], dataMatch[2], constants, dataAddress);
+          dataItems.push(item);
+          dataAddress += item.values.length * item.size;
         }
         continue;
       }
@@ -371,7 +430,14 @@ function parseASM(content) {
     lineNumber++;
   }
 
-  return { instructions, labels };
+  // Data labels become addresses; code labels are left for the simulator to resolve
+  for (const item of dataItems) {
+    item.values = item.values.map((value) =>
+      typeof value === "string" && value in dataLabels ? dataLabels[value] : value,
+    );
+  }
+
+  return { instructions, labels, dataItems };
 }
 
 /**
@@ -395,7 +461,8 @@ function validateASM(instructions, labels, fileName) {
     // Check label targets for jump/call instructions
     if (LABEL_INSTRUCTIONS.has(mnemonic)) {
       const operand = parts.slice(1).join(" ").trim();
-      if (operand && !(operand in labels)) {
+      const indirect = operand.startsWith("[") || /^E?(AX|BX|CX|DX|SI|DI|SP|BP)$/i.test(operand);
+      if (operand && !indirect && !(operand in labels)) {
         errors.push(`Line ${lineNumber}: ${mnemonic} references undefined label '${operand}'`);
       }
     }
@@ -412,7 +479,7 @@ function testASMFile(filePath) {
 
   try {
     const content = fs.readFileSync(filePath, "utf-8");
-    const { instructions, labels } = parseASM(content);
+    const { instructions, labels, dataItems } = parseASM(content);
 
     if (instructions.length === 0) {
       console.log(`⚠️  ${fileName}: No instructions found`);
@@ -462,23 +529,74 @@ function testASMFile(filePath) {
 
     // Load instructions and labels into simulator
     sim.loadInstructions(simInstructions, labelsMap);
+    sim.loadData(dataItems);
+    const serial = SERIAL_SESSIONS[fileName];
+    if (serial) {
+      sim.pushSerialInput(serial.input);
+    }
+    const keyboard = KEYBOARD_SESSIONS[fileName];
+    if (keyboard) {
+      for (const key of keyboard.keys) {
+        sim.pushKeyboardEvent(key.charCodeAt(0), true);
+        sim.pushKeyboardEvent(key.charCodeAt(0), false);
+      }
+    }
 
-    let steps = 0;
-    let halted = false;
-
-    // Execute using step() which properly handles control flow
-    while (!halted && steps < MAX_STEPS) {
-      const lineNum = sim.step();
+    const audio = AUDIO_SESSIONS[fileName];
+    const audioEvents = [];
+    if (audio) {
+      sim.setAudioEventCallback((event) => audioEvents.push(event));
+    }
 
-      if (lineNum === -1 || sim.getState().halted) {
-        halted = true;
-        break;
+    let steps = 0;
+    let result;
+
+    // run() stops at HLT, at the step limit or on an unhandled CPU exception
+    for (;;) {
+      result = sim.run({ maxSteps: MAX_STEPS - steps });
+      steps += result.steps;
+      // INT3 stops like a debugger breakpoint would; continue past it
+      if (result.reason === "exception" && result.exception.mnemonic === "#BP") {
+        steps++;
+        continue;
+      }
+      break;
+    }
+    if (result.reason === "exception") {
+      throw result.exception;
+    }
+    if (result.reason === "waiting-for-input") {
+      throw new Error(`Waiting for keyboard input at line ${result.line}`);
+    }
+    const halted = result.reason === "halted";
+    const { exitCode } = sim.getState();
+    if (halted && exitCode) {
+      throw new Error(`Exited with code ${exitCode}`);
+    }
+    if (serial) {
+      const output = String.fromCharCode(...sim.takeSerialOutput());
+      if (output !== serial.output) {
+        throw new Error(
+          `Serial output ${JSON.stringify(output)}, expected ${JSON.stringify(serial.output)}`,
+        );
+      }
+    }
+    if (keyboard && sim.getConsoleOutput() !== keyboard.output) {
+      throw new Error(
+        `Console output ${JSON.stringify(sim.getConsoleOutput())}, expected ${JSON.stringify(keyboard.output)}`,
+      );
+    }
+    if (audio) {
+      sim.flushAudio();
+      const seconds = renderAudio(audioEvents, AUDIO_SAMPLE_RATE).length / AUDIO_SAMPLE_RATE;
+      if (audioEvents.length !== audio.notes || Math.abs(seconds - audio.seconds) > 0.01) {
+        throw new Error(
+          `Played ${audioEvents.length} notes (${seconds.toFixed(2)} s), expected ${audio.notes} notes (${audio.seconds} s)`,
+        );
       }
-
-      steps++;
     }
 
-    if (steps >= MAX_STEPS) {
+    if (result.reason === "step-limit") {
       // Check if this is an expected timeout (interactive examples)
       if (EXPECTED_TIMEOUT_FILES.has(fileName)) {
         console.log(
@@ -489,7 +607,8 @@ function testASMFile(filePath) {
       throw new Error(`Timeout: exceeded ${MAX_STEPS} steps`);
     }
 
-    console.log(`✅ ${fileName}: ${steps} steps executed${halted ? " (halted)" : ""}`);
+    const ending = exitCode === null ? " (halted)" : ` (exit code ${exitCode})`;
+    console.log(`✅ ${fileName}: ${steps} steps executed${halted ? ending : ""}`);
     return { success: true, steps, halted };
   } catch (error) {
     console.log(`❌ ${fileName}: ${error.message}`);